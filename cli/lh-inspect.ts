@@ -0,0 +1,442 @@
+import { readFileSync, writeFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import { CliReport, StrategyReport, formatTable, toJUnit } from "./report";
+import { notifyRun } from "../server/alerts";
+import { SiteAnalysis, analyzeSite } from "../server/analysis";
+import { parseJobRequest } from "../server/requests";
+import { configureServices, providerUnavailableReason } from "../server/setup";
+import {
+  BUILT_IN_PROFILES,
+  DeviceProfile,
+  profileFor,
+} from "../src/lib/profiles";
+import type { RegressionResult } from "../src/lib/regressions";
+import {
+  rawReportKey,
+  strategiesOf,
+  strategyRuns,
+} from "../src/lib/strategies";
+import {
+  BaselineStorage,
+  LighthouseResult,
+  LighthouseStorage,
+  RawReports,
+  TeamStorage,
+  supabase,
+} from "../src/lib/supabase";
+import type { Strategy } from "../src/services/lighthouseService";
+import type { JobRequest } from "../src/services/jobClient";
+
+const USAGE = `Usage: lh-inspect run --url <url> [options]
+
+Options:
+  --url <url>              Site to analyze (required)
+  --routes <file|paths>    JSON file with paths or { path, name } routes, or
+                           comma separated paths (default: /)
+  --strategy <name>        mobile, desktop or both (default: mobile)
+  --provider <name>        pagespeed, or local to run Lighthouse against
+                           Chrome on this machine (default: pagespeed)
+  --runs <n>               Runs per route, aggregated to their median (1-5)
+  --concurrency <n>        Parallel PageSpeed requests (1-10)
+  --budget <file>          JSON file with a list of budgets
+  --profile <id|file>      Device and network to emulate, a built-in profile
+                           or a JSON file with one (local provider only);
+                           repeat for the two sides of --strategy both
+  --auth <file>            JSON file with headers, cookies and login steps
+                           for pages behind a login (local provider only);
+                           \${NAME} in its values is read from the environment
+  --team <id>              Team the run is saved to and whose baselines it
+                           is compared with; required with SUPABASE_URL
+  --set-baseline           Mark this run as the baseline later runs of the
+                           domain are compared with
+  --json <file>            Write the full report as JSON
+  --junit <file>           Write a JUnit XML report
+  --no-save                Do not store the run in the history
+  --no-alert               Do not send alerts to the domain's alert channels
+  -h, --help               Show this help
+
+Runs are compared route by route with the domain's baseline for the
+strategy, when one was set, using the baseline's tolerances. Budget
+failures and regressions are sent to the alert channels set up for the
+domain.
+
+Exit codes: 0 passed, 1 budgets failed or metrics regressed beyond the
+baseline's tolerances, 2 invalid arguments or routes that could not be
+analyzed.`;
+
+const EXIT_PASSED = 0;
+const EXIT_FAILED = 1;
+const EXIT_ERROR = 2;
+
+class UsageError extends Error {}
+
+// Analysis of one strategy of the run, before it is saved
+interface StrategyOutcome {
+  strategy: Strategy;
+  analysis: SiteAnalysis;
+  regressions: RegressionResult | null;
+  report: StrategyReport;
+}
+
+function readJsonFile(file: string): unknown {
+  try {
+    return JSON.parse(readFileSync(file, "utf8"));
+  } catch (error) {
+    throw new UsageError(
+      `Could not read ${file}: ${error instanceof Error ? error.message : error}`
+    );
+  }
+}
+
+function loadRoutes(value: string | undefined): unknown[] {
+  if (!value) return [{ path: "/", name: "Home Page" }];
+  const routes = value.endsWith(".json")
+    ? readJsonFile(value)
+    : value.split(",").map((path) => path.trim());
+  // Bare paths are accepted alongside { path, name } objects
+  return (Array.isArray(routes) ? routes : [routes]).map((route) =>
+    typeof route === "string" ? { path: route, name: route } : route
+  );
+}
+
+function loadBudgets(file: string | undefined): unknown {
+  if (!file) return undefined;
+  const budgets = readJsonFile(file);
+  // Also accept { "budgets": [...] }, the shape used in the README
+  return Array.isArray(budgets)
+    ? budgets
+    : (budgets as { budgets?: unknown })?.budgets;
+}
+
+// Keeps secrets out of the file: "${NAME}" anywhere in a string value is
+// replaced with the NAME environment variable, e.g. a CI secret
+function expandEnv(value: unknown): unknown {
+  if (typeof value === "string") {
+    return value.replace(/\$\{(\w+)\}/g, (_, name: string) => {
+      const expanded = process.env[name];
+      if (expanded === undefined) {
+        throw new UsageError(`--auth refers to \${${name}}, which is not set`);
+      }
+      return expanded;
+    });
+  }
+  if (Array.isArray(value)) return value.map(expandEnv);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, expandEnv(item)])
+    );
+  }
+  return value;
+}
+
+function loadAuth(file: string | undefined): unknown {
+  return file ? expandEnv(readJsonFile(file)) : undefined;
+}
+
+// Keyed by form factor, as job requests take them
+function loadProfiles(values: string[] | undefined): unknown {
+  if (!values?.length) return undefined;
+  const profiles: Record<string, unknown> = {};
+  for (const value of values) {
+    const profile = value.endsWith(".json")
+      ? (readJsonFile(value) as DeviceProfile)
+      : BUILT_IN_PROFILES.find((builtIn) => builtIn.id === value);
+    if (!profile) {
+      throw new UsageError(
+        `Unknown profile "${value}"; built-in profiles are ${BUILT_IN_PROFILES.map((builtIn) => builtIn.id).join(", ")}`
+      );
+    }
+    profiles[profile.formFactor] = profile;
+  }
+  return profiles;
+}
+
+function parseNumber(name: string, value: string | undefined) {
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  if (!Number.isFinite(number)) {
+    throw new UsageError(`--${name} must be a number`);
+  }
+  return number;
+}
+
+// Builds a validated job request, reusing the job server's request
+// validation
+function buildRequest(
+  values: Record<string, string | string[] | boolean | undefined>
+): JobRequest {
+  try {
+    const request = parseJobRequest({
+      url: values.url,
+      routes: loadRoutes(values.routes as string | undefined),
+      strategy: values.strategy ?? "mobile",
+      provider: values.provider,
+      runs: parseNumber("runs", values.runs as string | undefined),
+      concurrency: parseNumber(
+        "concurrency",
+        values.concurrency as string | undefined
+      ),
+      budgets: loadBudgets(values.budget as string | undefined),
+      auth: loadAuth(values.auth as string | undefined),
+      profiles: loadProfiles(values.profile as string[] | undefined),
+    });
+    return { ...request, teamId: values.team as string | undefined };
+  } catch (error) {
+    if (error instanceof UsageError) throw error;
+    throw new UsageError(
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+}
+
+// Analyzes one strategy of the run and compares it with the domain's
+// baseline for that strategy
+async function analyzeStrategy(
+  request: JobRequest,
+  strategy: Strategy
+): Promise<StrategyOutcome> {
+  const analysis = await analyzeSite({ ...request, strategy });
+  const { results, errors, budgetResults } = analysis;
+
+  // Compared here rather than on save so runs with --no-save are checked too
+  const baseline = await BaselineStorage.getBaseline(
+    LighthouseStorage.extractDomain(request.url),
+    strategy,
+    request.teamId ?? null
+  );
+  const regressions = baseline
+    ? BaselineStorage.compare(baseline, results)
+    : null;
+
+  const routes: StrategyReport["routes"] = {};
+  for (const [path, metrics] of Object.entries(results)) {
+    const { audits, fieldData, ...summary } = metrics;
+    routes[path] = summary;
+  }
+
+  return {
+    strategy,
+    analysis,
+    regressions,
+    report: {
+      strategy,
+      profile: profileFor(request.profiles, strategy).name,
+      resultId: null,
+      averages: LighthouseStorage.calculateAverageScores(results),
+      routes,
+      errors,
+      budgets: budgetResults,
+      regressions,
+    },
+  };
+}
+
+// Saves the strategies as one run, as the job server does: a "both" run
+// keeps each side in strategy_results and its raw reports keyed by side
+async function saveRun(
+  request: JobRequest,
+  outcomes: StrategyOutcome[],
+  options: { save: boolean; setBaseline: boolean; alert: boolean }
+): Promise<LighthouseResult | null> {
+  const both = request.strategy === "both";
+  const single = both ? null : outcomes[0];
+  const rawReports: RawReports = {};
+  for (const { strategy, analysis } of outcomes) {
+    for (const [path, report] of Object.entries(analysis.rawReports)) {
+      rawReports[rawReportKey(request.strategy, strategy, path)] = report;
+    }
+  }
+  const strategyResults = Object.fromEntries(
+    outcomes.map(({ strategy, analysis, regressions }) => [
+      strategy,
+      {
+        results: analysis.results,
+        budget_results: analysis.budgetResults,
+        regression_results: regressions,
+      },
+    ])
+  );
+
+  const saved = options.save
+    ? await LighthouseStorage.saveResult(
+        {
+          url: request.url,
+          timestamp: Date.now(),
+          strategy: request.strategy,
+          provider: request.provider ?? "pagespeed",
+          profiles: request.profiles ?? null,
+          team_id: request.teamId ?? null,
+          budget_results: single?.analysis.budgetResults ?? null,
+          regression_results: single?.regressions ?? null,
+          strategy_results: single ? null : strategyResults,
+          routes: request.routes,
+          results: single?.analysis.results ?? {},
+        },
+        rawReports
+      )
+    : null;
+
+  if (saved && options.setBaseline) {
+    for (const run of strategyRuns(saved)) {
+      await BaselineStorage.setBaseline({
+        ...saved,
+        ...run,
+        strategy: run.strategy!,
+      });
+    }
+  }
+  if (options.alert) {
+    await notifyRun(
+      saved ?? {
+        id: null,
+        url: request.url,
+        timestamp: Date.now(),
+        strategy: request.strategy,
+        results: single?.analysis.results ?? {},
+        avg_scores: LighthouseStorage.combineAverageScores(
+          outcomes.map(({ analysis, report }) => ({
+            results: analysis.results,
+            avg_scores: report.averages,
+          }))
+        ),
+        budget_results: single?.analysis.budgetResults ?? null,
+        regression_results: single?.regressions ?? null,
+        strategy_results: single
+          ? null
+          : Object.fromEntries(
+              outcomes.map(({ strategy, report }) => [
+                strategy,
+                { ...strategyResults[strategy], avg_scores: report.averages },
+              ])
+            ),
+        team_id: request.teamId ?? null,
+      }
+    );
+  }
+  return saved;
+}
+
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      url: { type: "string" },
+      routes: { type: "string" },
+      strategy: { type: "string" },
+      provider: { type: "string" },
+      runs: { type: "string" },
+      concurrency: { type: "string" },
+      budget: { type: "string" },
+      profile: { type: "string", multiple: true },
+      auth: { type: "string" },
+      team: { type: "string" },
+      "set-baseline": { type: "boolean" },
+      json: { type: "string" },
+      junit: { type: "string" },
+      "no-save": { type: "boolean" },
+      "no-alert": { type: "boolean" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return EXIT_PASSED;
+  }
+  if (positionals[0] !== "run") {
+    throw new UsageError(
+      positionals[0] ? `Unknown command "${positionals[0]}"` : "Missing command"
+    );
+  }
+
+  const request = buildRequest(values);
+  if (values["set-baseline"] && values["no-save"]) {
+    throw new UsageError("--set-baseline needs the run to be saved");
+  }
+
+  configureServices();
+  const unavailable = providerUnavailableReason(
+    request.provider ?? "pagespeed"
+  );
+  if (unavailable) throw new UsageError(unavailable);
+
+  // Whoever holds the service role key can write to any team, so the team is
+  // only checked to exist
+  if (supabase) {
+    if (!values.team) {
+      throw new UsageError("--team is required when Supabase is configured");
+    }
+    if (!(await TeamStorage.getTeam(values.team))) {
+      throw new UsageError(`Team ${values.team} does not exist`);
+    }
+  }
+
+  const report: CliReport = {
+    url: request.url,
+    startedAt: new Date().toISOString(),
+    passed: true,
+    exitCode: EXIT_PASSED,
+    reports: [],
+  };
+
+  // Strategies run one after another so they share the rate limit fairly,
+  // and are saved together as one run
+  const outcomes: StrategyOutcome[] = [];
+  for (const strategy of strategiesOf(request.strategy)) {
+    const outcome = await analyzeStrategy(request, strategy);
+    outcomes.push(outcome);
+    console.log(`\n${formatTable(outcome.report)}`);
+  }
+  const saved = await saveRun(request, outcomes, {
+    save: !values["no-save"],
+    setBaseline: !!values["set-baseline"],
+    alert: !values["no-alert"],
+  });
+  report.reports = outcomes.map((outcome) => ({
+    ...outcome.report,
+    resultId: saved?.id ?? null,
+  }));
+
+  const hasErrors = report.reports.some(
+    (strategyReport) => Object.keys(strategyReport.errors).length > 0
+  );
+  const hasFailures = report.reports.some(
+    (strategyReport) =>
+      strategyReport.budgets?.passed === false ||
+      strategyReport.regressions?.regressed === true
+  );
+  report.passed = !hasErrors && !hasFailures;
+  report.exitCode = hasErrors
+    ? EXIT_ERROR
+    : hasFailures
+      ? EXIT_FAILED
+      : EXIT_PASSED;
+
+  if (values.json) {
+    writeFileSync(values.json, `${JSON.stringify(report, null, 2)}\n`);
+  }
+  if (values.junit) {
+    writeFileSync(values.junit, toJUnit(report));
+  }
+
+  console.log(
+    `\n${report.passed ? "PASSED" : "FAILED"} (exit code ${report.exitCode})`
+  );
+  return report.exitCode;
+}
+
+main(process.argv.slice(2)).then(
+  (code) => process.exit(code),
+  (error) => {
+    if (
+      error instanceof UsageError ||
+      error?.code?.startsWith("ERR_PARSE_ARGS")
+    ) {
+      console.error(`lh-inspect: ${error.message}\n\n${USAGE}`);
+    } else {
+      console.error("lh-inspect:", error);
+    }
+    process.exit(EXIT_ERROR);
+  }
+);
@@ -0,0 +1,218 @@
+import { BudgetResult, describeCheck } from "../src/lib/budgets";
+import { formatVital } from "../src/lib/metrics";
+import { RegressionResult, describeRegression } from "../src/lib/regressions";
+import { describeFailure, isMeasured } from "../src/lib/routeStatus";
+import type { LighthouseResult, RouteResult } from "../src/lib/supabase";
+import type { Strategy } from "../src/services/lighthouseService";
+
+export interface StrategyReport {
+  strategy: Strategy;
+  // The emulated device and network
+  profile: string;
+  // Null with --no-save
+  resultId: string | null;
+  averages: LighthouseResult["avg_scores"];
+  // Per-route metrics without audits and field data; failed routes carry
+  // their status and error in place of scores
+  routes: Record<string, Omit<RouteResult, "audits" | "fieldData">>;
+  // Routes that could not be analyzed, with the error
+  errors: Record<string, string>;
+  budgets: BudgetResult | null;
+  // Null when the domain has no baseline for the strategy
+  regressions: RegressionResult | null;
+}
+
+export interface CliReport {
+  url: string;
+  startedAt: string;
+  passed: boolean;
+  exitCode: number;
+  reports: StrategyReport[];
+}
+
+function formatRow(cells: string[], widths: number[]): string {
+  return cells
+    .map((cell, index) =>
+      index === 0 ? cell.padEnd(widths[index]) : cell.padStart(widths[index])
+    )
+    .join("  ")
+    .trimEnd();
+}
+
+// Plain-text summary for the terminal and CI logs
+export function formatTable(report: StrategyReport): string {
+  const header = [
+    "Route",
+    "Perf",
+    "A11y",
+    "BP",
+    "SEO",
+    "LCP",
+    "CLS",
+    "TBT",
+    "Budget",
+    "Baseline",
+  ];
+  const rows = Object.entries(report.routes).map(([path, metrics]) => {
+    const budget = report.budgets?.routes[path];
+    const status = report.errors[path]
+      ? "ERROR"
+      : !budget
+        ? "-"
+        : budget.passed
+          ? "pass"
+          : "FAIL";
+    if (!isMeasured(metrics)) {
+      return [path, "-", "-", "-", "-", "-", "-", "-", status, "-"];
+    }
+    const regressions = report.regressions?.routes[path];
+    const baseline = !regressions
+      ? "-"
+      : regressions.length > 0
+        ? "REGRESSED"
+        : "ok";
+    return [
+      path,
+      String(metrics.performance),
+      String(metrics.accessibility),
+      String(metrics.bestPractices),
+      String(metrics.seo),
+      formatVital("lcp", metrics.lcp),
+      formatVital("cls", metrics.cls),
+      formatVital("tbt", metrics.tbt),
+      status,
+      baseline,
+    ];
+  });
+  const average = [
+    "Average",
+    String(report.averages.performance),
+    String(report.averages.accessibility),
+    String(report.averages.bestPractices),
+    String(report.averages.seo),
+    "",
+    "",
+    "",
+    "",
+    "",
+  ];
+
+  const widths = header.map((_, column) =>
+    Math.max(...[header, ...rows, average].map((row) => row[column].length))
+  );
+  const rule = widths.map((width) => "-".repeat(width)).join("  ");
+
+  const lines = [
+    `Strategy: ${report.strategy} (${report.profile})`,
+    formatRow(header, widths),
+    rule,
+    ...rows.map((row) => formatRow(row, widths)),
+    rule,
+    formatRow(average, widths),
+  ];
+
+  for (const [path, error] of Object.entries(report.errors)) {
+    const route = report.routes[path];
+    lines.push(
+      `  ERROR ${path}: ${route ? describeFailure({ ...route, error }) : error}`
+    );
+  }
+  for (const [path, route] of Object.entries(report.budgets?.routes ?? {})) {
+    for (const check of route.checks.filter((check) => !check.passed)) {
+      lines.push(`  FAIL  ${path}: ${describeCheck(check)}`);
+    }
+  }
+  for (const [path, regressions] of Object.entries(
+    report.regressions?.routes ?? {}
+  )) {
+    for (const regression of regressions) {
+      lines.push(`  REGR  ${path}: ${describeRegression(regression)}`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+interface TestCase {
+  name: string;
+  failure?: string[];
+  error?: string;
+}
+
+// One test suite per strategy with a test case per route, failing on
+// budget checks and on regressions against the baseline
+export function toJUnit(report: CliReport): string {
+  const suites = report.reports.map((strategyReport) => {
+    const cases: TestCase[] = Object.keys(strategyReport.routes).map((path) => {
+      const route = strategyReport.routes[path];
+      const error = strategyReport.errors[path]
+        ? describeFailure({ ...route, error: strategyReport.errors[path] })
+        : undefined;
+      const checks = strategyReport.budgets?.routes[path]?.checks ?? [];
+      const failures = [
+        ...checks.filter((check) => !check.passed).map(describeCheck),
+        ...(strategyReport.regressions?.routes[path] ?? []).map(
+          (regression) => `${describeRegression(regression)} since baseline`
+        ),
+      ];
+      return {
+        name: path,
+        error,
+        failure: failures.length > 0 ? failures : undefined,
+      };
+    });
+
+    const failures = cases.filter((testCase) => testCase.failure).length;
+    const errors = cases.filter((testCase) => testCase.error).length;
+    const body = cases
+      .map((testCase) => {
+        const attributes = `classname="${escapeXml(
+          `${report.url} (${strategyReport.strategy})`
+        )}" name="${escapeXml(testCase.name)}"`;
+        if (testCase.error) {
+          return `    <testcase ${attributes}>\n      <error message="${escapeXml(
+            testCase.error
+          )}"/>\n    </testcase>`;
+        }
+        if (testCase.failure) {
+          return `    <testcase ${attributes}>\n      <failure message="${escapeXml(
+            testCase.failure[0]
+          )}">${escapeXml(testCase.failure.join("\n"))}</failure>\n    </testcase>`;
+        }
+        return `    <testcase ${attributes}/>`;
+      })
+      .join("\n");
+
+    return {
+      tests: cases.length,
+      failures,
+      errors,
+      xml: `  <testsuite name="${escapeXml(
+        `${report.url} (${strategyReport.strategy})`
+      )}" tests="${cases.length}" failures="${failures}" errors="${errors}" timestamp="${
+        report.startedAt
+      }">\n${body}\n  </testsuite>`,
+    };
+  });
+
+  const total = (key: "tests" | "failures" | "errors") =>
+    suites.reduce((sum, suite) => sum + suite[key], 0);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="lh-inspect" tests="${total("tests")}" failures="${total(
+      "failures"
+    )}" errors="${total("errors")}">`,
+    ...suites.map((suite) => suite.xml),
+    "</testsuites>",
+    "",
+  ].join("\n");
+}
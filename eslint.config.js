@@ -23,6 +23,17 @@ export default tseslint.config(
         'warn',
         { allowConstantExport: true },
       ],
+      // Destructuring with a rest element is how fields are dropped
+      '@typescript-eslint/no-unused-vars': [
+        'error',
+        { ignoreRestSiblings: true },
+      ],
+    },
+  },
+  {
+    files: ['server/**/*.ts', 'cli/**/*.ts'],
+    languageOptions: {
+      globals: globals.node,
     },
   }
 );
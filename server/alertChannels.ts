@@ -0,0 +1,76 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { sendTestAlert } from "./alerts";
+import { RequestAuth, ownedByTeam } from "./auth";
+import { HttpError, readJson, sendJson } from "./http";
+import { parseAlertChannelInput, parseAlertTarget } from "./requests";
+import { AlertChannelStorage } from "../src/lib/supabase";
+
+// /api/alerts and /api/alerts/:id[/test]
+export async function handleAlertChannels(
+  req: IncomingMessage,
+  res: ServerResponse,
+  auth: RequestAuth | null,
+  id: string | undefined,
+  action: string | undefined
+): Promise<void> {
+  if (!id) {
+    if (req.method === "GET") {
+      return sendJson(
+        res,
+        200,
+        await AlertChannelStorage.getChannels(auth?.teamId)
+      );
+    }
+    if (req.method === "POST") {
+      const input = parseAlertChannelInput(await readJson(req));
+      const channel = await AlertChannelStorage.createChannel({
+        ...input,
+        owner_id: auth?.userId ?? null,
+        team_id: auth?.teamId ?? null,
+      });
+      return sendJson(res, 201, channel);
+    }
+    throw new HttpError(405, "Method not allowed");
+  }
+
+  const channel = await AlertChannelStorage.getChannel(id);
+  if (!channel || !ownedByTeam(auth, channel.team_id)) {
+    throw new HttpError(404, "Alert channel not found");
+  }
+
+  if (!action && req.method === "PATCH") {
+    const changes = parseAlertChannelInput(await readJson(req), true);
+    if (changes.type !== undefined || changes.target !== undefined) {
+      changes.target = parseAlertTarget(
+        changes.type ?? channel.type,
+        changes.target ?? channel.target
+      );
+    }
+    return sendJson(
+      res,
+      200,
+      await AlertChannelStorage.updateChannel(id, changes)
+    );
+  }
+  if (!action && req.method === "DELETE") {
+    await AlertChannelStorage.deleteChannel(id);
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+  if (action === "test" && req.method === "POST") {
+    try {
+      await sendTestAlert(channel);
+    } catch (error) {
+      throw new HttpError(
+        502,
+        `Test alert failed: ${error instanceof Error ? error.message : error}`
+      );
+    }
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  throw new HttpError(405, "Method not allowed");
+}
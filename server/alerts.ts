@@ -0,0 +1,272 @@
+import { config } from "./config";
+import { sendMail } from "./smtp";
+import { BudgetMetric, describeCheck } from "../src/lib/budgets";
+import { describeRegression } from "../src/lib/regressions";
+import { STRATEGY_LABELS, strategyRuns } from "../src/lib/strategies";
+import {
+  AlertChannel,
+  AlertChannelStorage,
+  LighthouseResult,
+  LighthouseStorage,
+} from "../src/lib/supabase";
+import type { Strategy } from "../src/services/lighthouseService";
+
+// Alerts on runs that fail their budgets or regress against the baseline,
+// sent to the channels set up for the run's domain and team. Called by the
+// job queue for monitor runs and by the CLI.
+
+export interface AlertFailure {
+  // Null for runs saved before the strategy was recorded
+  strategy: Strategy | null;
+  route: string;
+  kind: "budget" | "regression";
+  metric: BudgetMetric;
+  // e.g. "LCP 3.1s > 2.5s"
+  description: string;
+}
+
+// What an alert needs of a run; CLI runs with --no-save have no id
+export type AlertRun = Pick<
+  LighthouseResult,
+  | "url"
+  | "timestamp"
+  | "strategy"
+  | "results"
+  | "avg_scores"
+  | "budget_results"
+  | "regression_results"
+  | "strategy_results"
+  | "team_id"
+> & { id: string | null };
+
+// The body posted to generic webhooks
+export interface AlertPayload {
+  event: "lighthouse.alert" | "lighthouse.test";
+  domain: string;
+  url: string;
+  timestamp: string;
+  runId: string | null;
+  runUrl: string | null;
+  failures: AlertFailure[];
+  // The same summary sent to chat and email channels
+  subject: string;
+  text: string;
+}
+
+const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+
+export function collectFailures(run: AlertRun): AlertFailure[] {
+  return strategyRuns(run).flatMap(
+    ({ strategy, budget_results, regression_results }) => [
+      ...Object.entries(budget_results?.routes ?? {}).flatMap(
+        ([route, result]) =>
+          result.checks
+            .filter((check) => !check.passed)
+            .map((check) => ({
+              strategy,
+              route,
+              kind: "budget" as const,
+              metric: check.metric,
+              description: describeCheck(check),
+            }))
+      ),
+      ...Object.entries(regression_results?.routes ?? {}).flatMap(
+        ([route, regressions]) =>
+          regressions.map((regression) => ({
+            strategy,
+            route,
+            kind: "regression" as const,
+            metric: regression.metric,
+            description: `${describeRegression(regression)} since the baseline`,
+          }))
+      ),
+    ]
+  );
+}
+
+// Identifies a failure across runs for the cooldown
+const failureKey = (failure: AlertFailure) =>
+  [failure.strategy ?? "", failure.route, failure.metric, failure.kind].join(
+    " "
+  );
+
+// Deep link into the web app, see src/lib/router.ts
+const runUrl = (id: string | null) =>
+  id ? `${config.appUrl}/runs/${encodeURIComponent(id)}` : null;
+
+function buildAlert(
+  run: AlertRun,
+  failures: AlertFailure[],
+  suppressed: number,
+  event: AlertPayload["event"] = "lighthouse.alert"
+): AlertPayload {
+  const domain = LighthouseStorage.extractDomain(run.url);
+  const timestamp = LighthouseStorage.normalizeTimestamp(run.timestamp);
+  const link = runUrl(run.id);
+  const subject =
+    event === "lighthouse.test"
+      ? `Lighthouse test alert for ${domain}`
+      : `Lighthouse alert: ${domain} failed ${failures.length} check${
+          failures.length !== 1 ? "s" : ""
+        }`;
+
+  const lines = failures.map((failure) => {
+    const strategy = failure.strategy
+      ? ` (${STRATEGY_LABELS[failure.strategy]})`
+      : "";
+    const kind = failure.kind === "budget" ? "over budget" : "regressed";
+    return `• ${failure.route}${strategy}: ${failure.description}, ${kind}`;
+  });
+  const text = [
+    subject,
+    `Run of ${run.url} at ${new Date(timestamp).toUTCString()}`,
+    "",
+    ...lines,
+    ...(suppressed > 0
+      ? [
+          `Plus ${suppressed} failure${suppressed !== 1 ? "s" : ""} already alerted on recently.`,
+        ]
+      : []),
+    "",
+    event === "lighthouse.test"
+      ? "This is a test alert; no run failed."
+      : link
+        ? `View the run: ${link}`
+        : "The run was not saved.",
+  ].join("\n");
+
+  return {
+    event,
+    domain,
+    url: run.url,
+    timestamp,
+    runId: run.id,
+    runUrl: link,
+    failures,
+    subject,
+    text,
+  };
+}
+
+async function postJson(url: string, body: unknown): Promise<void> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+  }).catch((error) => {
+    // fetch only says "fetch failed"; the cause names the network error
+    const cause = error?.cause?.message ?? error?.message ?? error;
+    throw new Error(`Could not reach ${new URL(url).host}: ${cause}`);
+  });
+  if (!response.ok) {
+    throw new Error(
+      `Webhook responded with ${response.status} ${response.statusText}`
+    );
+  }
+}
+
+async function deliver(
+  channel: AlertChannel,
+  alert: AlertPayload
+): Promise<void> {
+  switch (channel.type) {
+    case "webhook":
+      return postJson(channel.target, alert);
+    case "slack":
+      // Slack and Teams incoming webhooks both accept a plain `text` field
+      return postJson(channel.target, { text: alert.text });
+    case "email":
+      if (!config.smtp) {
+        throw new Error("Email alerts need SMTP_HOST set on the job server");
+      }
+      return sendMail(config.smtp, {
+        to: channel.target.split(",").map((address) => address.trim()),
+        subject: alert.subject,
+        text: alert.text,
+      });
+  }
+}
+
+// Sends each enabled channel the failures it was not alerted on within the
+// cooldown. Delivery errors are logged rather than thrown so one broken
+// channel does not hold up the others or the run.
+export async function notifyRun(run: AlertRun): Promise<void> {
+  const failures = collectFailures(run);
+  if (failures.length === 0) return;
+
+  const channels = (
+    await AlertChannelStorage.getChannels(
+      undefined,
+      LighthouseStorage.extractDomain(run.url)
+    )
+  ).filter(
+    (channel) =>
+      channel.enabled && (channel.team_id ?? null) === (run.team_id ?? null)
+  );
+
+  const now = Date.now();
+  const recent = (sentAt: string | undefined) =>
+    !!sentAt && now - Date.parse(sentAt) < config.alertCooldownMs;
+
+  for (const channel of channels) {
+    const due = failures.filter(
+      (failure) => !recent(channel.last_alerted[failureKey(failure)])
+    );
+    if (due.length === 0) continue;
+
+    try {
+      await deliver(
+        channel,
+        buildAlert(run, due, failures.length - due.length)
+      );
+      // Expired entries no longer hold anything back, so they are dropped
+      const lastAlerted = Object.fromEntries(
+        Object.entries(channel.last_alerted).filter(([, sentAt]) =>
+          recent(sentAt)
+        )
+      );
+      for (const failure of due) {
+        lastAlerted[failureKey(failure)] = new Date(now).toISOString();
+      }
+      await AlertChannelStorage.updateChannel(channel.id, {
+        last_alerted: lastAlerted,
+      });
+    } catch (error) {
+      console.error(
+        `Alert to ${channel.type} channel ${channel.id} failed:`,
+        error
+      );
+    }
+  }
+}
+
+// A made-up failure sent on request, to check a channel is set up right.
+// Errors are thrown to the caller and the cooldown is left alone.
+export async function sendTestAlert(channel: AlertChannel): Promise<void> {
+  const run: AlertRun = {
+    id: null,
+    url: `https://${channel.domain}/`,
+    timestamp: Date.now(),
+    strategy: "mobile",
+    results: {},
+    avg_scores: { performance: 0, accessibility: 0, bestPractices: 0, seo: 0 },
+    budget_results: null,
+    regression_results: null,
+    strategy_results: null,
+    team_id: channel.team_id,
+  };
+  const failure: AlertFailure = {
+    strategy: "mobile",
+    route: "/",
+    kind: "budget",
+    metric: "lcp",
+    description: describeCheck({
+      metric: "lcp",
+      value: 3100,
+      limit: 2500,
+      passed: false,
+    }),
+  };
+  await deliver(channel, buildAlert(run, [failure], 0, "lighthouse.test"));
+}
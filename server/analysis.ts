@@ -0,0 +1,85 @@
+import { BudgetResult, evaluateBudgets } from "../src/lib/budgets";
+import type { RawReports, RouteResult } from "../src/lib/supabase";
+import {
+  AnalyzeRoutesOptions,
+  LighthouseService,
+  Strategy,
+} from "../src/services/lighthouseService";
+import type { JobRequest } from "../src/services/jobClient";
+
+export interface SiteAnalysis {
+  // Routes where every run failed have a status other than "ok" and the
+  // last error
+  results: Record<string, RouteResult>;
+  rawReports: RawReports;
+  // The last error of each failed route, as in `results`
+  errors: Record<string, string>;
+  budgetResults: BudgetResult | null;
+}
+
+// Analyzes the routes of a request and shapes the outcome for storage. Shared
+// by the job queue and the CLI so both save the same thing. Covers a single
+// strategy; "both" requests are analyzed once per strategy.
+export async function analyzeSite(
+  request: Omit<JobRequest, "monitorId" | "ownerId" | "teamId" | "strategy"> & {
+    strategy: Strategy;
+  },
+  options: Pick<AnalyzeRoutesOptions, "signal" | "onProgress"> = {}
+): Promise<SiteAnalysis> {
+  const {
+    url,
+    routes,
+    strategy,
+    provider,
+    concurrency,
+    runs,
+    budgets,
+    auth,
+    profiles,
+  } = request;
+  const results: Record<string, RouteResult> = {};
+  const rawReports: RawReports = {};
+  const errors: Record<string, string> = {};
+
+  const analyses = await LighthouseService.analyzeRoutes(
+    url,
+    routes.map((route) => route.path),
+    {
+      strategy,
+      provider,
+      concurrency,
+      runs,
+      auth,
+      profile: profiles?.[strategy],
+      ...options,
+    }
+  );
+
+  for (const [path, analysis] of Object.entries(analyses)) {
+    if (analysis.ok) {
+      const { metrics, fieldData, audits, fullData, stats } = analysis;
+      results[path] = {
+        ...metrics,
+        status: "ok",
+        fieldData,
+        audits,
+        runs: analysis.runs,
+        stats,
+      };
+      rawReports[path] = fullData;
+    } else {
+      results[path] = LighthouseService.getErrorMetrics(
+        analysis.status,
+        analysis.error
+      );
+      errors[path] = analysis.error;
+    }
+  }
+
+  return {
+    results,
+    rawReports,
+    errors,
+    budgetResults: evaluateBudgets(budgets ?? [], results),
+  };
+}
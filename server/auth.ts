@@ -0,0 +1,45 @@
+import type { IncomingMessage } from "node:http";
+import { HttpError } from "./http";
+import { TeamStorage, supabase } from "../src/lib/supabase";
+
+// The signed-in caller and the team the request acts for
+export interface RequestAuth {
+  userId: string;
+  teamId: string;
+}
+
+// With Supabase configured, every request other than the health check must
+// carry the caller's access token and the team it acts for, sent by the app
+// as `Authorization: Bearer <token>` and `X-Team-Id`. Without Supabase the
+// server is single-user, like the app's local storage mode, and returns null.
+export async function authenticate(
+  req: IncomingMessage
+): Promise<RequestAuth | null> {
+  if (!supabase) return null;
+
+  const token = req.headers.authorization?.match(/^Bearer (.+)$/)?.[1];
+  if (!token) throw new HttpError(401, "Sign in required");
+
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) {
+    throw new HttpError(401, "Session expired; sign in again");
+  }
+
+  const teamId = req.headers["x-team-id"];
+  if (typeof teamId !== "string" || !teamId) {
+    throw new HttpError(400, "X-Team-Id header is required");
+  }
+  if (!(await TeamStorage.getRole(teamId, data.user.id))) {
+    throw new HttpError(403, "Not a member of this team");
+  }
+
+  return { userId: data.user.id, teamId };
+}
+
+// Rows of other teams are reported as missing rather than forbidden
+export function ownedByTeam(
+  auth: RequestAuth | null,
+  teamId: string | null | undefined
+): boolean {
+  return !auth || teamId === auth.teamId;
+}
@@ -0,0 +1,64 @@
+import { existsSync } from "node:fs";
+import path from "node:path";
+
+// Load a local .env when present; real deployments set the variables directly
+if (existsSync(".env")) {
+  process.loadEnvFile(".env");
+}
+
+export const config = {
+  port: Number(process.env.PORT) || 8787,
+  // Origin allowed to call the API directly; not needed behind the Vite proxy
+  corsOrigin: process.env.CORS_ORIGIN || "*",
+  pageSpeedApiKey: process.env.PAGESPEED_API_KEY,
+  // Point at the mock server (npm run mock:pagespeed) to work offline
+  pageSpeedApiUrl: process.env.PAGESPEED_API_URL,
+  // Parallel requests per job and the shared quota across all jobs
+  pageSpeedConcurrency: Number(process.env.PAGESPEED_CONCURRENCY) || 3,
+  pageSpeedRequestsPerMinute:
+    Number(process.env.PAGESPEED_REQUESTS_PER_MINUTE) || 60,
+  pageSpeedMaxRetries: Number(process.env.PAGESPEED_MAX_RETRIES ?? 4),
+  // Local Lighthouse runs against Chrome on this machine (CHROME_PATH when it
+  // is not installed in a standard location)
+  localLighthouseEnabled: process.env.LOCAL_LIGHTHOUSE !== "false",
+  chromePath: process.env.CHROME_PATH,
+  chromeFlags: (process.env.CHROME_FLAGS || "--headless=new")
+    .split(/\s+/)
+    .filter(Boolean),
+  supabaseUrl: process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL,
+  supabaseKey:
+    process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.VITE_SUPABASE_ANON_KEY,
+  // Row level security only lets signed-in team members write, so the anon
+  // key alone cannot save results
+  hasServiceRoleKey: !!process.env.SUPABASE_SERVICE_ROLE_KEY,
+  dataDir: path.resolve(process.env.LIGHTHOUSE_DATA_DIR || ".lighthouse-data"),
+  // Runs kept in the data directory without Supabase; every run when unset
+  localHistoryLimit: Number(process.env.LOCAL_HISTORY_LIMIT) || null,
+  // How long finished jobs stay queryable
+  jobRetentionMs: 60 * 60 * 1000,
+  // Run saved monitors from this process; disable on extra replicas so a
+  // monitor is not run once per server
+  schedulerEnabled: process.env.SCHEDULER_ENABLED !== "false",
+  schedulerIntervalMs: Number(process.env.SCHEDULER_INTERVAL_MS) || 60 * 1000,
+  // Encrypts login credentials saved with monitors; monitors cannot keep
+  // credentials without it. Changing it makes saved credentials unreadable.
+  credentialsKey: process.env.CREDENTIALS_KEY,
+  // Where the web app is served, for links to runs in alerts
+  appUrl: (process.env.APP_URL || "http://localhost:5173").replace(/\/$/, ""),
+  // A failing metric is alerted on again only after this long, so one that
+  // flaps between runs does not send an alert every time
+  alertCooldownMs:
+    (Number(process.env.ALERT_COOLDOWN_MINUTES) || 6 * 60) * 60 * 1000,
+  // Email alerts are sent through this server; none without SMTP_HOST
+  smtp: process.env.SMTP_HOST
+    ? {
+        host: process.env.SMTP_HOST,
+        port: Number(process.env.SMTP_PORT) || 587,
+        // TLS from the start (usually port 465) rather than STARTTLS
+        secure: process.env.SMTP_SECURE === "true",
+        user: process.env.SMTP_USER,
+        password: process.env.SMTP_PASSWORD,
+        from: process.env.SMTP_FROM || "lighthouse@localhost",
+      }
+    : null,
+};
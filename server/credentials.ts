@@ -0,0 +1,64 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  randomBytes,
+  scryptSync,
+} from "node:crypto";
+import { config } from "./config";
+import type { PageAuth } from "../src/services/analysisProvider";
+
+// Login credentials saved with monitors are sealed with AES-256-GCM under a
+// key derived from CREDENTIALS_KEY, which only the job server has. Storage,
+// Supabase included, only ever sees the sealed string.
+
+const VERSION = "v1";
+const SALT = "lighthouse-inspector-credentials";
+
+let derivedKey: { secret: string; key: Buffer } | null = null;
+
+function encryptionKey(): Buffer {
+  const secret = config.credentialsKey;
+  if (!secret) throw new Error("CREDENTIALS_KEY is not set on the job server");
+  if (derivedKey?.secret !== secret) {
+    derivedKey = { secret, key: scryptSync(secret, SALT, 32) };
+  }
+  return derivedKey.key;
+}
+
+// "v1:<iv>:<tag>:<ciphertext>", base64 parts
+export function encryptAuth(auth: PageAuth): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", encryptionKey(), iv);
+  const data = Buffer.concat([
+    cipher.update(JSON.stringify(auth), "utf8"),
+    cipher.final(),
+  ]);
+  return [VERSION, iv, cipher.getAuthTag(), data]
+    .map((part) => (typeof part === "string" ? part : part.toString("base64")))
+    .join(":");
+}
+
+export function decryptAuth(sealed: string): PageAuth {
+  const [version, iv, tag, data] = sealed.split(":");
+  if (version !== VERSION || !iv || !tag || !data) {
+    throw new Error("Saved credentials are not in a known format");
+  }
+  const decipher = createDecipheriv(
+    "aes-256-gcm",
+    encryptionKey(),
+    Buffer.from(iv, "base64")
+  );
+  decipher.setAuthTag(Buffer.from(tag, "base64"));
+  try {
+    return JSON.parse(
+      Buffer.concat([
+        decipher.update(Buffer.from(data, "base64")),
+        decipher.final(),
+      ]).toString("utf8")
+    );
+  } catch {
+    throw new Error(
+      "Saved credentials could not be decrypted; CREDENTIALS_KEY may have changed"
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import type { LocalStore } from "../src/lib/supabase";
+
+// Stands in for the browser's localStorage when Supabase is not configured
+export function createFileStore(dataDir: string): LocalStore {
+  const file = path.join(dataDir, "local-storage.json");
+  let items: Record<string, string> = {};
+
+  try {
+    items = JSON.parse(readFileSync(file, "utf8"));
+  } catch {
+    // First run, nothing stored yet
+  }
+
+  const flush = () => {
+    mkdirSync(dataDir, { recursive: true });
+    writeFileSync(file, JSON.stringify(items));
+  };
+
+  return {
+    getItem: (key) => items[key] ?? null,
+    setItem: (key, value) => {
+      items[key] = value;
+      flush();
+    },
+    removeItem: (key) => {
+      delete items[key];
+      flush();
+    },
+  };
+}
@@ -0,0 +1,129 @@
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { handleAlertChannels } from "./alertChannels";
+import { authenticate, ownedByTeam } from "./auth";
+import { config } from "./config";
+import { HttpError, readJson, sendJson } from "./http";
+import { JobQueue } from "./jobQueue";
+import { handleMonitors } from "./monitors";
+import { parseDiscoveryRequest, parseJobRequest } from "./requests";
+import { Scheduler } from "./scheduler";
+import { configureServices, providerUnavailableReason } from "./setup";
+import { LighthouseService } from "../src/services/lighthouseService";
+import { RouteDiscovery } from "../src/services/routeDiscovery";
+
+configureServices();
+
+const queue = new JobQueue(config.jobRetentionMs);
+const scheduler = new Scheduler(queue, config.schedulerIntervalMs);
+
+async function handle(
+  req: IncomingMessage,
+  res: ServerResponse
+): Promise<void> {
+  const { pathname } = new URL(req.url ?? "/", "http://localhost");
+  const [, api, resource, id, action] = pathname.split("/");
+
+  if (api !== "api") throw new HttpError(404, "Not found");
+
+  if (resource === "health" && req.method === "GET") {
+    return sendJson(res, 200, {
+      hasApiKey: LighthouseService.isConfigured(),
+      hasSupabase: !!(config.supabaseUrl && config.supabaseKey),
+      providers: LighthouseService.getAvailableProviders(),
+    });
+  }
+
+  const auth = await authenticate(req);
+
+  if (resource === "discover" && req.method === "POST") {
+    // Fetched here rather than in the browser, which CORS would block
+    const { url, ...options } = parseDiscoveryRequest(await readJson(req));
+    return sendJson(res, 200, await RouteDiscovery.discover(url, options));
+  }
+
+  if (resource === "monitors") {
+    return handleMonitors(req, res, scheduler, auth, id, action);
+  }
+
+  if (resource === "alerts") {
+    return handleAlertChannels(req, res, auth, id, action);
+  }
+
+  if (resource !== "jobs") throw new HttpError(404, "Not found");
+
+  if (!id && req.method === "POST") {
+    const request = parseJobRequest(await readJson(req));
+    const unavailable = providerUnavailableReason(
+      request.provider ?? "pagespeed"
+    );
+    if (unavailable) throw new HttpError(503, `${unavailable} on the server`);
+    return sendJson(
+      res,
+      202,
+      queue.create({ ...request, ownerId: auth?.userId, teamId: auth?.teamId })
+    );
+  }
+
+  const job = id ? queue.get(id) : undefined;
+  if (!job || !ownedByTeam(auth, job.request.teamId)) {
+    throw new HttpError(404, "Job not found");
+  }
+
+  if (!action && req.method === "GET") {
+    return sendJson(res, 200, job);
+  }
+  if (action === "cancel" && req.method === "POST") {
+    return sendJson(res, 200, queue.cancel(job.id));
+  }
+  if (action === "reports" && req.method === "GET") {
+    return sendJson(res, 200, queue.getRawReports(job.id) ?? {});
+  }
+
+  throw new HttpError(405, "Method not allowed");
+}
+
+const server = createServer((req, res) => {
+  res.setHeader("Access-Control-Allow-Origin", config.corsOrigin);
+  res.setHeader(
+    "Access-Control-Allow-Methods",
+    "GET, POST, PATCH, DELETE, OPTIONS"
+  );
+  res.setHeader(
+    "Access-Control-Allow-Headers",
+    "Content-Type, Authorization, X-Team-Id"
+  );
+
+  if (req.method === "OPTIONS") {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  handle(req, res).catch((error) => {
+    const status = error instanceof HttpError ? error.status : 500;
+    if (status === 500) console.error("Request failed:", error);
+    sendJson(res, status, {
+      error: error instanceof Error ? error.message : "Internal server error",
+    });
+  });
+});
+
+server.listen(config.port, () => {
+  console.log(
+    `Lighthouse job server listening on http://localhost:${config.port}`
+  );
+  const providers = LighthouseService.getAvailableProviders();
+  if (providers.length === 0) {
+    console.warn(
+      "PAGESPEED_API_KEY is not set and Chrome was not found; jobs will be rejected."
+    );
+  } else {
+    console.log(`Analysis providers: ${providers.join(", ")}`);
+    if (config.schedulerEnabled) scheduler.start();
+  }
+  if (config.supabaseUrl && !config.hasServiceRoleKey) {
+    console.warn(
+      "SUPABASE_SERVICE_ROLE_KEY is not set; results cannot be saved to Supabase with the anon key."
+    );
+  }
+});
@@ -0,0 +1,237 @@
+import { randomUUID } from "node:crypto";
+import { notifyRun } from "./alerts";
+import { analyzeSite } from "./analysis";
+import {
+  LighthouseStorage,
+  NewLighthouseResult,
+  RawReports,
+} from "../src/lib/supabase";
+import { rawReportKey, strategiesOf } from "../src/lib/strategies";
+import type { PageAuth } from "../src/services/analysisProvider";
+import type { Job, JobRequest } from "../src/services/jobClient";
+
+// Runs one job at a time, in submission order, in the server process so a run
+// survives the browser tab that started it. Routes within a job are analyzed
+// in parallel by LighthouseService.analyzeRoutes (see analyzeSite).
+export class JobQueue {
+  private jobs = new Map<string, Job>();
+  private rawReports = new Map<string, RawReports>();
+  // Kept apart from the job, which is returned by the API, and dropped once
+  // the job finishes
+  private credentials = new Map<string, PageAuth>();
+  private controllers = new Map<string, AbortController>();
+  private pending: string[] = [];
+  private running = false;
+
+  constructor(private retentionMs: number) {}
+
+  create({ auth, ...request }: JobRequest): Job {
+    this.prune();
+
+    const job: Job = {
+      id: randomUUID(),
+      status: "queued",
+      request,
+      progress: {
+        current: 0,
+        total: request.routes.length * strategiesOf(request.strategy).length,
+        currentUrl: "",
+      },
+      createdAt: new Date().toISOString(),
+    };
+
+    this.jobs.set(job.id, job);
+    if (auth) this.credentials.set(job.id, auth);
+    this.pending.push(job.id);
+    void this.drain();
+
+    return job;
+  }
+
+  get(id: string): Job | undefined {
+    return this.jobs.get(id);
+  }
+
+  // Whether a run for this monitor is still waiting or in progress
+  hasActiveJob(monitorId: string): boolean {
+    for (const job of this.jobs.values()) {
+      if (
+        job.request.monitorId === monitorId &&
+        (job.status === "queued" || job.status === "running")
+      ) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  getRawReports(id: string): RawReports | undefined {
+    return this.rawReports.get(id);
+  }
+
+  cancel(id: string): Job | undefined {
+    const job = this.jobs.get(id);
+    if (!job) return undefined;
+
+    if (job.status === "queued") {
+      this.pending = this.pending.filter((pendingId) => pendingId !== id);
+      this.finish(job, "cancelled");
+    } else if (job.status === "running") {
+      // The run loop notices the abort and marks the job cancelled
+      this.controllers.get(id)?.abort();
+    }
+
+    return job;
+  }
+
+  private async drain(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      let id: string | undefined;
+      while ((id = this.pending.shift())) {
+        const job = this.jobs.get(id);
+        if (job) await this.run(job);
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async run(job: Job): Promise<void> {
+    const controller = new AbortController();
+    this.controllers.set(job.id, controller);
+    job.status = "running";
+    job.startedAt = new Date().toISOString();
+
+    const {
+      url,
+      routes,
+      strategy,
+      provider,
+      profiles,
+      monitorId,
+      ownerId,
+      teamId,
+    } = job.request;
+    const strategies = strategiesOf(strategy);
+
+    try {
+      const strategyResults: NonNullable<
+        NewLighthouseResult["strategy_results"]
+      > = {};
+      const rawReports: RawReports = {};
+
+      for (const [index, side] of strategies.entries()) {
+        const analysis = await analyzeSite(
+          {
+            ...job.request,
+            strategy: side,
+            auth: this.credentials.get(job.id),
+          },
+          {
+            signal: controller.signal,
+            onProgress: (progress) => {
+              const finished = progress.filter(
+                (route) => route.state === "done" || route.state === "failed"
+              ).length;
+              const active = progress.find(
+                (route) =>
+                  route.state === "running" || route.state === "retrying"
+              );
+              job.progress = {
+                current: index * routes.length + finished,
+                total: routes.length * strategies.length,
+                currentUrl: active?.url ?? "",
+                routes: progress,
+              };
+            },
+          }
+        );
+        if (controller.signal.aborted) break;
+
+        strategyResults[side] = {
+          results: analysis.results,
+          budget_results: analysis.budgetResults,
+        };
+        for (const [path, report] of Object.entries(analysis.rawReports)) {
+          rawReports[rawReportKey(strategy, side, path)] = report;
+        }
+      }
+
+      if (controller.signal.aborted) {
+        this.finish(job, "cancelled");
+        return;
+      }
+
+      if (job.request.rerunOf) {
+        job.routeResults = Object.fromEntries(
+          Object.entries(strategyResults).map(([side, part]) => [
+            side,
+            part.results,
+          ])
+        );
+        this.rawReports.set(job.id, rawReports);
+        this.finish(job, "completed");
+        return;
+      }
+
+      // A "both" run keeps each side in strategy_results
+      const single = strategy === "both" ? null : strategyResults[strategy];
+      const saved = await LighthouseStorage.saveResult(
+        {
+          url,
+          timestamp: Date.now(),
+          strategy,
+          provider: provider ?? "pagespeed",
+          profiles: profiles ?? null,
+          monitor_id: monitorId ?? null,
+          owner_id: ownerId ?? null,
+          team_id: teamId ?? null,
+          budget_results: single?.budget_results ?? null,
+          strategy_results: single ? null : strategyResults,
+          routes,
+          results: single?.results ?? {},
+        },
+        rawReports
+      );
+      job.result = saved ?? undefined;
+      this.rawReports.set(job.id, rawReports);
+      this.finish(job, "completed");
+
+      // Runs started from the app are watched by whoever started them
+      if (saved && monitorId) {
+        notifyRun(saved).catch((error) =>
+          console.error(`Alerts for job ${job.id} failed:`, error)
+        );
+      }
+    } catch (error) {
+      if (controller.signal.aborted) {
+        this.finish(job, "cancelled");
+        return;
+      }
+      console.error(`Job ${job.id} failed:`, error);
+      job.error = error instanceof Error ? error.message : "Unknown error";
+      this.finish(job, "failed");
+    } finally {
+      this.controllers.delete(job.id);
+    }
+  }
+
+  private finish(job: Job, status: Job["status"]): void {
+    this.credentials.delete(job.id);
+    job.status = status;
+    job.finishedAt = new Date().toISOString();
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - this.retentionMs;
+    for (const [id, job] of this.jobs) {
+      if (job.finishedAt && Date.parse(job.finishedAt) < cutoff) {
+        this.jobs.delete(id);
+        this.rawReports.delete(id);
+      }
+    }
+  }
+}
@@ -0,0 +1,224 @@
+import lighthouse, { Config, desktopConfig } from "lighthouse";
+import { Launcher, launch } from "chrome-launcher";
+import puppeteer, { Page } from "puppeteer-core";
+import type { DeviceProfile } from "../src/lib/profiles";
+import type {
+  AnalysisProvider,
+  FetchReportOptions,
+  LoginScript,
+  PageAuth,
+} from "../src/services/analysisProvider";
+import type {
+  PageSpeedResponse,
+  Strategy,
+} from "../src/services/lighthouseService";
+
+const CATEGORIES = ["performance", "accessibility", "best-practices", "seo"];
+
+// Per login step, including the page load a `submit` waits for
+const LOGIN_STEP_TIMEOUT_MS = 30 * 1000;
+
+// Lighthouse's defaults with the profile's device and connection. Throttling
+// is simulated, so only the round trip time, throughput and CPU slowdown are
+// needed; the metrics are computed for that connection after the load.
+function profileConfig(profile: DeviceProfile): Config {
+  const { screen, network } = profile;
+  return {
+    extends: "lighthouse:default",
+    settings: {
+      formFactor: profile.formFactor,
+      screenEmulation: {
+        mobile: profile.formFactor === "mobile",
+        width: screen.width,
+        height: screen.height,
+        deviceScaleFactor: screen.deviceScaleFactor,
+        disabled: false,
+      },
+      emulatedUserAgent: profile.userAgent,
+      throttlingMethod: "simulate",
+      throttling: {
+        rttMs: network.rttMs,
+        throughputKbps: network.throughputKbps,
+        cpuSlowdownMultiplier: profile.cpuSlowdownMultiplier,
+      },
+    },
+  };
+}
+
+// Runs the login steps in the page Lighthouse will audit with. Lighthouse
+// clears caches and service workers before loading the page but keeps
+// cookies and local storage, so the session survives while the audit still
+// starts from a cold cache. Step values are left out of errors since they
+// hold passwords.
+async function logIn(page: Page, url: string, login: LoginScript) {
+  const options = { timeout: LOGIN_STEP_TIMEOUT_MS };
+  const load = { ...options, waitUntil: "networkidle2" as const };
+  await page.goto(new URL(login.url, url).href, load);
+
+  for (const [index, step] of login.steps.entries()) {
+    try {
+      switch (step.action) {
+        case "goto":
+          await page.goto(new URL(step.url, page.url()).href, load);
+          break;
+        case "fill":
+          await page
+            .locator(step.selector)
+            .setTimeout(options.timeout)
+            .fill(step.value);
+          break;
+        case "click":
+          await page.locator(step.selector).setTimeout(options.timeout).click();
+          break;
+        case "submit":
+          await Promise.all([
+            page.waitForNavigation(load),
+            page.locator(step.selector).setTimeout(options.timeout).click(),
+          ]);
+          break;
+        case "waitFor":
+          await page.waitForSelector(step.selector, options);
+          break;
+      }
+    } catch (error) {
+      throw new Error(
+        `Login step ${index + 1} (${step.action}${
+          "selector" in step ? ` ${step.selector}` : ""
+        }) failed: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+}
+
+// Runs the lighthouse package against a headless Chrome on this machine, so
+// staging and intranet URLs Google cannot reach can be tested. There is no
+// CrUX field data for these runs.
+export class LocalLighthouseProvider implements AnalysisProvider {
+  readonly name = "local";
+  // Parallel Chrome instances compete for CPU and skew each other's timings
+  readonly maxConcurrency = 1;
+  readonly supportsAuth = true;
+  readonly supportsProfiles = true;
+
+  // Looked up once; null when Chrome was not found
+  private chromePath: string | null | undefined;
+
+  constructor(
+    private options: {
+      // Found automatically when omitted (CHROME_PATH or a standard install)
+      chromePath?: string;
+      chromeFlags: string[];
+    }
+  ) {}
+
+  isConfigured(): boolean {
+    if (this.chromePath === undefined) {
+      try {
+        this.chromePath =
+          this.options.chromePath || Launcher.getFirstInstallation() || null;
+      } catch {
+        // Thrown on Linux when no install is found
+        this.chromePath = null;
+      }
+    }
+    return !!this.chromePath;
+  }
+
+  async fetchReport(
+    url: string,
+    strategy: Strategy,
+    { signal, auth, profile }: FetchReportOptions = {}
+  ): Promise<PageSpeedResponse> {
+    if (!this.isConfigured()) {
+      throw new Error(
+        "Chrome was not found. Install it or set CHROME_PATH for the job server."
+      );
+    }
+    signal?.throwIfAborted();
+
+    console.log(
+      `Running local Lighthouse for: ${url} (${profile?.name ?? strategy})`
+    );
+    const chrome = await launch({
+      chromePath: this.chromePath!,
+      chromeFlags: this.options.chromeFlags,
+    });
+    // Killing Chrome makes the pending run fail, which ends the job
+    const abort = () => chrome.kill();
+    signal?.addEventListener("abort", abort);
+
+    try {
+      // Lighthouse drives its own tab unless given one, which is only needed
+      // to set cookies or log in first
+      const page =
+        auth?.cookies?.length || auth?.login
+          ? await this.preparePage(chrome.port, url, auth)
+          : undefined;
+      signal?.throwIfAborted();
+
+      const result = await lighthouse(
+        url,
+        {
+          port: chrome.port,
+          output: "json",
+          logLevel: "error",
+          onlyCategories: CATEGORIES,
+          extraHeaders: auth?.headers,
+        },
+        // Lighthouse emulates a mobile device unless told otherwise
+        profile
+          ? profileConfig(profile)
+          : strategy === "desktop"
+            ? desktopConfig
+            : undefined,
+        page
+      );
+      if (!result) throw new Error(`Lighthouse returned no report for ${url}`);
+
+      const { lhr } = result;
+      if (lhr.runtimeError) {
+        throw new Error(
+          `Lighthouse could not analyze ${url}: ${lhr.runtimeError.message} (${lhr.runtimeError.code})`
+        );
+      }
+      // Lighthouse copies its settings into the report, headers included,
+      // and the report is saved as the raw report
+      lhr.configSettings.extraHeaders = null;
+
+      // The PageSpeed API embeds this same Lighthouse result
+      return {
+        lighthouseResult:
+          lhr as unknown as PageSpeedResponse["lighthouseResult"],
+      };
+    } finally {
+      signal?.removeEventListener("abort", abort);
+      chrome.kill();
+    }
+  }
+
+  private async preparePage(
+    port: number,
+    url: string,
+    auth: PageAuth
+  ): Promise<Page> {
+    const browser = await puppeteer.connect({
+      browserURL: `http://127.0.0.1:${port}`,
+      defaultViewport: null,
+    });
+    const page = await browser.newPage();
+    if (auth.headers) await page.setExtraHTTPHeaders(auth.headers);
+    if (auth.cookies?.length) {
+      const host = new URL(url).hostname;
+      await browser.setCookie(
+        ...auth.cookies.map((cookie) => ({
+          name: cookie.name,
+          value: cookie.value,
+          domain: cookie.domain || host,
+          path: cookie.path || "/",
+        }))
+      );
+    }
+    if (auth.login) await logIn(page, url, auth.login);
+    return page;
+  }
+}
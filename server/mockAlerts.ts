@@ -0,0 +1,167 @@
+import { createServer as createHttpServer } from "node:http";
+import { createServer as createTcpServer } from "node:net";
+
+// Stand-ins for the places alerts are sent, to try alert channels offline:
+// an HTTP endpoint for webhook and Slack/Teams channels, and an SMTP server
+// for email channels with SMTP_HOST=localhost SMTP_PORT=2525. Everything
+// received is printed, and listed as JSON by GET http://localhost:8789/.
+//
+// Knobs (environment variables):
+//   MOCK_WEBHOOK_PORT    port of the webhook endpoint (8789)
+//   MOCK_SMTP_PORT       port of the SMTP server (2525)
+//   MOCK_WEBHOOK_STATUS  status every webhook is answered with, e.g. 500 to
+//                        see how failed deliveries are handled (200)
+
+interface Received {
+  channel: "webhook" | "email";
+  receivedAt: string;
+  // The request path, or the envelope recipients
+  to: string;
+  subject?: string;
+  body: unknown;
+}
+
+const received: Received[] = [];
+
+function record(entry: Omit<Received, "receivedAt">): void {
+  received.push({ ...entry, receivedAt: new Date().toISOString() });
+  console.log(
+    `\n[${entry.channel}] ${entry.to}${entry.subject ? ` · ${entry.subject}` : ""}`
+  );
+  console.log(
+    typeof entry.body === "string"
+      ? entry.body
+      : JSON.stringify(entry.body, null, 2)
+  );
+}
+
+function startWebhookServer(port: number, status: number): void {
+  const server = createHttpServer(async (req, res) => {
+    if (req.method === "GET") {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(received));
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+    const text = Buffer.concat(chunks).toString("utf8");
+    let body: unknown = text;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      // Printed as is
+    }
+    record({ channel: "webhook", to: req.url ?? "/", body });
+    res.writeHead(status);
+    res.end();
+  });
+
+  server.listen(port, () => {
+    console.log(`Mock webhook endpoint on http://localhost:${port}/`);
+  });
+}
+
+// Headers are printed as sent; a base64 body is decoded
+function decodeMessage(data: string): { subject?: string; body: string } {
+  const [head, ...rest] = data.split("\r\n\r\n");
+  const headers = head.split("\r\n");
+  const header = (name: string) =>
+    headers
+      .find((line) => line.toLowerCase().startsWith(`${name}:`))
+      ?.slice(name.length + 1)
+      .trim();
+
+  const subject = header("subject")?.replace(
+    /=\?utf-8\?b\?([^?]*)\?=/gi,
+    (_, encoded: string) => Buffer.from(encoded, "base64").toString("utf8")
+  );
+  const raw = rest.join("\r\n\r\n");
+  const body =
+    header("content-transfer-encoding")?.toLowerCase() === "base64"
+      ? Buffer.from(raw.replace(/\s/g, ""), "base64").toString("utf8")
+      : raw;
+  return { subject, body };
+}
+
+// Accepts any sender, recipient and credentials; no TLS
+function startSmtpServer(port: number): void {
+  const server = createTcpServer((socket) => {
+    let buffer = "";
+    let recipients: string[] = [];
+    let data: string[] | null = null;
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+
+    socket.setEncoding("utf8");
+    reply("220 localhost mock SMTP ready");
+
+    socket.on("data", (chunk: string) => {
+      buffer += chunk;
+      let end: number;
+      while ((end = buffer.indexOf("\r\n")) !== -1) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+
+        if (data) {
+          if (line !== ".") {
+            data.push(line.startsWith("..") ? line.slice(1) : line);
+            continue;
+          }
+          record({
+            channel: "email",
+            to: recipients.join(", "),
+            ...decodeMessage(data.join("\r\n")),
+          });
+          data = null;
+          recipients = [];
+          reply("250 OK: queued");
+          continue;
+        }
+
+        const verb = line.split(/[\s:]/)[0].toUpperCase();
+        switch (verb) {
+          case "EHLO":
+            reply("250-localhost");
+            reply("250 AUTH PLAIN");
+            break;
+          case "HELO":
+          case "MAIL":
+          case "RSET":
+          case "NOOP":
+            reply("250 OK");
+            break;
+          case "RCPT":
+            recipients.push(line.replace(/^RCPT TO:\s*<?([^>]*)>?.*$/i, "$1"));
+            reply("250 OK");
+            break;
+          case "AUTH":
+            reply("235 Authenticated");
+            break;
+          case "DATA":
+            data = [];
+            reply("354 End data with <CR><LF>.<CR><LF>");
+            break;
+          case "QUIT":
+            reply("221 Bye");
+            socket.end();
+            break;
+          default:
+            reply("502 Command not implemented");
+        }
+      }
+    });
+    socket.on("error", () => socket.destroy());
+  });
+
+  server.listen(port, () => {
+    console.log(`Mock SMTP server on localhost:${port}`);
+  });
+}
+
+startWebhookServer(
+  Number(process.env.MOCK_WEBHOOK_PORT) || 8789,
+  Number(process.env.MOCK_WEBHOOK_STATUS) || 200
+);
+startSmtpServer(Number(process.env.MOCK_SMTP_PORT) || 2525);
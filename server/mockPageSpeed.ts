@@ -0,0 +1,236 @@
+import { createServer } from "node:http";
+import { fileURLToPath } from "node:url";
+import type {
+  CruxMetric,
+  PageSpeedResponse,
+  Strategy,
+} from "../src/services/lighthouseService";
+
+// A stand-in for the PageSpeed Insights API so the job server can be run and
+// tested offline. Point PAGESPEED_API_URL at it, e.g.
+//   PAGESPEED_API_URL=http://localhost:8788/pagespeedonline/v5/runPagespeed
+//
+// Knobs (environment variables):
+//   MOCK_PORT             port to listen on (8788)
+//   MOCK_LATENCY_MS       delay before each response (300)
+//   MOCK_ERROR_RATE       share of requests answered with HTTP 500 (0)
+//   MOCK_RATE_LIMIT_RATE  share of requests answered with HTTP 429 (0)
+//   MOCK_JITTER           random +/- share applied to lab timings per request,
+//                         to exercise repeated runs (0)
+
+const METRIC_AUDITS = new Set([
+  "metrics",
+  "first-contentful-paint",
+  "largest-contentful-paint",
+  "cumulative-layout-shift",
+  "total-blocking-time",
+  "speed-index",
+]);
+
+// Deterministic per URL and strategy so repeated runs compare cleanly
+function createRandom(seed: string): () => number {
+  let state = 0;
+  for (const char of seed) {
+    state = (Math.imul(state, 31) + char.charCodeAt(0)) | 0;
+  }
+  return () => {
+    state = (Math.imul(state ^ (state >>> 15), 2246822507) + 0x6d2b79f5) | 0;
+    return ((state >>> 0) % 10000) / 10000;
+  };
+}
+
+function cruxMetric(p75: number, good: number, poor: number): CruxMetric {
+  const goodShare = Math.min(0.95, Math.max(0.05, 1 - p75 / (poor * 1.5)));
+  const poorShare = Math.max(0.02, (1 - goodShare) / 3);
+  return {
+    percentile: Math.round(p75),
+    distributions: [
+      { min: 0, max: good, proportion: goodShare },
+      { min: good, max: poor, proportion: 1 - goodShare - poorShare },
+      { min: poor, proportion: poorShare },
+    ],
+    category: p75 <= good ? "FAST" : p75 <= poor ? "AVERAGE" : "SLOW",
+  };
+}
+
+export function buildMockReport(
+  url: string,
+  strategy: Strategy,
+  jitter = 0
+): PageSpeedResponse {
+  const random = createRandom(`${url}|${strategy}`);
+  const noise = 1 + (Math.random() * 2 - 1) * jitter;
+  const slowdown = (strategy === "mobile" ? 2.2 : 1) * noise;
+  const between = (min: number, max: number) => min + random() * (max - min);
+
+  const fcp = between(700, 1600) * slowdown;
+  const lcp = fcp + between(300, 1500) * slowdown;
+  const tbt = between(20, 300) * slowdown;
+  const cls = between(0, 0.2);
+  const ttfb = between(80, 600);
+  const speedIndex = fcp + between(200, 1200) * slowdown;
+  const performance = Math.max(
+    0.2,
+    Math.min(1, 1.15 - lcp / 8000 - tbt / 2000)
+  );
+
+  const opportunity = (
+    id: string,
+    title: string,
+    savingsMs: number,
+    savingsBytes: number
+  ) => ({
+    id,
+    title,
+    description: `${title} to speed up page load. [Learn more](https://developer.chrome.com/docs/lighthouse/performance/${id}/).`,
+    score: savingsMs > 300 ? 0.3 : 0.6,
+    scoreDisplayMode: "metricSavings",
+    displayValue: `Potential savings of ${Math.round(savingsBytes / 1024)} KiB`,
+    details: {
+      type: "opportunity",
+      overallSavingsMs: Math.round(savingsMs),
+      overallSavingsBytes: Math.round(savingsBytes),
+      items: [1, 2, 3].map((n) => ({
+        url: new URL(`/assets/${id}-${n}.js`, url).href,
+        totalBytes: Math.round(savingsBytes / n),
+        wastedBytes: Math.round(savingsBytes / (n * 2)),
+        wastedMs: Math.round(savingsMs / (n * 2)),
+      })),
+    },
+  });
+
+  const audits: PageSpeedResponse["lighthouseResult"]["audits"] = {
+    "first-contentful-paint": { numericValue: fcp, numericUnit: "millisecond" },
+    "largest-contentful-paint": {
+      numericValue: lcp,
+      numericUnit: "millisecond",
+    },
+    "cumulative-layout-shift": { numericValue: cls, numericUnit: "unitless" },
+    "total-blocking-time": { numericValue: tbt, numericUnit: "millisecond" },
+    "speed-index": { numericValue: speedIndex, numericUnit: "millisecond" },
+    "server-response-time": {
+      numericValue: ttfb * 0.8,
+      numericUnit: "millisecond",
+    },
+    metrics: {
+      details: { type: "debugdata", items: [{ timeToFirstByte: ttfb }] },
+    },
+    "render-blocking-resources": opportunity(
+      "render-blocking-resources",
+      "Eliminate render-blocking resources",
+      between(100, 900) * slowdown,
+      between(10, 80) * 1024
+    ),
+    "unused-javascript": opportunity(
+      "unused-javascript",
+      "Reduce unused JavaScript",
+      between(50, 600) * slowdown,
+      between(50, 400) * 1024
+    ),
+    "uses-responsive-images": opportunity(
+      "uses-responsive-images",
+      "Properly size images",
+      between(0, 400) * slowdown,
+      between(20, 600) * 1024
+    ),
+    "dom-size": {
+      id: "dom-size",
+      title: "Avoid an excessive DOM size",
+      description:
+        "A large DOM will increase memory usage. [Learn more](https://developer.chrome.com/docs/lighthouse/performance/dom-size/).",
+      score: 0.5,
+      scoreDisplayMode: "numeric",
+      displayValue: `${Math.round(between(800, 2400))} elements`,
+      details: { type: "table", items: [{ node: { snippet: "<body>" } }] },
+    },
+  };
+
+  const auditRefs = Object.keys(audits).map((id) => ({
+    id,
+    weight: 0,
+    group: METRIC_AUDITS.has(id) ? "metrics" : "diagnostics",
+  }));
+
+  return {
+    loadingExperience: {
+      id: url,
+      overall_category: lcp < 2500 ? "FAST" : "AVERAGE",
+      metrics: {
+        LARGEST_CONTENTFUL_PAINT_MS: cruxMetric(lcp * 0.9, 2500, 4000),
+        INTERACTION_TO_NEXT_PAINT: cruxMetric(between(80, 400), 200, 500),
+        CUMULATIVE_LAYOUT_SHIFT_SCORE: cruxMetric(cls * 100, 10, 25),
+        FIRST_CONTENTFUL_PAINT_MS: cruxMetric(fcp * 0.9, 1800, 3000),
+        EXPERIMENTAL_TIME_TO_FIRST_BYTE: cruxMetric(ttfb * 1.4, 800, 1800),
+      },
+    },
+    originLoadingExperience: {
+      id: new URL(url).origin,
+      overall_category: "AVERAGE",
+      metrics: {
+        LARGEST_CONTENTFUL_PAINT_MS: cruxMetric(2600, 2500, 4000),
+        INTERACTION_TO_NEXT_PAINT: cruxMetric(180, 200, 500),
+        CUMULATIVE_LAYOUT_SHIFT_SCORE: cruxMetric(8, 10, 25),
+      },
+    },
+    lighthouseResult: {
+      categories: {
+        performance: { score: performance, auditRefs },
+        accessibility: { score: between(0.7, 1) },
+        "best-practices": { score: between(0.75, 1) },
+        seo: { score: between(0.8, 1) },
+      },
+      audits,
+    },
+  };
+}
+
+function startMockServer(): void {
+  const port = Number(process.env.MOCK_PORT) || 8788;
+  const latency = Number(process.env.MOCK_LATENCY_MS ?? 300);
+  const errorRate = Number(process.env.MOCK_ERROR_RATE ?? 0);
+  const rateLimitRate = Number(process.env.MOCK_RATE_LIMIT_RATE ?? 0);
+  const jitter = Number(process.env.MOCK_JITTER ?? 0);
+
+  const server = createServer((req, res) => {
+    const requestUrl = new URL(req.url ?? "/", "http://localhost");
+    const target = requestUrl.searchParams.get("url");
+    const strategy =
+      requestUrl.searchParams.get("strategy") === "desktop"
+        ? "desktop"
+        : "mobile";
+
+    const reply = (status: number, body: unknown) => {
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(body));
+    };
+
+    setTimeout(() => {
+      if (!requestUrl.pathname.endsWith("/runPagespeed")) {
+        return reply(404, { error: { code: 404, message: "Not found" } });
+      }
+      if (!target || !/^https?:\/\//.test(target)) {
+        return reply(400, { error: { code: 400, message: "Invalid url" } });
+      }
+      const roll = Math.random();
+      if (roll < rateLimitRate) {
+        return reply(429, { error: { code: 429, message: "Quota exceeded" } });
+      }
+      if (roll < rateLimitRate + errorRate) {
+        return reply(500, {
+          error: { code: 500, message: "Lighthouse failed" },
+        });
+      }
+      reply(200, buildMockReport(target, strategy, jitter));
+    }, latency);
+  });
+
+  server.listen(port, () => {
+    console.log(
+      `Mock PageSpeed API on http://localhost:${port}/pagespeedonline/v5/runPagespeed`
+    );
+  });
+}
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  startMockServer();
+}
@@ -0,0 +1,128 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { RequestAuth, ownedByTeam } from "./auth";
+import { config } from "./config";
+import { encryptAuth } from "./credentials";
+import { HttpError, readJson, sendJson } from "./http";
+import { checkAuthProvider, parseMonitorInput } from "./requests";
+import { Scheduler } from "./scheduler";
+import { providerUnavailableReason } from "./setup";
+import {
+  LighthouseStorage,
+  Monitor,
+  MonitorStorage,
+} from "../src/lib/supabase";
+import type { PageAuth } from "../src/services/analysisProvider";
+import type { Job } from "../src/services/jobClient";
+
+// Sealed credentials never leave the server
+function toResponse({ auth_encrypted, ...monitor }: Monitor): Monitor {
+  return { ...monitor, has_auth: !!auth_encrypted };
+}
+
+function sealAuth(auth: PageAuth | null | undefined): string | null {
+  if (!auth) return null;
+  if (!config.credentialsKey) {
+    throw new HttpError(
+      503,
+      "Set CREDENTIALS_KEY on the server to save login credentials with monitors"
+    );
+  }
+  return encryptAuth(auth);
+}
+
+// /api/monitors and /api/monitors/:id[/run|/results]
+export async function handleMonitors(
+  req: IncomingMessage,
+  res: ServerResponse,
+  scheduler: Scheduler,
+  auth: RequestAuth | null,
+  id: string | undefined,
+  action: string | undefined
+): Promise<void> {
+  if (!id) {
+    if (req.method === "GET") {
+      const monitors = await MonitorStorage.getMonitors(auth?.teamId);
+      return sendJson(res, 200, monitors.map(toResponse));
+    }
+    if (req.method === "POST") {
+      const { auth: pageAuth, ...input } = parseMonitorInput(
+        await readJson(req)
+      );
+      checkAuthProvider(!!pageAuth, input.provider);
+      const monitor = await MonitorStorage.createMonitor({
+        ...input,
+        auth_encrypted: sealAuth(pageAuth),
+        owner_id: auth?.userId ?? null,
+        team_id: auth?.teamId ?? null,
+        next_run_at: Scheduler.nextRunAt(input),
+      });
+      return sendJson(res, 201, toResponse(monitor));
+    }
+    throw new HttpError(405, "Method not allowed");
+  }
+
+  const monitor = await MonitorStorage.getMonitor(id);
+  if (!monitor || !ownedByTeam(auth, monitor.team_id)) {
+    throw new HttpError(404, "Monitor not found");
+  }
+
+  if (!action && req.method === "GET") {
+    return sendJson(res, 200, toResponse(monitor));
+  }
+  if (!action && req.method === "PATCH") {
+    // Saved credentials are kept unless `auth` is sent; null removes them
+    const { auth: pageAuth, ...changes } = parseMonitorInput(
+      await readJson(req),
+      true
+    );
+    const updated = { ...monitor, ...changes };
+    checkAuthProvider(
+      pageAuth === undefined ? !!monitor.auth_encrypted : !!pageAuth,
+      updated.provider
+    );
+    const rescheduled =
+      changes.schedule !== undefined || changes.enabled !== undefined;
+    const saved = await MonitorStorage.updateMonitor(id, {
+      ...changes,
+      // New credentials replace ones that may have stopped decrypting
+      ...(pageAuth !== undefined && {
+        auth_encrypted: sealAuth(pageAuth),
+        last_error: null,
+      }),
+      ...(rescheduled && { next_run_at: Scheduler.nextRunAt(updated) }),
+    });
+    return sendJson(res, 200, saved && toResponse(saved));
+  }
+  if (!action && req.method === "DELETE") {
+    await MonitorStorage.deleteMonitor(id);
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+  if (action === "run" && req.method === "POST") {
+    const unavailable = providerUnavailableReason(
+      monitor.provider ?? "pagespeed"
+    );
+    if (unavailable) throw new HttpError(503, `${unavailable} on the server`);
+    let job: Job;
+    try {
+      job = scheduler.runNow(monitor);
+    } catch (error) {
+      // Saved credentials that cannot be decrypted
+      const message = error instanceof Error ? error.message : String(error);
+      await MonitorStorage.updateMonitor(id, { last_error: message });
+      throw new HttpError(409, message);
+    }
+    await MonitorStorage.updateMonitor(id, { last_error: null });
+    return sendJson(res, 202, job);
+  }
+  if (action === "results" && req.method === "GET") {
+    return sendJson(
+      res,
+      200,
+      await LighthouseStorage.getResultsByDomain(undefined, id)
+    );
+  }
+
+  throw new HttpError(405, "Method not allowed");
+}
@@ -0,0 +1,579 @@
+import { HttpError } from "./http";
+import {
+  BUDGET_METRICS,
+  Budget,
+  BudgetLimits,
+  BudgetMetric,
+  isScoreMetric,
+} from "../src/lib/budgets";
+import { nextCronRun } from "../src/lib/cron";
+import {
+  AlertChannelInput,
+  AlertChannelType,
+  LighthouseStorage,
+  MonitorInput,
+  RouteConfig,
+} from "../src/lib/supabase";
+import type { DeviceProfile, RunProfiles } from "../src/lib/profiles";
+import { StrategyMode, strategiesOf } from "../src/lib/strategies";
+import {
+  LOGIN_ACTIONS,
+  LoginStep,
+  PROVIDER_NAMES,
+  PageAuth,
+  ProviderName,
+} from "../src/services/analysisProvider";
+import type { Strategy } from "../src/services/lighthouseService";
+import { DISCOVERY_LIMITS } from "../src/services/routeDiscovery";
+import type { DiscoveryRequest, JobRequest } from "../src/services/jobClient";
+
+// Request body validation for the job server API. Each parser throws an
+// HttpError(400) naming the first invalid field.
+
+const MAX_CONCURRENCY = 10;
+const MAX_RUNS = 5;
+
+function parseUrl(url: unknown): string {
+  if (typeof url !== "string" || !/^https?:\/\//.test(url)) {
+    throw new HttpError(400, "url must start with http:// or https://");
+  }
+  return url;
+}
+
+function parseRoutes(routes: unknown): RouteConfig[] {
+  if (
+    !Array.isArray(routes) ||
+    routes.length === 0 ||
+    routes.some((route) => typeof route?.path !== "string")
+  ) {
+    throw new HttpError(400, "routes must be a non-empty list of routes");
+  }
+  return routes.map((route, index) => ({
+    id: String(route.id ?? index + 1),
+    path: route.path,
+    name: route.name || route.path,
+  }));
+}
+
+function parseStrategy(strategy: unknown): StrategyMode {
+  if (strategy !== "mobile" && strategy !== "desktop" && strategy !== "both") {
+    throw new HttpError(400, 'strategy must be "mobile", "desktop" or "both"');
+  }
+  return strategy;
+}
+
+function parseProvider(provider: unknown): ProviderName | undefined {
+  if (provider === undefined) return undefined;
+  if (!PROVIDER_NAMES.includes(provider as ProviderName)) {
+    throw new HttpError(
+      400,
+      `provider must be one of ${PROVIDER_NAMES.map((name) => `"${name}"`).join(", ")}`
+    );
+  }
+  return provider as ProviderName;
+}
+
+function parseInteger(
+  name: string,
+  value: unknown,
+  min: number,
+  max: number
+): number | undefined {
+  if (value === undefined) return undefined;
+  if (
+    typeof value !== "number" ||
+    !Number.isInteger(value) ||
+    value < min ||
+    value > max
+  ) {
+    throw new HttpError(
+      400,
+      `${name} must be an integer between ${min} and ${max}`
+    );
+  }
+  return value;
+}
+
+function parseBudgets(budgets: unknown): Budget[] | undefined {
+  if (budgets === undefined) return undefined;
+  if (!Array.isArray(budgets)) {
+    throw new HttpError(400, "budgets must be a list of budgets");
+  }
+
+  return budgets.map((budget, index) => {
+    const name = `budgets[${index}]`;
+    const { path, limits } = (budget ?? {}) as Partial<Budget>;
+    if (path !== undefined && (typeof path !== "string" || !path.trim())) {
+      throw new HttpError(400, `${name}.path must be a glob pattern`);
+    }
+    if (typeof limits !== "object" || limits === null) {
+      throw new HttpError(400, `${name}.limits must map metrics to limits`);
+    }
+
+    const parsed: BudgetLimits = {};
+    for (const [metric, limit] of Object.entries(limits)) {
+      if (!BUDGET_METRICS.includes(metric as BudgetMetric)) {
+        throw new HttpError(400, `${name}: unknown metric "${metric}"`);
+      }
+      const max = isScoreMetric(metric as BudgetMetric) ? 100 : Infinity;
+      if (typeof limit !== "number" || !(limit >= 0 && limit <= max)) {
+        throw new HttpError(
+          400,
+          `${name}.limits.${metric} must be a number from 0${
+            max === 100 ? " to 100" : ""
+          }`
+        );
+      }
+      parsed[metric as BudgetMetric] = limit;
+    }
+
+    return path ? { path: path.trim(), limits: parsed } : { limits: parsed };
+  });
+}
+
+function parseRange(
+  name: string,
+  value: unknown,
+  min: number,
+  max: number
+): number {
+  if (typeof value !== "number" || !(value >= min && value <= max)) {
+    throw new HttpError(400, `${name} must be a number from ${min} to ${max}`);
+  }
+  return value;
+}
+
+function parseProfile(profile: unknown, strategy: Strategy): DeviceProfile {
+  const field = `profiles.${strategy}`;
+  const { id, name, formFactor, screen, userAgent, network } = (profile ??
+    {}) as Partial<DeviceProfile>;
+  if (
+    typeof id !== "string" ||
+    !id.trim() ||
+    typeof name !== "string" ||
+    !name.trim()
+  ) {
+    throw new HttpError(400, `${field} must have an id and a name`);
+  }
+  if (formFactor !== strategy) {
+    throw new HttpError(400, `${field}.formFactor must be "${strategy}"`);
+  }
+  if (!isText(userAgent) || !userAgent.trim()) {
+    throw new HttpError(400, `${field}.userAgent must be a user agent string`);
+  }
+
+  return {
+    id: id.trim(),
+    name: name.trim(),
+    formFactor,
+    screen: {
+      width: parseInteger(
+        `${field}.screen.width`,
+        screen?.width ?? null,
+        200,
+        7680
+      )!,
+      height: parseInteger(
+        `${field}.screen.height`,
+        screen?.height ?? null,
+        200,
+        4320
+      )!,
+      deviceScaleFactor: parseRange(
+        `${field}.screen.deviceScaleFactor`,
+        screen?.deviceScaleFactor,
+        0.5,
+        4
+      ),
+    },
+    userAgent: userAgent.trim(),
+    network: {
+      rttMs: parseRange(`${field}.network.rttMs`, network?.rttMs, 0, 5000),
+      throughputKbps: parseRange(
+        `${field}.network.throughputKbps`,
+        network?.throughputKbps,
+        10,
+        1000000
+      ),
+    },
+    cpuSlowdownMultiplier: parseRange(
+      `${field}.cpuSlowdownMultiplier`,
+      (profile as Partial<DeviceProfile>).cpuSlowdownMultiplier,
+      1,
+      20
+    ),
+  };
+}
+
+// One profile per strategy of the run; undefined when none is given
+function parseProfiles(
+  profiles: unknown,
+  strategy: StrategyMode
+): RunProfiles | undefined {
+  if (profiles === undefined || profiles === null) return undefined;
+  if (typeof profiles !== "object" || Array.isArray(profiles)) {
+    throw new HttpError(400, "profiles must map strategies to device profiles");
+  }
+  const sides = strategiesOf(strategy);
+  const parsed: RunProfiles = {};
+  for (const [side, profile] of Object.entries(profiles)) {
+    if (!sides.includes(side as Strategy)) {
+      throw new HttpError(
+        400,
+        `profiles.${side} is not a strategy of this run`
+      );
+    }
+    parsed[side as Strategy] = parseProfile(profile, side as Strategy);
+  }
+  return Object.keys(parsed).length > 0 ? parsed : undefined;
+}
+
+const MAX_LOGIN_STEPS = 20;
+// RFC 7230 token characters, for header and cookie names
+const TOKEN = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+
+const isText = (value: unknown): value is string =>
+  typeof value === "string" && !/[\r\n]/.test(value);
+
+function parseLoginStep(step: unknown, index: number): LoginStep {
+  const name = `auth.login.steps[${index}]`;
+  const { action, selector, url, value } = (step ?? {}) as Partial<
+    Record<string, unknown>
+  >;
+  if (!LOGIN_ACTIONS.includes(action as LoginStep["action"])) {
+    throw new HttpError(
+      400,
+      `${name}.action must be one of ${LOGIN_ACTIONS.map((action) => `"${action}"`).join(", ")}`
+    );
+  }
+  if (action === "goto") {
+    if (typeof url !== "string" || !url.trim()) {
+      throw new HttpError(400, `${name}.url must be a path or URL`);
+    }
+    return { action, url: url.trim() };
+  }
+  if (typeof selector !== "string" || !selector.trim()) {
+    throw new HttpError(400, `${name}.selector must be a CSS selector`);
+  }
+  if (action === "fill") {
+    if (typeof value !== "string") {
+      throw new HttpError(400, `${name}.value must be a string`);
+    }
+    return { action, selector: selector.trim(), value };
+  }
+  return {
+    action: action as "click" | "submit" | "waitFor",
+    selector: selector.trim(),
+  };
+}
+
+// Empty sections are dropped; undefined when nothing is left
+export function parsePageAuth(auth: unknown): PageAuth | undefined {
+  if (auth === undefined || auth === null) return undefined;
+  if (typeof auth !== "object" || Array.isArray(auth)) {
+    throw new HttpError(400, "auth must be an object");
+  }
+  const { headers, cookies, login } = auth as Partial<
+    Record<keyof PageAuth, unknown>
+  >;
+  const parsed: PageAuth = {};
+
+  if (headers !== undefined) {
+    if (typeof headers !== "object" || headers === null) {
+      throw new HttpError(400, "auth.headers must map header names to values");
+    }
+    for (const [header, value] of Object.entries(headers)) {
+      if (!TOKEN.test(header) || !isText(value)) {
+        throw new HttpError(400, `auth.headers: invalid header "${header}"`);
+      }
+    }
+    if (Object.keys(headers).length > 0) {
+      parsed.headers = headers as Record<string, string>;
+    }
+  }
+
+  if (cookies !== undefined) {
+    if (!Array.isArray(cookies)) {
+      throw new HttpError(400, "auth.cookies must be a list of cookies");
+    }
+    parsed.cookies = cookies.map((cookie, index) => {
+      const { name, value, domain, path } = (cookie ?? {}) as Record<
+        string,
+        unknown
+      >;
+      if (
+        typeof name !== "string" ||
+        !TOKEN.test(name) ||
+        !isText(value) ||
+        /[;,\s]/.test(value) ||
+        (domain !== undefined && !isText(domain)) ||
+        (path !== undefined && !isText(path))
+      ) {
+        throw new HttpError(
+          400,
+          `auth.cookies[${index}] must have a valid name and value`
+        );
+      }
+      return {
+        name,
+        value,
+        ...(domain ? { domain: domain as string } : {}),
+        ...(path ? { path: path as string } : {}),
+      };
+    });
+    if (parsed.cookies.length === 0) delete parsed.cookies;
+  }
+
+  if (login !== undefined && login !== null) {
+    const { url, steps } = login as Partial<Record<string, unknown>>;
+    if (typeof url !== "string" || !url.trim()) {
+      throw new HttpError(400, "auth.login.url must be a path or URL");
+    }
+    if (
+      !Array.isArray(steps) ||
+      steps.length === 0 ||
+      steps.length > MAX_LOGIN_STEPS
+    ) {
+      throw new HttpError(
+        400,
+        `auth.login.steps must list 1 to ${MAX_LOGIN_STEPS} steps`
+      );
+    }
+    parsed.login = { url: url.trim(), steps: steps.map(parseLoginStep) };
+  }
+
+  return Object.keys(parsed).length > 0 ? parsed : undefined;
+}
+
+// Google's servers cannot be handed a session
+export function checkAuthProvider(
+  hasAuth: boolean,
+  provider: ProviderName | undefined
+): void {
+  if (hasAuth && provider !== "local") {
+    throw new HttpError(
+      400,
+      'auth needs the "local" provider; PageSpeed Insights only reaches public pages'
+    );
+  }
+}
+
+export function parseJobRequest(body: unknown): JobRequest {
+  const {
+    url,
+    routes,
+    strategy,
+    provider,
+    concurrency,
+    runs,
+    budgets,
+    auth,
+    profiles,
+    rerunOf,
+  } = (body ?? {}) as Partial<JobRequest>;
+  const mode = parseStrategy(strategy);
+  if (
+    rerunOf !== undefined &&
+    (typeof rerunOf !== "string" || !rerunOf.trim())
+  ) {
+    throw new HttpError(400, "rerunOf must be the id of a saved run");
+  }
+
+  const request: JobRequest = {
+    url: parseUrl(url),
+    routes: parseRoutes(routes),
+    strategy: mode,
+    provider: parseProvider(provider),
+    concurrency: parseInteger("concurrency", concurrency, 1, MAX_CONCURRENCY),
+    runs: parseInteger("runs", runs, 1, MAX_RUNS),
+    budgets: parseBudgets(budgets),
+    auth: parsePageAuth(auth),
+    profiles: parseProfiles(profiles, mode),
+    rerunOf,
+  };
+  checkAuthProvider(!!request.auth, request.provider);
+  if (request.profiles && request.provider !== "local") {
+    throw new HttpError(
+      400,
+      'profiles need the "local" provider; PageSpeed Insights only emulates its default devices'
+    );
+  }
+  return request;
+}
+
+export function parseDiscoveryRequest(body: unknown): DiscoveryRequest {
+  const { url, sitemap, crawl, include, exclude } = (body ??
+    {}) as Partial<DiscoveryRequest>;
+
+  for (const [name, patterns] of [
+    ["include", include],
+    ["exclude", exclude],
+  ] as const) {
+    if (
+      patterns !== undefined &&
+      (!Array.isArray(patterns) ||
+        patterns.some((pattern) => typeof pattern !== "string"))
+    ) {
+      throw new HttpError(400, `${name} must be a list of glob patterns`);
+    }
+  }
+
+  return {
+    url: parseUrl(url),
+    sitemap: sitemap !== false,
+    crawl: crawl
+      ? {
+          maxDepth: parseInteger(
+            "crawl.maxDepth",
+            crawl.maxDepth ?? 0,
+            1,
+            DISCOVERY_LIMITS.maxDepth
+          )!,
+          maxPages: parseInteger(
+            "crawl.maxPages",
+            crawl.maxPages ?? 0,
+            1,
+            DISCOVERY_LIMITS.maxPages
+          )!,
+        }
+      : undefined,
+    include: include?.filter((pattern) => pattern.trim()),
+    exclude: exclude?.filter((pattern) => pattern.trim()),
+  };
+}
+
+function parseSchedule(schedule: unknown): string {
+  if (typeof schedule !== "string") {
+    throw new HttpError(400, "schedule must be a cron expression");
+  }
+  // Also rejects valid expressions that never fire, such as February 31st,
+  // which the scheduler could not plan a next run for
+  try {
+    nextCronRun(schedule, new Date());
+  } catch (error) {
+    throw new HttpError(
+      400,
+      `schedule: ${error instanceof Error ? error.message : error}`
+    );
+  }
+  return schedule.trim();
+}
+
+// With `partial`, only the fields present in the body are validated and
+// returned, for PATCH requests
+export function parseMonitorInput(body: unknown): MonitorInput;
+export function parseMonitorInput(
+  body: unknown,
+  partial: true
+): Partial<MonitorInput>;
+export function parseMonitorInput(
+  body: unknown,
+  partial = false
+): Partial<MonitorInput> {
+  const input = (body ?? {}) as Partial<MonitorInput>;
+  const has = (field: keyof MonitorInput) => !partial || field in input;
+  const monitor: Partial<MonitorInput> = {};
+
+  if (has("name")) {
+    if (typeof input.name !== "string" || !input.name.trim()) {
+      throw new HttpError(400, "name must be a non-empty string");
+    }
+    monitor.name = input.name.trim();
+  }
+  if (has("url")) monitor.url = parseUrl(input.url);
+  if (has("routes")) monitor.routes = parseRoutes(input.routes);
+  if (has("strategy")) monitor.strategy = parseStrategy(input.strategy);
+  if (has("provider")) monitor.provider = parseProvider(input.provider);
+  if (has("schedule")) monitor.schedule = parseSchedule(input.schedule);
+  if (has("runs"))
+    monitor.runs = parseInteger("runs", input.runs ?? 1, 1, MAX_RUNS);
+  if (has("budgets")) monitor.budgets = parseBudgets(input.budgets) ?? [];
+  if (has("auth")) monitor.auth = parsePageAuth(input.auth) ?? null;
+  if (has("enabled")) {
+    if (input.enabled !== undefined && typeof input.enabled !== "boolean") {
+      throw new HttpError(400, "enabled must be true or false");
+    }
+    monitor.enabled = input.enabled ?? true;
+  }
+
+  return monitor;
+}
+
+const ALERT_CHANNEL_TYPES: AlertChannelType[] = ["webhook", "slack", "email"];
+const EMAIL_ADDRESS = /^[^\s@,<>]+@[^\s@,<>]+\.[^\s@,<>]+$/;
+
+// Checked against the channel's type, so PATCH requests changing either one
+// validate the combination
+export function parseAlertTarget(
+  type: AlertChannelType,
+  target: unknown
+): string {
+  if (typeof target !== "string" || !target.trim()) {
+    throw new HttpError(400, "target must be a non-empty string");
+  }
+  if (type === "email") {
+    const addresses = target
+      .split(",")
+      .map((address) => address.trim())
+      .filter(Boolean);
+    const invalid = addresses.find((address) => !EMAIL_ADDRESS.test(address));
+    if (addresses.length === 0 || invalid) {
+      throw new HttpError(
+        400,
+        invalid
+          ? `target: "${invalid}" is not an email address`
+          : "target must list one or more email addresses"
+      );
+    }
+    return addresses.join(", ");
+  }
+  return parseUrl(target.trim());
+}
+
+export function parseAlertChannelInput(body: unknown): AlertChannelInput;
+export function parseAlertChannelInput(
+  body: unknown,
+  partial: true
+): Partial<AlertChannelInput>;
+export function parseAlertChannelInput(
+  body: unknown,
+  partial = false
+): Partial<AlertChannelInput> {
+  const input = (body ?? {}) as Partial<AlertChannelInput>;
+  const has = (field: keyof AlertChannelInput) => !partial || field in input;
+  const channel: Partial<AlertChannelInput> = {};
+
+  if (has("domain")) {
+    // A hostname, or a URL of the site
+    const domain =
+      typeof input.domain === "string"
+        ? LighthouseStorage.extractDomain(input.domain.trim()).toLowerCase()
+        : "";
+    if (!/^[a-z0-9.-]+$/.test(domain)) {
+      throw new HttpError(400, "domain must be a hostname, e.g. example.com");
+    }
+    channel.domain = domain;
+  }
+  if (has("type")) {
+    if (!ALERT_CHANNEL_TYPES.includes(input.type as AlertChannelType)) {
+      throw new HttpError(
+        400,
+        `type must be one of ${ALERT_CHANNEL_TYPES.map((type) => `"${type}"`).join(", ")}`
+      );
+    }
+    channel.type = input.type;
+  }
+  if (has("target")) {
+    channel.target = channel.type
+      ? parseAlertTarget(channel.type, input.target)
+      : (input.target as string);
+  }
+  if (has("enabled")) {
+    if (input.enabled !== undefined && typeof input.enabled !== "boolean") {
+      throw new HttpError(400, "enabled must be true or false");
+    }
+    channel.enabled = input.enabled ?? true;
+  }
+
+  return channel;
+}
@@ -0,0 +1,111 @@
+import { decryptAuth } from "./credentials";
+import { JobQueue } from "./jobQueue";
+import { nextCronRun } from "../src/lib/cron";
+import { Monitor, MonitorStorage } from "../src/lib/supabase";
+import type { Job } from "../src/services/jobClient";
+
+// Queues runs for enabled monitors whose `next_run_at` has passed. Runs go
+// through the same JobQueue as manual runs, so they share its one-job-at-a-time
+// ordering and the PageSpeed rate limiter.
+export class Scheduler {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private ticking = false;
+
+  constructor(
+    private queue: JobQueue,
+    private intervalMs: number
+  ) {}
+
+  static nextRunAt(
+    monitor: Pick<Monitor, "schedule" | "enabled">,
+    after = new Date()
+  ): string | null {
+    return monitor.enabled
+      ? nextCronRun(monitor.schedule, after).toISOString()
+      : null;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    void this.tick();
+    this.timer = setInterval(() => void this.tick(), this.intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  runNow(monitor: Monitor): Job {
+    return this.queue.create({
+      url: monitor.url,
+      routes: monitor.routes,
+      strategy: monitor.strategy,
+      provider: monitor.provider,
+      runs: monitor.runs,
+      budgets: monitor.budgets,
+      auth: monitor.auth_encrypted
+        ? decryptAuth(monitor.auth_encrypted)
+        : undefined,
+      monitorId: monitor.id,
+      // Scheduled runs belong to whoever created the monitor
+      ownerId: monitor.owner_id ?? undefined,
+      teamId: monitor.team_id ?? undefined,
+    });
+  }
+
+  private async tick(): Promise<void> {
+    // A slow storage backend must not let ticks pile up
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      const now = new Date();
+      const monitors = await MonitorStorage.getMonitors();
+
+      for (const monitor of monitors) {
+        if (
+          !monitor.enabled ||
+          !monitor.next_run_at ||
+          Date.parse(monitor.next_run_at) > now.getTime()
+        ) {
+          continue;
+        }
+
+        // Runs missed while the server was down collapse into this one,
+        // and a monitor never has two runs waiting at once
+        let lastError: string | null | undefined;
+        if (!this.queue.hasActiveJob(monitor.id)) {
+          try {
+            const job = this.runNow(monitor);
+            console.log(`Monitor "${monitor.name}" queued job ${job.id}`);
+            lastError = null;
+          } catch (error) {
+            // E.g. credentials that no longer decrypt. Only this run is
+            // skipped: the monitor is still rescheduled below, so it fails
+            // once per due time rather than on every tick.
+            console.error(`Monitor "${monitor.name}" could not be run:`, error);
+            lastError = error instanceof Error ? error.message : String(error);
+          }
+        }
+
+        try {
+          await MonitorStorage.updateMonitor(monitor.id, {
+            last_run_at: now.toISOString(),
+            next_run_at: Scheduler.nextRunAt(monitor, now),
+            ...(lastError !== undefined && { last_error: lastError }),
+          });
+        } catch (error) {
+          console.error(
+            `Monitor "${monitor.name}" could not be rescheduled:`,
+            error
+          );
+        }
+      }
+    } catch (error) {
+      console.error("Scheduler tick failed:", error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+}
@@ -0,0 +1,54 @@
+import { createClient } from "@supabase/supabase-js";
+import { config } from "./config";
+import { createFileStore } from "./fileStore";
+import { LighthouseStorage } from "../src/lib/supabase";
+import { LocalLighthouseProvider } from "./localLighthouse";
+import type { ProviderName } from "../src/services/analysisProvider";
+import { LighthouseService } from "../src/services/lighthouseService";
+import { PageSpeedProvider } from "../src/services/pageSpeedProvider";
+
+// Points the shared services at the configured analysis providers and
+// storage. Used by both the job server and the CLI.
+export function configureServices(): void {
+  LighthouseService.configure({
+    providers: [
+      new PageSpeedProvider({
+        apiKey: config.pageSpeedApiKey,
+        baseUrl: config.pageSpeedApiUrl,
+        requestsPerMinute: config.pageSpeedRequestsPerMinute,
+      }),
+      ...(config.localLighthouseEnabled
+        ? [
+            new LocalLighthouseProvider({
+              chromePath: config.chromePath,
+              chromeFlags: config.chromeFlags,
+            }),
+          ]
+        : []),
+    ],
+    concurrency: config.pageSpeedConcurrency,
+    maxRetries: config.pageSpeedMaxRetries,
+  });
+
+  LighthouseStorage.configure({
+    client:
+      config.supabaseUrl && config.supabaseKey
+        ? createClient(config.supabaseUrl, config.supabaseKey, {
+            auth: { persistSession: false },
+          })
+        : null,
+    localStore: createFileStore(config.dataDir),
+    localHistoryLimit: config.localHistoryLimit,
+  });
+}
+
+// Why runs with this provider cannot start, or null when they can
+export function providerUnavailableReason(
+  provider: ProviderName
+): string | null {
+  if (LighthouseService.isConfigured(provider)) return null;
+  if (provider === "pagespeed") return "PAGESPEED_API_KEY is not set";
+  return config.localLighthouseEnabled
+    ? "Chrome was not found; install it or set CHROME_PATH"
+    : "Local Lighthouse is disabled (LOCAL_LIGHTHOUSE=false)";
+}
@@ -0,0 +1,218 @@
+import { randomUUID } from "node:crypto";
+import { once } from "node:events";
+import { Socket, connect } from "node:net";
+import { hostname } from "node:os";
+import { connect as connectTls } from "node:tls";
+
+// Just enough SMTP to hand a plain text message to a relay: EHLO, STARTTLS
+// or TLS from the start, AUTH PLAIN or LOGIN, then one message per
+// connection. Alerts are few, so there is no pooling or queueing.
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  // TLS from the start rather than STARTTLS
+  secure: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+}
+
+export interface MailMessage {
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+interface SmtpReply {
+  code: number;
+  // Without the code, one entry per line of a multi-line reply
+  lines: string[];
+}
+
+const TIMEOUT_MS = 30 * 1000;
+
+class SmtpConnection {
+  private buffer = "";
+  private waiting: {
+    resolve: (reply: SmtpReply) => void;
+    reject: (error: Error) => void;
+  } | null = null;
+  private failure: Error | null = null;
+  private detach: () => void = () => undefined;
+
+  private constructor(private socket: Socket) {
+    this.attach(socket);
+  }
+
+  static async open(options: SmtpOptions): Promise<SmtpConnection> {
+    const socket = options.secure
+      ? connectTls({
+          host: options.host,
+          port: options.port,
+          servername: options.host,
+        })
+      : connect({ host: options.host, port: options.port });
+    const connection = new SmtpConnection(socket);
+    await once(socket, options.secure ? "secureConnect" : "connect");
+    return connection;
+  }
+
+  // Sends a command, or only waits for a reply when `line` is null. Any
+  // reply in the expected code's class is accepted, e.g. 251 for 250.
+  // Errors name only the verb, so credentials never end up in logs.
+  async command(
+    line: string | null,
+    expected: number,
+    verb = line === null ? "greeting" : line.split(/[\s:]/)[0]
+  ): Promise<SmtpReply> {
+    if (line !== null) this.socket.write(`${line}\r\n`);
+    const reply = await this.read();
+    if (Math.floor(reply.code / 100) !== Math.floor(expected / 100)) {
+      throw new Error(
+        `SMTP ${verb} failed: ${reply.code} ${reply.lines.join(" ")}`
+      );
+    }
+    return reply;
+  }
+
+  async startTls(host: string): Promise<void> {
+    const plain = this.socket;
+    this.detach();
+    plain.setTimeout(0);
+    const secure = connectTls({ socket: plain, servername: host });
+    this.buffer = "";
+    this.attach(secure);
+    await once(secure, "secureConnect");
+    this.socket = secure;
+  }
+
+  close(): void {
+    this.socket.end();
+  }
+
+  private attach(socket: Socket): void {
+    const onData = (chunk: string) => {
+      this.buffer += chunk;
+      if (!this.waiting) return;
+      const reply = this.takeReply();
+      if (reply) {
+        this.waiting.resolve(reply);
+        this.waiting = null;
+      }
+    };
+    const onError = (error: Error) => this.fail(error);
+    const onClose = () => this.fail(new Error("SMTP connection closed"));
+
+    socket.setEncoding("utf8");
+    socket.setTimeout(TIMEOUT_MS, () =>
+      socket.destroy(new Error("SMTP server timed out"))
+    );
+    socket.on("data", onData);
+    socket.on("error", onError);
+    socket.on("close", onClose);
+    this.detach = () => {
+      socket.off("data", onData);
+      socket.off("error", onError);
+      socket.off("close", onClose);
+    };
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= error;
+    this.waiting?.reject(this.failure);
+    this.waiting = null;
+  }
+
+  private read(): Promise<SmtpReply> {
+    const reply = this.takeReply();
+    if (reply) return Promise.resolve(reply);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  // A reply ends with a line whose code is followed by a space rather than
+  // the "-" of continuation lines
+  private takeReply(): SmtpReply | null {
+    const lines = this.buffer.split("\r\n");
+    const last = lines.findIndex(
+      (line, index) => index < lines.length - 1 && /^\d{3}(?: |$)/.test(line)
+    );
+    if (last === -1) return null;
+    this.buffer = lines.slice(last + 1).join("\r\n");
+    return {
+      code: Number(lines[last].slice(0, 3)),
+      lines: lines.slice(0, last + 1).map((line) => line.slice(4)),
+    };
+  }
+}
+
+const base64 = (text: string) => Buffer.from(text, "utf8").toString("base64");
+
+// The body is base64 encoded, so no line can end the DATA section early
+function formatMessage(from: string, message: MailMessage): string {
+  const body = base64(message.text).replace(/.{76}/g, "$&\r\n");
+  const domain = from.split("@")[1] || "localhost";
+  return [
+    `From: ${from}`,
+    `To: ${message.to.join(", ")}`,
+    `Subject: =?UTF-8?B?${base64(message.subject)}?=`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    body,
+  ].join("\r\n");
+}
+
+export async function sendMail(
+  options: SmtpOptions,
+  message: MailMessage
+): Promise<void> {
+  const connection = await SmtpConnection.open(options);
+  try {
+    const client = hostname() || "localhost";
+    await connection.command(null, 220);
+    let features = await connection.command(`EHLO ${client}`, 250);
+    if (
+      !options.secure &&
+      features.lines.some((line) => /^STARTTLS\b/i.test(line))
+    ) {
+      await connection.command("STARTTLS", 220);
+      await connection.startTls(options.host);
+      features = await connection.command(`EHLO ${client}`, 250);
+    }
+
+    if (options.user) {
+      const auth = features.lines.find((line) => /^AUTH\b/i.test(line)) ?? "";
+      if (/\bPLAIN\b/i.test(auth) || !/\bLOGIN\b/i.test(auth)) {
+        await connection.command(
+          `AUTH PLAIN ${base64(`\0${options.user}\0${options.password ?? ""}`)}`,
+          235
+        );
+      } else {
+        await connection.command("AUTH LOGIN", 334);
+        await connection.command(base64(options.user), 334, "AUTH");
+        await connection.command(base64(options.password ?? ""), 235, "AUTH");
+      }
+    }
+
+    await connection.command(`MAIL FROM:<${options.from}>`, 250);
+    for (const to of message.to) {
+      await connection.command(`RCPT TO:<${to}>`, 250);
+    }
+    await connection.command("DATA", 354);
+    await connection.command(
+      `${formatMessage(options.from, message)}\r\n.`,
+      250,
+      "DATA"
+    );
+    await connection.command("QUIT", 221).catch(() => undefined);
+  } finally {
+    connection.close();
+  }
+}
@@ -1,10 +1,47 @@
-import React, { useState, useEffect } from 'react';
-import { Globe, Zap, Eye, Database, ChevronRight, BarChart3, History, Plus, X, CheckCircle2, AlertCircle, Play, Wifi, WifiOff, Download, Monitor, Smartphone } from 'lucide-react';
-import { LighthouseService } from './services/lighthouseService';
-import { LighthouseStorage, LighthouseResult } from './lib/supabase';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Globe, Zap, Eye, Database, ChevronRight, BarChart3, History, Plus, X, CheckCircle2, AlertCircle, Play, Wifi, WifiOff, Download, Monitor, Smartphone, Search, CalendarClock, LineChart, Share2, FileQuestion, RotateCcw } from 'lucide-react';
+import { LighthouseMetrics, LighthouseService, Strategy } from './services/lighthouseService';
+import { JobClient, JobProgress } from './services/jobClient';
+import { LighthouseStorage, LighthouseResult, RawReports, RouteRerun, RouteResult } from './lib/supabase';
+import { VITALS, formatVital } from './lib/metrics';
+import { averageRange } from './lib/statistics';
+import { Budget, BudgetResult, RATING_BG, RATING_TEXT, ScoreKey, describeCheck, evaluateBudgets, failedChecks, rateScore, resolveLimits, usableBudgets } from './lib/budgets';
+import { RegressionResult, countRegressions, describeRegression } from './lib/regressions';
+import { STRATEGY_LABELS, StrategyMode, StrategyRun, rawReportKey, strategiesOf, strategyRuns } from './lib/strategies';
+import { failedRoutes, isMeasured } from './lib/routeStatus';
+import { PROVIDER_LABELS, ProviderName } from './services/analysisProvider';
+import { Route, navigate, useRoute } from './lib/router';
+import { AuthDraft, EMPTY_AUTH_DRAFT, toPageAuth } from './lib/pageAuth';
+import { BUILT_IN_PROFILES, DEFAULT_PROFILES, DeviceProfile, RunProfiles, profileDetails, profileSummary } from './lib/profiles';
+import { ReportRun, downloadFile } from './lib/htmlReport';
 import { HistoryView } from './components/HistoryView';
 import { ComparisonView } from './components/ComparisonView';
 import { LoadingSpinner } from './components/LoadingSpinner';
+import { FieldDataPanel } from './components/FieldDataPanel';
+import { OpportunitiesPanel } from './components/OpportunitiesPanel';
+import { ScoreBar } from './components/ScoreBar';
+import { RouteDiscoveryPanel } from './components/RouteDiscoveryPanel';
+import { MonitorsView } from './components/MonitorsView';
+import { TrendsView } from './components/TrendsView';
+import { BudgetEditor } from './components/BudgetEditor';
+import { AuthEditor } from './components/AuthEditor';
+import { ProfilePicker } from './components/ProfilePicker';
+import { BudgetBadge } from './components/BudgetBadge';
+import { RegressionBadge } from './components/RegressionBadge';
+import { BaselinePanel } from './components/BaselinePanel';
+import { Account, TeamSwitcher } from './components/TeamSwitcher';
+import { SharePanel } from './components/SharePanel';
+import { ReportExportButtons } from './components/ReportExportButtons';
+import { RouteStatusBadge } from './components/RouteStatusBadge';
+import { FailedRoutePanel } from './components/FailedRoutePanel';
+import { RerunPanel } from './components/RerunPanel';
+
+const ACTIVE_JOB_KEY = 'lighthouse-active-job';
+const BUDGETS_KEY = 'lighthouse-budgets';
+const PROFILES_KEY = 'lighthouse-profiles';
+
+// Set at build time, so callbacks read it without depending on state
+const hasSupabase = !!(import.meta.env.VITE_SUPABASE_URL && import.meta.env.VITE_SUPABASE_ANON_KEY);
 
 interface RouteConfig {
   id: string;
@@ -18,48 +55,132 @@ interface PerformanceResult {
   timestamp: number | string;
   routes: RouteConfig[];
   results: {
-    [route: string]: {
-      performance: number;
-      accessibility: number;
-      bestPractices: number;
-      seo: number;
-      fcp: number;
-      lcp: number;
-      cls: number;
-      fid: number;
-    };
+    [route: string]: RouteResult;
   };
-  strategy?: 'mobile' | 'desktop';
-  fullApiResults?: Record<string, any>;
+  strategy?: StrategyMode | null;
+  budgetResults?: BudgetResult | null;
+  regressionResults?: RegressionResult | null;
+  strategyResults?: LighthouseResult['strategy_results'];
+  provider?: ProviderName | null;
+  profiles?: RunProfiles | null;
+  reruns?: RouteRerun[] | null;
+  fullApiResults?: RawReports;
+}
+
+interface AppProps {
+  // The signed-in user and team; undefined without Supabase
+  account?: Account;
 }
 
-function App() {
-  const [step, setStep] = useState(1);
-  const [baseUrl, setBaseUrl] = useState('');
-  const [routeType, setRouteType] = useState<'all' | 'custom'>('all');
+function App({ account }: AppProps) {
+  // Which view and step is showing lives in the URL; see lib/router
+  const route = useRoute();
+  const [baseUrl, setBaseUrl] = useState(() => (route.name === 'new' && route.url) || '');
+  const [routeType, setRouteType] = useState<'home' | 'discover' | 'custom'>(
+    () => (route.name === 'new' && route.routeType) || 'home'
+  );
   const [customRoutes, setCustomRoutes] = useState<RouteConfig[]>([]);
-  const [strategy, setStrategy] = useState<'mobile' | 'desktop'>('mobile');
+  const [strategy, setStrategy] = useState<StrategyMode>('mobile');
   const [isLoading, setIsLoading] = useState(false);
-  const [loadingProgress, setLoadingProgress] = useState({ current: 0, total: 0, currentUrl: '' });
+  const [loadingProgress, setLoadingProgress] = useState<JobProgress>({ current: 0, total: 0, currentUrl: '' });
+  const [concurrency, setConcurrency] = useState(3);
+  const [runsPerRoute, setRunsPerRoute] = useState(1);
+  const [budgets, setBudgets] = useState<Budget[]>(() => JSON.parse(localStorage.getItem(BUDGETS_KEY) || '[]'));
+  // Unlike budgets, credentials are kept in memory only
+  const [authDraft, setAuthDraft] = useState<AuthDraft>(EMPTY_AUTH_DRAFT);
+  const [customProfiles, setCustomProfiles] = useState<DeviceProfile[]>(() => JSON.parse(localStorage.getItem(PROFILES_KEY) || '[]'));
+  const [profileIds, setProfileIds] = useState<Record<Strategy, string>>({ mobile: DEFAULT_PROFILES.mobile.id, desktop: DEFAULT_PROFILES.desktop.id });
   const [currentResult, setCurrentResult] = useState<PerformanceResult | null>(null);
-  const [showHistory, setShowHistory] = useState(false);
-  const [showComparison, setShowComparison] = useState(false);
-  const [comparisonResults, setComparisonResults] = useState<LighthouseResult[]>([]);
+  const [showShare, setShowShare] = useState(false);
+  const [showRerun, setShowRerun] = useState(false);
+  const [runMissing, setRunMissing] = useState(false);
+  // Routes being measured again, as `strategy:path`
+  const [retryingRoutes, setRetryingRoutes] = useState<string[]>([]);
+  // Shown on the results; a failed retry leaves the run as it was
+  const [retryError, setRetryError] = useState<string | null>(null);
+  // `ids` are the ones asked for, in order; runs that no longer exist are left out of `results`
+  const [comparison, setComparison] = useState<{ ids: string; results: LighthouseResult[] } | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [hasApiKey, setHasApiKey] = useState(false);
-  const [hasSupabase, setHasSupabase] = useState(false);
-  const [fullApiResults, setFullApiResults] = useState<Record<string, any>>({});
+  // Backends the job server can run Lighthouse with; demo mode without any
+  const [providers, setProviders] = useState<ProviderName[]>([]);
+  const [provider, setProvider] = useState<ProviderName>('pagespeed');
+  const [setupDismissed, setSetupDismissed] = useState(false);
+  const [activeJobId, setActiveJobId] = useState<string | null>(null);
+  const [hasJobServer, setHasJobServer] = useState(false);
+  const [fullApiResults, setFullApiResults] = useState<RawReports>({});
+  // Where "Back" in history, trends and monitors returns to
+  const mainRoute = useRef<Route>({ name: 'new', step: 1 });
+
+  const step = route.name === 'new' ? route.step : route.name === 'run' ? 4 : 1;
+  const runId = route.name === 'run' ? route.id : null;
+  const compareIds = route.name === 'compare' ? route.ids.join(',') : null;
 
   useEffect(() => {
-    // Check if API key is configured
-    setHasApiKey(!!import.meta.env.VITE_PAGESPEED_API_KEY);
-    // Check if Supabase is configured
-    setHasSupabase(!!(import.meta.env.VITE_SUPABASE_URL && import.meta.env.VITE_SUPABASE_ANON_KEY));
-    
+    if (route.name === 'new' || route.name === 'run') mainRoute.current = route;
+    // Back and forward between steps restore what the URL records
+    if (route.name !== 'new') return;
+    if (route.url) setBaseUrl(route.url);
+    if (route.routeType) setRouteType(route.routeType);
+  }, [route]);
+
+  useEffect(() => {
+    // A run opened from a link or after a reload rather than from within the app
+    if (!runId || currentResult?.id === runId) return;
+    let cancelled = false;
+    setRunMissing(false);
+    LighthouseStorage.getResultById(runId)
+      .then((result) => {
+        if (cancelled) return;
+        if (result) loadHistoryResult(result);
+        else setRunMissing(true);
+      })
+      .catch((err) => !cancelled && setError(err instanceof Error ? err.message : 'Could not load the run'));
+    return () => {
+      cancelled = true;
+    };
+  }, [runId, currentResult?.id]);
+
+  // The re-run panel stays open when a re-run reloads the same run
+  useEffect(() => {
+    setShowRerun(false);
+  }, [currentResult?.id]);
+
+  useEffect(() => {
+    if (compareIds === null || comparison?.ids === compareIds) return;
+    let cancelled = false;
+    Promise.all(compareIds.split(',').filter(Boolean).map((id) => LighthouseStorage.getResultById(id)))
+      .then((results) => {
+        if (cancelled) return;
+        setComparison({ ids: compareIds, results: results.filter((result): result is LighthouseResult => !!result) });
+      })
+      .catch((err) => !cancelled && setError(err instanceof Error ? err.message : 'Could not load the runs to compare'));
+    return () => {
+      cancelled = true;
+    };
+  }, [compareIds, comparison?.ids]);
+
+  useEffect(() => {
+    // The API key and Chrome live on the job server; ask it what it can run
+    JobClient.getHealth().then((health) => {
+      const available = health?.providers ?? (health?.hasApiKey ? ['pagespeed' as const] : []);
+      setHasJobServer(!!health);
+      setHasApiKey(!!health?.hasApiKey);
+      setProviders(available);
+      setProvider(available[0] ?? 'pagespeed');
+    });
     // Test database connection and migrate data if needed
     migrateLocalStorageData();
   }, []);
 
+  useEffect(() => {
+    localStorage.setItem(BUDGETS_KEY, JSON.stringify(budgets));
+  }, [budgets]);
+
+  useEffect(() => {
+    localStorage.setItem(PROFILES_KEY, JSON.stringify(customProfiles));
+  }, [customProfiles]);
+
   const migrateLocalStorageData = async () => {
     try {
       // Test database connection
@@ -73,15 +194,23 @@ function App() {
           const localResults = JSON.parse(localHistory);
           console.log('Found localStorage data:', localResults.length, 'results');
           
-          // Migrate each result to database
+          // Migrate each result to database. Rows with a team are backups of
+          // runs already saved there.
           for (const result of localResults) {
+            if (result.team_id) continue;
             try {
+              const rawReports = await LighthouseStorage.getRawReports(result.id);
               await LighthouseStorage.saveResult({
                 url: result.url,
                 timestamp: result.timestamp,
+                strategy: result.strategy ?? null,
+                provider: result.provider ?? null,
+                profiles: result.profiles ?? null,
+                budget_results: result.budget_results ?? null,
+                strategy_results: result.strategy_results ?? null,
                 routes: result.routes,
                 results: result.results,
-              });
+              }, rawReports);
             } catch (error) {
               console.error('Failed to migrate result:', error);
             }
@@ -90,6 +219,7 @@ function App() {
           console.log('Data migration completed');
           // Clear localStorage after successful migration
           localStorage.removeItem('lighthouse-history');
+          localStorage.removeItem('lighthouse-raw-reports');
         }
       }
     } catch (error) {
@@ -123,25 +253,117 @@ function App() {
       testInfo: {
         url: currentResult.url,
         timestamp: currentResult.timestamp,
-        strategy: currentResult.strategy || strategy,
+        strategy: currentResult.strategy ?? null,
+        provider: currentResult.provider ?? null,
+        profiles: currentResult.profiles ?? null,
         routes: currentResult.routes,
+        // Kept so the file can be imported into another history as it was
+        budgetResults: currentResult.budgetResults ?? null,
+        regressionResults: currentResult.regressionResults ?? null,
+        reruns: currentResult.reruns ?? null,
       },
-      summary: currentResult.results,
+      summary: currentResult.strategyResults ?? currentResult.results,
       fullApiResults: fullApiResults,
     };
 
-    const blob = new Blob([JSON.stringify(downloadData, null, 2)], {
-      type: 'application/json',
-    });
-    
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `lighthouse-results-${new Date().toISOString().split('T')[0]}.json`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    downloadFile(
+      JSON.stringify(downloadData, null, 2),
+      'application/json',
+      `lighthouse-results-${new Date().toISOString().split('T')[0]}.json`
+    );
+  };
+
+  const trackJob = useCallback(async (jobId: string) => {
+    setIsLoading(true);
+    setActiveJobId(jobId);
+
+    try {
+      const job = await JobClient.waitForJob(jobId, (update) => setLoadingProgress(update.progress));
+
+      if (job.status === 'failed') {
+        setError(job.error || 'The analysis job failed on the server.');
+      } else if (job.status === 'completed' && job.result) {
+        const rawReports = await JobClient.getRawReports(jobId);
+        let result = job.result;
+
+        // Without Supabase the server keeps its own copy, so import the run
+        // into this browser's local history too
+        if (!hasSupabase) {
+          result = (await LighthouseStorage.saveResult({
+            url: result.url,
+            timestamp: result.timestamp,
+            strategy: result.strategy,
+            provider: result.provider,
+            profiles: result.profiles ?? null,
+            budget_results: result.budget_results ?? null,
+            // Compared with this browser's baseline when the server had none
+            regression_results: result.regression_results ?? undefined,
+            strategy_results: result.strategy_results && Object.fromEntries(
+              Object.entries(result.strategy_results).map(([side, part]) => [
+                side,
+                { ...part, regression_results: part.regression_results ?? undefined },
+              ])
+            ),
+            routes: result.routes,
+            results: result.results,
+          }, rawReports)) ?? result;
+        }
+
+        setFullApiResults(rawReports);
+        setCurrentResult({
+          id: result.id,
+          url: result.url,
+          timestamp: result.timestamp,
+          routes: result.routes,
+          results: result.results,
+          strategy: result.strategy ?? null,
+          budgetResults: result.budget_results ?? null,
+          regressionResults: result.regression_results ?? null,
+          strategyResults: result.strategy_results ?? null,
+          provider: result.provider ?? null,
+          profiles: result.profiles ?? null,
+          fullApiResults: rawReports,
+        });
+        navigate({ name: 'run', id: result.id });
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Lost track of the analysis job');
+    } finally {
+      localStorage.removeItem(ACTIVE_JOB_KEY);
+      setActiveJobId(null);
+      setIsLoading(false);
+      setLoadingProgress({ current: 0, total: 0, currentUrl: '' });
+    }
+  }, []);
+
+  useEffect(() => {
+    // Pick up a job started before the tab was closed or reloaded
+    const pendingJobId = localStorage.getItem(ACTIVE_JOB_KEY);
+    if (pendingJobId) {
+      setSetupDismissed(true);
+      trackJob(pendingJobId);
+    }
+  }, [trackJob]);
+
+  const cancelActiveJob = async () => {
+    if (!activeJobId) return;
+    try {
+      await JobClient.cancelJob(activeJobId);
+    } catch (err) {
+      console.error('Failed to cancel job:', err);
+    }
+  };
+
+  // Only profiles other than Lighthouse's defaults are sent, so runs without
+  // a choice record no profiles, as before
+  const selectedProfiles = (): RunProfiles | undefined => {
+    const all = [...BUILT_IN_PROFILES, ...customProfiles];
+    const chosen: RunProfiles = {};
+    for (const side of strategiesOf(strategy)) {
+      const profile = all.find((candidate) => candidate.id === profileIds[side]);
+      if (profile && profile.id !== DEFAULT_PROFILES[side].id) chosen[side] = profile;
+    }
+    return Object.keys(chosen).length > 0 ? chosen : undefined;
   };
 
   const runPerformanceTest = async () => {
@@ -150,7 +372,7 @@ function App() {
     setError(null);
     
     try {
-      const routes = routeType === 'all' 
+      const routes = routeType === 'home' 
         ? [{ id: '1', path: '/', name: 'Home Page' }]
         : customRoutes.filter(route => route.path.trim());
       console.log('Running performance test for routes:', routes);
@@ -158,64 +380,37 @@ function App() {
       // Initialize progress with 0 current progress
       setLoadingProgress({ current: 0, total: routes.length, currentUrl: '' });
 
-      const results: PerformanceResult['results'] = {};
-      const apiResults: Record<string, any> = {};
-      
-      if (hasApiKey) {
-        // Use real PageSpeed Insights API
-        for (let i = 0; i < routes.length; i++) {
-          const route = routes[i];
-          setLoadingProgress({ 
-            current: i, // Start with current route index (0-based)
-            total: routes.length, 
-            currentUrl: `${baseUrl}${route.path}` 
-          });
-          
-          try {
-            const fullUrl = `${baseUrl.replace(/\/$/, '')}${route.path}`;
-            const { metrics, fullData } = await LighthouseService.analyzeUrlWithFullData(fullUrl, strategy);
-            results[route.path] = metrics;
-            apiResults[route.path] = fullData;
-            
-            // Update progress after completion
-            setLoadingProgress({ 
-              current: i + 1, 
-              total: routes.length, 
-              currentUrl: `${baseUrl}${route.path}` 
-            });
-            
-            // Add delay between requests to respect rate limits
-            if (i < routes.length - 1) {
-              await new Promise(resolve => setTimeout(resolve, 1000));
-            }
-          } catch (error) {
-            console.error(`Failed to analyze ${route.path}:`, error);
-            results[route.path] = {
-              performance: 0,
-              accessibility: 0,
-              bestPractices: 0,
-              seo: 0,
-              fcp: 0,
-              lcp: 0,
-              cls: 0,
-              fid: 0,
-            };
-            
-            // Still update progress even on error
-            setLoadingProgress({ 
-              current: i + 1, 
-              total: routes.length, 
-              currentUrl: `${baseUrl}${route.path}` 
-            });
-          }
-        }
-      } else {
-        // Fallback to mock data with realistic delay
+      if (providers.length > 0) {
+        // Real runs happen on the job server, which holds the API key and Chrome
+        const job = await JobClient.createJob({
+          url: baseUrl,
+          routes,
+          strategy,
+          provider,
+          concurrency,
+          runs: runsPerRoute,
+          budgets: usableBudgets(budgets),
+          auth: provider === 'local' ? toPageAuth(authDraft) : undefined,
+          profiles: provider === 'local' ? selectedProfiles() : undefined,
+        });
+        localStorage.setItem(ACTIVE_JOB_KEY, job.id);
+        await trackJob(job.id);
+        return;
+      }
+
+      const sides = strategiesOf(strategy);
+      const total = routes.length * sides.length;
+      const sideResults: Partial<Record<Strategy, PerformanceResult['results']>> = {};
+
+      // Demo mode: mock data with realistic delay
+      for (const [index, side] of sides.entries()) {
+        const results: PerformanceResult['results'] = {};
         for (let i = 0; i < routes.length; i++) {
           const route = routes[i];
+          const current = index * routes.length + i;
           setLoadingProgress({ 
-            current: i, // Start with current route index
-            total: routes.length, 
+            current, // Start with current route index
+            total, 
             currentUrl: `${baseUrl}${route.path}` 
           });
           
@@ -223,25 +418,33 @@ function App() {
           await new Promise(resolve => setTimeout(resolve, 2000));
           
           results[route.path] = {
+            status: 'ok',
             performance: Math.floor(Math.random() * 30) + 70,
             accessibility: Math.floor(Math.random() * 20) + 80,
             bestPractices: Math.floor(Math.random() * 25) + 75,
             seo: Math.floor(Math.random() * 20) + 80,
-            fcp: Math.random() * 1.5 + 1.2,
-            lcp: Math.random() * 2 + 2.5,
+            fcp: Math.random() * 1500 + 1200,
+            lcp: Math.random() * 2000 + 2500,
             cls: Math.random() * 0.1,
-            fid: Math.random() * 50 + 50,
+            inp: null,
+            tbt: Math.random() * 400 + 50,
+            speedIndex: Math.random() * 2000 + 2000,
+            ttfb: Math.random() * 400 + 200,
+            serverResponseTime: Math.random() * 300 + 100,
           };
           
           // Update progress after completion
           setLoadingProgress({ 
-            current: i + 1, 
-            total: routes.length, 
+            current: current + 1, 
+            total, 
             currentUrl: `${baseUrl}${route.path}` 
           });
         }
+        sideResults[side] = results;
       }
 
+      const both = strategy === 'both';
+      const results = both ? {} : sideResults[strategy]!;
       const newResult: PerformanceResult = {
         id: Date.now().toString(),
         url: baseUrl,
@@ -249,16 +452,32 @@ function App() {
         routes,
         results,
         strategy,
-        fullApiResults: apiResults,
+        budgetResults: both ? null : evaluateBudgets(usableBudgets(budgets), results),
+        strategyResults: both
+          ? Object.fromEntries(
+              sides.map((side) => [
+                side,
+                {
+                  results: sideResults[side]!,
+                  avg_scores: LighthouseStorage.calculateAverageScores(sideResults[side]!),
+                  budget_results: evaluateBudgets(usableBudgets(budgets), sideResults[side]!),
+                },
+              ])
+            )
+          : null,
       };
 
-      setFullApiResults(apiResults);
+      setFullApiResults({});
 
       // Save to cloud storage with proper error handling
+      let savedResult: LighthouseResult | null = null;
       try {
-        const savedResult = await LighthouseStorage.saveResult({
+        savedResult = await LighthouseStorage.saveResult({
           url: newResult.url,
           timestamp: newResult.timestamp,
+          strategy: newResult.strategy,
+          budget_results: newResult.budgetResults,
+          strategy_results: newResult.strategyResults,
           routes: newResult.routes,
           results: newResult.results,
         });
@@ -271,8 +490,13 @@ function App() {
         setError('Warning: Results saved locally only. Database connection failed.');
       }
       
-      setCurrentResult(newResult);
-      setStep(4);
+      setCurrentResult({
+        ...newResult,
+        id: savedResult?.id ?? newResult.id,
+        regressionResults: savedResult?.regression_results ?? null,
+        strategyResults: savedResult?.strategy_results ?? newResult.strategyResults,
+      });
+      navigate({ name: 'run', id: savedResult?.id ?? newResult.id });
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An unexpected error occurred');
     } finally {
@@ -281,79 +505,182 @@ function App() {
     }
   };
 
-  const getScoreColor = (score: number) => {
-    if (score >= 90) return 'text-green-600';
-    if (score >= 50) return 'text-yellow-600';
-    return 'text-red-600';
-  };
+  // `minimum` is the budget for the score, when one applies
+  const getScoreColor = (score: number, minimum?: number) => RATING_TEXT[rateScore(score, minimum)];
 
-  const getScoreBg = (score: number) => {
-    if (score >= 90) return 'bg-green-100';
-    if (score >= 50) return 'bg-yellow-100';
-    return 'bg-red-100';
-  };
+  const getScoreBg = (score: number, minimum?: number) => RATING_BG[rateScore(score, minimum)];
 
   const resetTool = () => {
-    setStep(1);
+    navigate({ name: 'new', step: 1 });
     setBaseUrl('');
-    setRouteType('all');
+    setRouteType('home');
     setCustomRoutes([]);
     setCurrentResult(null);
     setIsLoading(false);
     setError(null);
-    setShowHistory(false);
-    setShowComparison(false);
-    setComparisonResults([]);
+    setComparison(null);
     setFullApiResults({});
+    setShowShare(false);
   };
 
-  const loadHistoryResult = (result: LighthouseResult) => {
+  const loadHistoryResult = async (result: LighthouseResult) => {
+    const rawReports = await LighthouseStorage.getRawReports(result.id);
+
+    // Runs saved before audits were kept can still recover them from the raw report
+    const results = { ...result.results };
+    for (const [route, report] of Object.entries(rawReports)) {
+      if (results[route] && !results[route].audits) {
+        results[route] = { ...results[route], audits: LighthouseService.parseAudits(report) };
+      }
+    }
+
     // Convert LighthouseResult to PerformanceResult format
     const performanceResult: PerformanceResult = {
       id: result.id,
       url: result.url,
       timestamp: result.timestamp,
       routes: result.routes,
-      results: result.results,
+      results,
+      strategy: result.strategy ?? null,
+      budgetResults: result.budget_results ?? null,
+      regressionResults: result.regression_results ?? null,
+      strategyResults: result.strategy_results ?? null,
+      provider: result.provider ?? null,
+      profiles: result.profiles ?? null,
+      reruns: result.reruns ?? null,
+      fullApiResults: rawReports,
     };
     
+    setFullApiResults(rawReports);
     setCurrentResult(performanceResult);
-    setShowHistory(false);
-    setStep(4);
+    setShowShare(false);
+    setRunMissing(false);
+    navigate({ name: 'run', id: result.id });
+  };
+
+  // Measures routes of the open run again, given as `strategy:path` keys,
+  // and merges the outcome into the saved run. The run's backend, profile and
+  // runs per route are reused; login settings come from step 2, since they
+  // are never saved. Each strategy is its own job, one after another.
+  const rerunRoutes = async (keys: string[]) => {
+    if (!currentResult || keys.length === 0) return;
+    setRetryingRoutes((running) => [...running, ...keys]);
+    setRetryError(null);
+
+    const pathsBySide = new Map<Strategy, string[]>();
+    for (const key of keys) {
+      const separator = key.indexOf(':');
+      const side = key.slice(0, separator) as Strategy;
+      pathsBySide.set(side, [...(pathsBySide.get(side) ?? []), key.slice(separator + 1)]);
+    }
+
+    try {
+      const saved = await LighthouseStorage.getResultById(currentResult.id);
+      if (!saved) throw new Error('This run is no longer in the history, so it cannot be updated.');
+      const runProvider = saved.provider ?? 'pagespeed';
+      const updates: Partial<Record<Strategy, LighthouseResult['results']>> = {};
+      const rawReports: RawReports = {};
+
+      for (const [side, paths] of pathsBySide) {
+        const sideResults = strategyRuns(saved).find((run) => run.strategy === side)?.results ?? {};
+        const profile = saved.profiles?.[side];
+        const job = await JobClient.createJob({
+          url: saved.url,
+          routes: saved.routes.filter((route) => paths.includes(route.path)),
+          strategy: side,
+          provider: runProvider,
+          runs: Math.max(1, ...Object.values(sideResults).map((result) => result.runs ?? 1)),
+          profiles: profile ? { [side]: profile } : undefined,
+          auth: runProvider === 'local' ? toPageAuth(authDraft) : undefined,
+          rerunOf: saved.id,
+        });
+        const finished = await JobClient.waitForJob(job.id, () => {});
+        if (finished.status !== 'completed' || !finished.routeResults?.[side]) {
+          throw new Error(finished.error || 'The re-run did not complete.');
+        }
+
+        updates[side] = finished.routeResults[side];
+        const reports = await JobClient.getRawReports(job.id);
+        for (const [route, report] of Object.entries(reports)) {
+          rawReports[rawReportKey(saved.strategy, side, route)] = report;
+        }
+      }
+
+      const updated = await LighthouseStorage.replaceRoutes(saved, updates, rawReports);
+      await loadHistoryResult(updated);
+    } catch (err) {
+      const what = keys.length === 1 ? keys[0].slice(keys[0].indexOf(':') + 1) : `${keys.length} routes`;
+      setRetryError(`${what} could not be re-run: ${err instanceof Error ? err.message : 'unknown error'}`);
+    } finally {
+      setRetryingRoutes((running) => running.filter((existing) => !keys.includes(existing)));
+    }
   };
 
   const handleCompareResults = (results: LighthouseResult[]) => {
-    setComparisonResults(results);
-    setShowHistory(false);
-    setShowComparison(true);
+    const ids = results.map((result) => result.id);
+    setComparison({ ids: ids.join(','), results });
+    navigate({ name: 'compare', ids });
   };
 
-  // Show comparison view
-  if (showComparison) {
-    return (
-      <ComparisonView
-        results={comparisonResults}
-        onBack={() => {
-          setShowComparison(false);
-          setShowHistory(true);
-        }}
-      />
-    );
+  const closeView = () => navigate(mainRoute.current);
+
+  // Show comparison view once its runs are loaded
+  if (route.name === 'compare') {
+    return comparison?.ids === compareIds ? (
+      <ComparisonView results={comparison.results} onBack={() => navigate({ name: 'history' })} />
+    ) : null;
   }
 
   // Show history view
-  if (showHistory) {
+  if (route.name === 'history') {
     return (
       <HistoryView
-        onBack={() => setShowHistory(false)}
+        onBack={closeView}
         onLoadResult={loadHistoryResult}
         onCompareResults={handleCompareResults}
+        initialDomain={route.domain}
+        initialMonitorId={route.monitorId}
+        onFiltersChange={({ domain, monitorId }) =>
+          navigate({ name: 'history', domain, monitorId }, { replace: true })
+        }
+      />
+    );
+  }
+
+  // Show trend charts
+  if (route.name === 'trends') {
+    return (
+      <TrendsView
+        onBack={closeView}
+        onOpenRun={loadHistoryResult}
+        initialDomain={route.domain ?? (currentResult ? LighthouseStorage.extractDomain(currentResult.url) : undefined)}
+        onDomainChange={(domain) => navigate({ name: 'trends', domain }, { replace: true })}
+      />
+    );
+  }
+
+  // Show scheduled monitors
+  if (route.name === 'monitors') {
+    return (
+      <MonitorsView
+        providers={providers}
+        onBack={closeView}
+        onViewHistory={(monitorId) => navigate({ name: 'history', monitorId })}
+        defaults={currentResult ? {
+          name: LighthouseStorage.extractDomain(currentResult.url),
+          url: currentResult.url,
+          routes: currentResult.routes,
+          strategy: currentResult.strategy ?? strategy,
+          provider: currentResult.provider ?? provider,
+          budgets: currentResult.budgetResults?.budgets ?? usableBudgets(budgets),
+          auth: (currentResult.provider ?? provider) === 'local' ? toPageAuth(authDraft) : undefined,
+        } : { budgets: usableBudgets(budgets) }}
       />
     );
   }
 
   // API Key Setup Notice
-  if (!hasApiKey && step === 1) {
+  if (providers.length === 0 && !setupDismissed && step === 1) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50">
         <div className="container mx-auto px-4 py-8">
@@ -373,10 +700,19 @@ function App() {
                   <ol className="list-decimal list-inside space-y-2 text-blue-800 text-sm">
                     <li>Go to <a href="https://console.cloud.google.com/" target="_blank" rel="noopener noreferrer" className="underline">Google Cloud Console</a></li>
                     <li>Enable the PageSpeed Insights API</li>
-                    <li>Create an API key and add as <code className="bg-blue-100 px-2 py-1 rounded">VITE_PAGESPEED_API_KEY</code></li>
+                    <li>Create an API key and set it as <code className="bg-blue-100 px-2 py-1 rounded">PAGESPEED_API_KEY</code> for the job server</li>
+                    <li>Start the job server with <code className="bg-blue-100 px-2 py-1 rounded">npm run server</code></li>
                   </ol>
                 </div>
 
+                <div className="bg-teal-50 rounded-lg p-6">
+                  <h3 className="font-semibold text-teal-900 mb-3">Local Lighthouse (Optional):</h3>
+                  <p className="text-teal-800 text-sm">
+                    To test staging or intranet URLs that Google cannot reach, install Chrome on the job server's machine
+                    (or point <code className="bg-teal-100 px-2 py-1 rounded">CHROME_PATH</code> at it). No API key is needed.
+                  </p>
+                </div>
+
                 {!hasSupabase && (
                   <div className="bg-purple-50 rounded-lg p-6">
                     <h3 className="font-semibold text-purple-900 mb-3">Supabase Database (Recommended):</h3>
@@ -401,6 +737,12 @@ function App() {
                         PageSpeed API: {hasApiKey ? 'Connected' : 'Demo mode'}
                       </span>
                     </div>
+                    <div className="flex items-center space-x-2">
+                      {providers.includes('local') ? <Wifi className="h-4 w-4 text-green-600" /> : <WifiOff className="h-4 w-4 text-gray-400" />}
+                      <span className={providers.includes('local') ? 'text-green-700' : 'text-gray-600'}>
+                        Local Lighthouse: {providers.includes('local') ? 'Available' : 'Chrome not found'}
+                      </span>
+                    </div>
                     <div className="flex items-center space-x-2">
                       {hasSupabase ? <Database className="h-4 w-4 text-green-600" /> : <Database className="h-4 w-4 text-gray-400" />}
                       <span className={hasSupabase ? 'text-green-700' : 'text-gray-600'}>
@@ -433,7 +775,7 @@ function App() {
                 </div>
 
                 <button
-                  onClick={() => setHasApiKey(true)}
+                  onClick={() => setSetupDismissed(true)}
                   className="w-full bg-indigo-600 text-white py-3 px-6 rounded-lg hover:bg-indigo-700 transition-colors"
                 >
                   Continue with Current Setup
@@ -449,9 +791,10 @@ function App() {
   if (isLoading) {
     return (
       <LoadingSpinner 
-        hasApiKey={hasApiKey}
+        hasApiKey={providers.length > 0}
         hasSupabase={hasSupabase}
         loadingProgress={loadingProgress}
+        onCancel={activeJobId ? cancelActiveJob : undefined}
       />
     );
   }
@@ -478,21 +821,109 @@ function App() {
     );
   }
 
-  if (step === 4 && currentResult) {
-    const avgScores = Object.values(currentResult.results).reduce(
-      (acc, result) => ({
-        performance: acc.performance + result.performance,
-        accessibility: acc.accessibility + result.accessibility,
-        bestPractices: acc.bestPractices + result.bestPractices,
-        seo: acc.seo + result.seo,
-      }),
-      { performance: 0, accessibility: 0, bestPractices: 0, seo: 0 }
+  if (route.name === 'run' && currentResult?.id !== route.id) {
+    if (!runMissing) return null;
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 flex items-center justify-center">
+        <div className="max-w-md mx-auto text-center">
+          <div className="bg-white rounded-2xl shadow-lg border border-gray-200 p-8">
+            <div className="p-4 bg-gray-100 rounded-2xl w-fit mx-auto mb-4">
+              <FileQuestion className="h-8 w-8 text-gray-500" />
+            </div>
+            <h2 className="text-2xl font-bold text-gray-900 mb-2">Run Not Found</h2>
+            <p className="text-gray-600 mb-6">
+              This run was deleted, belongs to another team, or was only saved in another browser.
+            </p>
+            <div className="flex space-x-4">
+              <button
+                onClick={() => navigate({ name: 'history' })}
+                className="flex-1 py-3 px-6 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                View History
+              </button>
+              <button
+                onClick={resetTool}
+                className="flex-1 bg-indigo-600 text-white py-3 px-6 rounded-lg hover:bg-indigo-700 transition-colors"
+              >
+                New Test
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
     );
+  }
 
-    const routeCount = Object.keys(currentResult.results).length;
-    Object.keys(avgScores).forEach(key => {
-      avgScores[key as keyof typeof avgScores] = Math.round(avgScores[key as keyof typeof avgScores] / routeCount);
+  if (route.name === 'run' && currentResult) {
+    // One entry per strategy; "both" runs are shown side by side
+    const runs = strategyRuns({
+      strategy: currentResult.strategy,
+      results: currentResult.results,
+      avg_scores: LighthouseStorage.calculateAverageScores(currentResult.results),
+      budget_results: currentResult.budgetResults,
+      regression_results: currentResult.regressionResults,
+      strategy_results: currentResult.strategyResults,
     });
+    const bothStrategies = runs.length > 1;
+    const routePaths = [...new Set(runs.flatMap((run) => Object.keys(run.results)))];
+
+    const budgetResults = runs.flatMap((run) => (run.budget_results ? [run.budget_results] : []));
+    const routesOverBudget = budgetResults.reduce(
+      (count, result) => count + Object.values(result.routes).filter((route) => !route.passed).length,
+      0
+    );
+    const regressionResults = runs.flatMap((run) => (run.regression_results ? [run.regression_results] : []));
+    const regressionCount = regressionResults.reduce((count, result) => count + countRegressions(result), 0);
+    const failedCount = runs.reduce((count, run) => count + failedRoutes(run.results).length, 0);
+    // Retrying needs the job server and the strategy the route ran with
+    const canRetry = (run: StrategyRun) => providers.length > 0 && !!run.strategy;
+    const canRerun = runs.some(canRetry);
+    const reportRun: ReportRun = {
+      id: currentResult.id,
+      url: currentResult.url,
+      timestamp: currentResult.timestamp,
+      routes: currentResult.routes,
+      results: currentResult.results,
+      avg_scores: LighthouseStorage.calculateAverageScores(currentResult.results),
+      strategy: currentResult.strategy,
+      provider: currentResult.provider,
+      profiles: currentResult.profiles,
+      budget_results: currentResult.budgetResults,
+      regression_results: currentResult.regressionResults,
+      strategy_results: currentResult.strategyResults,
+    };
+
+    const renderRouteBadges = (run: StrategyRun, route: string) => {
+      const metrics = run.results[route];
+      const routeBudget = run.budget_results?.routes[route];
+      const routeRegressions = run.regression_results?.routes[route];
+      if (!isMeasured(metrics)) {
+        return (
+          <span className="ml-3">
+            <RouteStatusBadge result={metrics} />
+          </span>
+        );
+      }
+      return (
+        <>
+          {(metrics.runs ?? 1) > 1 && (
+            <span className="ml-3 px-2 py-0.5 text-xs font-medium rounded-full bg-indigo-100 text-indigo-700">
+              Median of {metrics.runs} runs
+            </span>
+          )}
+          {routeBudget && (
+            <span className="ml-3">
+              <BudgetBadge passed={routeBudget.passed} failures={routeBudget.checks.filter((check) => !check.passed)} />
+            </span>
+          )}
+          {routeRegressions && (
+            <span className="ml-3">
+              <RegressionBadge regressed={routeRegressions.length > 0} regressions={routeRegressions} />
+            </span>
+          )}
+        </>
+      );
+    };
 
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50">
@@ -509,23 +940,49 @@ function App() {
                     <span>{currentResult.url}</span>
                     <div className="flex items-center space-x-4 text-sm">
                       <div className="flex items-center space-x-1">
-                        {currentResult.strategy === 'mobile' ? <Smartphone className="h-4 w-4" /> : <Monitor className="h-4 w-4" />}
-                        <span className="capitalize">{currentResult.strategy || strategy}</span>
+                        {currentResult.strategy !== 'desktop' && <Smartphone className="h-4 w-4" />}
+                        {currentResult.strategy !== 'mobile' && <Monitor className="h-4 w-4" />}
+                        <span title={currentResult.strategy ? profileDetails(currentResult.profiles, currentResult.strategy) : undefined}>
+                          {currentResult.strategy
+                            ? `${STRATEGY_LABELS[currentResult.strategy]} · ${profileSummary(currentResult.profiles, currentResult.strategy)}`
+                            : 'Strategy not recorded'}
+                        </span>
                       </div>
                       <div className="flex items-center space-x-1">
-                        {hasApiKey ? <Wifi className="h-4 w-4 text-green-600" /> : <WifiOff className="h-4 w-4 text-gray-400" />}
-                        <span>{hasApiKey ? 'Real data' : 'Demo data'}</span>
+                        {currentResult.provider ? <Wifi className="h-4 w-4 text-green-600" /> : <WifiOff className="h-4 w-4 text-gray-400" />}
+                        <span>{currentResult.provider ? PROVIDER_LABELS[currentResult.provider] : 'Demo data'}</span>
                       </div>
                       <div className="flex items-center space-x-1">
                         {hasSupabase ? <Database className="h-4 w-4 text-green-600" /> : <Database className="h-4 w-4 text-gray-400" />}
                         <span>{hasSupabase ? 'Saved to cloud' : 'Local only'}</span>
                       </div>
+                      {budgetResults.length > 0 && (
+                        <BudgetBadge
+                          passed={routesOverBudget === 0}
+                          failures={budgetResults.flatMap(failedChecks)}
+                          label={routesOverBudget === 0
+                            ? 'All routes within budget'
+                            : `${routesOverBudget} route(s) over budget`}
+                        />
+                      )}
+                      {failedCount > 0 && (
+                        <RouteStatusBadge result={{ status: 'failed', error: `${failedCount} route(s) could not be measured and are left out of the averages` }} label={`${failedCount} route(s) failed`} />
+                      )}
+                      {regressionResults.length > 0 && (
+                        <RegressionBadge
+                          regressed={regressionCount > 0}
+                          regressions={regressionResults.flatMap((result) => Object.values(result.routes).flat())}
+                          label={regressionCount > 0
+                            ? `${regressionCount} regression(s) vs baseline`
+                            : 'No regressions vs baseline'}
+                        />
+                      )}
                     </div>
                   </div>
                 </div>
               </div>
               <div className="flex items-center space-x-3">
-                {hasApiKey && Object.keys(fullApiResults).length > 0 && (
+                {Object.keys(fullApiResults).length > 0 && (
                   <button
                     onClick={downloadFullResults}
                     className="inline-flex items-center space-x-2 px-4 py-2 bg-green-100 text-green-700 rounded-lg hover:bg-green-200 transition-colors"
@@ -534,13 +991,46 @@ function App() {
                     <span>Download Full Results</span>
                   </button>
                 )}
+                <ReportExportButtons results={[reportRun]} />
+                {(canRerun || (currentResult.reruns?.length ?? 0) > 0) && (
+                  <button
+                    onClick={() => setShowRerun(!showRerun)}
+                    className="inline-flex items-center space-x-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+                  >
+                    <RotateCcw className="h-4 w-4" />
+                    <span>Re-run Routes</span>
+                  </button>
+                )}
+                <button
+                  onClick={() => setShowShare(!showShare)}
+                  className="inline-flex items-center space-x-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+                >
+                  <Share2 className="h-4 w-4" />
+                  <span>Share</span>
+                </button>
                 <button
-                  onClick={() => setShowHistory(true)}
+                  onClick={() => navigate({ name: 'history' })}
                   className="inline-flex items-center space-x-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
                 >
                   <History className="h-4 w-4" />
                   <span>View History</span>
                 </button>
+                <button
+                  onClick={() => navigate({ name: 'trends', domain: LighthouseStorage.extractDomain(currentResult.url) })}
+                  className="inline-flex items-center space-x-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+                >
+                  <LineChart className="h-4 w-4" />
+                  <span>View Trends</span>
+                </button>
+                {hasJobServer && (
+                  <button
+                    onClick={() => navigate({ name: 'monitors' })}
+                    className="inline-flex items-center space-x-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+                  >
+                    <CalendarClock className="h-4 w-4" />
+                    <span>Monitor This Site</span>
+                  </button>
+                )}
                 <button
                   onClick={resetTool}
                   className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
@@ -550,79 +1040,204 @@ function App() {
               </div>
             </div>
 
+            {showShare && <SharePanel resultId={currentResult.id} hasSupabase={hasSupabase} />}
+
+            {showRerun && (
+              <RerunPanel
+                key={currentResult.id}
+                routes={currentResult.routes}
+                runs={runs}
+                reruns={currentResult.reruns ?? []}
+                running={retryingRoutes}
+                onRerun={canRerun ? rerunRoutes : undefined}
+              />
+            )}
+
+            {retryError && (
+              <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2 text-red-700">
+                <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                <span className="text-sm">{retryError}</span>
+              </div>
+            )}
+
             {/* Overall Scores */}
-            <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
-              {[
-                { label: 'Performance', score: avgScores.performance, icon: Zap },
-                { label: 'Accessibility', score: avgScores.accessibility, icon: Eye },
-                { label: 'Best Practices', score: avgScores.bestPractices, icon: CheckCircle2 },
-                { label: 'SEO', score: avgScores.seo, icon: Globe },
-              ].map((metric) => (
-                <div key={metric.label} className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
-                  <div className="flex items-center justify-between mb-4">
-                    <metric.icon className={`h-6 w-6 ${getScoreColor(metric.score)}`} />
-                    <span className={`text-2xl font-bold ${getScoreColor(metric.score)}`}>
-                      {metric.score}
-                    </span>
-                  </div>
-                  <h3 className="font-medium text-gray-900">{metric.label}</h3>
-                  <div className="mt-3 bg-gray-200 rounded-full h-2">
-                    <div
-                      className={`h-2 rounded-full ${metric.score >= 90 ? 'bg-green-500' : metric.score >= 50 ? 'bg-yellow-500' : 'bg-red-500'}`}
-                      style={{ width: `${metric.score}%` }}
-                    ></div>
+            <div className={bothStrategies ? 'grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8' : 'mb-8'}>
+              {runs.map((run) => {
+                const avgScores = run.avg_scores;
+                // Color by the budgets the run was evaluated against, not today's settings
+                const overallLimits = resolveLimits(run.budget_results?.budgets ?? []);
+                return (
+                  <div key={run.strategy ?? 'unknown'}>
+                    {bothStrategies && (
+                      <h2 className="flex items-center space-x-2 text-lg font-semibold text-gray-900 mb-4">
+                        {run.strategy === 'mobile' ? <Smartphone className="h-5 w-5" /> : <Monitor className="h-5 w-5" />}
+                        <span>{run.strategy && STRATEGY_LABELS[run.strategy]}</span>
+                        {run.strategy && (
+                          <span className="text-sm font-normal text-gray-500" title={profileDetails(currentResult.profiles, run.strategy)}>
+                            {profileSummary(currentResult.profiles, run.strategy)}
+                          </span>
+                        )}
+                      </h2>
+                    )}
+                    <div className={`grid gap-6 ${bothStrategies ? 'grid-cols-2' : 'grid-cols-1 md:grid-cols-4'}`}>
+                      {[
+                        { key: 'performance', label: 'Performance', score: avgScores.performance, icon: Zap },
+                        { key: 'accessibility', label: 'Accessibility', score: avgScores.accessibility, icon: Eye },
+                        { key: 'bestPractices', label: 'Best Practices', score: avgScores.bestPractices, icon: CheckCircle2 },
+                        { key: 'seo', label: 'SEO', score: avgScores.seo, icon: Globe },
+                      ].map((metric) => {
+                        const minimum = overallLimits[metric.key as ScoreKey];
+                        return (
+                          <div key={metric.label} className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+                            <div className="flex items-center justify-between mb-4">
+                              <metric.icon className={`h-6 w-6 ${getScoreColor(metric.score, minimum)}`} />
+                              <span className={`text-2xl font-bold ${getScoreColor(metric.score, minimum)}`}>
+                                {metric.score}
+                              </span>
+                            </div>
+                            <h3 className="font-medium text-gray-900">{metric.label}</h3>
+                            <ScoreBar
+                              score={metric.score}
+                              range={averageRange(Object.values(run.results), metric.key as keyof LighthouseMetrics)}
+                              minimum={minimum}
+                            />
+                          </div>
+                        );
+                      })}
+                    </div>
                   </div>
-                </div>
+                );
+              })}
+            </div>
+
+            <div className={bothStrategies ? 'grid grid-cols-1 lg:grid-cols-2 gap-6' : ''}>
+              {runs.map((run) => (
+                <BaselinePanel
+                  key={`${currentResult.id}-${run.strategy}`}
+                  run={currentResult}
+                  strategy={run.strategy}
+                  results={run.results}
+                  showStrategy={bothStrategies}
+                />
               ))}
             </div>
 
+
             {/* Detailed Results by Route */}
             <div className="space-y-6">
-              {Object.entries(currentResult.results).map(([route, metrics]) => (
-                <div key={route} className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
-                  <h3 className="text-lg font-semibold text-gray-900 mb-4">
-                    {currentResult.routes.find(r => r.path === route)?.name || route}
-                    <span className="text-sm text-gray-500 ml-2">({route})</span>
-                  </h3>
-                  
-                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
-                    {[
-                      { label: 'Performance', score: metrics.performance },
-                      { label: 'Accessibility', score: metrics.accessibility },
-                      { label: 'Best Practices', score: metrics.bestPractices },
-                      { label: 'SEO', score: metrics.seo },
-                    ].map((metric) => (
-                      <div key={metric.label} className={`p-4 rounded-lg ${getScoreBg(metric.score)}`}>
-                        <div className="flex items-center justify-between">
-                          <span className="text-sm font-medium text-gray-700">{metric.label}</span>
-                          <span className={`text-lg font-bold ${getScoreColor(metric.score)}`}>
-                            {metric.score}
-                          </span>
-                        </div>
-                      </div>
-                    ))}
-                  </div>
+              {routePaths.map((route) => {
+                const routeRuns = runs.filter((run) => run.results[route]);
+                return (
+                  <div key={route} className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+                    <h3 className="text-lg font-semibold text-gray-900 mb-4">
+                      {currentResult.routes.find(r => r.path === route)?.name || route}
+                      <span className="text-sm text-gray-500 ml-2">({route})</span>
+                      {!bothStrategies && renderRouteBadges(routeRuns[0], route)}
+                    </h3>
 
-                  <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
-                    <div className="text-center">
-                      <div className="text-2xl font-bold text-blue-600">{metrics.fcp.toFixed(1)}s</div>
-                      <div className="text-sm text-gray-600">First Contentful Paint</div>
-                    </div>
-                    <div className="text-center">
-                      <div className="text-2xl font-bold text-purple-600">{metrics.lcp.toFixed(1)}s</div>
-                      <div className="text-sm text-gray-600">Largest Contentful Paint</div>
-                    </div>
-                    <div className="text-center">
-                      <div className="text-2xl font-bold text-orange-600">{metrics.cls.toFixed(3)}</div>
-                      <div className="text-sm text-gray-600">Cumulative Layout Shift</div>
-                    </div>
-                    <div className="text-center">
-                      <div className="text-2xl font-bold text-teal-600">{metrics.fid.toFixed(0)}ms</div>
-                      <div className="text-sm text-gray-600">First Input Delay</div>
+                    <div className={bothStrategies ? 'grid grid-cols-1 lg:grid-cols-2 gap-6' : ''}>
+                      {routeRuns.map((run) => {
+                        const metrics = run.results[route];
+                        const routeLimits = resolveLimits(run.budget_results?.budgets ?? [], route);
+                        const routeFailures = run.budget_results?.routes[route]?.checks.filter((check) => !check.passed) ?? [];
+                        const routeRegressions = run.regression_results?.routes[route];
+                        return (
+                          <div key={run.strategy ?? 'unknown'}>
+                            {bothStrategies && (
+                              <h4 className="flex items-center flex-wrap gap-y-2 font-semibold text-gray-900 mb-4">
+                                {run.strategy === 'mobile' ? <Smartphone className="h-4 w-4 mr-1" /> : <Monitor className="h-4 w-4 mr-1" />}
+                                {run.strategy && STRATEGY_LABELS[run.strategy]}
+                                {renderRouteBadges(run, route)}
+                              </h4>
+                            )}
+
+                            {!isMeasured(metrics) ? (
+                              <FailedRoutePanel
+                                result={metrics}
+                                onRetry={canRetry(run) ? () => rerunRoutes([`${run.strategy}:${route}`]) : undefined}
+                                retrying={retryingRoutes.includes(`${run.strategy}:${route}`)}
+                              />
+                            ) : (
+                              <>
+                                {routeFailures.length > 0 && (
+                                  <ul className="mb-4 text-sm text-red-700 list-disc list-inside">
+                                    {routeFailures.map((check) => (
+                                      <li key={check.metric}>{describeCheck(check)}</li>
+                                    ))}
+                                  </ul>
+                                )}
+
+                                {routeRegressions && routeRegressions.length > 0 && (
+                                  <ul className="mb-4 text-sm text-orange-700 list-disc list-inside">
+                                    {routeRegressions.map((regression) => (
+                                      <li key={regression.metric}>{describeRegression(regression)} since the baseline</li>
+                                    ))}
+                                  </ul>
+                                )}
+
+                                <div className={`grid gap-4 mb-6 ${bothStrategies ? 'grid-cols-2' : 'grid-cols-1 md:grid-cols-2 lg:grid-cols-4'}`}>
+                                  {[
+                                    { key: 'performance', label: 'Performance', score: metrics.performance },
+                                    { key: 'accessibility', label: 'Accessibility', score: metrics.accessibility },
+                                    { key: 'bestPractices', label: 'Best Practices', score: metrics.bestPractices },
+                                    { key: 'seo', label: 'SEO', score: metrics.seo },
+                                  ].map((metric) => {
+                                    const spread = (metrics.runs ?? 1) > 1 ? metrics.stats?.[metric.key as keyof LighthouseMetrics] : undefined;
+                                    return (
+                                      <div key={metric.label} className={`p-4 rounded-lg ${getScoreBg(metric.score, routeLimits[metric.key as ScoreKey])}`}>
+                                        <div className="flex items-center justify-between">
+                                          <span className="text-sm font-medium text-gray-700">{metric.label}</span>
+                                          <span className={`text-lg font-bold ${getScoreColor(metric.score, routeLimits[metric.key as ScoreKey])}`}>
+                                            {metric.score}
+                                          </span>
+                                        </div>
+                                        {spread && (
+                                          <div className="mt-1 text-xs text-gray-600">
+                                            ±{spread.stdDev.toFixed(1)} · {Math.round(spread.min)}–{Math.round(spread.max)}
+                                          </div>
+                                        )}
+                                      </div>
+                                    );
+                                  })}
+                                </div>
+
+                                <div className={`grid gap-4 ${bothStrategies ? 'grid-cols-2' : 'grid-cols-2 md:grid-cols-4'}`}>
+                                  {VITALS.map((vital) => {
+                                    const value = metrics[vital.key];
+                                    const unavailable = value === null;
+                                    const spread = (metrics.runs ?? 1) > 1 ? metrics.stats?.[vital.key] : undefined;
+                                    const overBudget = routeFailures.some((check) => check.metric === vital.key);
+                                    return (
+                                      <div
+                                        key={vital.key}
+                                        className="text-center"
+                                        title={unavailable ? 'Not measured in this run' : undefined}
+                                      >
+                                        <div className={`text-2xl font-bold ${unavailable ? 'text-gray-300' : overBudget ? 'text-red-600' : vital.color}`}>
+                                          {formatVital(vital.key, value)}
+                                        </div>
+                                        <div className="text-sm text-gray-600">{vital.label}</div>
+                                        {spread && (
+                                          <div className="text-xs text-gray-500">
+                                            {formatVital(vital.key, spread.min)}–{formatVital(vital.key, spread.max)}
+                                          </div>
+                                        )}
+                                      </div>
+                                    );
+                                  })}
+                                </div>
+
+                                <FieldDataPanel fieldData={metrics.fieldData} metrics={metrics} />
+                                <OpportunitiesPanel audits={metrics.audits} />
+                              </>
+                            )}
+                          </div>
+                        );
+                      })}
                     </div>
                   </div>
-                </div>
-              ))}
+                );
+              })}
             </div>
           </div>
         </div>
@@ -634,6 +1249,8 @@ function App() {
     <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50">
       <div className="container mx-auto px-4 py-8">
         <div className="max-w-4xl mx-auto">
+          {account && <TeamSwitcher account={account} />}
+
           {/* Header */}
           <div className="text-center mb-12">
             <div className="flex items-center justify-center space-x-3 mb-4">
@@ -647,16 +1264,32 @@ function App() {
             </p>
             <div className="flex items-center justify-center space-x-6 mt-6">
               <button
-                onClick={() => setShowHistory(true)}
+                onClick={() => navigate({ name: 'history' })}
                 className="inline-flex items-center space-x-2 text-indigo-600 hover:text-indigo-700 transition-colors"
               >
                 <History className="h-4 w-4" />
                 <span>View Test History</span>
               </button>
+              <button
+                onClick={() => navigate({ name: 'trends' })}
+                className="inline-flex items-center space-x-2 text-indigo-600 hover:text-indigo-700 transition-colors"
+              >
+                <LineChart className="h-4 w-4" />
+                <span>Trends</span>
+              </button>
+              {hasJobServer && (
+                <button
+                  onClick={() => navigate({ name: 'monitors' })}
+                  className="inline-flex items-center space-x-2 text-indigo-600 hover:text-indigo-700 transition-colors"
+                >
+                  <CalendarClock className="h-4 w-4" />
+                  <span>Monitors</span>
+                </button>
+              )}
               <div className="flex items-center space-x-4 text-sm text-gray-500">
                 <div className="flex items-center space-x-2">
-                  {hasApiKey ? <Wifi className="h-4 w-4 text-green-600" /> : <WifiOff className="h-4 w-4" />}
-                  <span>{hasApiKey ? 'Real API' : 'Demo Mode'}</span>
+                  {providers.length > 0 ? <Wifi className="h-4 w-4 text-green-600" /> : <WifiOff className="h-4 w-4" />}
+                  <span>{providers.length > 0 ? providers.map((name) => PROVIDER_LABELS[name]).join(' · ') : 'Demo Mode'}</span>
                 </div>
                 <div className="flex items-center space-x-2">
                   {hasSupabase ? <Database className="h-4 w-4 text-green-600" /> : <Database className="h-4 w-4 text-gray-400" />}
@@ -720,7 +1353,7 @@ function App() {
                 </div>
 
                 <button
-                  onClick={() => setStep(2)}
+                  onClick={() => navigate({ name: 'new', step: 2, url: baseUrl })}
                   disabled={!baseUrl || !baseUrl.startsWith('http')}
                   className="w-full flex items-center justify-center space-x-2 bg-indigo-600 text-white py-3 px-6 rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                 >
@@ -742,7 +1375,7 @@ function App() {
                 {/* Strategy Selection */}
                 <div className="space-y-4">
                   <h3 className="text-lg font-semibold text-gray-900">Test Strategy</h3>
-                  <div className="grid grid-cols-2 gap-4">
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                     <div
                       onClick={() => setStrategy('mobile')}
                       className={`p-4 border-2 rounded-xl cursor-pointer transition-colors ${
@@ -775,16 +1408,139 @@ function App() {
                         </div>
                       </div>
                     </div>
+                    <div
+                      onClick={() => setStrategy('both')}
+                      className={`p-4 border-2 rounded-xl cursor-pointer transition-colors ${
+                        strategy === 'both'
+                          ? 'border-indigo-500 bg-indigo-50'
+                          : 'border-gray-200 hover:border-gray-300'
+                      }`}
+                    >
+                      <div className="flex items-center space-x-3">
+                        <div className={`flex ${strategy === 'both' ? 'text-indigo-600' : 'text-gray-400'}`}>
+                          <Smartphone className="h-6 w-6" />
+                          <Monitor className="h-6 w-6" />
+                        </div>
+                        <div>
+                          <h4 className="font-semibold text-gray-900">Both</h4>
+                          <p className="text-sm text-gray-600">Mobile and desktop side by side</p>
+                        </div>
+                      </div>
+                    </div>
+                  </div>
+                </div>
+
+                {providers.length > 1 && (
+                  <div className="space-y-4">
+                    <h3 className="text-lg font-semibold text-gray-900">Analysis Backend</h3>
+                    <div className="flex items-center space-x-4">
+                      <select
+                        value={provider}
+                        onChange={(e) => setProvider(e.target.value as ProviderName)}
+                        className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                      >
+                        {providers.map((name) => (
+                          <option key={name} value={name}>{PROVIDER_LABELS[name]}</option>
+                        ))}
+                      </select>
+                      <p className="text-sm text-gray-600">
+                        {provider === 'local'
+                          ? 'Runs Lighthouse in Chrome on the job server, so staging and intranet URLs it can reach work too. There is no field data, and routes are analyzed one at a time.'
+                          : 'Runs Lighthouse on Google\'s servers, which only reach public URLs, and adds Chrome UX Report field data.'}
+                      </p>
+                    </div>
+                  </div>
+                )}
+
+                {providers.length > 0 && (
+                  <div className="space-y-4">
+                    <h3 className="text-lg font-semibold text-gray-900">Runs per Route</h3>
+                    <div className="flex items-center space-x-4">
+                      <select
+                        value={runsPerRoute}
+                        onChange={(e) => setRunsPerRoute(Number(e.target.value))}
+                        className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                      >
+                        {[1, 3, 5].map((n) => (
+                          <option key={n} value={n}>{n}</option>
+                        ))}
+                      </select>
+                      <p className="text-sm text-gray-600">
+                        Single PageSpeed runs are noisy. With several runs, each route reports the median and how much the runs varied.
+                      </p>
+                    </div>
+                  </div>
+                )}
+
+                {providers.length > 0 && provider === 'pagespeed' && (
+                  <div className="space-y-4">
+                    <h3 className="text-lg font-semibold text-gray-900">Parallel Requests</h3>
+                    <div className="flex items-center space-x-4">
+                      <select
+                        value={concurrency}
+                        onChange={(e) => setConcurrency(Number(e.target.value))}
+                        className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                      >
+                        {[1, 2, 3, 4, 5].map((n) => (
+                          <option key={n} value={n}>{n}</option>
+                        ))}
+                      </select>
+                      <p className="text-sm text-gray-600">
+                        Routes analyzed at the same time. Requests still respect the server's PageSpeed quota and are retried with backoff when rate limited.
+                      </p>
+                    </div>
+                  </div>
+                )}
+
+                {providers.length > 0 && (
+                  <div className="space-y-4">
+                    <h3 className="text-lg font-semibold text-gray-900">Device & Network Profile</h3>
+                    {provider === 'local' ? (
+                      <>
+                        <p className="text-sm text-gray-600">
+                          The viewport, user agent, connection and CPU slowdown each strategy is measured with. The profile is stored with the run and shown on its results.
+                        </p>
+                        <ProfilePicker
+                          strategy={strategy}
+                          selected={profileIds}
+                          onSelect={(side, id) => setProfileIds((current) => ({ ...current, [side]: id }))}
+                          customProfiles={customProfiles}
+                          onCustomProfilesChange={setCustomProfiles}
+                        />
+                      </>
+                    ) : (
+                      <p className="text-sm text-gray-600">
+                        PageSpeed Insights always measures with Lighthouse's defaults: {profileDetails(null, strategy).split('\n').join('; ')}. Choose the local provider to use another device or connection.
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                {provider === 'local' && (
+                  <div className="space-y-4">
+                    <h3 className="text-lg font-semibold text-gray-900">Pages Behind a Login</h3>
+                    <p className="text-sm text-gray-600">
+                      Headers and cookies are sent with every page, and the login script signs in before the first route is audited. They are only held by the job server for this run and are not saved with the results.
+                    </p>
+                    <AuthEditor draft={authDraft} onChange={setAuthDraft} />
                   </div>
+                )}
+
+                <div className="space-y-4">
+                  <h3 className="text-lg font-semibold text-gray-900">Performance Budgets</h3>
+                  <p className="text-sm text-gray-600">
+                    Each route is checked against these limits and marked pass or fail. Route budgets take a path pattern such as <code className="bg-gray-100 px-1 rounded">/blog/**</code> and override the limits for all routes.
+                  </p>
+                  <BudgetEditor budgets={budgets} onChange={setBudgets} />
                 </div>
 
                 {/* Route Selection */}
                 <div className="space-y-4">
                   <h3 className="text-lg font-semibold text-gray-900">Routes to Test</h3>
                   <div
-                    onClick={() => setRouteType('all')}
+                    onClick={() => setRouteType('home')}
                     className={`p-6 border-2 rounded-xl cursor-pointer transition-colors ${
-                      routeType === 'all'
+                      routeType === 'home'
                         ? 'border-indigo-500 bg-indigo-50'
                         : 'border-gray-200 hover:border-gray-300'
                     }`}
@@ -792,7 +1548,7 @@ function App() {
                     <div className="flex items-center space-x-3">
                       <div
                         className={`w-4 h-4 rounded-full border-2 ${
-                          routeType === 'all'
+                          routeType === 'home'
                             ? 'border-indigo-500 bg-indigo-500'
                             : 'border-gray-300'
                         }`}
@@ -826,26 +1582,82 @@ function App() {
                       </div>
                     </div>
                   </div>
+
+                  <div
+                    onClick={() => hasJobServer && setRouteType('discover')}
+                    className={`p-6 border-2 rounded-xl transition-colors ${
+                      !hasJobServer
+                        ? 'border-gray-200 opacity-60 cursor-not-allowed'
+                        : routeType === 'discover'
+                        ? 'border-indigo-500 bg-indigo-50 cursor-pointer'
+                        : 'border-gray-200 hover:border-gray-300 cursor-pointer'
+                    }`}
+                  >
+                    <div className="flex items-center space-x-3">
+                      <div
+                        className={`w-4 h-4 rounded-full border-2 ${
+                          routeType === 'discover'
+                            ? 'border-indigo-500 bg-indigo-500'
+                            : 'border-gray-300'
+                        }`}
+                      />
+                      <div>
+                        <h3 className="font-semibold text-gray-900">Discover Routes</h3>
+                        <p className="text-gray-600">
+                          {hasJobServer
+                            ? 'Find pages from the sitemap or by crawling links, grouped by page template.'
+                            : 'Requires the job server, which fetches the site on your behalf.'}
+                        </p>
+                      </div>
+                    </div>
+                  </div>
                 </div>
 
                 <div className="flex space-x-4">
                   <button
-                    onClick={() => setStep(1)}
+                    onClick={() => navigate({ name: 'new', step: 1 })}
                     className="flex-1 py-3 px-6 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
                   >
                     Back
                   </button>
                   <button
-                    onClick={() => routeType === 'custom' ? setStep(3) : runPerformanceTest()}
+                    onClick={() => routeType !== 'home' ? navigate({ name: 'new', step: 3, url: baseUrl, routeType }) : runPerformanceTest()}
                     className="flex-1 flex items-center justify-center space-x-2 bg-indigo-600 text-white py-3 px-6 rounded-lg hover:bg-indigo-700 transition-colors"
                   >
-                    <span>{routeType === 'custom' ? 'Continue' : 'Run Test'}</span>
-                    {routeType === 'custom' ? <ChevronRight className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                    <span>{routeType !== 'home' ? 'Continue' : 'Run Test'}</span>
+                    {routeType !== 'home' ? <ChevronRight className="h-4 w-4" /> : <Play className="h-4 w-4" />}
                   </button>
                 </div>
               </div>
             )}
 
+            {/* Step 3: Route Discovery */}
+            {step === 3 && routeType === 'discover' && (
+              <div className="space-y-6">
+                <div className="text-center mb-8">
+                  <Search className="h-12 w-12 text-indigo-600 mx-auto mb-4" />
+                  <h2 className="text-2xl font-bold text-gray-900 mb-2">Discover Routes</h2>
+                  <p className="text-gray-600">Find the pages of {baseUrl} and pick which ones to test.</p>
+                </div>
+
+                <RouteDiscoveryPanel
+                  baseUrl={baseUrl}
+                  onUseRoutes={(routes) => {
+                    setCustomRoutes(routes);
+                    setRouteType('custom');
+                    navigate({ name: 'new', step: 3, url: baseUrl, routeType: 'custom' }, { replace: true });
+                  }}
+                />
+
+                <button
+                  onClick={() => navigate({ name: 'new', step: 2, url: baseUrl })}
+                  className="w-full py-3 px-6 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  Back
+                </button>
+              </div>
+            )}
+
             {/* Step 3: Custom Routes */}
             {step === 3 && routeType === 'custom' && (
               <div className="space-y-6">
@@ -894,7 +1706,7 @@ function App() {
 
                 <div className="flex space-x-4">
                   <button
-                    onClick={() => setStep(2)}
+                    onClick={() => navigate({ name: 'new', step: 2, url: baseUrl })}
                     className="flex-1 py-3 px-6 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
                   >
                     Back
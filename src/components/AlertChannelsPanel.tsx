@@ -0,0 +1,220 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Bell, Plus, Send, Trash2, Power, AlertCircle, Webhook, MessageSquare, Mail } from 'lucide-react';
+import { JobClient } from '../services/jobClient';
+import { AlertChannel, AlertChannelType } from '../lib/supabase';
+
+interface AlertChannelsPanelProps {
+  // Domains of the saved monitors, suggested when adding a channel
+  domains: string[];
+}
+
+const channelTypes: { value: AlertChannelType; label: string; placeholder: string; icon: typeof Webhook }[] = [
+  { value: 'webhook', label: 'Webhook', placeholder: 'https://example.com/hooks/lighthouse', icon: Webhook },
+  { value: 'slack', label: 'Slack / Teams', placeholder: 'https://hooks.slack.com/services/…', icon: MessageSquare },
+  { value: 'email', label: 'Email', placeholder: 'perf@example.com, oncall@example.com', icon: Mail },
+];
+
+const emptyForm = (domain = '') => ({ domain, type: 'slack' as AlertChannelType, target: '' });
+
+// Where monitor and CLI runs that fail their budgets or regress are reported;
+// sent by the job server, see server/alerts.ts
+export function AlertChannelsPanel({ domains }: AlertChannelsPanelProps) {
+  const [channels, setChannels] = useState<AlertChannel[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(() => emptyForm(domains[0]));
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const loadChannels = useCallback(async () => {
+    try {
+      setChannels(await JobClient.getAlertChannels());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not load alert channels');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadChannels();
+  }, [loadChannels]);
+
+  const runAction = async (key: string, action: () => Promise<unknown>, success?: string) => {
+    setBusy(key);
+    try {
+      await action();
+      setError(null);
+      setNotice(success ?? null);
+      await loadChannels();
+    } catch (err) {
+      setNotice(null);
+      setError(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const createChannel = () =>
+    runAction('create', () =>
+      JobClient.createAlertChannel({
+        domain: form.domain.trim(),
+        type: form.type,
+        target: form.target.trim(),
+        enabled: true,
+      }).then(() => {
+        setShowForm(false);
+        setForm(emptyForm(form.domain));
+      })
+    );
+
+  const typeInfo = (type: AlertChannelType) => channelTypes.find((channelType) => channelType.value === type)!;
+
+  return (
+    <div className="mt-12">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-3">
+          <div className="p-2 bg-amber-100 rounded-lg">
+            <Bell className="h-5 w-5 text-amber-600" />
+          </div>
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Alerts</h2>
+            <p className="text-sm text-gray-600">
+              Budget failures and regressions of a domain's monitor and CLI runs are sent here. A failing metric is alerted on again only after a cooldown.
+            </p>
+          </div>
+        </div>
+        {!showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="inline-flex items-center space-x-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors flex-shrink-0"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Add Channel</span>
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2 text-red-700">
+          <AlertCircle className="h-4 w-4 flex-shrink-0" />
+          <span className="text-sm">{error}</span>
+        </div>
+      )}
+      {notice && (
+        <div className="mb-4 p-4 bg-green-50 border border-green-200 rounded-lg text-sm text-green-700">
+          {notice}
+        </div>
+      )}
+
+      {showForm && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mb-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <label className="text-sm text-gray-700">
+              Domain
+              <input
+                type="text"
+                list="alert-domains"
+                value={form.domain}
+                onChange={(e) => setForm({ ...form, domain: e.target.value })}
+                placeholder="example.com"
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+              />
+              <datalist id="alert-domains">
+                {domains.map((domain) => (
+                  <option key={domain} value={domain} />
+                ))}
+              </datalist>
+            </label>
+            <label className="text-sm text-gray-700">
+              Channel
+              <select
+                value={form.type}
+                onChange={(e) => setForm({ ...form, type: e.target.value as AlertChannelType })}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+              >
+                {channelTypes.map((channelType) => (
+                  <option key={channelType.value} value={channelType.value}>{channelType.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-sm text-gray-700">
+              {form.type === 'email' ? 'Recipients' : 'Webhook URL'}
+              <input
+                type="text"
+                value={form.target}
+                onChange={(e) => setForm({ ...form, target: e.target.value })}
+                placeholder={typeInfo(form.type).placeholder}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+              />
+            </label>
+          </div>
+          {form.type === 'email' && (
+            <p className="text-xs text-gray-500">Email is sent through the SMTP server configured on the job server (SMTP_HOST).</p>
+          )}
+          <div className="flex space-x-4">
+            <button
+              onClick={() => setShowForm(false)}
+              className="flex-1 py-2 px-6 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={createChannel}
+              disabled={busy === 'create' || !form.domain.trim() || !form.target.trim()}
+              className="flex-1 py-2 px-6 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {busy === 'create' ? 'Saving...' : 'Add Channel'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {channels.length === 0 && !showForm ? (
+        <p className="text-sm text-gray-500">No alert channels yet.</p>
+      ) : (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 divide-y divide-gray-100">
+          {channels.map((channel) => {
+            const { label, icon: Icon } = typeInfo(channel.type);
+            return (
+              <div key={channel.id} className={`flex flex-wrap items-center gap-3 p-4 ${channel.enabled ? '' : 'opacity-60'}`}>
+                <Icon className="h-4 w-4 text-gray-500 flex-shrink-0" />
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm font-medium text-gray-900">
+                    {channel.domain} <span className="font-normal text-gray-500">· {label}{channel.enabled ? '' : ' · Paused'}</span>
+                  </p>
+                  <p className="text-sm text-gray-600 truncate" title={channel.target}>{channel.target}</p>
+                </div>
+                <button
+                  onClick={() => runAction(channel.id, () => JobClient.testAlertChannel(channel.id), `Sent a test alert to ${channel.target}.`)}
+                  disabled={busy === channel.id}
+                  className="inline-flex items-center space-x-1 px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50 transition-colors"
+                >
+                  <Send className="h-3 w-3" />
+                  <span>{busy === channel.id ? 'Sending...' : 'Send test'}</span>
+                </button>
+                <button
+                  onClick={() => runAction(channel.id, () => JobClient.updateAlertChannel(channel.id, { enabled: !channel.enabled }))}
+                  className="inline-flex items-center space-x-1 px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+                >
+                  <Power className="h-3 w-3" />
+                  <span>{channel.enabled ? 'Pause' : 'Resume'}</span>
+                </button>
+                <button
+                  onClick={() => {
+                    if (confirm(`Stop sending ${channel.domain} alerts to ${channel.target}?`)) {
+                      runAction(channel.id, () => JobClient.deleteAlertChannel(channel.id));
+                    }
+                  }}
+                  className="inline-flex items-center space-x-1 px-3 py-1.5 text-sm text-red-600 rounded-lg hover:bg-red-50 transition-colors"
+                >
+                  <Trash2 className="h-3 w-3" />
+                  <span>Delete</span>
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+import { Plus, X } from 'lucide-react';
+import { LOGIN_ACTIONS, LoginStep } from '../services/analysisProvider';
+import { AuthDraft } from '../lib/pageAuth';
+
+interface AuthEditorProps {
+  draft: AuthDraft;
+  onChange: (draft: AuthDraft) => void;
+}
+
+const actionLabels: Record<LoginStep['action'], string> = {
+  goto: 'Go to',
+  fill: 'Fill',
+  click: 'Click',
+  submit: 'Submit',
+  waitFor: 'Wait for',
+};
+
+const inputClass = 'px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500';
+const addButtonClass = 'flex items-center space-x-2 py-2 px-4 border-2 border-dashed border-gray-300 rounded-lg text-sm text-gray-600 hover:border-gray-400 hover:text-gray-700 transition-colors';
+
+function RemoveButton({ onClick, title }: { onClick: () => void; title: string }) {
+  return (
+    <button onClick={onClick} className="p-2 text-red-600 hover:bg-red-50 rounded-md flex-shrink-0" title={title}>
+      <X className="h-4 w-4" />
+    </button>
+  );
+}
+
+// Headers, cookies and login steps for pages behind a login. Values are only
+// sent to the job server with the run and never saved in the browser.
+export function AuthEditor({ draft, onChange }: AuthEditorProps) {
+  const update = <K extends keyof AuthDraft>(key: K, value: AuthDraft[K]) => onChange({ ...draft, [key]: value });
+  const replaceAt = <T,>(items: T[], index: number, item: T) => items.map((existing, i) => (i === index ? item : existing));
+  const removeAt = <T,>(items: T[], index: number) => items.filter((_, i) => i !== index);
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium text-gray-900">Extra headers</h4>
+        {draft.headers.map((header, index) => (
+          <div key={index} className="flex items-center space-x-2">
+            <input
+              type="text"
+              value={header.name}
+              onChange={(e) => update('headers', replaceAt(draft.headers, index, { ...header, name: e.target.value }))}
+              placeholder="Authorization"
+              className={`w-1/3 ${inputClass}`}
+            />
+            <input
+              type="password"
+              autoComplete="off"
+              value={header.value}
+              onChange={(e) => update('headers', replaceAt(draft.headers, index, { ...header, value: e.target.value }))}
+              placeholder="Bearer …"
+              className={`flex-1 ${inputClass}`}
+            />
+            <RemoveButton onClick={() => update('headers', removeAt(draft.headers, index))} title="Remove header" />
+          </div>
+        ))}
+        <button onClick={() => update('headers', [...draft.headers, { name: '', value: '' }])} className={addButtonClass}>
+          <Plus className="h-4 w-4" />
+          <span>Header</span>
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium text-gray-900">Cookies</h4>
+        {draft.cookies.map((cookie, index) => (
+          <div key={index} className="flex items-center space-x-2">
+            <input
+              type="text"
+              value={cookie.name}
+              onChange={(e) => update('cookies', replaceAt(draft.cookies, index, { ...cookie, name: e.target.value }))}
+              placeholder="session"
+              className={`w-1/4 ${inputClass}`}
+            />
+            <input
+              type="password"
+              autoComplete="off"
+              value={cookie.value}
+              onChange={(e) => update('cookies', replaceAt(draft.cookies, index, { ...cookie, value: e.target.value }))}
+              placeholder="Value"
+              className={`flex-1 ${inputClass}`}
+            />
+            <input
+              type="text"
+              value={cookie.domain}
+              onChange={(e) => update('cookies', replaceAt(draft.cookies, index, { ...cookie, domain: e.target.value }))}
+              placeholder="Domain (the site's host)"
+              className={`w-1/4 ${inputClass}`}
+            />
+            <RemoveButton onClick={() => update('cookies', removeAt(draft.cookies, index))} title="Remove cookie" />
+          </div>
+        ))}
+        <button onClick={() => update('cookies', [...draft.cookies, { name: '', value: '', domain: '' }])} className={addButtonClass}>
+          <Plus className="h-4 w-4" />
+          <span>Cookie</span>
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium text-gray-900">Login script</h4>
+        <p className="text-xs text-gray-500">
+          Runs once before the routes are audited, in the same browser, so the session it starts is used for every route. Selectors are CSS selectors; Submit waits for the page it leads to.
+        </p>
+        <input
+          type="text"
+          value={draft.loginUrl}
+          onChange={(e) => update('loginUrl', e.target.value)}
+          placeholder="Login page, e.g. /login"
+          className={`w-full ${inputClass}`}
+        />
+        {draft.steps.map((step, index) => (
+          <div key={index} className="flex items-center space-x-2">
+            <span className="w-6 text-xs text-gray-400 text-right">{index + 1}.</span>
+            <select
+              value={step.action}
+              onChange={(e) => update('steps', replaceAt(draft.steps, index, { ...step, action: e.target.value as LoginStep['action'] }))}
+              className={inputClass}
+            >
+              {LOGIN_ACTIONS.map((action) => (
+                <option key={action} value={action}>{actionLabels[action]}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={step.target}
+              onChange={(e) => update('steps', replaceAt(draft.steps, index, { ...step, target: e.target.value }))}
+              placeholder={step.action === 'goto' ? '/account' : '#email'}
+              className={`flex-1 ${inputClass}`}
+            />
+            {step.action === 'fill' && (
+              <input
+                type="password"
+                autoComplete="off"
+                value={step.value}
+                onChange={(e) => update('steps', replaceAt(draft.steps, index, { ...step, value: e.target.value }))}
+                placeholder="Value"
+                className={`flex-1 ${inputClass}`}
+              />
+            )}
+            <RemoveButton onClick={() => update('steps', removeAt(draft.steps, index))} title="Remove step" />
+          </div>
+        ))}
+        <button
+          onClick={() => update('steps', [...draft.steps, { action: draft.steps.length === 0 ? 'fill' : 'submit', target: '', value: '' }])}
+          className={addButtonClass}
+        >
+          <Plus className="h-4 w-4" />
+          <span>Step</span>
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+import { useState, useEffect, Fragment } from 'react';
+import type { Session } from '@supabase/supabase-js';
+import { Users, LogOut, AlertCircle } from 'lucide-react';
+import { AuthService } from '../lib/auth';
+import { LighthouseStorage, Team, TeamMembership, TeamStorage } from '../lib/supabase';
+import { JobClient } from '../services/jobClient';
+import { SignInView } from './SignInView';
+import { Account, CreateTeamForm } from './TeamSwitcher';
+
+const TEAM_KEY = 'lighthouse-team';
+
+interface AuthGateProps {
+  // Called without an account when Supabase is not configured
+  children: (account?: Account) => React.ReactNode;
+}
+
+// With Supabase, the app only renders once the user is signed in and a team
+// is selected, with storage and the job server client scoped to that team.
+// Switching teams remounts the app so nothing from the last team lingers.
+export function AuthGate({ children }: AuthGateProps) {
+  const enabled = AuthService.isEnabled();
+  const [session, setSession] = useState<Session | null>(null);
+  const [checked, setChecked] = useState(!enabled);
+  const [teams, setTeams] = useState<TeamMembership[] | null>(null);
+  const [teamId, setTeamId] = useState(() => localStorage.getItem(TEAM_KEY));
+  const [readyTeamId, setReadyTeamId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+    AuthService.getSession()
+      .then(setSession)
+      .catch((err) => setError(err instanceof Error ? err.message : 'Could not restore the session'))
+      .finally(() => setChecked(true));
+    return AuthService.onChange(setSession);
+  }, [enabled]);
+
+  const userId = session?.user.id;
+  const accessToken = session?.access_token;
+
+  useEffect(() => {
+    setTeams(null);
+    if (!userId) return;
+    TeamStorage.getTeams(userId)
+      .then(setTeams)
+      .catch((err) => setError(err instanceof Error ? err.message : 'Could not load your teams'));
+  }, [userId]);
+
+  const team = teams?.find((membership) => membership.team.id === teamId) ?? teams?.[0];
+  const activeTeamId = team?.team.id;
+
+  useEffect(() => {
+    if (!userId || !accessToken || !activeTeamId) {
+      LighthouseStorage.configure({ scope: null });
+      JobClient.setAuth(null);
+      setReadyTeamId(null);
+      return;
+    }
+    // Also runs when the access token is refreshed
+    LighthouseStorage.configure({ scope: { ownerId: userId, teamId: activeTeamId } });
+    JobClient.setAuth({ accessToken, teamId: activeTeamId });
+    setReadyTeamId(activeTeamId);
+  }, [userId, accessToken, activeTeamId]);
+
+  if (!enabled) return <>{children()}</>;
+  if (!checked) return null;
+  if (!session) return <SignInView />;
+
+  const switchTeam = (id: string) => {
+    localStorage.setItem(TEAM_KEY, id);
+    setTeamId(id);
+  };
+  const addTeam = (created: Team) => {
+    setTeams([...(teams ?? []), { team: created, role: 'owner' }]);
+    switchTeam(created.id);
+  };
+
+  if (!team) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 flex items-center justify-center">
+        <div className="bg-white rounded-2xl shadow-lg border border-gray-200 p-8 w-full max-w-md mx-4 space-y-4">
+          <div className="text-center">
+            <div className="p-4 bg-indigo-100 rounded-2xl w-fit mx-auto mb-4">
+              <Users className="h-8 w-8 text-indigo-600" />
+            </div>
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">Create your first team</h1>
+            <p className="text-gray-600">
+              Runs, monitors and baselines belong to a team. To join an existing one, ask its owner to add{' '}
+              {session.user.email}.
+            </p>
+          </div>
+          {error ? (
+            <div className="flex items-center space-x-2 text-sm text-red-700">
+              <AlertCircle className="h-4 w-4 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          ) : (
+            teams && <CreateTeamForm onCreated={addTeam} />
+          )}
+          <button
+            onClick={() => void AuthService.signOut()}
+            className="inline-flex items-center space-x-1 text-sm text-gray-600 hover:text-gray-800"
+          >
+            <LogOut className="h-4 w-4" />
+            <span>Sign out</span>
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (readyTeamId !== team.team.id) return null;
+
+  return (
+    <Fragment key={team.team.id}>
+      {children({
+        email: session.user.email ?? '',
+        teams: teams!,
+        team,
+        onSwitchTeam: switchTeam,
+        onTeamCreated: addTeam,
+      })}
+    </Fragment>
+  );
+}
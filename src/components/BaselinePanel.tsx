@@ -0,0 +1,182 @@
+import { useState, useEffect } from 'react';
+import { Flag, AlertCircle, X } from 'lucide-react';
+import { Baseline, BaselineStorage, LighthouseResult, LighthouseStorage } from '../lib/supabase';
+import { BUDGET_METRICS, BudgetMetric, getMetricLabel, isScoreMetric } from '../lib/budgets';
+import { Tolerances } from '../lib/regressions';
+import { STRATEGY_LABELS } from '../lib/strategies';
+import { Strategy } from '../services/lighthouseService';
+
+interface BaselinePanelProps {
+  run: Pick<LighthouseResult, 'id' | 'url' | 'timestamp'>;
+  // One side of the run; null when the run did not record its strategy
+  strategy: Strategy | null;
+  results: LighthouseResult['results'];
+  // Names the strategy in the title, for runs that tested both
+  showStrategy?: boolean;
+}
+
+const unitHint = (metric: BudgetMetric) => {
+  if (isScoreMetric(metric)) return 'points';
+  if (metric === 'cls') return '';
+  return 'ms';
+};
+
+export function BaselinePanel({ run, strategy, results, showStrategy }: BaselinePanelProps) {
+  const domain = LighthouseStorage.extractDomain(run.url);
+  const [baseline, setBaseline] = useState<Baseline | null>(null);
+  const [tolerances, setTolerances] = useState<Tolerances>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!strategy) {
+      setLoading(false);
+      return;
+    }
+    BaselineStorage.getBaseline(domain, strategy)
+      .then((found) => {
+        setBaseline(found);
+        setTolerances(found?.tolerances ?? {});
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Could not load the baseline'))
+      .finally(() => setLoading(false));
+  }, [domain, strategy]);
+
+  const runAction = async (action: () => Promise<Baseline | null>, success: string) => {
+    setSaving(true);
+    try {
+      const updated = await action();
+      setBaseline(updated);
+      setTolerances(updated?.tolerances ?? {});
+      setError(null);
+      setNotice(success);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const markAsBaseline = (side: Strategy) =>
+    runAction(
+      () =>
+        BaselineStorage.setBaseline({
+          ...run,
+          domain,
+          strategy: side,
+          timestamp: LighthouseStorage.normalizeTimestamp(run.timestamp),
+          results,
+          avg_scores: LighthouseStorage.calculateAverageScores(results),
+        }),
+      'Later runs of this site will be compared with this one.'
+    );
+
+  const clearBaseline = () =>
+    runAction(async () => {
+      await BaselineStorage.clearBaseline(baseline!.id);
+      return null;
+    }, 'Baseline cleared.');
+
+  const saveTolerances = () =>
+    runAction(() => BaselineStorage.updateTolerances(baseline!.id, tolerances), 'Tolerances saved for later runs.');
+
+  const updateTolerance = (metric: BudgetMetric, text: string) => {
+    const updated = { ...tolerances };
+    const value = Number(text);
+    if (text.trim() === '' || !Number.isFinite(value) || value < 0) {
+      delete updated[metric];
+    } else {
+      updated[metric] = value;
+    }
+    setTolerances(updated);
+  };
+
+  const isBaseline = baseline?.result_id === run.id;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mb-8 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Flag className="h-5 w-5 text-indigo-600" />
+          <h3 className="text-lg font-semibold text-gray-900">
+            {showStrategy && strategy ? `${STRATEGY_LABELS[strategy]} Baseline` : 'Baseline'}
+          </h3>
+        </div>
+        <div className="flex items-center space-x-3">
+          {baseline && (
+            <button
+              onClick={clearBaseline}
+              disabled={saving}
+              className="inline-flex items-center space-x-1 px-3 py-1.5 text-sm text-red-600 hover:bg-red-50 rounded-md disabled:opacity-50"
+            >
+              <X className="h-4 w-4" />
+              <span>Clear Baseline</span>
+            </button>
+          )}
+          {!isBaseline && (
+            <button
+              onClick={() => strategy && markAsBaseline(strategy)}
+              disabled={saving || loading || !strategy}
+              title={strategy ? undefined : 'Runs without a recorded strategy cannot be a baseline'}
+              className="px-3 py-1.5 text-sm bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Set This Run as Baseline
+            </button>
+          )}
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-600">
+        {loading
+          ? 'Loading baseline…'
+          : !strategy
+          ? 'This run did not record its strategy, so it cannot be compared with a baseline.'
+          : isBaseline
+          ? `This run is the ${strategy} baseline for ${domain}.`
+          : baseline
+          ? `New ${strategy} runs of ${domain} are compared with the run from ${new Date(baseline.timestamp).toLocaleString()}.`
+          : `No ${strategy} baseline for ${domain} yet. Mark a run as baseline to flag later regressions.`}
+      </p>
+
+      {error && (
+        <div className="flex items-center space-x-2 text-sm text-red-700">
+          <AlertCircle className="h-4 w-4" />
+          <span>{error}</span>
+        </div>
+      )}
+      {notice && !error && <p className="text-sm text-green-700">{notice}</p>}
+
+      {baseline && (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-600">
+            Changes smaller than these tolerances are treated as noise. Leave a metric empty to ignore it.
+          </p>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {BUDGET_METRICS.map((metric) => (
+              <label key={metric} className="text-xs text-gray-600">
+                {getMetricLabel(metric)} {unitHint(metric) && <span className="text-gray-400">({unitHint(metric)})</span>}
+                <input
+                  type="number"
+                  min={0}
+                  step={metric === 'cls' ? 0.01 : 1}
+                  value={tolerances[metric] ?? ''}
+                  onChange={(e) => updateTolerance(metric, e.target.value)}
+                  className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                />
+              </label>
+            ))}
+          </div>
+          <button
+            onClick={saveTolerances}
+            disabled={saving}
+            className="px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 disabled:opacity-50 transition-colors"
+          >
+            Save Tolerances
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import { ShieldCheck, ShieldAlert } from 'lucide-react';
+import { BudgetCheck, describeCheck } from '../lib/budgets';
+
+interface BudgetBadgeProps {
+  passed: boolean;
+  // Failing checks, listed in the tooltip
+  failures?: BudgetCheck[];
+  label?: string;
+}
+
+export function BudgetBadge({ passed, failures = [], label }: BudgetBadgeProps) {
+  const Icon = passed ? ShieldCheck : ShieldAlert;
+  return (
+    <span
+      className={`inline-flex items-center space-x-1 px-2 py-0.5 text-xs font-medium rounded-full ${
+        passed ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'
+      }`}
+      title={failures.length > 0 ? failures.map(describeCheck).join('\n') : undefined}
+    >
+      <Icon className="h-3 w-3" />
+      <span>{label ?? (passed ? 'Within budget' : 'Over budget')}</span>
+    </span>
+  );
+}
@@ -0,0 +1,105 @@
+import { Plus, X } from 'lucide-react';
+import { BUDGET_METRICS, Budget, BudgetMetric, getMetricLabel, isScoreMetric } from '../lib/budgets';
+
+interface BudgetEditorProps {
+  budgets: Budget[];
+  onChange: (budgets: Budget[]) => void;
+}
+
+const unitHint = (metric: BudgetMetric) => {
+  if (isScoreMetric(metric)) return 'min score';
+  if (metric === 'cls') return 'max';
+  return 'max ms';
+};
+
+const placeholders: Partial<Record<BudgetMetric, string>> = {
+  performance: '85',
+  lcp: '2500',
+  cls: '0.1',
+  inp: '200',
+};
+
+export function BudgetEditor({ budgets, onChange }: BudgetEditorProps) {
+  const updateBudget = (index: number, budget: Budget) => {
+    onChange(budgets.map((existing, i) => (i === index ? budget : existing)));
+  };
+
+  const updateLimit = (index: number, metric: BudgetMetric, text: string) => {
+    const limits = { ...budgets[index].limits };
+    const value = Number(text);
+    if (text.trim() === '' || !Number.isFinite(value) || value < 0) {
+      delete limits[metric];
+    } else {
+      limits[metric] = value;
+    }
+    updateBudget(index, { ...budgets[index], limits });
+  };
+
+  const hasGlobal = budgets.some((budget) => !budget.path);
+
+  return (
+    <div className="space-y-4">
+      {budgets.map((budget, index) => (
+        <div key={index} className="p-4 border border-gray-200 rounded-lg space-y-3">
+          <div className="flex items-center space-x-3">
+            {budget.path === undefined ? (
+              <span className="flex-1 font-medium text-gray-900">All routes</span>
+            ) : (
+              <input
+                type="text"
+                value={budget.path}
+                onChange={(e) => updateBudget(index, { ...budget, path: e.target.value })}
+                placeholder="/blog/**"
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+              />
+            )}
+            <button
+              onClick={() => onChange(budgets.filter((_, i) => i !== index))}
+              className="p-2 text-red-600 hover:bg-red-50 rounded-md"
+              title="Remove budget"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {BUDGET_METRICS.map((metric) => (
+              <label key={metric} className="text-xs text-gray-600">
+                {getMetricLabel(metric)} <span className="text-gray-400">({unitHint(metric)})</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={isScoreMetric(metric) ? 100 : undefined}
+                  step={metric === 'cls' ? 0.01 : 1}
+                  value={budget.limits[metric] ?? ''}
+                  onChange={(e) => updateLimit(index, metric, e.target.value)}
+                  placeholder={placeholders[metric]}
+                  className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      <div className="flex space-x-3">
+        {!hasGlobal && (
+          <button
+            onClick={() => onChange([{ limits: {} }, ...budgets])}
+            className="flex-1 flex items-center justify-center space-x-2 py-2 px-4 border-2 border-dashed border-gray-300 rounded-lg text-gray-600 hover:border-gray-400 hover:text-gray-700 transition-colors"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Budget for All Routes</span>
+          </button>
+        )}
+        <button
+          onClick={() => onChange([...budgets, { path: '', limits: {} }])}
+          className="flex-1 flex items-center justify-center space-x-2 py-2 px-4 border-2 border-dashed border-gray-300 rounded-lg text-gray-600 hover:border-gray-400 hover:text-gray-700 transition-colors"
+        >
+          <Plus className="h-4 w-4" />
+          <span>Budget for Matching Routes</span>
+        </button>
+      </div>
+    </div>
+  );
+}
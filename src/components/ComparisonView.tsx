@@ -1,24 +1,51 @@
-import React from 'react';
-import { ArrowLeft, BarChart3, TrendingUp, TrendingDown, Minus, Globe, Calendar } from 'lucide-react';
-import { LighthouseResult } from '../lib/supabase';
+import { ArrowLeft, BarChart3, TrendingUp, TrendingDown, Minus, Globe, Calendar, Smartphone, Monitor } from 'lucide-react';
+import { LighthouseResult, RouteResult } from '../lib/supabase';
+import { STRATEGY_LABELS, StrategyRun, strategyRuns } from '../lib/strategies';
+import { averageRange } from '../lib/statistics';
+import { RATING_BG, RATING_TEXT, rateScore, resolveLimits } from '../lib/budgets';
+import { ScoreBar } from './ScoreBar';
+import { BudgetBadge } from './BudgetBadge';
+import { RouteStatusBadge } from './RouteStatusBadge';
+import { failedRoutes, isMeasured } from '../lib/routeStatus';
+import { ReportExportButtons } from './ReportExportButtons';
 
 interface ComparisonViewProps {
   results: LighthouseResult[];
   onBack: () => void;
 }
 
+// One side of a compared run: the whole run, or one strategy of a "both" run
+interface Column {
+  key: string;
+  // Position of the run in the comparison, which picks its color
+  index: number;
+  result: LighthouseResult;
+  run: StrategyRun;
+}
+
+const COLUMN_COLORS = ['bg-blue-600', 'bg-purple-600', 'bg-teal-600'];
+const COLUMN_CARDS = ['border-blue-200 bg-blue-50', 'border-purple-200 bg-purple-50', 'border-teal-200 bg-teal-50'];
+
 export function ComparisonView({ results, onBack }: ComparisonViewProps) {
-  const getScoreColor = (score: number) => {
-    if (score >= 90) return 'text-green-600';
-    if (score >= 50) return 'text-yellow-600';
-    return 'text-red-600';
-  };
+  const columns: Column[] = results.flatMap((result, index) =>
+    strategyRuns(result).map((run) => ({ key: `${result.id}:${run.strategy}`, index, result, run }))
+  );
 
-  const getScoreBg = (score: number) => {
-    if (score >= 90) return 'bg-green-100';
-    if (score >= 50) return 'bg-yellow-100';
-    return 'bg-red-100';
-  };
+  const columnLabel = (column: Column) =>
+    column.run.strategy ? `Test ${column.index + 1} · ${STRATEGY_LABELS[column.run.strategy]}` : `Test ${column.index + 1}`;
+
+  // Columns are compared with the first column of the same strategy, so a
+  // mobile score is never measured against a desktop one
+  const baselineOf = (column: Column) => columns.find((candidate) => candidate.run.strategy === column.run.strategy)!;
+
+  // `minimum` is the budget for the score, when one applies
+  const getScoreColor = (score: number, minimum?: number) => RATING_TEXT[rateScore(score, minimum)];
+
+  const getScoreBg = (score: number, minimum?: number) => RATING_BG[rateScore(score, minimum)];
+
+  // Each run is colored by the budgets it was evaluated against
+  const getMinimum = (run: StrategyRun, metric: typeof metrics[number], route?: string) =>
+    resolveLimits(run.budget_results?.budgets ?? [], route)[metric];
 
   const getDifferenceIcon = (diff: number) => {
     if (diff > 0) return <TrendingUp className="h-4 w-4 text-green-600" />;
@@ -36,6 +63,33 @@ export function ComparisonView({ results, onBack }: ComparisonViewProps) {
     return current - previous;
   };
 
+  const getScoreRange = (run: StrategyRun, metric: typeof metrics[number]) =>
+    averageRange(Object.values(run.results), metric);
+
+  // A difference smaller than the runs' own spread is likely noise
+  const isWithinVariance = (column: Column, metric: typeof metrics[number]) => {
+    const current = getScoreRange(column.run, metric);
+    const baseline = getScoreRange(baselineOf(column).run, metric);
+    return !!current && !!baseline && current.min <= baseline.max && baseline.min <= current.max;
+  };
+
+  const renderRouteScore = (route: RouteResult, metric: typeof metrics[number], label: string, minimum?: number) => {
+    const spread = (route.runs ?? 1) > 1 ? route.stats?.[metric] : undefined;
+    return (
+      <div className="text-center">
+        <div className={`text-lg font-bold ${getScoreColor(route[metric], minimum)}`}>
+          {route[metric]}
+        </div>
+        <div className="text-xs text-gray-600">{label}</div>
+        {spread && (
+          <div className="text-xs text-gray-400" title={`${Math.round(spread.min)}–${Math.round(spread.max)} across ${route.runs} runs`}>
+            ±{spread.stdDev.toFixed(1)}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   const metrics = ['performance', 'accessibility', 'bestPractices', 'seo'] as const;
   const metricLabels = {
     performance: 'Performance',
@@ -62,48 +116,65 @@ export function ComparisonView({ results, onBack }: ComparisonViewProps) {
               </div>
               <div>
                 <h1 className="text-2xl font-bold text-gray-900">Performance Comparison</h1>
-                <p className="text-gray-600">Comparing {results.length} test results</p>
+                <p className="text-gray-600">
+                  Comparing {results.length} test result{results.length !== 1 ? 's' : ''}
+                  {columns.length > results.length && ` (${columns.length} strategy runs)`}
+                </p>
               </div>
             </div>
+            <div className="flex items-center space-x-3">
+              <ReportExportButtons results={results} />
+            </div>
           </div>
 
           {/* Results Overview */}
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-8">
-            {results.map((result, index) => (
-              <div key={result.id} className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+            {columns.map((column) => (
+              <div key={column.key} className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
                 <div className="flex items-center space-x-3 mb-4">
                   <div className={`w-8 h-8 rounded-full flex items-center justify-center text-white font-semibold ${
-                    index === 0 ? 'bg-blue-600' : index === 1 ? 'bg-purple-600' : 'bg-teal-600'
+                    COLUMN_COLORS[column.index] ?? COLUMN_COLORS[2]
                   }`}>
-                    {index + 1}
+                    {column.index + 1}
                   </div>
                   <div className="flex-1">
-                    <h3 className="font-semibold text-gray-900 truncate">{result.url}</h3>
+                    <h3 className="font-semibold text-gray-900 truncate">{column.result.url}</h3>
                     <div className="flex items-center space-x-3 text-sm text-gray-600">
                       <div className="flex items-center space-x-1">
                         <Calendar className="h-3 w-3" />
-                        <span>{new Date(result.timestamp).toLocaleDateString()}</span>
+                        <span>{new Date(column.result.timestamp).toLocaleDateString()}</span>
                       </div>
                       <div className="flex items-center space-x-1">
                         <Globe className="h-3 w-3" />
-                        <span>{result.domain}</span>
+                        <span>{column.result.domain}</span>
                       </div>
+                      {column.run.strategy && (
+                        <div className="flex items-center space-x-1">
+                          {column.run.strategy === 'mobile' ? <Smartphone className="h-3 w-3" /> : <Monitor className="h-3 w-3" />}
+                          <span>{STRATEGY_LABELS[column.run.strategy]}</span>
+                        </div>
+                      )}
                     </div>
                   </div>
                 </div>
 
                 <div className="grid grid-cols-2 gap-3">
                   {metrics.map((metric) => (
-                    <div key={metric} className={`p-3 rounded-lg ${getScoreBg(result.avg_scores[metric])}`}>
+                    <div key={metric} className={`p-3 rounded-lg ${getScoreBg(column.run.avg_scores[metric], getMinimum(column.run, metric))}`}>
                       <div className="text-center">
-                        <div className={`text-lg font-bold ${getScoreColor(result.avg_scores[metric])}`}>
-                          {result.avg_scores[metric]}
+                        <div className={`text-lg font-bold ${getScoreColor(column.run.avg_scores[metric], getMinimum(column.run, metric))}`}>
+                          {column.run.avg_scores[metric]}
                         </div>
                         <div className="text-xs text-gray-600">{metricLabels[metric]}</div>
                       </div>
                     </div>
                   ))}
                 </div>
+                {failedRoutes(column.run.results).length > 0 && (
+                  <p className="mt-3 text-xs text-red-700">
+                    {failedRoutes(column.run.results).length} route(s) failed and are not in these averages
+                  </p>
+                )}
               </div>
             ))}
           </div>
@@ -118,42 +189,42 @@ export function ComparisonView({ results, onBack }: ComparisonViewProps) {
                   <h3 className="font-medium text-gray-900">{metricLabels[metric]}</h3>
                   
                   <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
-                    {results.map((result, index) => (
-                      <div key={result.id} className="relative">
-                        <div className={`p-4 rounded-lg border-2 ${
-                          index === 0 ? 'border-blue-200 bg-blue-50' : 
-                          index === 1 ? 'border-purple-200 bg-purple-50' : 
-                          'border-teal-200 bg-teal-50'
-                        }`}>
-                          <div className="flex items-center justify-between mb-2">
-                            <span className="text-sm font-medium text-gray-700">Test {index + 1}</span>
-                            <span className={`text-2xl font-bold ${getScoreColor(result.avg_scores[metric])}`}>
-                              {result.avg_scores[metric]}
-                            </span>
-                          </div>
-                          
-                          {index > 0 && (
-                            <div className="flex items-center space-x-2 text-sm">
-                              {getDifferenceIcon(calculateDifference(result.avg_scores[metric], results[0].avg_scores[metric]))}
-                              <span className={getDifferenceColor(calculateDifference(result.avg_scores[metric], results[0].avg_scores[metric]))}>
-                                {calculateDifference(result.avg_scores[metric], results[0].avg_scores[metric]) > 0 ? '+' : ''}
-                                {calculateDifference(result.avg_scores[metric], results[0].avg_scores[metric])} vs Test 1
+                    {columns.map((column) => {
+                      const baseline = baselineOf(column);
+                      const score = column.run.avg_scores[metric];
+                      const diff = calculateDifference(score, baseline.run.avg_scores[metric]);
+                      return (
+                        <div key={column.key} className="relative">
+                          <div className={`p-4 rounded-lg border-2 ${COLUMN_CARDS[column.index] ?? COLUMN_CARDS[2]}`}>
+                            <div className="flex items-center justify-between mb-2">
+                              <span className="text-sm font-medium text-gray-700">{columnLabel(column)}</span>
+                              <span className={`text-2xl font-bold ${getScoreColor(score, getMinimum(column.run, metric))}`}>
+                                {score}
                               </span>
                             </div>
-                          )}
-                          
-                          <div className="mt-3 bg-gray-200 rounded-full h-2">
-                            <div
-                              className={`h-2 rounded-full ${
-                                result.avg_scores[metric] >= 90 ? 'bg-green-500' : 
-                                result.avg_scores[metric] >= 50 ? 'bg-yellow-500' : 'bg-red-500'
-                              }`}
-                              style={{ width: `${result.avg_scores[metric]}%` }}
-                            ></div>
+                            
+                            {baseline !== column && (
+                              <div className="flex items-center space-x-2 text-sm">
+                                {getDifferenceIcon(diff)}
+                                <span className={getDifferenceColor(diff)}>
+                                  {diff > 0 ? '+' : ''}
+                                  {diff} vs {columnLabel(baseline)}
+                                </span>
+                                {isWithinVariance(column, metric) && (
+                                  <span className="text-xs text-gray-500">(within run variance)</span>
+                                )}
+                              </div>
+                            )}
+                            
+                            <ScoreBar
+                              score={score}
+                              range={getScoreRange(column.run, metric)}
+                              minimum={getMinimum(column.run, metric)}
+                            />
                           </div>
                         </div>
-                      </div>
-                    ))}
+                      );
+                    })}
                   </div>
                 </div>
               ))}
@@ -165,51 +236,51 @@ export function ComparisonView({ results, onBack }: ComparisonViewProps) {
             <h2 className="text-xl font-semibold text-gray-900 mb-6">Route Performance Comparison</h2>
             
             <div className="space-y-8">
-              {results.map((result, resultIndex) => (
-                <div key={result.id} className="space-y-4">
+              {columns.map((column) => (
+                <div key={column.key} className="space-y-4">
                   <div className="flex items-center space-x-3">
                     <div className={`w-6 h-6 rounded-full flex items-center justify-center text-white text-sm font-semibold ${
-                      resultIndex === 0 ? 'bg-blue-600' : resultIndex === 1 ? 'bg-purple-600' : 'bg-teal-600'
+                      COLUMN_COLORS[column.index] ?? COLUMN_COLORS[2]
                     }`}>
-                      {resultIndex + 1}
+                      {column.index + 1}
                     </div>
-                    <h3 className="text-lg font-medium text-gray-900">{result.url}</h3>
+                    <h3 className="text-lg font-medium text-gray-900">{column.result.url}</h3>
+                    {column.run.strategy && (
+                      <span className="text-sm text-gray-500">{STRATEGY_LABELS[column.run.strategy]}</span>
+                    )}
                   </div>
                   
                   <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
-                    {Object.entries(result.results).map(([route, metrics]) => (
+                    {Object.entries(column.run.results).map(([route, metrics]) => (
                       <div key={route} className="border border-gray-200 rounded-lg p-4">
                         <h4 className="font-medium text-gray-900 mb-3">
-                          {result.routes.find(r => r.path === route)?.name || route}
+                          {column.result.routes.find(r => r.path === route)?.name || route}
                           <span className="text-sm text-gray-500 ml-2">({route})</span>
+                          {!isMeasured(metrics) && (
+                            <span className="ml-2">
+                              <RouteStatusBadge result={metrics} />
+                            </span>
+                          )}
+                          {column.run.budget_results?.routes[route] && (
+                            <span className="ml-2">
+                              <BudgetBadge
+                                passed={column.run.budget_results.routes[route].passed}
+                                failures={column.run.budget_results.routes[route].checks.filter((check) => !check.passed)}
+                              />
+                            </span>
+                          )}
                         </h4>
                         
-                        <div className="grid grid-cols-4 gap-2">
-                          <div className="text-center">
-                            <div className={`text-lg font-bold ${getScoreColor(metrics.performance)}`}>
-                              {metrics.performance}
-                            </div>
-                            <div className="text-xs text-gray-600">Perf</div>
+                        {isMeasured(metrics) ? (
+                          <div className="grid grid-cols-4 gap-2">
+                            {renderRouteScore(metrics, 'performance', 'Perf', getMinimum(column.run, 'performance', route))}
+                            {renderRouteScore(metrics, 'accessibility', 'A11y', getMinimum(column.run, 'accessibility', route))}
+                            {renderRouteScore(metrics, 'bestPractices', 'BP', getMinimum(column.run, 'bestPractices', route))}
+                            {renderRouteScore(metrics, 'seo', 'SEO', getMinimum(column.run, 'seo', route))}
                           </div>
-                          <div className="text-center">
-                            <div className={`text-lg font-bold ${getScoreColor(metrics.accessibility)}`}>
-                              {metrics.accessibility}
-                            </div>
-                            <div className="text-xs text-gray-600">A11y</div>
-                          </div>
-                          <div className="text-center">
-                            <div className={`text-lg font-bold ${getScoreColor(metrics.bestPractices)}`}>
-                              {metrics.bestPractices}
-                            </div>
-                            <div className="text-xs text-gray-600">BP</div>
-                          </div>
-                          <div className="text-center">
-                            <div className={`text-lg font-bold ${getScoreColor(metrics.seo)}`}>
-                              {metrics.seo}
-                            </div>
-                            <div className="text-xs text-gray-600">SEO</div>
-                          </div>
-                        </div>
+                        ) : (
+                          <p className="text-sm text-red-700 break-words">{metrics.error || 'This route could not be measured.'}</p>
+                        )}
                       </div>
                     ))}
                   </div>
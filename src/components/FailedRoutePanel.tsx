@@ -0,0 +1,38 @@
+import { RotateCcw } from 'lucide-react';
+import { RouteOutcome } from '../lib/routeStatus';
+import { RouteStatusBadge } from './RouteStatusBadge';
+
+interface FailedRoutePanelProps {
+  result: RouteOutcome;
+  // Re-measures just this route; no button without it
+  onRetry?: () => void;
+  retrying?: boolean;
+}
+
+// Takes the place of the scores and vitals of a route that could not be
+// measured, which are left out of the run's averages
+export function FailedRoutePanel({ result, onRetry, retrying = false }: FailedRoutePanelProps) {
+  return (
+    <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+      <div className="flex items-start justify-between gap-4">
+        <div className="space-y-2 min-w-0">
+          <RouteStatusBadge result={result} />
+          <p className="text-sm text-red-800 break-words">
+            {result.error || 'This route could not be measured.'}
+          </p>
+          <p className="text-xs text-gray-600">Not counted in the averages, budgets or baseline comparison.</p>
+        </div>
+        {onRetry && (
+          <button
+            onClick={onRetry}
+            disabled={retrying}
+            className="flex-shrink-0 inline-flex items-center space-x-2 px-3 py-1.5 text-sm bg-white border border-red-300 text-red-700 rounded-lg hover:bg-red-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <RotateCcw className={`h-4 w-4 ${retrying ? 'animate-spin' : ''}`} />
+            <span>{retrying ? 'Retrying…' : 'Retry'}</span>
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import { Users, FlaskConical } from 'lucide-react';
+import { FieldCategory, FieldData, LighthouseMetrics } from '../services/lighthouseService';
+import { FIELD_METRICS, formatVital, getVital } from '../lib/metrics';
+
+interface FieldDataPanelProps {
+  fieldData: FieldData | null | undefined;
+  metrics: LighthouseMetrics;
+}
+
+const categoryStyles: Record<FieldCategory, { text: string; label: string }> = {
+  good: { text: 'text-green-600', label: 'Good' },
+  'needs-improvement': { text: 'text-yellow-600', label: 'Needs improvement' },
+  poor: { text: 'text-red-600', label: 'Poor' },
+};
+
+export function FieldDataPanel({ fieldData, metrics }: FieldDataPanelProps) {
+  const [source, setSource] = useState<'page' | 'origin'>(fieldData?.page ? 'page' : 'origin');
+
+  if (fieldData === undefined) {
+    return (
+      <div className="mt-6 p-4 bg-gray-50 rounded-lg text-sm text-gray-500">
+        Field data was not recorded for this run.
+      </div>
+    );
+  }
+
+  const dataSet = fieldData?.[source] ?? null;
+
+  return (
+    <div className="mt-6 border-t border-gray-100 pt-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <Users className="h-5 w-5 text-indigo-600" />
+          <h4 className="font-semibold text-gray-900">Real Users vs Lab</h4>
+          <span className="text-xs text-gray-500">Chrome UX Report, p75 over the last 28 days</span>
+        </div>
+        <div className="flex bg-gray-100 rounded-lg p-1 text-sm">
+          {(['page', 'origin'] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => setSource(option)}
+              disabled={!fieldData?.[option]}
+              className={`px-3 py-1 rounded-md capitalize transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+                source === option ? 'bg-white shadow-sm text-gray-900' : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              {option === 'page' ? 'This URL' : 'Whole origin'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {!dataSet ? (
+        <div className="p-4 bg-gray-50 rounded-lg text-sm text-gray-500">
+          Not enough real-user traffic in the Chrome UX Report for this {source === 'page' ? 'URL' : 'origin'}.
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {FIELD_METRICS.map((key) => {
+            const vital = getVital(key);
+            const field = dataSet.metrics[key];
+            const lab = metrics[key];
+
+            return (
+              <div key={key} className="grid grid-cols-12 gap-4 items-center">
+                <div className="col-span-3 text-sm font-medium text-gray-700">{vital.label}</div>
+                <div className="col-span-2">
+                  {field ? (
+                    <div className={`font-bold ${field.category ? categoryStyles[field.category].text : 'text-gray-900'}`}>
+                      {formatVital(key, field.p75)}
+                    </div>
+                  ) : (
+                    <div className="font-bold text-gray-300">{formatVital(key, null)}</div>
+                  )}
+                  <div className="text-xs text-gray-500 flex items-center space-x-1">
+                    <Users className="h-3 w-3" />
+                    <span>Field</span>
+                  </div>
+                </div>
+                <div className="col-span-5">
+                  {field ? (
+                    <div
+                      className="flex h-3 rounded-full overflow-hidden bg-gray-100"
+                      title={`${Math.round(field.good * 100)}% good, ${Math.round(field.needsImprovement * 100)}% needs improvement, ${Math.round(field.poor * 100)}% poor`}
+                    >
+                      <div className="bg-green-500" style={{ width: `${field.good * 100}%` }} />
+                      <div className="bg-yellow-400" style={{ width: `${field.needsImprovement * 100}%` }} />
+                      <div className="bg-red-500" style={{ width: `${field.poor * 100}%` }} />
+                    </div>
+                  ) : (
+                    <div className="h-3 rounded-full bg-gray-100" />
+                  )}
+                </div>
+                <div className="col-span-2 text-right">
+                  <div className={`font-bold ${lab === null ? 'text-gray-300' : 'text-gray-900'}`}>
+                    {formatVital(key, lab)}
+                  </div>
+                  <div className="text-xs text-gray-500 flex items-center justify-end space-x-1">
+                    <FlaskConical className="h-3 w-3" />
+                    <span>Lab</span>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+          {dataSet.category && (
+            <p className="text-sm text-gray-600 pt-2">
+              Overall real-user experience:{' '}
+              <span className={`font-semibold ${categoryStyles[dataSet.category].text}`}>
+                {categoryStyles[dataSet.category].label}
+              </span>
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
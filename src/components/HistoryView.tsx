@@ -1,19 +1,64 @@
-import { useState, useEffect, useCallback } from 'react';
-import { History, ChevronRight, Globe, Calendar, BarChart3, ArrowLeft, Filter, Search } from 'lucide-react';
-import { LighthouseStorage, LighthouseResult } from '../lib/supabase';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { History, ChevronRight, Globe, Calendar, BarChart3, ArrowLeft, Filter, Search, Smartphone, Monitor, CalendarClock, Flag, Download, Upload, X } from 'lucide-react';
+import { BaselineStorage, LighthouseStorage, LighthouseResult, Monitor as SavedMonitor } from '../lib/supabase';
+import { JobClient } from '../services/jobClient';
+import { RATING_BG, RATING_TEXT, ScoreKey, failedChecks, rateScore, resolveLimits } from '../lib/budgets';
+import { countRegressions } from '../lib/regressions';
+import { STRATEGY_LABELS, strategyRuns } from '../lib/strategies';
+import { profileDetails, profileSummary } from '../lib/profiles';
+import { ImportSummary, importRuns, parseImport, toCsv } from '../lib/historyTransfer';
+import { downloadFile } from '../lib/htmlReport';
+import { BudgetBadge } from './BudgetBadge';
+import { RegressionBadge } from './RegressionBadge';
+import { RouteStatusBadge } from './RouteStatusBadge';
+import { failedRoutes } from '../lib/routeStatus';
 import { LoadingSpinner } from './LoadingSpinner';
+import { ReportExportButtons } from './ReportExportButtons';
 
 interface HistoryViewProps {
   onBack: () => void;
   onLoadResult: (result: LighthouseResult) => void;
   onCompareResults: (results: LighthouseResult[]) => void;
+  // Opens the history already filtered to one domain or monitor's runs
+  initialDomain?: string;
+  initialMonitorId?: string;
+  // Called when the user changes either filter, e.g. to keep the URL in step
+  onFiltersChange?: (filters: { domain: string; monitorId: string }) => void;
 }
 
-export function HistoryView({ onBack, onLoadResult, onCompareResults }: HistoryViewProps) {
+// Scheduled runs are saved by the job server, which may keep them in its own
+// fallback store, so ask it first and fall back to what this browser can read
+const loadMonitorResults = async (monitorId: string, domain: string) => {
+  try {
+    const results = await JobClient.getMonitorResults(monitorId);
+    return results.filter((result) => !domain || result.domain === domain);
+  } catch (error) {
+    console.warn('Could not load monitor results from the job server:', error);
+    return LighthouseStorage.getResultsByDomain(domain || undefined, monitorId);
+  }
+};
+
+export function HistoryView({
+  onBack,
+  onLoadResult,
+  onCompareResults,
+  initialDomain,
+  initialMonitorId,
+  onFiltersChange,
+}: HistoryViewProps) {
   const [results, setResults] = useState<LighthouseResult[]>([]);
   const [domains, setDomains] = useState<string[]>([]);
-  const [selectedDomain, setSelectedDomain] = useState<string>('');
+  const [selectedDomain, setSelectedDomain] = useState<string>(initialDomain ?? '');
+  const [monitors, setMonitors] = useState<SavedMonitor[]>([]);
+  const [baselineIds, setBaselineIds] = useState<Set<string>>(new Set());
+  const [selectedMonitor, setSelectedMonitor] = useState<string>(initialMonitorId ?? '');
   const [searchTerm, setSearchTerm] = useState('');
+  // `yyyy-mm-dd` from date inputs, inclusive, in the browser's time zone
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+  const [importing, setImporting] = useState(false);
+  const [importSummary, setImportSummary] = useState<ImportSummary | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
   const [loading, setLoading] = useState(true);
   const [selectedResults, setSelectedResults] = useState<Set<string>>(new Set());
   const [compareMode, setCompareMode] = useState(false);
@@ -25,7 +70,9 @@ export function HistoryView({ onBack, onLoadResult, onCompareResults }: HistoryV
       
       const [allDomains, domainResults] = await Promise.all([
         LighthouseStorage.getAllDomains(),
-        LighthouseStorage.getResultsByDomain(selectedDomain || undefined)
+        selectedMonitor
+          ? loadMonitorResults(selectedMonitor, selectedDomain)
+          : LighthouseStorage.getResultsByDomain(selectedDomain || undefined)
       ]);
       
       console.log('Loaded domains:', allDomains);
@@ -48,18 +95,58 @@ export function HistoryView({ onBack, onLoadResult, onCompareResults }: HistoryV
     } finally {
       setLoading(false);
     }
-  }, [selectedDomain]);
+  }, [selectedDomain, selectedMonitor]);
 
   useEffect(() => {
     loadData();
   }, [loadData]);
 
+  useEffect(() => {
+    // Monitors live on the job server; without it there is nothing to filter by
+    JobClient.getMonitors().then(setMonitors).catch(() => setMonitors([]));
+  }, []);
+
+  useEffect(() => {
+    BaselineStorage.getBaselines()
+      .then((baselines) => setBaselineIds(new Set(baselines.map((baseline) => baseline.result_id))))
+      .catch((error) => console.error('Error loading baselines:', error));
+  }, []);
+
+  const monitorNames = new Map(monitors.map((monitor) => [monitor.id, monitor.name]));
+
   const filteredResults = results.filter(result => {
+    const time = new Date(result.timestamp).getTime();
+    if (dateFrom && time < new Date(`${dateFrom}T00:00:00`).getTime()) return false;
+    if (dateTo && time > new Date(`${dateTo}T23:59:59.999`).getTime()) return false;
     if (!searchTerm) return true;
     return result.url.toLowerCase().includes(searchTerm.toLowerCase()) ||
            result.domain.toLowerCase().includes(searchTerm.toLowerCase());
   });
 
+  const exportCsv = () => {
+    downloadFile(toCsv(filteredResults), 'text/csv', `lighthouse-history-${new Date().toISOString().split('T')[0]}.csv`);
+  };
+
+  const importFile = async (file: File) => {
+    setImporting(true);
+    try {
+      const summary = await importRuns(parseImport(file.name, await file.text()));
+      setImportSummary(summary);
+      if (summary.imported > 0) await loadData();
+    } catch (error) {
+      setImportSummary({
+        imported: 0,
+        duplicates: 0,
+        failed: 0,
+        errors: [error instanceof Error ? error.message : 'The import failed'],
+      });
+    } finally {
+      setImporting(false);
+      // Lets the same file be picked again after fixing it
+      if (fileInput.current) fileInput.current.value = '';
+    }
+  };
+
   const groupedResults = filteredResults.reduce((groups, result) => {
     const domain = result.domain;
     if (!groups[domain]) {
@@ -86,24 +173,20 @@ export function HistoryView({ onBack, onLoadResult, onCompareResults }: HistoryV
     }
   };
 
+  // A single "both" run can be compared on its own: mobile against desktop
+  const resultsToCompare = results.filter(r => selectedResults.has(r.id));
+  const canCompare = resultsToCompare.flatMap((result) => strategyRuns(result)).length >= 2;
+
   const handleCompare = () => {
-    const resultsToCompare = results.filter(r => selectedResults.has(r.id));
-    if (resultsToCompare.length >= 2) {
+    if (canCompare) {
       onCompareResults(resultsToCompare);
     }
   };
 
-  const getScoreColor = (score: number) => {
-    if (score >= 90) return 'text-green-600';
-    if (score >= 50) return 'text-yellow-600';
-    return 'text-red-600';
-  };
+  // `minimum` is the budget for the score, when one applies
+  const getScoreColor = (score: number, minimum?: number) => RATING_TEXT[rateScore(score, minimum)];
 
-  const getScoreBg = (score: number) => {
-    if (score >= 90) return 'bg-green-100';
-    if (score >= 50) return 'bg-yellow-100';
-    return 'bg-red-100';
-  };
+  const getScoreBg = (score: number, minimum?: number) => RATING_BG[rateScore(score, minimum)];
 
   if (loading) {
     return (
@@ -142,12 +225,41 @@ export function HistoryView({ onBack, onLoadResult, onCompareResults }: HistoryV
             </div>
             
             <div className="flex items-center space-x-3">
-              {compareMode && selectedResults.size >= 2 && (
+              <button
+                onClick={exportCsv}
+                disabled={filteredResults.length === 0}
+                className="inline-flex items-center space-x-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                title="One row per run and route, with the current filters applied"
+              >
+                <Download className="h-4 w-4" />
+                <span>Export CSV</span>
+              </button>
+              <button
+                onClick={() => fileInput.current?.click()}
+                disabled={importing}
+                className="inline-flex items-center space-x-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                title="A CSV export or a run's JSON download"
+              >
+                <Upload className="h-4 w-4" />
+                <span>{importing ? 'Importing...' : 'Import'}</span>
+              </button>
+              <input
+                ref={fileInput}
+                type="file"
+                accept=".csv,.json,text/csv,application/json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) importFile(file);
+                }}
+              />
+              {compareMode && resultsToCompare.length > 0 && <ReportExportButtons results={resultsToCompare} />}
+              {compareMode && canCompare && (
                 <button
                   onClick={handleCompare}
                   className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
                 >
-                  Compare {selectedResults.size} Results
+                  Compare {selectedResults.size} Result{selectedResults.size !== 1 ? 's' : ''}
                 </button>
               )}
               <button
@@ -166,9 +278,31 @@ export function HistoryView({ onBack, onLoadResult, onCompareResults }: HistoryV
             </div>
           </div>
 
+          {importSummary && (
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 mb-8 text-sm">
+              <div className="flex items-center justify-between">
+                <span className="text-gray-900">
+                  Imported {importSummary.imported} run{importSummary.imported !== 1 ? 's' : ''}
+                  {importSummary.duplicates > 0 && `, skipped ${importSummary.duplicates} already in the history`}
+                  {importSummary.failed > 0 && `, ${importSummary.failed} could not be imported`}
+                </span>
+                <button onClick={() => setImportSummary(null)} className="p-1 text-gray-400 hover:text-gray-600 rounded-md">
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+              {importSummary.errors.length > 0 && (
+                <ul className="mt-2 list-disc list-inside text-red-700">
+                  {importSummary.errors.map((error) => (
+                    <li key={error}>{error}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
           {/* Filters */}
           <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mb-8">
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className={`grid grid-cols-1 gap-4 ${monitors.length > 0 ? 'md:grid-cols-4' : 'md:grid-cols-3'}`}>
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   <Filter className="h-4 w-4 inline mr-1" />
@@ -176,7 +310,10 @@ export function HistoryView({ onBack, onLoadResult, onCompareResults }: HistoryV
                 </label>
                 <select
                   value={selectedDomain}
-                  onChange={(e) => setSelectedDomain(e.target.value)}
+                  onChange={(e) => {
+                    setSelectedDomain(e.target.value);
+                    onFiltersChange?.({ domain: e.target.value, monitorId: selectedMonitor });
+                  }}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
                 >
                   <option value="">All Domains</option>
@@ -185,6 +322,28 @@ export function HistoryView({ onBack, onLoadResult, onCompareResults }: HistoryV
                   ))}
                 </select>
               </div>
+
+              {monitors.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    <CalendarClock className="h-4 w-4 inline mr-1" />
+                    Filter by Monitor
+                  </label>
+                  <select
+                    value={selectedMonitor}
+                    onChange={(e) => {
+                      setSelectedMonitor(e.target.value);
+                      onFiltersChange?.({ domain: selectedDomain, monitorId: e.target.value });
+                    }}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                  >
+                    <option value="">All Runs</option>
+                    {monitors.map(monitor => (
+                      <option key={monitor.id} value={monitor.id}>{monitor.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
               
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -199,6 +358,30 @@ export function HistoryView({ onBack, onLoadResult, onCompareResults }: HistoryV
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
                 />
               </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  <Calendar className="h-4 w-4 inline mr-1" />
+                  Date Range
+                </label>
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="date"
+                    value={dateFrom}
+                    max={dateTo || undefined}
+                    onChange={(e) => setDateFrom(e.target.value)}
+                    className="w-full min-w-0 px-2 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                  />
+                  <span className="text-gray-400">–</span>
+                  <input
+                    type="date"
+                    value={dateTo}
+                    min={dateFrom || undefined}
+                    onChange={(e) => setDateTo(e.target.value)}
+                    className="w-full min-w-0 px-2 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                  />
+                </div>
+              </div>
             </div>
           </div>
 
@@ -208,7 +391,7 @@ export function HistoryView({ onBack, onLoadResult, onCompareResults }: HistoryV
               <History className="h-16 w-16 text-gray-300 mx-auto mb-4" />
               <h3 className="text-lg font-medium text-gray-900 mb-2">No test history found</h3>
               <p className="text-gray-600">
-                {searchTerm || selectedDomain 
+                {searchTerm || selectedDomain || selectedMonitor || dateFrom || dateTo
                   ? 'Try adjusting your filters or search terms.'
                   : 'Run your first performance test to see results here.'
                 }
@@ -227,7 +410,13 @@ export function HistoryView({ onBack, onLoadResult, onCompareResults }: HistoryV
                   </div>
                   
                   <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
-                    {domainResults.map((result) => (
+                    {domainResults.map((result) => {
+                      const runs = strategyRuns(result);
+                      const budgetResults = runs.flatMap((run) => (run.budget_results ? [run.budget_results] : []));
+                      const regressionResults = runs.flatMap((run) => (run.regression_results ? [run.regression_results] : []));
+                      const regressionCount = regressionResults.reduce((sum, regression) => sum + countRegressions(regression), 0);
+                      const failedCount = runs.reduce((sum, run) => sum + failedRoutes(run.results).length, 0);
+                      return (
                       <div
                         key={result.id}
                         onClick={() => handleResultSelect(result.id)}
@@ -251,6 +440,41 @@ export function HistoryView({ onBack, onLoadResult, onCompareResults }: HistoryV
                                 <BarChart3 className="h-4 w-4" />
                                 <span>{result.routes.length} route{result.routes.length !== 1 ? 's' : ''}</span>
                               </div>
+                              {result.strategy && (
+                                <div className="flex items-center space-x-1" title={profileDetails(result.profiles, result.strategy)}>
+                                  {result.strategy !== 'desktop' && <Smartphone className="h-4 w-4" />}
+                                  {result.strategy !== 'mobile' && <Monitor className="h-4 w-4" />}
+                                  <span>{STRATEGY_LABELS[result.strategy]} · {profileSummary(result.profiles, result.strategy)}</span>
+                                </div>
+                              )}
+                              {result.monitor_id && (
+                                <div className="flex items-center space-x-1" title="Scheduled run">
+                                  <CalendarClock className="h-4 w-4" />
+                                  <span>{monitorNames.get(result.monitor_id) ?? 'Monitor'}</span>
+                                </div>
+                              )}
+                              {failedCount > 0 && (
+                                <RouteStatusBadge result={{ status: 'failed', error: `${failedCount} route(s) could not be measured and are left out of the averages` }} label={`${failedCount} route(s) failed`} />
+                              )}
+                              {budgetResults.length > 0 && (
+                                <BudgetBadge
+                                  passed={budgetResults.every((budget) => budget.passed)}
+                                  failures={budgetResults.flatMap(failedChecks)}
+                                />
+                              )}
+                              {regressionResults.length > 0 && (
+                                <RegressionBadge
+                                  regressed={regressionCount > 0}
+                                  regressions={regressionResults.flatMap((regression) => Object.values(regression.routes).flat())}
+                                  label={regressionCount > 0 ? `${regressionCount} regression(s)` : undefined}
+                                />
+                              )}
+                              {baselineIds.has(result.id) && (
+                                <div className="flex items-center space-x-1 text-indigo-600" title="Later runs are compared with this one">
+                                  <Flag className="h-4 w-4" />
+                                  <span>Baseline</span>
+                                </div>
+                              )}
                             </div>
                           </div>
                           {!compareMode && <ChevronRight className="h-5 w-5 text-gray-400 flex-shrink-0" />}
@@ -261,25 +485,41 @@ export function HistoryView({ onBack, onLoadResult, onCompareResults }: HistoryV
                           )}
                         </div>
 
-                        <div className="grid grid-cols-4 gap-3">
-                          {[
-                            { label: 'Perf', score: result.avg_scores.performance },
-                            { label: 'A11y', score: result.avg_scores.accessibility },
-                            { label: 'BP', score: result.avg_scores.bestPractices },
-                            { label: 'SEO', score: result.avg_scores.seo },
-                          ].map((metric) => (
-                            <div key={metric.label} className={`p-3 rounded-lg ${getScoreBg(metric.score)}`}>
-                              <div className="text-center">
-                                <div className={`text-lg font-bold ${getScoreColor(metric.score)}`}>
-                                  {metric.score}
+                        <div className="space-y-3">
+                          {runs.map((run) => (
+                            <div key={run.strategy ?? 'run'}>
+                              {result.strategy === 'both' && run.strategy && (
+                                <div className="flex items-center space-x-1 mb-1 text-xs font-medium text-gray-500">
+                                  {run.strategy === 'mobile' ? <Smartphone className="h-3 w-3" /> : <Monitor className="h-3 w-3" />}
+                                  <span>{STRATEGY_LABELS[run.strategy]}</span>
                                 </div>
-                                <div className="text-xs text-gray-600">{metric.label}</div>
+                              )}
+                              <div className="grid grid-cols-4 gap-3">
+                                {[
+                                  { key: 'performance', label: 'Perf', score: run.avg_scores.performance },
+                                  { key: 'accessibility', label: 'A11y', score: run.avg_scores.accessibility },
+                                  { key: 'bestPractices', label: 'BP', score: run.avg_scores.bestPractices },
+                                  { key: 'seo', label: 'SEO', score: run.avg_scores.seo },
+                                ].map((metric) => {
+                                  const minimum = resolveLimits(run.budget_results?.budgets ?? [])[metric.key as ScoreKey];
+                                  return (
+                                    <div key={metric.label} className={`p-3 rounded-lg ${getScoreBg(metric.score, minimum)}`}>
+                                      <div className="text-center">
+                                        <div className={`text-lg font-bold ${getScoreColor(metric.score, minimum)}`}>
+                                          {metric.score}
+                                        </div>
+                                        <div className="text-xs text-gray-600">{metric.label}</div>
+                                      </div>
+                                    </div>
+                                  );
+                                })}
                               </div>
                             </div>
                           ))}
                         </div>
                       </div>
-                    ))}
+                      );
+                    })}
                   </div>
                 </div>
               ))}
@@ -1,5 +1,5 @@
-import React from 'react';
-import { BarChart3, Wifi, WifiOff, Database, Zap, Eye, CheckCircle2, Globe } from 'lucide-react';
+import { BarChart3, Wifi, WifiOff, Database, Zap, Eye, CheckCircle2, Globe, X, XCircle, RotateCw, Loader2, Circle } from 'lucide-react';
+import { RouteProgress } from '../services/lighthouseService';
 
 interface LoadingSpinnerProps {
   hasApiKey: boolean;
@@ -8,9 +8,11 @@ interface LoadingSpinnerProps {
     current: number;
     total: number;
     currentUrl: string;
+    routes?: RouteProgress[];
   };
   customMessage?: string;
   customDescription?: string;
+  onCancel?: () => void;
 }
 
 export function LoadingSpinner({ 
@@ -18,7 +20,8 @@ export function LoadingSpinner({
   hasSupabase, 
   loadingProgress, 
   customMessage,
-  customDescription 
+  customDescription,
+  onCancel
 }: LoadingSpinnerProps) {
   const metrics = [
     { icon: Zap, label: 'Performance', color: 'text-blue-500' },
@@ -33,6 +36,21 @@ export function LoadingSpinner({
     return Math.round((loadingProgress.current / loadingProgress.total) * 100);
   };
 
+  const routeStateIcon = (route: RouteProgress) => {
+    switch (route.state) {
+      case 'done':
+        return <CheckCircle2 className="h-4 w-4 text-green-500 flex-shrink-0" />;
+      case 'failed':
+        return <XCircle className="h-4 w-4 text-red-500 flex-shrink-0" />;
+      case 'retrying':
+        return <RotateCw className="h-4 w-4 text-amber-500 animate-spin flex-shrink-0" />;
+      case 'running':
+        return <Loader2 className="h-4 w-4 text-indigo-500 animate-spin flex-shrink-0" />;
+      default:
+        return <Circle className="h-4 w-4 text-gray-300 flex-shrink-0" />;
+    }
+  };
+
   // Determine if we should show progress bar
   const showProgressBar = loadingProgress.total > 0 && !customMessage;
 
@@ -61,13 +79,35 @@ export function LoadingSpinner({
           </h3>
           <p className="text-gray-600 mb-6">
             {customDescription || (showProgressBar 
-              ? `Analyzing ${loadingProgress.current} of ${loadingProgress.total} routes...`
+              ? `Analyzed ${loadingProgress.current} of ${loadingProgress.total} routes...`
               : 'This may take a few moments...'
             )}
           </p>
 
+          {/* Per-route status when routes run in parallel */}
+          {loadingProgress.routes && !customMessage && (
+            <div className="mb-6 p-4 bg-gray-50 rounded-xl text-left max-h-48 overflow-y-auto space-y-2">
+              {loadingProgress.routes.map((route) => (
+                <div key={route.path} className="flex items-center space-x-2 text-sm">
+                  {routeStateIcon(route)}
+                  <span className="flex-1 truncate text-gray-700" title={route.url}>{route.url}</span>
+                  {route.runs > 1 && (route.state === 'running' || route.state === 'retrying') && (
+                    <span className="text-xs text-gray-500 flex-shrink-0">
+                      run {route.run}/{route.runs}
+                    </span>
+                  )}
+                  {route.retries > 0 && (
+                    <span className="px-2 py-0.5 text-xs rounded-full bg-amber-100 text-amber-700 flex-shrink-0">
+                      {route.retries} retr{route.retries !== 1 ? 'ies' : 'y'}
+                    </span>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
           {/* Current URL */}
-          {loadingProgress.currentUrl && !customMessage && (
+          {loadingProgress.currentUrl && !loadingProgress.routes && !customMessage && (
             <div className="mb-6 p-4 bg-gray-50 rounded-xl">
               <p className="text-sm text-gray-500 mb-1">Currently analyzing:</p>
               <p className="font-medium text-gray-900 truncate">{loadingProgress.currentUrl}</p>
@@ -166,13 +206,23 @@ export function LoadingSpinner({
             </div>
           )}
 
+          {onCancel && (
+            <button
+              onClick={onCancel}
+              className="inline-flex items-center space-x-2 px-4 py-2 text-sm text-red-600 border border-red-200 rounded-lg hover:bg-red-50 transition-colors"
+            >
+              <X className="h-4 w-4" />
+              <span>Cancel Analysis</span>
+            </button>
+          )}
+
           {/* Loading Tips */}
           <div className="mt-6 p-4 bg-blue-50 rounded-xl">
             <p className="text-sm text-blue-800">
               <span className="font-medium">💡 Tip:</span> {customMessage 
                 ? 'Your test history is being loaded from the database.'
                 : hasApiKey 
-                  ? 'We\'re fetching real performance data from Google PageSpeed Insights API.'
+                  ? 'The analysis runs on the job server, so you can close this tab and come back later.'
                   : 'Connect your PageSpeed Insights API key for real performance data.'
               }
             </p>
@@ -180,7 +230,7 @@ export function LoadingSpinner({
         </div>
       </div>
 
-      <style jsx>{`
+      <style>{`
         @keyframes fadeInUp {
           from {
             opacity: 0;
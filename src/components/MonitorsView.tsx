@@ -0,0 +1,411 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ArrowLeft, CalendarClock, Plus, Play, Trash2, History, AlertCircle, Smartphone, Monitor as MonitorIcon, Power } from 'lucide-react';
+import { JobClient } from '../services/jobClient';
+import { PROVIDER_LABELS, ProviderName } from '../services/analysisProvider';
+import { STRATEGY_LABELS, StrategyMode } from '../lib/strategies';
+import { Monitor, MonitorInput } from '../lib/supabase';
+import { describeCron, isValidCron } from '../lib/cron';
+import { fromPageAuth, toPageAuth } from '../lib/pageAuth';
+import { LoadingSpinner } from './LoadingSpinner';
+import { AuthEditor } from './AuthEditor';
+import { AlertChannelsPanel } from './AlertChannelsPanel';
+
+interface MonitorsViewProps {
+  onBack: () => void;
+  onViewHistory: (monitorId: string) => void;
+  // Prefills the form, e.g. from the site currently being tested
+  defaults?: Partial<MonitorInput>;
+  // Backends the job server can run monitors with
+  providers: ProviderName[];
+}
+
+const schedulePresets = [
+  { label: 'Every hour', value: '0 * * * *' },
+  { label: 'Every 6 hours', value: '0 */6 * * *' },
+  { label: 'Daily at 03:00', value: '0 3 * * *' },
+  { label: 'Weekly on Monday', value: '0 3 * * 1' },
+];
+
+const emptyForm = (defaults?: Partial<MonitorInput>) => ({
+  name: defaults?.name ?? '',
+  url: defaults?.url ?? '',
+  routes: (defaults?.routes ?? [{ path: '/' }]).map((route) => route.path).join('\n'),
+  strategy: defaults?.strategy ?? ('mobile' as StrategyMode),
+  provider: defaults?.provider ?? ('pagespeed' as ProviderName),
+  schedule: defaults?.schedule ?? '0 3 * * *',
+  runs: defaults?.runs ?? 1,
+  budgets: defaults?.budgets ?? [],
+  auth: fromPageAuth(defaults?.auth),
+});
+
+const formatTime = (value: string | null) => (value ? new Date(value).toLocaleString() : '—');
+
+export function MonitorsView({ onBack, onViewHistory, defaults, providers }: MonitorsViewProps) {
+  const [monitors, setMonitors] = useState<Monitor[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(!!defaults?.url);
+  const [form, setForm] = useState(() => emptyForm(defaults));
+  const [saving, setSaving] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const loadMonitors = useCallback(async () => {
+    try {
+      setMonitors(await JobClient.getMonitors());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not load monitors');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadMonitors();
+  }, [loadMonitors]);
+
+  const runAction = async (action: () => Promise<unknown>, success?: string) => {
+    try {
+      await action();
+      setNotice(success ?? null);
+      await loadMonitors();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+    }
+  };
+
+  const createMonitor = async () => {
+    setSaving(true);
+    const paths = form.routes.split('\n').map((path) => path.trim()).filter(Boolean);
+    await runAction(() =>
+      JobClient.createMonitor({
+        name: form.name.trim() || form.url,
+        url: form.url.trim(),
+        routes: paths.map((path, index) => ({
+          id: String(index + 1),
+          path: path.startsWith('/') ? path : `/${path}`,
+          name: path === '/' ? 'Home Page' : path,
+        })),
+        strategy: form.strategy,
+        provider: form.provider,
+        schedule: form.schedule,
+        runs: form.runs,
+        budgets: form.budgets,
+        auth: form.provider === 'local' ? toPageAuth(form.auth) ?? null : null,
+        enabled: true,
+      }).then(() => {
+        setShowForm(false);
+        setForm(emptyForm({ budgets: form.budgets }));
+      })
+    );
+    setSaving(false);
+  };
+
+  const scheduleValid = isValidCron(form.schedule);
+  const isPreset = schedulePresets.some((preset) => preset.value === form.schedule);
+
+  if (loading) {
+    return (
+      <LoadingSpinner
+        hasApiKey={true}
+        hasSupabase={true}
+        loadingProgress={{ current: 0, total: 0, currentUrl: 'Loading monitors...' }}
+        customMessage="Loading Monitors"
+        customDescription="Fetching your scheduled audits from the job server..."
+      />
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50">
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-6xl mx-auto">
+          {/* Header */}
+          <div className="flex items-center justify-between mb-8">
+            <div className="flex items-center space-x-3">
+              <button
+                onClick={onBack}
+                className="p-2 hover:bg-white hover:shadow-sm rounded-lg transition-all"
+              >
+                <ArrowLeft className="h-5 w-5 text-gray-600" />
+              </button>
+              <div className="p-3 bg-indigo-100 rounded-xl">
+                <CalendarClock className="h-6 w-6 text-indigo-600" />
+              </div>
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">Monitors</h1>
+                <p className="text-gray-600">
+                  {monitors.length} scheduled audit{monitors.length !== 1 ? 's' : ''}
+                </p>
+              </div>
+            </div>
+
+            {!showForm && (
+              <button
+                onClick={() => setShowForm(true)}
+                className="inline-flex items-center space-x-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
+              >
+                <Plus className="h-4 w-4" />
+                <span>New Monitor</span>
+              </button>
+            )}
+          </div>
+
+          {error && (
+            <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2 text-red-700">
+              <AlertCircle className="h-4 w-4 flex-shrink-0" />
+              <span className="text-sm">{error}</span>
+            </div>
+          )}
+          {notice && (
+            <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg text-sm text-green-700">
+              {notice}
+            </div>
+          )}
+
+          {/* New monitor form */}
+          {showForm && (
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mb-8 space-y-4">
+              <h2 className="text-xl font-semibold text-gray-900">New Monitor</h2>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <label className="text-sm text-gray-700">
+                  Name
+                  <input
+                    type="text"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    placeholder="Marketing site"
+                    className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                  />
+                </label>
+                <label className="text-sm text-gray-700">
+                  Base URL
+                  <input
+                    type="url"
+                    value={form.url}
+                    onChange={(e) => setForm({ ...form, url: e.target.value })}
+                    placeholder="https://example.com"
+                    className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                  />
+                </label>
+                <label className="text-sm text-gray-700">
+                  Routes (one path per line)
+                  <textarea
+                    value={form.routes}
+                    onChange={(e) => setForm({ ...form, routes: e.target.value })}
+                    rows={3}
+                    className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                  />
+                </label>
+                <div className="space-y-4">
+                  <label className="block text-sm text-gray-700">
+                    Schedule
+                    <select
+                      value={isPreset ? form.schedule : 'custom'}
+                      onChange={(e) => setForm({ ...form, schedule: e.target.value === 'custom' ? '' : e.target.value })}
+                      className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                    >
+                      {schedulePresets.map((preset) => (
+                        <option key={preset.value} value={preset.value}>{preset.label}</option>
+                      ))}
+                      <option value="custom">Custom cron expression</option>
+                    </select>
+                  </label>
+                  {!isPreset && (
+                    <div>
+                      <input
+                        type="text"
+                        value={form.schedule}
+                        onChange={(e) => setForm({ ...form, schedule: e.target.value })}
+                        placeholder="*/30 * * * *"
+                        className={`w-full px-3 py-2 border rounded-md font-mono focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 ${
+                          form.schedule && !scheduleValid ? 'border-red-400' : 'border-gray-300'
+                        }`}
+                      />
+                      <p className="mt-1 text-xs text-gray-500">
+                        {scheduleValid ? describeCron(form.schedule) : 'minute hour day-of-month month day-of-week, in the job server\'s time zone'}
+                      </p>
+                    </div>
+                  )}
+                  <div className="grid grid-cols-3 gap-4">
+                    <label className="text-sm text-gray-700">
+                      Strategy
+                      <select
+                        value={form.strategy}
+                        onChange={(e) => setForm({ ...form, strategy: e.target.value as StrategyMode })}
+                        className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                      >
+                        <option value="mobile">Mobile</option>
+                        <option value="desktop">Desktop</option>
+                        <option value="both">Both</option>
+                      </select>
+                    </label>
+                    <label className="text-sm text-gray-700">
+                      Backend
+                      <select
+                        value={form.provider}
+                        onChange={(e) => setForm({ ...form, provider: e.target.value as ProviderName })}
+                        className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                      >
+                        {(providers.length > 0 ? providers : ['pagespeed' as const]).map((name) => (
+                          <option key={name} value={name}>{PROVIDER_LABELS[name]}</option>
+                        ))}
+                      </select>
+                    </label>
+                    <label className="text-sm text-gray-700">
+                      Runs per route
+                      <select
+                        value={form.runs}
+                        onChange={(e) => setForm({ ...form, runs: Number(e.target.value) })}
+                        className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                      >
+                        {[1, 3, 5].map((n) => (
+                          <option key={n} value={n}>{n}</option>
+                        ))}
+                      </select>
+                    </label>
+                  </div>
+                </div>
+              </div>
+
+              {form.provider === 'local' && (
+                <div className="space-y-2">
+                  <h3 className="text-sm font-semibold text-gray-900">Pages behind a login</h3>
+                  <p className="text-sm text-gray-600">
+                    Saved encrypted by the job server and used for every run. They are never shown again.
+                  </p>
+                  <AuthEditor draft={form.auth} onChange={(auth) => setForm({ ...form, auth })} />
+                </div>
+              )}
+
+              <p className="text-sm text-gray-600">
+                {form.budgets.length > 0
+                  ? `Every run is checked against the ${form.budgets.length} performance budget${form.budgets.length !== 1 ? 's' : ''} from the test settings.`
+                  : 'No performance budgets are set; add them in the test settings to have runs marked pass or fail.'}
+              </p>
+
+              <div className="flex space-x-4">
+                <button
+                  onClick={() => setShowForm(false)}
+                  className="flex-1 py-3 px-6 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={createMonitor}
+                  disabled={saving || !form.url.trim() || !scheduleValid}
+                  className="flex-1 py-3 px-6 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  {saving ? 'Saving...' : 'Create Monitor'}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* Monitor list */}
+          {monitors.length === 0 && !showForm ? (
+            <div className="text-center py-12">
+              <CalendarClock className="h-16 w-16 text-gray-300 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-gray-900 mb-2">No monitors yet</h3>
+              <p className="text-gray-600">Create a monitor to audit a site on a schedule.</p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              {monitors.map((monitor) => (
+                <div
+                  key={monitor.id}
+                  className={`bg-white rounded-xl shadow-sm border-2 p-6 ${monitor.enabled ? 'border-gray-200' : 'border-gray-100 opacity-70'}`}
+                >
+                  <div className="flex items-start justify-between mb-4">
+                    <div className="min-w-0">
+                      <h3 className="font-semibold text-gray-900 truncate">{monitor.name}</h3>
+                      <p className="text-sm text-gray-600 truncate">{monitor.url}</p>
+                    </div>
+                    <span className={`px-2 py-0.5 text-xs font-medium rounded-full flex-shrink-0 ${
+                      monitor.enabled ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-600'
+                    }`}>
+                      {monitor.enabled ? 'Active' : 'Paused'}
+                    </span>
+                  </div>
+
+                  <dl className="grid grid-cols-2 gap-2 text-sm mb-4">
+                    <dt className="text-gray-500">Schedule</dt>
+                    <dd className="text-gray-900" title={monitor.schedule}>{describeCron(monitor.schedule)}</dd>
+                    <dt className="text-gray-500">Routes</dt>
+                    <dd className="text-gray-900">
+                      {monitor.routes.length} · {monitor.runs} run{monitor.runs !== 1 ? 's' : ''} each
+                    </dd>
+                    <dt className="text-gray-500">Strategy</dt>
+                    <dd className="text-gray-900 flex items-center space-x-1">
+                      {monitor.strategy !== 'desktop' && <Smartphone className="h-3 w-3" />}
+                      {monitor.strategy !== 'mobile' && <MonitorIcon className="h-3 w-3" />}
+                      <span>{STRATEGY_LABELS[monitor.strategy]}</span>
+                    </dd>
+                    <dt className="text-gray-500">Backend</dt>
+                    <dd className="text-gray-900">{PROVIDER_LABELS[monitor.provider ?? 'pagespeed']}</dd>
+                    <dt className="text-gray-500">Budgets</dt>
+                    <dd className="text-gray-900">{monitor.budgets?.length || 'None'}</dd>
+                    {monitor.has_auth && (
+                      <>
+                        <dt className="text-gray-500">Login</dt>
+                        <dd className="text-gray-900">Saved credentials</dd>
+                      </>
+                    )}
+                    <dt className="text-gray-500">Last run</dt>
+                    <dd className="text-gray-900">{formatTime(monitor.last_run_at)}</dd>
+                    <dt className="text-gray-500">Next run</dt>
+                    <dd className="text-gray-900">{formatTime(monitor.next_run_at)}</dd>
+                  </dl>
+
+                  {monitor.last_error && (
+                    <div className="flex items-start space-x-2 mb-4 text-sm text-red-700">
+                      <AlertCircle className="h-4 w-4 flex-shrink-0 mt-0.5" />
+                      <span>Last run could not start: {monitor.last_error}</span>
+                    </div>
+                  )}
+
+                  <div className="flex flex-wrap gap-2">
+                    <button
+                      onClick={() => runAction(() => JobClient.runMonitor(monitor.id), `Queued a run of "${monitor.name}".`)}
+                      className="inline-flex items-center space-x-1 px-3 py-1.5 text-sm bg-indigo-100 text-indigo-700 rounded-lg hover:bg-indigo-200 transition-colors"
+                    >
+                      <Play className="h-3 w-3" />
+                      <span>Run now</span>
+                    </button>
+                    <button
+                      onClick={() => onViewHistory(monitor.id)}
+                      className="inline-flex items-center space-x-1 px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+                    >
+                      <History className="h-3 w-3" />
+                      <span>History</span>
+                    </button>
+                    <button
+                      onClick={() => runAction(() => JobClient.updateMonitor(monitor.id, { enabled: !monitor.enabled }))}
+                      className="inline-flex items-center space-x-1 px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+                    >
+                      <Power className="h-3 w-3" />
+                      <span>{monitor.enabled ? 'Pause' : 'Resume'}</span>
+                    </button>
+                    <button
+                      onClick={() => {
+                        if (confirm(`Delete monitor "${monitor.name}"? Its past results are kept.`)) {
+                          runAction(() => JobClient.deleteMonitor(monitor.id));
+                        }
+                      }}
+                      className="inline-flex items-center space-x-1 px-3 py-1.5 text-sm text-red-600 rounded-lg hover:bg-red-50 transition-colors"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                      <span>Delete</span>
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <AlertChannelsPanel domains={[...new Set(monitors.map((monitor) => monitor.domain))]} />
+        </div>
+      </div>
+    </div>
+  );
+}
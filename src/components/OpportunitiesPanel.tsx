@@ -0,0 +1,190 @@
+import { useState } from 'react';
+import { Lightbulb, Stethoscope, ChevronDown, ChevronRight, ExternalLink, ArrowDownWideNarrow } from 'lucide-react';
+import { AuditFinding } from '../services/lighthouseService';
+import { formatBytes, formatMs } from '../lib/metrics';
+
+interface OpportunitiesPanelProps {
+  audits: AuditFinding[] | undefined;
+}
+
+type SortKey = 'time' | 'bytes' | 'score';
+
+const sortOptions: { key: SortKey; label: string }[] = [
+  { key: 'time', label: 'Time savings' },
+  { key: 'bytes', label: 'Byte savings' },
+  { key: 'score', label: 'Lowest score' },
+];
+
+const compareAudits = (sortKey: SortKey) => (a: AuditFinding, b: AuditFinding) => {
+  if (sortKey === 'bytes') return b.savingsBytes - a.savingsBytes || b.savingsMs - a.savingsMs;
+  if (sortKey === 'score') return (a.score ?? 1) - (b.score ?? 1) || b.savingsMs - a.savingsMs;
+  return b.savingsMs - a.savingsMs || b.savingsBytes - a.savingsBytes;
+};
+
+// Audit descriptions are markdown; keep the link text and drop the URL
+const stripLinks = (text: string) => text.replace(/\[([^\]]+)\]\([^)]+\)/g, '$1');
+
+export function OpportunitiesPanel({ audits }: OpportunitiesPanelProps) {
+  const [open, setOpen] = useState(false);
+  const [sortKey, setSortKey] = useState<SortKey>('time');
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  if (!audits) return null;
+
+  const opportunities = audits.filter((audit) => audit.kind === 'opportunity').sort(compareAudits(sortKey));
+  const diagnostics = audits.filter((audit) => audit.kind === 'diagnostic').sort(compareAudits(sortKey));
+  const topSavingsMs = Math.max(0, ...opportunities.map((audit) => audit.savingsMs));
+
+  const toggleAudit = (id: string) => {
+    const next = new Set(expanded);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setExpanded(next);
+  };
+
+  const renderAudit = (audit: AuditFinding) => {
+    const isExpanded = expanded.has(audit.id);
+    const hasWastedMs = audit.items.some((item) => item.wastedMs !== null);
+    const hasWastedBytes = audit.items.some((item) => item.wastedBytes !== null);
+
+    return (
+      <div key={audit.id} className="border border-gray-200 rounded-lg">
+        <button
+          onClick={() => toggleAudit(audit.id)}
+          className="w-full flex items-center justify-between p-4 text-left hover:bg-gray-50 transition-colors"
+        >
+          <div className="flex items-center space-x-3 min-w-0">
+            {isExpanded ? <ChevronDown className="h-4 w-4 text-gray-400 flex-shrink-0" /> : <ChevronRight className="h-4 w-4 text-gray-400 flex-shrink-0" />}
+            <span
+              className={`w-2 h-2 rounded-full flex-shrink-0 ${
+                audit.score === null ? 'bg-gray-300' : audit.score >= 0.5 ? 'bg-yellow-500' : 'bg-red-500'
+              }`}
+            />
+            <span className="font-medium text-gray-900 truncate">{audit.title}</span>
+          </div>
+          <div className="flex items-center space-x-4 text-sm flex-shrink-0 ml-4">
+            {audit.savingsMs > 0 && (
+              <span className="text-red-600 font-semibold">−{formatMs(audit.savingsMs)}</span>
+            )}
+            {audit.savingsBytes > 0 && (
+              <span className="text-orange-600 font-semibold">−{formatBytes(audit.savingsBytes)}</span>
+            )}
+            {audit.savingsMs === 0 && audit.savingsBytes === 0 && audit.displayValue && (
+              <span className="text-gray-500">{audit.displayValue}</span>
+            )}
+          </div>
+        </button>
+
+        {isExpanded && (
+          <div className="px-4 pb-4 space-y-3">
+            <p className="text-sm text-gray-600">
+              {stripLinks(audit.description)}
+              {audit.docsUrl && (
+                <a
+                  href={audit.docsUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center space-x-1 ml-2 text-indigo-600 hover:text-indigo-700"
+                >
+                  <span>Learn more</span>
+                  <ExternalLink className="h-3 w-3" />
+                </a>
+              )}
+            </p>
+
+            {audit.items.length > 0 && (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b border-gray-200">
+                      <th className="py-2 pr-4 font-medium">URL</th>
+                      {hasWastedBytes && <th className="py-2 px-4 font-medium text-right">Wasted bytes</th>}
+                      {hasWastedMs && <th className="py-2 pl-4 font-medium text-right">Wasted time</th>}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {audit.items.map((item, index) => (
+                      <tr key={`${item.url}-${index}`} className="border-b border-gray-100 last:border-0">
+                        <td className="py-2 pr-4 text-gray-700 max-w-md truncate" title={item.url ?? undefined}>
+                          {item.url ?? '—'}
+                        </td>
+                        {hasWastedBytes && (
+                          <td className="py-2 px-4 text-right text-gray-900">{formatBytes(item.wastedBytes)}</td>
+                        )}
+                        {hasWastedMs && (
+                          <td className="py-2 pl-4 text-right text-gray-900">{formatMs(item.wastedMs)}</td>
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="mt-6 border-t border-gray-100 pt-6">
+      <div className="flex items-center justify-between">
+        <button
+          onClick={() => setOpen(!open)}
+          className="flex items-center space-x-2 text-left"
+        >
+          {open ? <ChevronDown className="h-5 w-5 text-gray-400" /> : <ChevronRight className="h-5 w-5 text-gray-400" />}
+          <Lightbulb className="h-5 w-5 text-indigo-600" />
+          <h4 className="font-semibold text-gray-900">Opportunities &amp; Diagnostics</h4>
+          <span className="text-sm text-gray-500">
+            {opportunities.length} opportunit{opportunities.length !== 1 ? 'ies' : 'y'}
+            {topSavingsMs > 0 && `, largest saves ~${formatMs(topSavingsMs)}`}
+          </span>
+        </button>
+        {open && (
+          <label className="flex items-center space-x-2 text-sm text-gray-600">
+            <ArrowDownWideNarrow className="h-4 w-4" />
+            <select
+              value={sortKey}
+              onChange={(e) => setSortKey(e.target.value as SortKey)}
+              className="px-2 py-1 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            >
+              {sortOptions.map((option) => (
+                <option key={option.key} value={option.key}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+        )}
+      </div>
+
+      {open && (
+        <div className="mt-4 space-y-6">
+          {audits.length === 0 && (
+            <p className="text-sm text-gray-500">No failing performance audits on this route.</p>
+          )}
+          {opportunities.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+                <Lightbulb className="h-4 w-4" />
+                <span>Opportunities</span>
+              </div>
+              {opportunities.map(renderAudit)}
+            </div>
+          )}
+          {diagnostics.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+                <Stethoscope className="h-4 w-4" />
+                <span>Diagnostics</span>
+              </div>
+              {diagnostics.map(renderAudit)}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
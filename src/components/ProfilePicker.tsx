@@ -0,0 +1,151 @@
+import { useState } from 'react';
+import { Plus, Trash2, Smartphone, Monitor } from 'lucide-react';
+import { Strategy } from '../services/lighthouseService';
+import { BUILT_IN_PROFILES, DeviceProfile, describeProfile } from '../lib/profiles';
+import { STRATEGY_LABELS, StrategyMode, strategiesOf } from '../lib/strategies';
+
+interface ProfilePickerProps {
+  strategy: StrategyMode;
+  // Profile id per strategy
+  selected: Record<Strategy, string>;
+  onSelect: (strategy: Strategy, id: string) => void;
+  customProfiles: DeviceProfile[];
+  onCustomProfilesChange: (profiles: DeviceProfile[]) => void;
+}
+
+const numberFields: { label: string; get: (profile: DeviceProfile) => number; set: (profile: DeviceProfile, value: number) => DeviceProfile; step?: number }[] = [
+  { label: 'Width (px)', get: (p) => p.screen.width, set: (p, v) => ({ ...p, screen: { ...p.screen, width: v } }) },
+  { label: 'Height (px)', get: (p) => p.screen.height, set: (p, v) => ({ ...p, screen: { ...p.screen, height: v } }) },
+  { label: 'Pixel ratio', get: (p) => p.screen.deviceScaleFactor, set: (p, v) => ({ ...p, screen: { ...p.screen, deviceScaleFactor: v } }), step: 0.25 },
+  { label: 'RTT (ms)', get: (p) => p.network.rttMs, set: (p, v) => ({ ...p, network: { ...p.network, rttMs: v } }) },
+  { label: 'Throughput (Kbps)', get: (p) => p.network.throughputKbps, set: (p, v) => ({ ...p, network: { ...p.network, throughputKbps: v } }) },
+  { label: 'CPU slowdown (×)', get: (p) => p.cpuSlowdownMultiplier, set: (p, v) => ({ ...p, cpuSlowdownMultiplier: v }), step: 0.5 },
+];
+
+const inputClass = 'mt-1 w-full px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500';
+
+// Device and network profile per strategy of the run. Custom profiles start
+// as a copy of the selected one and are kept in the browser.
+export function ProfilePicker({ strategy, selected, onSelect, customProfiles, onCustomProfilesChange }: ProfilePickerProps) {
+  const [draft, setDraft] = useState<DeviceProfile | null>(null);
+
+  const findProfile = (id: string) => [...BUILT_IN_PROFILES, ...customProfiles].find((profile) => profile.id === id);
+
+  const saveDraft = () => {
+    if (!draft) return;
+    const profile = { ...draft, id: `custom-${Date.now()}`, name: draft.name.trim() };
+    onCustomProfilesChange([...customProfiles, profile]);
+    onSelect(profile.formFactor, profile.id);
+    setDraft(null);
+  };
+
+  const draftValid = !!draft && draft.name.trim() !== '' && draft.userAgent.trim() !== '' &&
+    numberFields.every((field) => Number.isFinite(field.get(draft)) && field.get(draft) > 0);
+
+  return (
+    <div className="space-y-4">
+      {strategiesOf(strategy).map((side) => {
+        const current = findProfile(selected[side]);
+        const isCustom = customProfiles.some((profile) => profile.id === selected[side]);
+        return (
+          <div key={side} className="flex flex-wrap items-center gap-3">
+            <div className="flex items-center space-x-1 w-24 text-sm font-medium text-gray-700">
+              {side === 'mobile' ? <Smartphone className="h-4 w-4" /> : <Monitor className="h-4 w-4" />}
+              <span>{STRATEGY_LABELS[side]}</span>
+            </div>
+            <select
+              value={selected[side]}
+              onChange={(e) => onSelect(side, e.target.value)}
+              className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            >
+              <optgroup label="Built-in">
+                {BUILT_IN_PROFILES.filter((profile) => profile.formFactor === side).map((profile) => (
+                  <option key={profile.id} value={profile.id}>{profile.name}</option>
+                ))}
+              </optgroup>
+              {customProfiles.some((profile) => profile.formFactor === side) && (
+                <optgroup label="Custom">
+                  {customProfiles.filter((profile) => profile.formFactor === side).map((profile) => (
+                    <option key={profile.id} value={profile.id}>{profile.name}</option>
+                  ))}
+                </optgroup>
+              )}
+            </select>
+            {current && <span className="text-sm text-gray-600">{describeProfile(current)}</span>}
+            <div className="flex items-center space-x-2 ml-auto">
+              {current && (
+                <button
+                  onClick={() => setDraft({ ...current, name: `${current.name} (custom)` })}
+                  className="inline-flex items-center space-x-1 px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+                >
+                  <Plus className="h-3 w-3" />
+                  <span>Customize</span>
+                </button>
+              )}
+              {isCustom && (
+                <button
+                  onClick={() => {
+                    onCustomProfilesChange(customProfiles.filter((profile) => profile.id !== selected[side]));
+                    onSelect(side, BUILT_IN_PROFILES.find((profile) => profile.formFactor === side)!.id);
+                  }}
+                  className="inline-flex items-center space-x-1 px-3 py-1.5 text-sm text-red-600 rounded-lg hover:bg-red-50 transition-colors"
+                >
+                  <Trash2 className="h-3 w-3" />
+                  <span>Delete</span>
+                </button>
+              )}
+            </div>
+          </div>
+        );
+      })}
+
+      {draft && (
+        <div className="p-4 border border-gray-200 rounded-lg space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <label className="text-xs text-gray-600">
+              Name
+              <input type="text" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} className={inputClass} />
+            </label>
+            <label className="text-xs text-gray-600">
+              User agent
+              <input type="text" value={draft.userAgent} onChange={(e) => setDraft({ ...draft, userAgent: e.target.value })} className={inputClass} />
+            </label>
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+            {numberFields.map((field) => (
+              <label key={field.label} className="text-xs text-gray-600">
+                {field.label}
+                <input
+                  type="number"
+                  min={0}
+                  step={field.step ?? 1}
+                  value={Number.isFinite(field.get(draft)) ? field.get(draft) : ''}
+                  onChange={(e) => setDraft(field.set(draft, e.target.value === '' ? NaN : Number(e.target.value)))}
+                  className={inputClass}
+                />
+              </label>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500">
+            {STRATEGY_LABELS[draft.formFactor]} profile. Throughput and round trip time are simulated after the page loads, and the CPU slowdown is relative to the job server's machine.
+          </p>
+          <div className="flex space-x-3">
+            <button
+              onClick={() => setDraft(null)}
+              className="flex-1 py-2 px-4 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={saveDraft}
+              disabled={!draftValid}
+              className="flex-1 py-2 px-4 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Save Profile
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import { TrendingDown, Equal } from 'lucide-react';
+import { MetricRegression, describeRegression } from '../lib/regressions';
+
+interface RegressionBadgeProps {
+  regressed: boolean;
+  // Regressed metrics, listed in the tooltip
+  regressions?: MetricRegression[];
+  label?: string;
+}
+
+export function RegressionBadge({ regressed, regressions = [], label }: RegressionBadgeProps) {
+  const Icon = regressed ? TrendingDown : Equal;
+  return (
+    <span
+      className={`inline-flex items-center space-x-1 px-2 py-0.5 text-xs font-medium rounded-full ${
+        regressed ? 'bg-orange-100 text-orange-700' : 'bg-gray-100 text-gray-700'
+      }`}
+      title={regressions.length > 0 ? regressions.map(describeRegression).join('\n') : undefined}
+    >
+      <Icon className="h-3 w-3" />
+      <span>{label ?? (regressed ? 'Regressed' : 'No regressions')}</span>
+    </span>
+  );
+}
@@ -0,0 +1,30 @@
+import { FileDown, Printer } from 'lucide-react';
+import { ReportRun, buildHtmlReport, downloadFile, printHtmlReport, reportFileName } from '../lib/htmlReport';
+
+interface ReportExportButtonsProps {
+  // One run, or several for a combined report
+  results: ReportRun[];
+}
+
+// Stakeholder-friendly exports, built in the browser from what is on screen
+export function ReportExportButtons({ results }: ReportExportButtonsProps) {
+  return (
+    <>
+      <button
+        onClick={() => downloadFile(buildHtmlReport(results), 'text/html', reportFileName(results, 'html'))}
+        className="inline-flex items-center space-x-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+      >
+        <FileDown className="h-4 w-4" />
+        <span>HTML Report</span>
+      </button>
+      <button
+        onClick={() => printHtmlReport(buildHtmlReport(results))}
+        className="inline-flex items-center space-x-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+        title="Opens the print dialog; choose “Save as PDF”"
+      >
+        <Printer className="h-4 w-4" />
+        <span>PDF</span>
+      </button>
+    </>
+  );
+}
@@ -0,0 +1,131 @@
+import { useState } from 'react';
+import { RotateCcw } from 'lucide-react';
+import { RouteConfig, RouteRerun } from '../lib/supabase';
+import { STRATEGY_LABELS, StrategyRun } from '../lib/strategies';
+import { isMeasured } from '../lib/routeStatus';
+import { RouteStatusBadge } from './RouteStatusBadge';
+
+interface RerunPanelProps {
+  routes: RouteConfig[];
+  runs: StrategyRun[];
+  reruns: RouteRerun[];
+  // `strategy:path` keys of the routes being measured again
+  running: string[];
+  // Selection is hidden without it, e.g. when the job server is not reachable
+  onRerun?: (keys: string[]) => void;
+}
+
+// Picks routes of the open run to measure again and lists earlier
+// re-measurements. Routes are keyed by strategy, since each side of a "both"
+// run can be re-run on its own.
+export function RerunPanel({ routes, runs, reruns, running, onRerun }: RerunPanelProps) {
+  const [selected, setSelected] = useState<string[]>([]);
+  const showStrategy = runs.length > 1;
+  const routeName = (path: string) => routes.find((route) => route.path === path)?.name || path;
+
+  const entries = runs
+    .filter((run) => run.strategy)
+    .flatMap((run) =>
+      Object.entries(run.results).map(([path, result]) => ({ key: `${run.strategy}:${path}`, run, path, result }))
+    );
+  const failedKeys = entries.filter((entry) => !isMeasured(entry.result)).map((entry) => entry.key);
+  const busy = running.length > 0;
+
+  const toggle = (key: string) =>
+    setSelected((keys) => (keys.includes(key) ? keys.filter((existing) => existing !== key) : [...keys, key]));
+
+  const rerun = () => {
+    onRerun?.(selected);
+    setSelected([]);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mb-8 space-y-4">
+      <div className="flex items-center space-x-2">
+        <RotateCcw className="h-5 w-5 text-indigo-600" />
+        <h3 className="text-lg font-semibold text-gray-900">Re-run routes</h3>
+      </div>
+
+      {onRerun && (
+        <>
+          <p className="text-sm text-gray-600">
+            The selected routes are measured again with the run's backend, profile and runs per route, and their new results replace the old ones in this run. Averages, budgets and the baseline comparison are updated to match.
+          </p>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              onClick={() => setSelected(failedKeys)}
+              disabled={failedKeys.length === 0 || busy}
+              className="px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Select failed ({failedKeys.length})
+            </button>
+            <button
+              onClick={() => setSelected(entries.map((entry) => entry.key))}
+              disabled={busy}
+              className="px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Select all
+            </button>
+            <button
+              onClick={() => setSelected([])}
+              disabled={selected.length === 0 || busy}
+              className="px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Clear
+            </button>
+          </div>
+
+          <div className="max-h-64 overflow-y-auto border border-gray-200 rounded-lg divide-y divide-gray-100">
+            {entries.map(({ key, run, path, result }) => (
+              <label key={key} className="flex items-center space-x-3 px-4 py-2 text-sm cursor-pointer hover:bg-gray-50">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(key) || running.includes(key)}
+                  disabled={busy}
+                  onChange={() => toggle(key)}
+                  className="h-4 w-4 text-indigo-600 rounded border-gray-300"
+                />
+                <span className="text-gray-900">{routeName(path)}</span>
+                <span className="text-gray-500">({path})</span>
+                {showStrategy && <span className="text-gray-500">· {STRATEGY_LABELS[run.strategy!]}</span>}
+                {!isMeasured(result) && <RouteStatusBadge result={result} />}
+                {running.includes(key) && <span className="ml-auto text-xs text-indigo-600">Measuring…</span>}
+              </label>
+            ))}
+          </div>
+
+          <button
+            onClick={rerun}
+            disabled={selected.length === 0 || busy}
+            className="inline-flex items-center space-x-2 px-4 py-2 bg-indigo-600 text-white text-sm rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <RotateCcw className={`h-4 w-4 ${busy ? 'animate-spin' : ''}`} />
+            <span>{busy ? `Re-running ${running.length} route(s)…` : `Re-run ${selected.length} route(s)`}</span>
+          </button>
+        </>
+      )}
+
+      <div>
+        <h4 className="text-sm font-medium text-gray-900 mb-2">Re-run history</h4>
+        {reruns.length === 0 ? (
+          <p className="text-sm text-gray-500">No routes of this run have been measured again.</p>
+        ) : (
+          <ul className="space-y-1 text-sm text-gray-700">
+            {[...reruns].reverse().map((rerun, index) => (
+              <li key={`${rerun.at}-${rerun.strategy}-${index}`}>
+                <span className="text-gray-500">{new Date(rerun.at).toLocaleString()}</span>
+                {showStrategy && <span className="text-gray-500"> · {STRATEGY_LABELS[rerun.strategy]}</span>}
+                {' · '}
+                {rerun.routes.join(', ')}
+                {rerun.failed.length > 0 && (
+                  <span className="text-red-700"> ({rerun.failed.length} failed again: {rerun.failed.join(', ')})</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
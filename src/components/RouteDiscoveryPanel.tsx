@@ -0,0 +1,230 @@
+import { useState } from 'react';
+import { Search, Map as MapIcon, Network, AlertCircle, Layers } from 'lucide-react';
+import { JobClient } from '../services/jobClient';
+import { DiscoveryResult } from '../services/routeDiscovery';
+import { RouteConfig } from '../lib/supabase';
+
+interface RouteDiscoveryPanelProps {
+  baseUrl: string;
+  onUseRoutes: (routes: RouteConfig[]) => void;
+}
+
+// Patterns are typed one per line or comma separated
+const parsePatterns = (text: string) => text.split(/[\n,]/).map((pattern) => pattern.trim()).filter(Boolean);
+
+export function RouteDiscoveryPanel({ baseUrl, onUseRoutes }: RouteDiscoveryPanelProps) {
+  const [useSitemap, setUseSitemap] = useState(true);
+  const [useCrawl, setUseCrawl] = useState(false);
+  const [maxDepth, setMaxDepth] = useState(2);
+  const [maxPages, setMaxPages] = useState(50);
+  const [include, setInclude] = useState('');
+  const [exclude, setExclude] = useState('');
+  const [isDiscovering, setIsDiscovering] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<DiscoveryResult | null>(null);
+  const [onePerTemplate, setOnePerTemplate] = useState(true);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  const discover = async () => {
+    setIsDiscovering(true);
+    setError(null);
+    try {
+      const discovered = await JobClient.discoverRoutes({
+        url: baseUrl,
+        sitemap: useSitemap,
+        crawl: useCrawl ? { maxDepth, maxPages } : undefined,
+        include: parsePatterns(include),
+        exclude: parsePatterns(exclude),
+      });
+      setResult(discovered);
+      setSelected(new Set(discovered.templates.map((group) => group.template)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Route discovery failed');
+    } finally {
+      setIsDiscovering(false);
+    }
+  };
+
+  const toggleTemplate = (template: string) => {
+    const next = new Set(selected);
+    if (next.has(template)) {
+      next.delete(template);
+    } else {
+      next.add(template);
+    }
+    setSelected(next);
+  };
+
+  const chosenTemplates = result?.templates.filter((group) => selected.has(group.template)) ?? [];
+  const chosenRoutes: RouteConfig[] = chosenTemplates.flatMap((group) =>
+    (onePerTemplate ? [group.sample] : group.paths).map((path) => ({
+      id: path,
+      path,
+      name: path === '/' ? 'Home Page' : onePerTemplate && group.paths.length > 1 ? group.template : path,
+    }))
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <label className="flex items-start space-x-3 p-4 border border-gray-200 rounded-lg cursor-pointer">
+          <input
+            type="checkbox"
+            checked={useSitemap}
+            onChange={(e) => setUseSitemap(e.target.checked)}
+            className="mt-1"
+          />
+          <div>
+            <div className="flex items-center space-x-2 font-semibold text-gray-900">
+              <MapIcon className="h-4 w-4 text-indigo-600" />
+              <span>Sitemap</span>
+            </div>
+            <p className="text-sm text-gray-600">Read sitemap.xml, sitemap indexes and sitemaps listed in robots.txt.</p>
+          </div>
+        </label>
+
+        <label className="flex items-start space-x-3 p-4 border border-gray-200 rounded-lg cursor-pointer">
+          <input
+            type="checkbox"
+            checked={useCrawl}
+            onChange={(e) => setUseCrawl(e.target.checked)}
+            className="mt-1"
+          />
+          <div>
+            <div className="flex items-center space-x-2 font-semibold text-gray-900">
+              <Network className="h-4 w-4 text-indigo-600" />
+              <span>Crawl links</span>
+            </div>
+            <p className="text-sm text-gray-600">Follow same-origin links from the start page.</p>
+          </div>
+        </label>
+      </div>
+
+      {useCrawl && (
+        <div className="grid grid-cols-2 gap-4">
+          <label className="text-sm text-gray-700">
+            Max depth
+            <input
+              type="number"
+              min={1}
+              max={5}
+              value={maxDepth}
+              onChange={(e) => setMaxDepth(Number(e.target.value))}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            />
+          </label>
+          <label className="text-sm text-gray-700">
+            Max pages
+            <input
+              type="number"
+              min={1}
+              max={200}
+              value={maxPages}
+              onChange={(e) => setMaxPages(Number(e.target.value))}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            />
+          </label>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <label className="text-sm text-gray-700">
+          Include patterns
+          <textarea
+            value={include}
+            onChange={(e) => setInclude(e.target.value)}
+            placeholder={'/blog/**\n/products/*'}
+            rows={2}
+            className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+          />
+        </label>
+        <label className="text-sm text-gray-700">
+          Exclude patterns
+          <textarea
+            value={exclude}
+            onChange={(e) => setExclude(e.target.value)}
+            placeholder={'/admin/**\n/tag/*'}
+            rows={2}
+            className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+          />
+        </label>
+      </div>
+
+      <button
+        onClick={discover}
+        disabled={isDiscovering || (!useSitemap && !useCrawl)}
+        className="w-full flex items-center justify-center space-x-2 py-3 px-6 bg-indigo-100 text-indigo-700 rounded-lg hover:bg-indigo-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <Search className="h-4 w-4" />
+        <span>{isDiscovering ? 'Discovering routes...' : 'Discover Routes'}</span>
+      </button>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2 text-red-700">
+          <AlertCircle className="h-4 w-4 flex-shrink-0" />
+          <span className="text-sm">{error}</span>
+        </div>
+      )}
+
+      {result && (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-gray-600">
+              Found {result.routes.length} route{result.routes.length !== 1 ? 's' : ''} in {result.templates.length} template{result.templates.length !== 1 ? 's' : ''}
+              {result.sitemaps.length > 0 && ` from ${result.sitemaps.length} sitemap${result.sitemaps.length !== 1 ? 's' : ''}`}
+            </p>
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={onePerTemplate}
+                onChange={(e) => setOnePerTemplate(e.target.checked)}
+              />
+              <span>One sample per template</span>
+            </label>
+          </div>
+
+          {result.errors.length > 0 && (
+            <details className="text-sm text-yellow-700">
+              <summary className="cursor-pointer">{result.errors.length} request{result.errors.length !== 1 ? 's' : ''} failed</summary>
+              <ul className="mt-2 space-y-1">
+                {result.errors.map((message, index) => (
+                  <li key={index} className="truncate">{message}</li>
+                ))}
+              </ul>
+            </details>
+          )}
+
+          <div className="max-h-80 overflow-y-auto border border-gray-200 rounded-lg divide-y divide-gray-100">
+            {result.templates.map((group) => (
+              <label key={group.template} className="flex items-center space-x-3 p-3 cursor-pointer hover:bg-gray-50">
+                <input
+                  type="checkbox"
+                  checked={selected.has(group.template)}
+                  onChange={() => toggleTemplate(group.template)}
+                />
+                <Layers className="h-4 w-4 text-gray-400 flex-shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium text-gray-900 truncate">{group.template}</div>
+                  {group.paths.length > 1 && (
+                    <div className="text-xs text-gray-500 truncate">Sample: {group.sample}</div>
+                  )}
+                </div>
+                <span className="text-sm text-gray-500 flex-shrink-0">
+                  {group.paths.length} page{group.paths.length !== 1 ? 's' : ''}
+                </span>
+              </label>
+            ))}
+          </div>
+
+          <button
+            onClick={() => onUseRoutes(chosenRoutes)}
+            disabled={chosenRoutes.length === 0}
+            className="w-full py-3 px-6 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Use {chosenRoutes.length} route{chosenRoutes.length !== 1 ? 's' : ''}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import { XCircle, Clock, Gauge, WifiOff, Link2Off } from 'lucide-react';
+import { FailedRouteStatus, ROUTE_STATUS_LABELS, RouteOutcome } from '../lib/routeStatus';
+
+interface RouteStatusBadgeProps {
+  result: RouteOutcome;
+  label?: string;
+}
+
+const icons: Record<FailedRouteStatus, typeof XCircle> = {
+  failed: XCircle,
+  timeout: Clock,
+  'quota-exceeded': Gauge,
+  unreachable: WifiOff,
+  'invalid-url': Link2Off,
+};
+
+// Shown in place of scores for routes that could not be measured; the error
+// is in the tooltip
+export function RouteStatusBadge({ result, label }: RouteStatusBadgeProps) {
+  const status: FailedRouteStatus = result.status && result.status !== 'ok' ? result.status : 'failed';
+  const Icon = icons[status];
+  return (
+    <span
+      className="inline-flex items-center space-x-1 px-2 py-0.5 text-xs font-medium rounded-full bg-red-100 text-red-700"
+      title={result.error ?? undefined}
+    >
+      <Icon className="h-3 w-3" />
+      <span>{label ?? ROUTE_STATUS_LABELS[status]}</span>
+    </span>
+  );
+}
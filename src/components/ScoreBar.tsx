@@ -0,0 +1,41 @@
+import { RATING_FILL, rateScore } from '../lib/budgets';
+
+interface ScoreBarProps {
+  score: number;
+  // Run-to-run min/max of the score, drawn as a band behind the marker
+  range?: { min: number; max: number } | null;
+  // Budget minimum, drawn as a tick and used for the bar color
+  minimum?: number;
+}
+
+export function ScoreBar({ score, range, minimum }: ScoreBarProps) {
+  const fill = RATING_FILL[rateScore(score, minimum)];
+
+  return (
+    <div className="mt-3">
+      <div className="relative bg-gray-200 rounded-full h-2">
+        <div className={`h-2 rounded-full ${fill}`} style={{ width: `${score}%` }}></div>
+        {range && (
+          <div
+            className="absolute -top-1 h-4 rounded bg-gray-900/20 border border-gray-500/40"
+            style={{ left: `${range.min}%`, width: `${Math.max(range.max - range.min, 0.5)}%` }}
+            title={`Varied between ${Math.round(range.min)} and ${Math.round(range.max)} across runs`}
+          ></div>
+        )}
+        {minimum !== undefined && (
+          <div
+            className="absolute -top-1 h-4 w-0.5 bg-gray-900"
+            style={{ left: `${minimum}%` }}
+            title={`Budget: ${minimum}`}
+          ></div>
+        )}
+      </div>
+      {(range || minimum !== undefined) && (
+        <div className="mt-1 flex justify-between text-xs text-gray-500">
+          <span>{range && `Range ${Math.round(range.min)}–${Math.round(range.max)}`}</span>
+          <span>{minimum !== undefined && `Budget ${minimum}`}</span>
+        </div>
+      )}
+    </div>
+  );
+}
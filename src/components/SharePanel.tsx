@@ -0,0 +1,150 @@
+import { useState, useEffect } from 'react';
+import { Share2, Copy, Ban, AlertCircle, CheckCircle2 } from 'lucide-react';
+import { LighthouseStorage, ShareLink, isShareActive } from '../lib/supabase';
+import { shareUrl } from '../lib/router';
+import { DAY_MS } from '../lib/trends';
+
+interface SharePanelProps {
+  resultId: string;
+  hasSupabase: boolean;
+}
+
+const EXPIRY_OPTIONS = [
+  { value: '1', label: '1 day' },
+  { value: '7', label: '7 days' },
+  { value: '30', label: '30 days' },
+  { value: 'never', label: 'Never' },
+];
+
+const describeShare = (share: ShareLink, now: number) => {
+  if (share.revoked_at) return `Revoked ${new Date(share.revoked_at).toLocaleString()}`;
+  if (!share.expires_at) return 'Never expires';
+  const expiry = new Date(share.expires_at).toLocaleString();
+  return isShareActive(share, now) ? `Expires ${expiry}` : `Expired ${expiry}`;
+};
+
+// Read-only links to the run for people outside the team
+export function SharePanel({ resultId, hasSupabase }: SharePanelProps) {
+  const [shares, setShares] = useState<ShareLink[]>([]);
+  const [expiry, setExpiry] = useState('7');
+  const [saving, setSaving] = useState(false);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [now] = useState(() => Date.now());
+
+  useEffect(() => {
+    LighthouseStorage.getShareLinks(resultId)
+      .then(setShares)
+      .catch((err) => setError(err instanceof Error ? err.message : 'Could not load share links'));
+  }, [resultId]);
+
+  const copy = async (share: ShareLink) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(share.token));
+      setCopiedId(share.id);
+    } catch {
+      setError('Could not copy the link; select and copy it instead');
+    }
+  };
+
+  const createLink = async () => {
+    setSaving(true);
+    try {
+      const expiresAt = expiry === 'never' ? null : new Date(Date.now() + Number(expiry) * DAY_MS).toISOString();
+      const created = await LighthouseStorage.createShareLink(resultId, expiresAt);
+      setShares([created, ...shares]);
+      setError(null);
+      await copy(created);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not create the link');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const revoke = async (id: string) => {
+    try {
+      const revoked = await LighthouseStorage.revokeShareLink(id);
+      if (revoked) setShares(shares.map((share) => (share.id === id ? revoked : share)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not revoke the link');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mb-8 space-y-4">
+      <div className="flex items-center space-x-2">
+        <Share2 className="h-5 w-5 text-indigo-600" />
+        <h3 className="text-lg font-semibold text-gray-900">Share this run</h3>
+      </div>
+      <p className="text-sm text-gray-600">
+        Anyone with a link can view this run, and only this run, without signing in.
+        {!hasSupabase && ' Without cloud storage, links only open in this browser.'}
+      </p>
+
+      <div className="flex items-center space-x-3">
+        <label className="text-sm text-gray-700">Expires after</label>
+        <select
+          value={expiry}
+          onChange={(e) => setExpiry(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+        >
+          {EXPIRY_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        <button
+          onClick={createLink}
+          disabled={saving}
+          className="px-4 py-2 bg-indigo-600 text-white text-sm rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          Create link
+        </button>
+      </div>
+
+      {shares.length > 0 && (
+        <ul className="divide-y divide-gray-100">
+          {shares.map((share) => {
+            const active = isShareActive(share, now);
+            return (
+              <li key={share.id} className="flex items-center space-x-3 py-2 text-sm">
+                <input
+                  readOnly
+                  value={shareUrl(share.token)}
+                  onFocus={(e) => e.target.select()}
+                  className={`flex-1 min-w-0 px-2 py-1 border border-gray-200 rounded-md bg-gray-50 ${active ? 'text-gray-900' : 'text-gray-400 line-through'}`}
+                />
+                <span className="text-gray-500 flex-shrink-0">{describeShare(share, now)}</span>
+                {active && (
+                  <>
+                    <button
+                      onClick={() => copy(share)}
+                      className="p-1 text-indigo-600 hover:bg-indigo-50 rounded-md"
+                      title="Copy link"
+                    >
+                      {copiedId === share.id ? <CheckCircle2 className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                    </button>
+                    <button
+                      onClick={() => revoke(share.id)}
+                      className="p-1 text-red-600 hover:bg-red-50 rounded-md"
+                      title="Revoke link"
+                    >
+                      <Ban className="h-4 w-4" />
+                    </button>
+                  </>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {error && (
+        <div className="flex items-center space-x-2 text-sm text-red-700">
+          <AlertCircle className="h-4 w-4" />
+          <span>{error}</span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+import { useState, useEffect } from 'react';
+import { BarChart3, Smartphone, Monitor, Wifi, Calendar, Link2Off } from 'lucide-react';
+import { LighthouseResult, LighthouseStorage } from '../lib/supabase';
+import { RATING_BG, RATING_TEXT, SCORE_METRICS, describeCheck, failedChecks, rateScore, resolveLimits } from '../lib/budgets';
+import { VITALS, formatVital } from '../lib/metrics';
+import { countRegressions, describeRegression } from '../lib/regressions';
+import { STRATEGY_LABELS, strategyRuns } from '../lib/strategies';
+import { profileDetails, profileSummary } from '../lib/profiles';
+import { failedRoutes, isMeasured } from '../lib/routeStatus';
+import { PROVIDER_LABELS } from '../services/analysisProvider';
+import { BudgetBadge } from './BudgetBadge';
+import { RegressionBadge } from './RegressionBadge';
+import { RouteStatusBadge } from './RouteStatusBadge';
+import { FailedRoutePanel } from './FailedRoutePanel';
+import { FieldDataPanel } from './FieldDataPanel';
+import { OpportunitiesPanel } from './OpportunitiesPanel';
+
+interface SharedReportViewProps {
+  token: string;
+}
+
+// The public page behind a share link: one run, read-only, with no way into
+// the rest of the history
+export function SharedReportView({ token }: SharedReportViewProps) {
+  const [result, setResult] = useState<LighthouseResult | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    LighthouseStorage.getSharedResult(token)
+      .then(setResult)
+      .catch((err) => setError(err instanceof Error ? err.message : 'Could not load the report'))
+      .finally(() => setLoading(false));
+  }, [token]);
+
+  if (loading) return null;
+
+  if (!result) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 flex items-center justify-center">
+        <div className="bg-white rounded-2xl shadow-lg border border-gray-200 p-8 max-w-md mx-4 text-center">
+          <div className="p-4 bg-gray-100 rounded-2xl w-fit mx-auto mb-4">
+            <Link2Off className="h-8 w-8 text-gray-500" />
+          </div>
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Report not available</h1>
+          <p className="text-gray-600">
+            {error ?? 'This link has expired or was revoked. Ask whoever shared it for a new one.'}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const runs = strategyRuns(result);
+  const bothStrategies = runs.length > 1;
+  const routePaths = [...new Set(runs.flatMap((run) => Object.keys(run.results)))];
+  const budgetResults = runs.flatMap((run) => (run.budget_results ? [run.budget_results] : []));
+  const regressionResults = runs.flatMap((run) => (run.regression_results ? [run.regression_results] : []));
+  const regressionCount = regressionResults.reduce((sum, regression) => sum + countRegressions(regression), 0);
+  const failedCount = runs.reduce((count, run) => count + failedRoutes(run.results).length, 0);
+  const routesOverBudget = budgetResults.reduce(
+    (sum, budget) => sum + Object.values(budget.routes).filter((route) => !route.passed).length,
+    0
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50">
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-6xl mx-auto">
+          {/* Header */}
+          <div className="flex items-center space-x-3 mb-8">
+            <div className="p-3 bg-indigo-100 rounded-xl">
+              <BarChart3 className="h-6 w-6 text-indigo-600" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Lighthouse Report</h1>
+              <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-gray-600">
+                <span>{result.url}</span>
+                <div className="flex items-center space-x-1 text-sm">
+                  <Calendar className="h-4 w-4" />
+                  <span>{new Date(result.timestamp).toLocaleString()}</span>
+                </div>
+                {result.strategy && (
+                  <div className="flex items-center space-x-1 text-sm" title={profileDetails(result.profiles, result.strategy)}>
+                    {result.strategy !== 'desktop' && <Smartphone className="h-4 w-4" />}
+                    {result.strategy !== 'mobile' && <Monitor className="h-4 w-4" />}
+                    <span>{STRATEGY_LABELS[result.strategy]} · {profileSummary(result.profiles, result.strategy)}</span>
+                  </div>
+                )}
+                {result.provider && (
+                  <div className="flex items-center space-x-1 text-sm">
+                    <Wifi className="h-4 w-4 text-green-600" />
+                    <span>{PROVIDER_LABELS[result.provider]}</span>
+                  </div>
+                )}
+                {failedCount > 0 && (
+                  <RouteStatusBadge result={{ status: 'failed', error: `${failedCount} route(s) could not be measured and are left out of the averages` }} label={`${failedCount} route(s) failed`} />
+                )}
+                {budgetResults.length > 0 && (
+                  <BudgetBadge
+                    passed={routesOverBudget === 0}
+                    failures={budgetResults.flatMap(failedChecks)}
+                    label={routesOverBudget === 0 ? 'All routes within budget' : `${routesOverBudget} route(s) over budget`}
+                  />
+                )}
+                {regressionResults.length > 0 && (
+                  <RegressionBadge
+                    regressed={regressionCount > 0}
+                    regressions={regressionResults.flatMap((regression) => Object.values(regression.routes).flat())}
+                    label={regressionCount > 0 ? `${regressionCount} regression(s) vs baseline` : 'No regressions vs baseline'}
+                  />
+                )}
+              </div>
+            </div>
+          </div>
+
+          {/* Overall Scores */}
+          <div className={bothStrategies ? 'grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8' : 'mb-8'}>
+            {runs.map((run) => {
+              const limits = resolveLimits(run.budget_results?.budgets ?? []);
+              return (
+                <div key={run.strategy ?? 'unknown'}>
+                  {bothStrategies && (
+                    <h2 className="flex items-center space-x-2 text-lg font-semibold text-gray-900 mb-4">
+                      {run.strategy === 'mobile' ? <Smartphone className="h-5 w-5" /> : <Monitor className="h-5 w-5" />}
+                      <span>{run.strategy && STRATEGY_LABELS[run.strategy]}</span>
+                    </h2>
+                  )}
+                  <div className={`grid gap-6 ${bothStrategies ? 'grid-cols-2' : 'grid-cols-2 md:grid-cols-4'}`}>
+                    {SCORE_METRICS.map((metric) => {
+                      const score = run.avg_scores[metric.key];
+                      return (
+                        <div key={metric.key} className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+                          <div className={`text-3xl font-bold mb-1 ${RATING_TEXT[rateScore(score, limits[metric.key])]}`}>
+                            {score}
+                          </div>
+                          <h3 className="font-medium text-gray-900">{metric.label}</h3>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Routes */}
+          <div className="space-y-6">
+            {routePaths.map((route) => (
+              <div key={route} className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+                <h3 className="text-lg font-semibold text-gray-900 mb-4">
+                  {result.routes.find((r) => r.path === route)?.name || route}
+                  <span className="text-sm text-gray-500 ml-2">({route})</span>
+                </h3>
+
+                <div className={bothStrategies ? 'grid grid-cols-1 lg:grid-cols-2 gap-6' : ''}>
+                  {runs.filter((run) => run.results[route]).map((run) => {
+                    const metrics = run.results[route];
+                    const limits = resolveLimits(run.budget_results?.budgets ?? [], route);
+                    const failures = run.budget_results?.routes[route]?.checks.filter((check) => !check.passed) ?? [];
+                    const regressions = run.regression_results?.routes[route] ?? [];
+                    return (
+                      <div key={run.strategy ?? 'unknown'}>
+                        {bothStrategies && (
+                          <h4 className="flex items-center font-semibold text-gray-900 mb-4">
+                            {run.strategy === 'mobile' ? <Smartphone className="h-4 w-4 mr-1" /> : <Monitor className="h-4 w-4 mr-1" />}
+                            {run.strategy && STRATEGY_LABELS[run.strategy]}
+                          </h4>
+                        )}
+
+                        {(failures.length > 0 || regressions.length > 0) && (
+                          <ul className="mb-4 text-sm list-disc list-inside">
+                            {failures.map((check) => (
+                              <li key={`budget-${check.metric}`} className="text-red-700">
+                                {describeCheck(check)}
+                              </li>
+                            ))}
+                            {regressions.map((regression) => (
+                              <li key={`regression-${regression.metric}`} className="text-orange-700">
+                                {describeRegression(regression)} since the baseline
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+
+                        {isMeasured(metrics) ? (
+                          <>
+                            <div className={`grid gap-4 mb-6 ${bothStrategies ? 'grid-cols-2' : 'grid-cols-2 lg:grid-cols-4'}`}>
+                              {SCORE_METRICS.map((metric) => {
+                                const rating = rateScore(metrics[metric.key], limits[metric.key]);
+                                return (
+                                  <div key={metric.key} className={`p-4 rounded-lg ${RATING_BG[rating]}`}>
+                                    <div className="flex items-center justify-between">
+                                      <span className="text-sm font-medium text-gray-700">{metric.label}</span>
+                                      <span className={`text-lg font-bold ${RATING_TEXT[rating]}`}>{metrics[metric.key]}</span>
+                                    </div>
+                                  </div>
+                                );
+                              })}
+                            </div>
+
+                            <div className={`grid gap-4 ${bothStrategies ? 'grid-cols-2' : 'grid-cols-2 md:grid-cols-4'}`}>
+                              {VITALS.map((vital) => (
+                                <div key={vital.key} className="text-center">
+                                  <div className={`text-2xl font-bold ${metrics[vital.key] === null ? 'text-gray-300' : vital.color}`}>
+                                    {formatVital(vital.key, metrics[vital.key])}
+                                  </div>
+                                  <div className="text-sm text-gray-600">{vital.label}</div>
+                                </div>
+                              ))}
+                            </div>
+
+                            <FieldDataPanel fieldData={metrics.fieldData} metrics={metrics} />
+                            <OpportunitiesPanel audits={metrics.audits} />
+                          </>
+                        ) : (
+                          <FailedRoutePanel result={metrics} />
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
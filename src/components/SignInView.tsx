@@ -0,0 +1,109 @@
+import { useState } from 'react';
+import { BarChart3, LogIn, UserPlus, AlertCircle, CheckCircle2 } from 'lucide-react';
+import { AuthService } from '../lib/auth';
+
+export function SignInView() {
+  const [mode, setMode] = useState<'signIn' | 'signUp'>('signIn');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    setNotice(null);
+    try {
+      if (mode === 'signIn') {
+        // The auth listener in AuthGate takes over once signed in
+        await AuthService.signIn(email.trim(), password);
+      } else if (!(await AuthService.signUp(email.trim(), password))) {
+        setNotice('Check your inbox to confirm your email address, then sign in.');
+        setMode('signIn');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sign-in failed');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 flex items-center justify-center">
+      <div className="bg-white rounded-2xl shadow-lg border border-gray-200 p-8 w-full max-w-md mx-4">
+        <div className="text-center mb-6">
+          <div className="p-4 bg-indigo-100 rounded-2xl w-fit mx-auto mb-4">
+            <BarChart3 className="h-8 w-8 text-indigo-600" />
+          </div>
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">
+            {mode === 'signIn' ? 'Sign in' : 'Create an account'}
+          </h1>
+          <p className="text-gray-600">Test results are shared with the teams you belong to.</p>
+        </div>
+
+        <form onSubmit={submit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Email</label>
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              autoComplete="email"
+              required
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Password</label>
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete={mode === 'signIn' ? 'current-password' : 'new-password'}
+              minLength={6}
+              required
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            />
+          </div>
+
+          {error && (
+            <div className="flex items-center space-x-2 text-sm text-red-700">
+              <AlertCircle className="h-4 w-4 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+          {notice && (
+            <div className="flex items-center space-x-2 text-sm text-green-700">
+              <CheckCircle2 className="h-4 w-4 flex-shrink-0" />
+              <span>{notice}</span>
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={submitting}
+            className="w-full inline-flex items-center justify-center space-x-2 px-6 py-3 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {mode === 'signIn' ? <LogIn className="h-4 w-4" /> : <UserPlus className="h-4 w-4" />}
+            <span>{mode === 'signIn' ? 'Sign in' : 'Sign up'}</span>
+          </button>
+        </form>
+
+        <p className="text-sm text-gray-600 text-center mt-6">
+          {mode === 'signIn' ? 'No account yet?' : 'Already have an account?'}{' '}
+          <button
+            onClick={() => {
+              setMode(mode === 'signIn' ? 'signUp' : 'signIn');
+              setError(null);
+            }}
+            className="text-indigo-600 hover:text-indigo-700"
+          >
+            {mode === 'signIn' ? 'Sign up' : 'Sign in'}
+          </button>
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+import { useState } from 'react';
+import { Users, Plus, UserPlus, LogOut, AlertCircle, CheckCircle2 } from 'lucide-react';
+import { Team, TeamMembership, TeamStorage } from '../lib/supabase';
+import { AuthService } from '../lib/auth';
+
+export interface Account {
+  email: string;
+  teams: TeamMembership[];
+  // The team whose runs, monitors and baselines are shown
+  team: TeamMembership;
+  onSwitchTeam: (teamId: string) => void;
+  onTeamCreated: (team: Team) => void;
+}
+
+interface CreateTeamFormProps {
+  onCreated: (team: Team) => void;
+  onCancel?: () => void;
+}
+
+export function CreateTeamForm({ onCreated, onCancel }: CreateTeamFormProps) {
+  const [name, setName] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const create = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      onCreated(await TeamStorage.createTeam(name.trim()));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not create the team');
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={create} className="space-y-2">
+      <div className="flex items-center space-x-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Team name"
+          autoFocus
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+        />
+        <button
+          type="submit"
+          disabled={!name.trim() || saving}
+          className="px-4 py-2 bg-indigo-600 text-white text-sm rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          Create
+        </button>
+        {onCancel && (
+          <button type="button" onClick={onCancel} className="px-3 py-2 text-sm text-gray-600 hover:text-gray-800">
+            Cancel
+          </button>
+        )}
+      </div>
+      {error && (
+        <div className="flex items-center space-x-2 text-sm text-red-700">
+          <AlertCircle className="h-4 w-4 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+    </form>
+  );
+}
+
+export function TeamSwitcher({ account }: { account: Account }) {
+  const [panel, setPanel] = useState<'create' | 'invite' | null>(null);
+  const [email, setEmail] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const isOwner = account.team.role === 'owner';
+
+  const addMember = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      await TeamStorage.addMember(account.team.team.id, email.trim());
+      setNotice(`${email.trim()} was added to ${account.team.team.name}.`);
+      setEmail('');
+      setError(null);
+      setPanel(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not add the member');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const signOut = () =>
+    AuthService.signOut().catch((err) => setError(err instanceof Error ? err.message : 'Sign-out failed'));
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 mb-8 space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <Users className="h-5 w-5 text-indigo-600" />
+        <select
+          value={account.team.team.id}
+          onChange={(e) => account.onSwitchTeam(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+        >
+          {account.teams.map((membership) => (
+            <option key={membership.team.id} value={membership.team.id}>
+              {membership.team.name}{membership.role === 'owner' ? ' (owner)' : ''}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => setPanel(panel === 'create' ? null : 'create')}
+          className="inline-flex items-center space-x-1 text-sm text-indigo-600 hover:text-indigo-700"
+        >
+          <Plus className="h-4 w-4" />
+          <span>New team</span>
+        </button>
+        {isOwner && (
+          <button
+            onClick={() => setPanel(panel === 'invite' ? null : 'invite')}
+            className="inline-flex items-center space-x-1 text-sm text-indigo-600 hover:text-indigo-700"
+          >
+            <UserPlus className="h-4 w-4" />
+            <span>Add member</span>
+          </button>
+        )}
+        <div className="flex-1" />
+        <span className="text-sm text-gray-500">{account.email}</span>
+        <button
+          onClick={signOut}
+          className="inline-flex items-center space-x-1 text-sm text-gray-600 hover:text-gray-800"
+        >
+          <LogOut className="h-4 w-4" />
+          <span>Sign out</span>
+        </button>
+      </div>
+
+      {panel === 'create' && (
+        <CreateTeamForm
+          onCreated={(team) => {
+            setPanel(null);
+            account.onTeamCreated(team);
+          }}
+          onCancel={() => setPanel(null)}
+        />
+      )}
+
+      {panel === 'invite' && (
+        <form onSubmit={addMember} className="flex items-center space-x-2">
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="teammate@example.com"
+            autoFocus
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+          />
+          <button
+            type="submit"
+            disabled={!email.trim() || saving}
+            className="px-4 py-2 bg-indigo-600 text-white text-sm rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Add
+          </button>
+        </form>
+      )}
+      {panel === 'invite' && (
+        <p className="text-xs text-gray-500">They need to have signed up already.</p>
+      )}
+
+      {error && (
+        <div className="flex items-center space-x-2 text-sm text-red-700">
+          <AlertCircle className="h-4 w-4 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+      {notice && (
+        <div className="flex items-center space-x-2 text-sm text-green-700">
+          <CheckCircle2 className="h-4 w-4 flex-shrink-0" />
+          <span>{notice}</span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import { Annotation } from '../lib/supabase';
+import { BudgetMetric, formatBudgetValue, isScoreMetric } from '../lib/budgets';
+import { TrendPoint, niceMax } from '../lib/trends';
+
+interface TrendChartProps {
+  title: string;
+  metric: BudgetMetric;
+  points: TrendPoint[];
+  annotations: Annotation[];
+  // Visible time range in milliseconds since the epoch
+  from: number;
+  to: number;
+  onOpenRun: (resultId: string) => void;
+}
+
+const WIDTH = 640;
+const HEIGHT = 200;
+const PADDING = { top: 16, right: 16, bottom: 28, left: 52 };
+const PLOT_WIDTH = WIDTH - PADDING.left - PADDING.right;
+const PLOT_HEIGHT = HEIGHT - PADDING.top - PADDING.bottom;
+const GRID_STEPS = 4;
+
+const formatDate = (time: number) => new Date(time).toLocaleDateString();
+
+export function TrendChart({ title, metric, points, annotations, from, to, onOpenRun }: TrendChartProps) {
+  const [hovered, setHovered] = useState<TrendPoint | null>(null);
+
+  const maxValue = isScoreMetric(metric) ? 100 : niceMax(Math.max(...points.map((point) => point.value), 0));
+  const span = Math.max(to - from, 1);
+  const x = (time: number) => PADDING.left + ((time - from) / span) * PLOT_WIDTH;
+  const y = (value: number) => PADDING.top + PLOT_HEIGHT - (value / maxValue) * PLOT_HEIGHT;
+
+  const visibleAnnotations = annotations.filter((annotation) => {
+    const time = new Date(annotation.timestamp).getTime();
+    return time >= from && time <= to;
+  });
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-semibold text-gray-900">{title}</h3>
+        {points.length > 0 && (
+          <span className="text-sm text-gray-600">
+            Latest {formatBudgetValue(metric, points[points.length - 1].value)}
+          </span>
+        )}
+      </div>
+
+      {points.length === 0 ? (
+        <div className="h-32 flex items-center justify-center text-sm text-gray-500">
+          No runs measured this metric in the selected range.
+        </div>
+      ) : (
+        <div className="relative">
+          <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" onMouseLeave={() => setHovered(null)}>
+            {Array.from({ length: GRID_STEPS + 1 }, (_, step) => {
+              const value = (maxValue / GRID_STEPS) * step;
+              return (
+                <g key={step}>
+                  <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(value)} y2={y(value)} className="stroke-gray-200" />
+                  <text x={PADDING.left - 6} y={y(value) + 4} textAnchor="end" className="fill-gray-500 text-[11px]">
+                    {formatBudgetValue(metric, value)}
+                  </text>
+                </g>
+              );
+            })}
+
+            <text x={PADDING.left} y={HEIGHT - 8} className="fill-gray-500 text-[11px]">
+              {formatDate(from)}
+            </text>
+            <text x={WIDTH - PADDING.right} y={HEIGHT - 8} textAnchor="end" className="fill-gray-500 text-[11px]">
+              {formatDate(to)}
+            </text>
+
+            {visibleAnnotations.map((annotation) => {
+              const position = x(new Date(annotation.timestamp).getTime());
+              return (
+                <g key={annotation.id}>
+                  <title>{`${annotation.label} (${new Date(annotation.timestamp).toLocaleString()})`}</title>
+                  <line
+                    x1={position}
+                    x2={position}
+                    y1={PADDING.top}
+                    y2={PADDING.top + PLOT_HEIGHT}
+                    strokeDasharray="4 3"
+                    className="stroke-amber-500"
+                  />
+                  <text x={position + 3} y={PADDING.top + 8} className="fill-amber-700 text-[10px]">
+                    {annotation.label.length > 18 ? `${annotation.label.slice(0, 17)}…` : annotation.label}
+                  </text>
+                </g>
+              );
+            })}
+
+            <polyline
+              points={points.map((point) => `${x(point.time)},${y(point.value)}`).join(' ')}
+              fill="none"
+              strokeWidth={2}
+              className="stroke-indigo-500"
+            />
+
+            {points.map((point) => (
+              <circle
+                key={point.resultId}
+                cx={x(point.time)}
+                cy={y(point.value)}
+                r={hovered?.resultId === point.resultId ? 6 : 4}
+                className="fill-indigo-600 stroke-white cursor-pointer"
+                strokeWidth={2}
+                onMouseEnter={() => setHovered(point)}
+                onClick={() => onOpenRun(point.resultId)}
+              />
+            ))}
+          </svg>
+
+          {hovered && (
+            <div
+              className="absolute pointer-events-none -translate-x-1/2 -translate-y-full px-3 py-2 bg-gray-900 text-white text-xs rounded-lg shadow-lg whitespace-nowrap"
+              style={{
+                left: `${(x(hovered.time) / WIDTH) * 100}%`,
+                top: `${((y(hovered.value) - 10) / HEIGHT) * 100}%`,
+              }}
+            >
+              <div className="font-semibold">{formatBudgetValue(metric, hovered.value)}</div>
+              <div>{new Date(hovered.time).toLocaleString()}</div>
+              <div className="text-gray-300">Click to open this run</div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
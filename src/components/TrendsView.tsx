@@ -0,0 +1,334 @@
+import { useState, useEffect } from 'react';
+import { ArrowLeft, LineChart, Globe, Calendar, Route, Smartphone, Flag, Plus, Trash2, AlertCircle } from 'lucide-react';
+import { Annotation, AnnotationStorage, LighthouseResult, LighthouseStorage, TREND_RESULT_LIMIT } from '../lib/supabase';
+import { Strategy } from '../services/lighthouseService';
+import { SCORE_METRICS } from '../lib/budgets';
+import { VITALS } from '../lib/metrics';
+import { DAY_MS, TREND_RANGES, buildSeries, toTime } from '../lib/trends';
+import { findStrategyRun } from '../lib/strategies';
+import { TrendChart } from './TrendChart';
+
+interface TrendsViewProps {
+  onBack: () => void;
+  onOpenRun: (result: LighthouseResult) => void;
+  // Preselects a domain, e.g. the site currently being tested
+  initialDomain?: string;
+  // Called when the user picks another domain
+  onDomainChange?: (domain: string) => void;
+}
+
+// Value for a `datetime-local` input in the browser's time zone
+const toLocalInput = (time: number) => {
+  const date = new Date(time);
+  date.setMinutes(date.getMinutes() - date.getTimezoneOffset());
+  return date.toISOString().slice(0, 16);
+};
+
+export function TrendsView({ onBack, onOpenRun, initialDomain, onDomainChange }: TrendsViewProps) {
+  const [domains, setDomains] = useState<string[]>([]);
+  const [domain, setDomain] = useState(initialDomain ?? '');
+  const [strategy, setStrategy] = useState<Strategy>('mobile');
+  const [route, setRoute] = useState('');
+  const [range, setRange] = useState('30');
+  const [customFrom, setCustomFrom] = useState('');
+  const [customTo, setCustomTo] = useState('');
+  const [results, setResults] = useState<LighthouseResult[]>([]);
+  // The range held more runs than are plotted; only the newest are shown
+  const [truncated, setTruncated] = useState(false);
+  const [annotations, setAnnotations] = useState<Annotation[]>([]);
+  const [annotationTime, setAnnotationTime] = useState(() => toLocalInput(Date.now()));
+  const [annotationLabel, setAnnotationLabel] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [now] = useState(() => Date.now());
+
+  const days = TREND_RANGES.find((option) => option.value === range)?.days;
+  // Custom ranges cover whole days: from the start of the first to the end of the last
+  const from = days
+    ? now - days * DAY_MS
+    : range === 'custom' && customFrom
+    ? new Date(`${customFrom}T00:00`).getTime()
+    : undefined;
+  const to = range === 'custom' && customTo ? new Date(`${customTo}T23:59:59.999`).getTime() : undefined;
+
+  useEffect(() => {
+    LighthouseStorage.getAllDomains().then((found) => {
+      setDomains(found);
+      setDomain((current) => current || found[0] || '');
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!domain) return;
+    LighthouseStorage.getResultsInRange(
+      domain,
+      from !== undefined ? new Date(from).toISOString() : undefined,
+      to !== undefined ? new Date(to).toISOString() : undefined
+    ).then((found) => {
+      setResults(found.results);
+      setTruncated(found.truncated);
+    });
+  }, [domain, from, to]);
+
+  useEffect(() => {
+    if (!domain) return;
+    AnnotationStorage.getAnnotations(domain)
+      .then(setAnnotations)
+      .catch((err) => setError(err instanceof Error ? err.message : 'Could not load annotations'));
+  }, [domain]);
+
+  // Runs saved before the strategy was recorded cannot be placed on either
+  // chart; "both" runs contribute their side for the selected strategy
+  const strategyResults = results.flatMap((result) => {
+    const run = findStrategyRun(result, strategy);
+    return run ? [{ ...result, results: run.results, avg_scores: run.avg_scores }] : [];
+  });
+  const routes = [...new Set(strategyResults.flatMap((result) => Object.keys(result.results)))].sort();
+  const times = strategyResults.map((result) => toTime(result.timestamp));
+
+  // Without a fixed range the axis spans the runs found
+  let axisFrom = from ?? (times.length > 0 ? Math.min(...times) : now - DAY_MS);
+  let axisTo = to ?? (days ? now : times.length > 0 ? Math.max(...times) : now);
+  if (axisTo - axisFrom < DAY_MS) {
+    axisFrom -= DAY_MS / 2;
+    axisTo += DAY_MS / 2;
+  }
+
+  const openRun = (resultId: string) => {
+    const result = results.find((candidate) => candidate.id === resultId);
+    if (result) onOpenRun(result);
+  };
+
+  const addAnnotation = async () => {
+    try {
+      const created = await AnnotationStorage.createAnnotation({
+        domain,
+        timestamp: new Date(annotationTime).toISOString(),
+        label: annotationLabel.trim(),
+      });
+      setAnnotations([...annotations, created].sort((a, b) => a.timestamp.localeCompare(b.timestamp)));
+      setAnnotationLabel('');
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save the annotation');
+    }
+  };
+
+  const deleteAnnotation = async (id: string) => {
+    try {
+      await AnnotationStorage.deleteAnnotation(id);
+      setAnnotations(annotations.filter((annotation) => annotation.id !== id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not delete the annotation');
+    }
+  };
+
+  const charts = [
+    ...SCORE_METRICS.map((score) => ({ metric: score.key, title: score.label })),
+    ...VITALS.map((vital) => ({ metric: vital.key, title: vital.label })),
+  ];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50">
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-6xl mx-auto">
+          {/* Header */}
+          <div className="flex items-center space-x-3 mb-8">
+            <button
+              onClick={onBack}
+              className="p-2 hover:bg-white hover:shadow-sm rounded-lg transition-all"
+            >
+              <ArrowLeft className="h-5 w-5 text-gray-600" />
+            </button>
+            <div className="p-3 bg-indigo-100 rounded-xl">
+              <LineChart className="h-6 w-6 text-indigo-600" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Trends</h1>
+              <p className="text-gray-600">
+                {strategyResults.length} {strategy} run{strategyResults.length !== 1 ? 's' : ''} in range
+              </p>
+            </div>
+          </div>
+
+          {/* Filters */}
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mb-8">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  <Globe className="h-4 w-4 inline mr-1" />
+                  Domain
+                </label>
+                <select
+                  value={domain}
+                  onChange={(e) => {
+                    setDomain(e.target.value);
+                    setRoute('');
+                    onDomainChange?.(e.target.value);
+                  }}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                >
+                  {domains.length === 0 && <option value="">No saved runs</option>}
+                  {domains.map((option) => (
+                    <option key={option} value={option}>{option}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  <Route className="h-4 w-4 inline mr-1" />
+                  Route
+                </label>
+                <select
+                  value={route}
+                  onChange={(e) => setRoute(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                >
+                  <option value="">All routes (average)</option>
+                  {routes.map((path) => (
+                    <option key={path} value={path}>{path}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  <Smartphone className="h-4 w-4 inline mr-1" />
+                  Strategy
+                </label>
+                <select
+                  value={strategy}
+                  onChange={(e) => setStrategy(e.target.value as Strategy)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                >
+                  <option value="mobile">Mobile</option>
+                  <option value="desktop">Desktop</option>
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  <Calendar className="h-4 w-4 inline mr-1" />
+                  Date Range
+                </label>
+                <select
+                  value={range}
+                  onChange={(e) => setRange(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                >
+                  {TREND_RANGES.map((option) => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+                {range === 'custom' && (
+                  <div className="mt-2 flex items-center space-x-2">
+                    <input
+                      type="date"
+                      value={customFrom}
+                      onChange={(e) => setCustomFrom(e.target.value)}
+                      className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                    />
+                    <span className="text-gray-500">–</span>
+                    <input
+                      type="date"
+                      value={customTo}
+                      onChange={(e) => setCustomTo(e.target.value)}
+                      className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                    />
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+
+          {error && (
+            <div className="flex items-center space-x-2 mb-6 text-sm text-red-700">
+              <AlertCircle className="h-4 w-4" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {truncated && (
+            <div className="flex items-center space-x-2 mb-6 text-sm text-amber-700">
+              <AlertCircle className="h-4 w-4" />
+              <span>
+                This range has more than {TREND_RESULT_LIMIT} runs, so only the newest {TREND_RESULT_LIMIT} are plotted. Choose a shorter range to see older runs.
+              </span>
+            </div>
+          )}
+
+          {/* Annotations */}
+          {domain && (
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mb-8 space-y-4">
+              <div className="flex items-center space-x-2">
+                <Flag className="h-5 w-5 text-amber-600" />
+                <h3 className="text-lg font-semibold text-gray-900">Annotations</h3>
+              </div>
+              <p className="text-sm text-gray-600">
+                Mark deploys and other changes to {domain}; they appear as dashed lines on every chart.
+              </p>
+              {annotations.length > 0 && (
+                <ul className="divide-y divide-gray-100">
+                  {annotations.map((annotation) => (
+                    <li key={annotation.id} className="flex items-center justify-between py-2 text-sm">
+                      <span>
+                        <span className="text-gray-500 mr-3">{new Date(annotation.timestamp).toLocaleString()}</span>
+                        <span className="text-gray-900">{annotation.label}</span>
+                      </span>
+                      <button
+                        onClick={() => deleteAnnotation(annotation.id)}
+                        className="p-1 text-red-600 hover:bg-red-50 rounded-md"
+                        title="Delete annotation"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <div className="flex items-center space-x-3">
+                <input
+                  type="datetime-local"
+                  value={annotationTime}
+                  onChange={(e) => setAnnotationTime(e.target.value)}
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                />
+                <input
+                  type="text"
+                  value={annotationLabel}
+                  onChange={(e) => setAnnotationLabel(e.target.value)}
+                  placeholder="Deploy v2.4"
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                />
+                <button
+                  onClick={addAnnotation}
+                  disabled={!annotationLabel.trim() || !annotationTime}
+                  className="inline-flex items-center space-x-1 px-4 py-2 bg-indigo-600 text-white text-sm rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  <Plus className="h-4 w-4" />
+                  <span>Add</span>
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* Charts */}
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {charts.map((chart) => (
+              <TrendChart
+                key={chart.metric}
+                title={chart.title}
+                metric={chart.metric}
+                points={buildSeries(strategyResults, chart.metric, route || undefined)}
+                annotations={annotations}
+                from={axisFrom}
+                to={axisTo}
+                onOpenRun={openRun}
+              />
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
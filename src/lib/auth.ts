@@ -0,0 +1,51 @@
+import type { Session } from "@supabase/supabase-js";
+import { supabase } from "./supabase";
+
+// Email and password sign-in through Supabase auth. Without Supabase the app
+// runs single-user on local storage and there is nothing to sign in to.
+export class AuthService {
+  static isEnabled(): boolean {
+    return !!supabase;
+  }
+
+  static async getSession(): Promise<Session | null> {
+    if (!supabase) return null;
+    const { data, error } = await supabase.auth.getSession();
+    if (error) throw new Error(`Auth error: ${error.message}`);
+    return data.session;
+  }
+
+  // Also called when the session's token is refreshed; returns an
+  // unsubscribe function
+  static onChange(callback: (session: Session | null) => void): () => void {
+    if (!supabase) return () => {};
+    const { data } = supabase.auth.onAuthStateChange((_event, session) =>
+      callback(session)
+    );
+    return () => data.subscription.unsubscribe();
+  }
+
+  static async signIn(email: string, password: string): Promise<void> {
+    if (!supabase) throw new Error("Supabase is not configured");
+    const { error } = await supabase.auth.signInWithPassword({
+      email,
+      password,
+    });
+    if (error) throw new Error(error.message);
+  }
+
+  // Resolves to false when the project requires the email address to be
+  // confirmed before the first sign-in
+  static async signUp(email: string, password: string): Promise<boolean> {
+    if (!supabase) throw new Error("Supabase is not configured");
+    const { data, error } = await supabase.auth.signUp({ email, password });
+    if (error) throw new Error(error.message);
+    return !!data.session;
+  }
+
+  static async signOut(): Promise<void> {
+    if (!supabase) return;
+    const { error } = await supabase.auth.signOut();
+    if (error) throw new Error(error.message);
+  }
+}
@@ -0,0 +1,198 @@
+import type { LighthouseMetrics } from "../services/lighthouseService";
+import { VITALS, formatVital } from "./metrics";
+import { matchesAny } from "./routes";
+import { RouteOutcome, measuredResults } from "./routeStatus";
+
+export type BudgetMetric = keyof LighthouseMetrics;
+
+export type ScoreKey =
+  "performance" | "accessibility" | "bestPractices" | "seo";
+
+export const SCORE_METRICS: { key: ScoreKey; label: string }[] = [
+  { key: "performance", label: "Performance" },
+  { key: "accessibility", label: "Accessibility" },
+  { key: "bestPractices", label: "Best Practices" },
+  { key: "seo", label: "SEO" },
+];
+
+// Every metric a budget can limit, scores first
+export const BUDGET_METRICS: BudgetMetric[] = [
+  ...SCORE_METRICS.map((score) => score.key),
+  ...VITALS.map((vital) => vital.key),
+];
+
+// Scores are minimums on the 0-100 scale; timings (ms) and CLS are maximums
+export type BudgetLimits = Partial<Record<BudgetMetric, number>>;
+
+export interface Budget {
+  // Glob matched against the route path, e.g. `/blog/**` (see lib/routes);
+  // budgets without one apply to every route
+  path?: string;
+  limits: BudgetLimits;
+}
+
+export interface BudgetCheck {
+  metric: BudgetMetric;
+  limit: number;
+  value: number;
+  passed: boolean;
+}
+
+export interface RouteBudgetResult {
+  passed: boolean;
+  // Metrics the run did not measure are left out
+  checks: BudgetCheck[];
+}
+
+// Stored with each result, together with the budgets it was evaluated
+// against so later views color it by the same limits
+export interface BudgetResult {
+  passed: boolean;
+  budgets: Budget[];
+  routes: Record<string, RouteBudgetResult>;
+}
+
+export type Rating = "good" | "average" | "poor";
+
+// Lighthouse's own score bands, used where no budget applies
+const GOOD_SCORE = 90;
+const AVERAGE_SCORE = 50;
+// Points below a score budget still shown as "average" rather than "poor"
+const BUDGET_MARGIN = 10;
+
+export const RATING_TEXT: Record<Rating, string> = {
+  good: "text-green-600",
+  average: "text-yellow-600",
+  poor: "text-red-600",
+};
+
+export const RATING_BG: Record<Rating, string> = {
+  good: "bg-green-100",
+  average: "bg-yellow-100",
+  poor: "bg-red-100",
+};
+
+export const RATING_FILL: Record<Rating, string> = {
+  good: "bg-green-500",
+  average: "bg-yellow-500",
+  poor: "bg-red-500",
+};
+
+export function isScoreMetric(metric: BudgetMetric): metric is ScoreKey {
+  return SCORE_METRICS.some((score) => score.key === metric);
+}
+
+export function getMetricLabel(metric: BudgetMetric): string {
+  return (
+    SCORE_METRICS.find((score) => score.key === metric)?.label ??
+    VITALS.find((vital) => vital.key === metric)?.shortLabel ??
+    metric
+  );
+}
+
+export function formatBudgetValue(metric: BudgetMetric, value: number): string {
+  return isScoreMetric(metric)
+    ? String(Math.round(value))
+    : formatVital(metric, value);
+}
+
+// e.g. "LCP 3.1s > 2.5s"
+export function describeCheck(check: BudgetCheck): string {
+  const operator = isScoreMetric(check.metric)
+    ? check.passed
+      ? "≥"
+      : "<"
+    : check.passed
+      ? "≤"
+      : ">";
+  return `${getMetricLabel(check.metric)} ${formatBudgetValue(
+    check.metric,
+    check.value
+  )} ${operator} ${formatBudgetValue(check.metric, check.limit)}`;
+}
+
+// Drops budgets without limits and route budgets whose pattern is still blank,
+// as left behind while editing
+export function usableBudgets(budgets: Budget[]): Budget[] {
+  return budgets.filter(
+    (budget) =>
+      Object.keys(budget.limits).length > 0 &&
+      (budget.path === undefined || budget.path.trim() !== "")
+  );
+}
+
+// Limits for one route: global budgets first, then the budgets whose pattern
+// matches in list order, later ones overriding earlier ones per metric.
+// Without a path only the global budgets apply.
+export function resolveLimits(budgets: Budget[], path?: string): BudgetLimits {
+  const limits: BudgetLimits = {};
+  const global = budgets.filter((budget) => !budget.path);
+  const scoped = budgets.filter(
+    (budget) =>
+      budget.path && path !== undefined && matchesAny(path, [budget.path])
+  );
+  for (const budget of [...global, ...scoped]) {
+    Object.assign(limits, budget.limits);
+  }
+  return limits;
+}
+
+export function checkLimits(
+  metrics: LighthouseMetrics,
+  limits: BudgetLimits
+): RouteBudgetResult {
+  const checks: BudgetCheck[] = [];
+  for (const [metric, limit] of Object.entries(limits) as [
+    BudgetMetric,
+    number | undefined,
+  ][]) {
+    const value = metrics[metric];
+    if (limit === undefined || value === null || value === undefined) continue;
+    checks.push({
+      metric,
+      limit,
+      value,
+      passed: isScoreMetric(metric) ? value >= limit : value <= limit,
+    });
+  }
+  return { passed: checks.every((check) => check.passed), checks };
+}
+
+// Null when there are no budgets, so runs without any are not shown as
+// passing. Failed routes have nothing to check and get no entry.
+export function evaluateBudgets(
+  budgets: Budget[],
+  results: Record<string, LighthouseMetrics & RouteOutcome>
+): BudgetResult | null {
+  if (budgets.length === 0) return null;
+
+  const routes: BudgetResult["routes"] = {};
+  for (const [path, metrics] of Object.entries(measuredResults(results))) {
+    routes[path] = checkLimits(metrics, resolveLimits(budgets, path));
+  }
+
+  return {
+    passed: Object.values(routes).every((route) => route.passed),
+    budgets,
+    routes,
+  };
+}
+
+export function failedChecks(result: BudgetResult): BudgetCheck[] {
+  return Object.values(result.routes).flatMap((route) =>
+    route.checks.filter((check) => !check.passed)
+  );
+}
+
+// Meeting a budget is good and missing it narrowly is average; without one
+// the usual Lighthouse bands apply
+export function rateScore(score: number, minimum?: number): Rating {
+  if (minimum === undefined) {
+    if (score >= GOOD_SCORE) return "good";
+    if (score >= AVERAGE_SCORE) return "average";
+    return "poor";
+  }
+  if (score >= minimum) return "good";
+  if (score >= minimum - BUDGET_MARGIN) return "average";
+  return "poor";
+}
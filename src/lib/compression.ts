@@ -0,0 +1,44 @@
+// Raw PageSpeed reports are several hundred KB of JSON per route, so they are
+// gzipped and base64-encoded before being written to storage.
+
+export const RAW_REPORT_ENCODING = "gzip+base64";
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
+
+function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+async function pipeThrough(
+  bytes: Uint8Array,
+  transform: CompressionStream | DecompressionStream
+): Promise<Uint8Array> {
+  const stream = new Blob([bytes]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+export async function compressJson(value: unknown): Promise<string> {
+  const bytes = new TextEncoder().encode(JSON.stringify(value));
+  const compressed = await pipeThrough(bytes, new CompressionStream("gzip"));
+  return bytesToBase64(compressed);
+}
+
+export async function decompressJson<T>(payload: string): Promise<T> {
+  const bytes = await pipeThrough(
+    base64ToBytes(payload),
+    new DecompressionStream("gzip")
+  );
+  return JSON.parse(new TextDecoder().decode(bytes)) as T;
+}
@@ -0,0 +1,123 @@
+function abortError(): Error {
+  return new DOMException("The operation was aborted.", "AbortError");
+}
+
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// Classic token bucket: `capacity` requests may burst, then tokens refill
+// continuously at `refillPerMinute`
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private capacity: number,
+    private refillPerMinute: number
+  ) {
+    this.tokens = capacity;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const refilled = ((now - this.lastRefill) / 60000) * this.refillPerMinute;
+    this.tokens = Math.min(this.capacity, this.tokens + refilled);
+    this.lastRefill = now;
+  }
+
+  // Waits for a token; callers are served in the order they asked
+  take(signal?: AbortSignal): Promise<void> {
+    const turn = this.queue.then(async () => {
+      this.refill();
+      while (this.tokens < 1) {
+        const waitMs = ((1 - this.tokens) / this.refillPerMinute) * 60000;
+        await sleep(Math.ceil(waitMs), signal);
+        this.refill();
+      }
+      this.tokens -= 1;
+    });
+    // A rejected turn must not block the callers behind it
+    this.queue = turn.catch(() => undefined);
+    return turn;
+  }
+}
+
+export interface BackoffOptions {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  signal?: AbortSignal;
+  shouldRetry: (error: unknown) => boolean;
+  // Lets the caller honour a server-provided delay such as Retry-After
+  delayFor?: (error: unknown) => number | undefined;
+  onRetry?: (attempt: number, delayMs: number, error: unknown) => void;
+}
+
+// Exponential backoff with "full jitter": each wait is a random share of the
+// exponentially growing cap, which spreads out concurrent retries
+export async function retryWithBackoff<T>(
+  task: (attempt: number) => Promise<T>,
+  options: BackoffOptions
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task(attempt);
+    } catch (error) {
+      if (
+        attempt >= options.retries ||
+        options.signal?.aborted ||
+        !options.shouldRetry(error)
+      ) {
+        throw error;
+      }
+
+      const cap = Math.min(
+        options.maxDelayMs,
+        options.baseDelayMs * 2 ** attempt
+      );
+      const delayMs = Math.max(
+        options.delayFor?.(error) ?? 0,
+        Math.round(Math.random() * cap)
+      );
+      options.onRetry?.(attempt + 1, delayMs, error);
+      await sleep(delayMs, options.signal);
+    }
+  }
+}
+
+// Runs `worker` over `items` with at most `concurrency` in flight
+export async function runPool<T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const runners = Array.from(
+    { length: Math.max(1, Math.min(concurrency, items.length)) },
+    async () => {
+      while (next < items.length) {
+        const index = next++;
+        results[index] = await worker(items[index], index);
+      }
+    }
+  );
+
+  await Promise.all(runners);
+  return results;
+}
@@ -0,0 +1,184 @@
+// Five-field cron expressions (minute hour day-of-month month day-of-week),
+// evaluated in the local time of the process running the schedule.
+// Supports `*`, lists, ranges, steps and the @hourly/@daily/@weekly/@monthly
+// shorthands.
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Restricted fields; cron matches day-of-month OR day-of-week when both are
+  domRestricted: boolean;
+  dowRestricted: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+};
+
+const FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  // 7 is accepted as another Sunday
+  { name: "day of week", min: 0, max: 7 },
+];
+
+// How far ahead to look before deciding an expression never fires,
+// e.g. `0 0 31 2 *`
+const MAX_LOOKAHEAD_DAYS = 366 * 5;
+
+function parseField(
+  text: string,
+  { name, min, max }: (typeof FIELDS)[number]
+): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of text.split(",")) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) throw new Error(`Invalid ${name} "${part}"`);
+
+    const [, range, startText, endText, stepText] = match;
+    const start = range === "*" ? min : Number(startText);
+    const end =
+      range === "*" ? max : endText !== undefined ? Number(endText) : start;
+    // `5/15` means "from 5, every 15" up to the field maximum
+    const last = stepText && range !== "*" && !endText ? max : end;
+    const step = stepText ? Number(stepText) : 1;
+
+    if (start < min || last > max || start > last || step < 1) {
+      throw new Error(`Invalid ${name} "${part}" (allowed ${min}-${max})`);
+    }
+    for (let value = start; value <= last; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const normalized = expression.trim().toLowerCase();
+  const fields = (MACROS[normalized] ?? normalized).split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(
+      `Expected 5 cron fields (minute hour day month weekday), got ${fields.length}`
+    );
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map(
+    (field, index) => parseField(field, FIELDS[index])
+  );
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    // Like Vixie cron, a field starting with `*` (including `*/2`) counts as
+    // unrestricted
+    domRestricted: !fields[2].startsWith("*"),
+    dowRestricted: !fields[4].startsWith("*"),
+  };
+}
+
+export function isValidCron(expression: string): boolean {
+  try {
+    parseCron(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dom = schedule.daysOfMonth.has(date.getDate());
+  const dow = schedule.daysOfWeek.has(date.getDay());
+  if (schedule.domRestricted && schedule.dowRestricted) return dom || dow;
+  return dom && dow;
+}
+
+// First time strictly after `after` that the schedule fires
+export function nextCronRun(expression: string, after: Date): Date {
+  const schedule = parseCron(expression);
+  const date = new Date(after);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+
+  const limit = after.getTime() + MAX_LOOKAHEAD_DAYS * 24 * 60 * 60 * 1000;
+  while (date.getTime() <= limit) {
+    if (
+      !schedule.months.has(date.getMonth() + 1) ||
+      !matchesDay(schedule, date)
+    ) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+      continue;
+    }
+    return date;
+  }
+
+  throw new Error(`Cron expression "${expression}" never fires`);
+}
+
+// Readable summary for the common shapes; anything else is shown verbatim
+export function describeCron(expression: string): string {
+  const normalized = expression.trim().toLowerCase();
+  const [minute, hour, dom, month, dow] = (
+    MACROS[normalized] ?? normalized
+  ).split(/\s+/);
+  const pad = (value: string) => value.padStart(2, "0");
+  const days = [
+    "Sunday",
+    "Monday",
+    "Tuesday",
+    "Wednesday",
+    "Thursday",
+    "Friday",
+    "Saturday",
+    "Sunday",
+  ];
+
+  if (dom === "*" && month === "*" && dow === "*") {
+    const everyMinutes = /^\*\/(\d+)$/.exec(minute);
+    const everyHours = /^\*\/(\d+)$/.exec(hour);
+    if (hour === "*" && everyMinutes) {
+      return `Every ${everyMinutes[1]} minutes`;
+    }
+    if (hour === "*" && /^\d+$/.test(minute)) {
+      return `Every hour at :${pad(minute)}`;
+    }
+    if (everyHours && /^\d+$/.test(minute)) {
+      return `Every ${everyHours[1]} hours`;
+    }
+    if (/^\d+$/.test(hour) && /^\d+$/.test(minute)) {
+      return `Daily at ${pad(hour)}:${pad(minute)}`;
+    }
+  }
+  if (
+    dom === "*" &&
+    month === "*" &&
+    /^[0-7]$/.test(dow) &&
+    /^\d+$/.test(hour) &&
+    /^\d+$/.test(minute)
+  ) {
+    return `${days[Number(dow)]}s at ${pad(hour)}:${pad(minute)}`;
+  }
+  return expression;
+}
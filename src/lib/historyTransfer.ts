@@ -0,0 +1,598 @@
+import {
+  LighthouseMetrics,
+  LighthouseService,
+  Strategy,
+} from "../services/lighthouseService";
+import { PROVIDER_NAMES, ProviderName } from "../services/analysisProvider";
+import { BUDGET_METRICS, BudgetMetric, SCORE_METRICS } from "./budgets";
+import {
+  BUILT_IN_PROFILES,
+  DEFAULT_PROFILES,
+  RunProfiles,
+  profileFor,
+} from "./profiles";
+import {
+  FailedRouteStatus,
+  ROUTE_STATUSES,
+  RouteStatus,
+  isMeasured,
+} from "./routeStatus";
+import { STRATEGIES, StrategyMode, strategyRuns } from "./strategies";
+import {
+  LighthouseResult,
+  LighthouseStorage,
+  NewLighthouseResult,
+  RawReports,
+  RouteConfig,
+  RouteResult,
+  StrategyResults,
+} from "./supabase";
+
+// One row per run, strategy and route. Imports accept the same columns in
+// any order and ignore unknown ones. Failed routes have a status other than
+// "ok", the error and empty metrics.
+const RUN_COLUMNS = [
+  "result_id",
+  "timestamp",
+  "domain",
+  "url",
+  "strategy",
+  "provider",
+  "profile",
+  "route_path",
+  "route_name",
+];
+const STATUS_COLUMNS = [
+  "runs",
+  "budget_passed",
+  "regressions",
+  "status",
+  "error",
+];
+export const CSV_COLUMNS = [
+  ...RUN_COLUMNS,
+  ...BUDGET_METRICS,
+  ...STATUS_COLUMNS,
+];
+
+// Needed to rebuild a run; the rest are optional or derived
+const REQUIRED_COLUMNS = [
+  "timestamp",
+  "url",
+  "route_path",
+  ...SCORE_METRICS.map((score) => score.key),
+  "fcp",
+  "lcp",
+  "cls",
+];
+
+// Metrics every stored route has; the newer vitals may be missing
+const REQUIRED_METRICS: BudgetMetric[] = [
+  ...SCORE_METRICS.map((score) => score.key),
+  "fcp",
+  "lcp",
+  "cls",
+];
+
+// Errors listed per import before the rest are only counted
+const MAX_ERRORS = 20;
+
+// A run read from a file, ready for LighthouseStorage.saveResult
+export interface ImportedRun {
+  result: NewLighthouseResult;
+  rawReports?: RawReports;
+  // Id of the run it was exported from, when the file records one
+  sourceId?: string;
+}
+
+export interface ParsedImport {
+  runs: ImportedRun[];
+  // Problems that kept runs out of `runs`, e.g. "Row 4: lcp must be a number"
+  errors: string[];
+  // Runs left out for those problems
+  invalid: number;
+}
+
+export interface ImportSummary {
+  imported: number;
+  duplicates: number;
+  failed: number;
+  errors: string[];
+}
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@]/;
+
+function escapeCell(value: string | number): string {
+  if (typeof value === "number") return String(value);
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function unescapeCell(value: string): string {
+  return value.startsWith("'") && FORMULA_PREFIX.test(value.slice(1))
+    ? value.slice(1)
+    : value;
+}
+
+export function toCsv(results: LighthouseResult[]): string {
+  const rows = results.flatMap((result) =>
+    strategyRuns(result).flatMap((run) =>
+      Object.entries(run.results).map(([path, metrics]) => {
+        const budget = run.budget_results?.routes[path];
+        const regressions = run.regression_results?.routes[path];
+        return [
+          result.id,
+          LighthouseStorage.normalizeTimestamp(result.timestamp),
+          result.domain,
+          result.url,
+          run.strategy ?? "",
+          result.provider ?? "",
+          run.strategy ? profileFor(result.profiles, run.strategy).name : "",
+          path,
+          result.routes.find((route) => route.path === path)?.name ?? "",
+          // A failed route's metrics are placeholders
+          ...BUDGET_METRICS.map((metric) =>
+            isMeasured(metrics) ? (metrics[metric] ?? "") : ""
+          ),
+          metrics.runs ?? "",
+          budget ? String(budget.passed) : "",
+          regressions ? regressions.length : "",
+          metrics.status ?? "",
+          metrics.error ?? "",
+        ];
+      })
+    )
+  );
+  return [CSV_COLUMNS, ...rows]
+    .map((row) => row.map(escapeCell).join(","))
+    .join("\r\n")
+    .concat("\r\n");
+}
+
+// RFC 4180: quoted fields may hold commas, doubled quotes and line breaks
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""));
+}
+
+const isHttpUrl = (value: string) => {
+  try {
+    return ["http:", "https:"].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+const isValidTime = (value: unknown) =>
+  (typeof value === "string" || typeof value === "number") &&
+  !Number.isNaN(new Date(value).getTime());
+
+// Scores are 0-100 and the rest non-negative; null only where allowed
+function checkMetric(metric: BudgetMetric, value: unknown): string | null {
+  if (value === null || value === undefined || value === "") {
+    return REQUIRED_METRICS.includes(metric) ? `${metric} is missing` : null;
+  }
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    return `${metric} must be a number`;
+  }
+  if (value < 0) return `${metric} cannot be negative`;
+  if (SCORE_METRICS.some((score) => score.key === metric) && value > 100) {
+    return `${metric} must be between 0 and 100`;
+  }
+  return null;
+}
+
+function checkRouteResult(metrics: unknown): string | null {
+  if (!metrics || typeof metrics !== "object") return "metrics are missing";
+  const { status } = metrics as { status?: unknown };
+  if (status !== undefined && !ROUTE_STATUSES.includes(status as RouteStatus)) {
+    return `unknown status "${status}"`;
+  }
+  // Failed routes keep placeholder metrics, which are not checked
+  if (status !== undefined && status !== "ok") return null;
+  for (const metric of BUDGET_METRICS) {
+    const problem = checkMetric(
+      metric,
+      (metrics as Record<string, unknown>)[metric]
+    );
+    if (problem) return problem;
+  }
+  return null;
+}
+
+const toNumber = (cell: string) => (cell.trim() === "" ? null : Number(cell));
+
+function parseCsvImport(text: string): ParsedImport {
+  const [header, ...rows] = parseCsv(text);
+  const columns = (header ?? []).map((cell) => cell.trim());
+  const missing = REQUIRED_COLUMNS.filter(
+    (column) => !columns.includes(column)
+  );
+  if (!header || missing.length > 0) {
+    return {
+      runs: [],
+      errors: [`Missing columns: ${missing.join(", ") || "no header row"}`],
+      invalid: 0,
+    };
+  }
+
+  // Rows of a run share its id, URL and start time; hand-made files may
+  // leave the id out
+  const groups = new Map<
+    string,
+    { line: number; cell: (name: string) => string }[]
+  >();
+  rows.forEach((cells, index) => {
+    const cell = (name: string) => {
+      const position = columns.indexOf(name);
+      return position === -1 ? "" : unescapeCell(cells[position] ?? "").trim();
+    };
+    const key = `${cell("result_id")}|${cell("url")}|${new Date(
+      cell("timestamp")
+    ).getTime()}`;
+    groups.set(key, [...(groups.get(key) ?? []), { line: index + 2, cell }]);
+  });
+
+  const runs: ImportedRun[] = [];
+  const errors: string[] = [];
+  let invalid = 0;
+
+  for (const groupRows of groups.values()) {
+    const first = groupRows[0].cell;
+    const problems: string[] = [];
+    const sides = new Map<Strategy | "", (RouteResult & { path: string })[]>();
+    const routes: RouteConfig[] = [];
+    let provider: ProviderName | null = null;
+    const profiles: RunProfiles = {};
+
+    for (const { line, cell } of groupRows) {
+      const fail = (message: string) =>
+        problems.push(`Row ${line}: ${message}`);
+      const url = cell("url");
+      const strategy = cell("strategy");
+      const path = cell("route_path");
+
+      if (!isHttpUrl(url)) fail(`"${url}" is not an http(s) URL`);
+      else if (url !== first("url"))
+        fail("URL differs from the run's other rows");
+      if (!isValidTime(cell("timestamp"))) {
+        fail(`"${cell("timestamp")}" is not a date`);
+      }
+      if (strategy && !STRATEGIES.includes(strategy as Strategy)) {
+        fail(`strategy must be mobile or desktop, not "${strategy}"`);
+      }
+      if (cell("provider")) {
+        if (PROVIDER_NAMES.includes(cell("provider") as ProviderName)) {
+          provider = cell("provider") as ProviderName;
+        } else {
+          fail(`unknown provider "${cell("provider")}"`);
+        }
+      }
+      if (!path.startsWith("/")) fail("route_path must start with /");
+      // The CSV only keeps the name, so only built-in profiles come back;
+      // other names are dropped rather than guessed at
+      const profile = BUILT_IN_PROFILES.find(
+        (candidate) =>
+          candidate.name === cell("profile") &&
+          candidate.formFactor === strategy
+      );
+      if (profile && profile.id !== DEFAULT_PROFILES[profile.formFactor].id) {
+        profiles[profile.formFactor] = profile;
+      }
+
+      const status = cell("status") as RouteStatus | "";
+      let metrics: RouteResult;
+      if (status && !ROUTE_STATUSES.includes(status)) {
+        fail(`unknown status "${status}"`);
+        metrics = LighthouseService.getErrorMetrics();
+      } else if (status && status !== "ok") {
+        metrics = LighthouseService.getErrorMetrics(
+          status as FailedRouteStatus,
+          cell("error") || null
+        );
+      } else {
+        metrics = Object.fromEntries(
+          BUDGET_METRICS.map((metric) => [metric, toNumber(cell(metric))])
+        ) as unknown as LighthouseMetrics;
+        if (status) metrics.status = status;
+        const problem = checkRouteResult(metrics);
+        if (problem) fail(problem);
+      }
+      const runsCell = toNumber(cell("runs"));
+      if (runsCell !== null && !(Number.isInteger(runsCell) && runsCell > 0)) {
+        fail("runs must be a positive whole number");
+      }
+
+      const side = strategy as Strategy | "";
+      const sideRoutes = sides.get(side) ?? [];
+      if (sideRoutes.some((route) => route.path === path)) {
+        fail(`route ${path} appears twice in the run`);
+      }
+      sides.set(side, [
+        ...sideRoutes,
+        { ...metrics, ...(runsCell ? { runs: runsCell } : {}), path },
+      ]);
+      if (!routes.some((route) => route.path === path)) {
+        routes.push({
+          id: String(routes.length + 1),
+          path,
+          name: cell("route_name") || path,
+        });
+      }
+    }
+
+    if (sides.has("") && sides.size > 1) {
+      problems.push(
+        `Run of ${first("url")} at ${first("timestamp")}: rows with and without a strategy cannot be mixed`
+      );
+    }
+    if (problems.length > 0) {
+      errors.push(...problems);
+      invalid++;
+      continue;
+    }
+
+    const resultsOf = (side: Strategy | "") =>
+      Object.fromEntries(
+        sides.get(side)!.map(({ path, ...metrics }) => [path, metrics])
+      );
+    const strategies = [...sides.keys()] as (Strategy | "")[];
+    const strategy: StrategyMode | null =
+      strategies.length > 1 ? "both" : strategies[0] || null;
+
+    runs.push({
+      sourceId: first("result_id") || undefined,
+      result: {
+        url: first("url"),
+        timestamp: LighthouseStorage.normalizeTimestamp(first("timestamp")),
+        strategy,
+        provider,
+        profiles: Object.keys(profiles).length > 0 ? profiles : null,
+        routes,
+        results: strategy === "both" ? {} : resultsOf(strategies[0]),
+        strategy_results:
+          strategy === "both"
+            ? Object.fromEntries(
+                (strategies as Strategy[]).map((side) => [
+                  side,
+                  {
+                    results: resultsOf(side),
+                    budget_results: null,
+                    regression_results: null,
+                  },
+                ])
+              )
+            : null,
+        // The CSV only keeps pass/fail, not what was checked against what
+        budget_results: null,
+        // Not diffed against today's baseline, which may be newer than the run
+        regression_results: null,
+      },
+    });
+  }
+
+  return { runs, errors, invalid };
+}
+
+// The app's own "Download Full Results" file
+interface ResultsDownload {
+  testInfo: {
+    url: string;
+    timestamp: number | string;
+    strategy?: StrategyMode | null;
+    provider?: ProviderName | null;
+    profiles?: RunProfiles | null;
+    routes: RouteConfig[];
+    budgetResults?: LighthouseResult["budget_results"];
+    regressionResults?: LighthouseResult["regression_results"];
+    reruns?: LighthouseResult["reruns"];
+  };
+  // Per-route results, or the sides of a "both" run
+  summary:
+    LighthouseResult["results"] | Partial<Record<Strategy, StrategyResults>>;
+  fullApiResults?: RawReports;
+}
+
+function parseJsonImport(text: string): ParsedImport {
+  let data: ResultsDownload;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { runs: [], errors: ["The file is not valid JSON"], invalid: 0 };
+  }
+
+  const info = data?.testInfo;
+  const fail = (message: string): ParsedImport => ({
+    runs: [],
+    errors: [message],
+    invalid: 1,
+  });
+  if (!info || !data.summary || typeof data.summary !== "object") {
+    return fail("Not a results download: testInfo or summary is missing");
+  }
+  if (!isHttpUrl(info.url)) return fail(`"${info.url}" is not an http(s) URL`);
+  if (!isValidTime(info.timestamp)) return fail("The timestamp is not a date");
+  if (!Array.isArray(info.routes)) return fail("The routes are missing");
+  if (info.strategy && !["both", ...STRATEGIES].includes(info.strategy)) {
+    return fail(`Unknown strategy "${info.strategy}"`);
+  }
+
+  const both = info.strategy === "both";
+  const sides = both
+    ? (data.summary as Partial<Record<Strategy, StrategyResults>>)
+    : { single: { results: data.summary as LighthouseResult["results"] } };
+  for (const [side, part] of Object.entries(sides)) {
+    for (const [path, metrics] of Object.entries(part?.results ?? {})) {
+      const problem = checkRouteResult(metrics);
+      if (problem) {
+        return fail(`${both ? `${side} ` : ""}route ${path}: ${problem}`);
+      }
+    }
+  }
+
+  return {
+    runs: [
+      {
+        rawReports: data.fullApiResults,
+        result: {
+          url: info.url,
+          timestamp: LighthouseStorage.normalizeTimestamp(info.timestamp),
+          strategy: info.strategy ?? null,
+          provider: info.provider ?? null,
+          profiles: info.profiles ?? null,
+          routes: info.routes,
+          results: both ? {} : (data.summary as LighthouseResult["results"]),
+          strategy_results: both
+            ? Object.fromEntries(
+                Object.entries(
+                  data.summary as Partial<Record<Strategy, StrategyResults>>
+                ).map(([side, part]) => [
+                  side,
+                  {
+                    results: part!.results,
+                    budget_results: part!.budget_results ?? null,
+                    regression_results: part!.regression_results ?? null,
+                  },
+                ])
+              )
+            : null,
+          budget_results: info.budgetResults ?? null,
+          regression_results: info.regressionResults ?? null,
+          reruns: info.reruns ?? null,
+        },
+      },
+    ],
+    errors: [],
+    invalid: 0,
+  };
+}
+
+// CSV exports of this app or hand-made files with the same columns, or one
+// run's JSON download
+export function parseImport(fileName: string, text: string): ParsedImport {
+  return fileName.toLowerCase().endsWith(".json") ||
+    text.trimStart().startsWith("{")
+    ? parseJsonImport(text)
+    : parseCsvImport(text);
+}
+
+// The same URL, start time and strategy means the same run
+const runKey = (
+  result: Pick<LighthouseResult, "url" | "timestamp" | "strategy">
+) =>
+  `${result.url}|${new Date(result.timestamp).getTime()}|${result.strategy ?? ""}`;
+
+// Saves runs that are not in storage yet, including ones repeated within the
+// file. Runs exported from this history keep matching by id.
+export async function importRuns({
+  runs,
+  errors,
+  invalid,
+}: ParsedImport): Promise<ImportSummary> {
+  // Only the runs the file could repeat are looked up, by start time and
+  // source id, so a history of any length is checked in full
+  const byDomain = new Map<string, ImportedRun[]>();
+  for (const run of runs) {
+    const domain = LighthouseStorage.extractDomain(run.result.url);
+    byDomain.set(domain, [...(byDomain.get(domain) ?? []), run]);
+  }
+  const existing = (
+    await Promise.all(
+      [...byDomain].map(([domain, domainRuns]) =>
+        LighthouseStorage.findResults(
+          domain,
+          domainRuns.map((run) => run.result.timestamp),
+          domainRuns.flatMap((run) => (run.sourceId ? [run.sourceId] : []))
+        )
+      )
+    )
+  ).flat();
+  const ids = new Set(existing.map((result) => result.id));
+  const keys = new Set(existing.map(runKey));
+
+  const summary: ImportSummary = {
+    imported: 0,
+    duplicates: 0,
+    failed: invalid,
+    errors: [...errors],
+  };
+  // Without Supabase, runs past the local limit would push out the ones just
+  // imported, so the import stops there instead
+  let room = LighthouseStorage.localHistoryRoom();
+  let skipped = 0;
+  for (const run of runs) {
+    const key = runKey(run.result);
+    if (keys.has(key) || (run.sourceId && ids.has(run.sourceId))) {
+      summary.duplicates++;
+      continue;
+    }
+    if (room !== null && room <= 0) {
+      skipped++;
+      continue;
+    }
+    try {
+      await LighthouseStorage.saveResult(run.result, run.rawReports);
+      keys.add(key);
+      summary.imported++;
+      if (room !== null) room--;
+    } catch (error) {
+      summary.failed++;
+      summary.errors.push(
+        `${run.result.url} at ${run.result.timestamp}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  if (skipped > 0) {
+    summary.failed += skipped;
+    summary.errors.unshift(
+      `Local history keeps only the newest ${LighthouseStorage.localHistoryLimit()} runs, so ${skipped} run(s) were not imported; configure Supabase to import more`
+    );
+  }
+
+  if (summary.errors.length > MAX_ERRORS) {
+    const more = summary.errors.length - MAX_ERRORS;
+    summary.errors = [
+      ...summary.errors.slice(0, MAX_ERRORS),
+      `…and ${more} more`,
+    ];
+  }
+  return summary;
+}
@@ -0,0 +1,313 @@
+import type { AuditFinding } from "../services/lighthouseService";
+import { PROVIDER_LABELS } from "../services/analysisProvider";
+import {
+  Rating,
+  SCORE_METRICS,
+  describeCheck,
+  rateScore,
+  resolveLimits,
+} from "./budgets";
+import { VITALS, formatBytes, formatMs, formatVital } from "./metrics";
+import { countRegressions, describeRegression } from "./regressions";
+import { profileFor } from "./profiles";
+import { describeFailure, failedRoutes, isMeasured } from "./routeStatus";
+import { STRATEGY_LABELS, StrategyRun, strategyRuns } from "./strategies";
+import type { LighthouseResult } from "./supabase";
+
+// What a report needs of a run; results shown in the app before they were
+// saved have no domain or ownership yet
+export type ReportRun = Pick<
+  LighthouseResult,
+  | "id"
+  | "url"
+  | "timestamp"
+  | "routes"
+  | "results"
+  | "avg_scores"
+  | "strategy"
+  | "provider"
+  | "profiles"
+  | "budget_results"
+  | "regression_results"
+  | "strategy_results"
+>;
+
+// Opportunities listed per route, largest time savings first
+const TOP_OPPORTUNITIES = 5;
+
+const RATING_COLORS: Record<Rating, string> = {
+  good: "#16a34a",
+  average: "#ca8a04",
+  poor: "#dc2626",
+};
+
+// Inlined so the file opens anywhere, offline and in mail clients' previews
+const STYLES = `
+  body { font-family: system-ui, -apple-system, "Segoe UI", Roboto, sans-serif; color: #111827; margin: 0; padding: 32px; background: #f9fafb; }
+  main { max-width: 960px; margin: 0 auto; }
+  h1 { font-size: 24px; margin: 0 0 4px; }
+  h2 { font-size: 20px; margin: 32px 0 8px; }
+  h3 { font-size: 16px; margin: 24px 0 8px; }
+  h4 { font-size: 14px; margin: 16px 0 8px; color: #374151; }
+  .meta { color: #4b5563; font-size: 14px; margin: 0 0 16px; }
+  section { background: #fff; border: 1px solid #e5e7eb; border-radius: 12px; padding: 16px 24px; margin-bottom: 16px; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #e5e7eb; vertical-align: top; }
+  th { color: #6b7280; font-weight: 600; }
+  td.num, th.num { text-align: right; font-variant-numeric: tabular-nums; }
+  .good { color: ${RATING_COLORS.good}; font-weight: 600; }
+  .average { color: ${RATING_COLORS.average}; font-weight: 600; }
+  .poor { color: ${RATING_COLORS.poor}; font-weight: 600; }
+  .status { display: inline-block; padding: 2px 8px; border-radius: 9999px; font-size: 12px; font-weight: 600; }
+  .status.pass { background: #dcfce7; color: #166534; }
+  .status.fail { background: #fee2e2; color: #991b1b; }
+  .status.regressed { background: #ffedd5; color: #9a3412; }
+  ul { margin: 4px 0; padding-left: 20px; font-size: 13px; }
+  li.fail { color: #b91c1c; }
+  li.regressed { color: #c2410c; }
+  footer { color: #9ca3af; font-size: 12px; text-align: center; margin-top: 24px; }
+  @media print {
+    body { background: #fff; padding: 0; }
+    section { border-color: #d1d5db; }
+    h2, h3, h4 { break-after: avoid; }
+    table, ul { break-inside: avoid; }
+  }
+`;
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const formatTime = (timestamp: number | string) =>
+  new Date(timestamp).toLocaleString();
+
+const strategyLabel = (run: StrategyRun) =>
+  run.strategy ? STRATEGY_LABELS[run.strategy] : "Strategy not recorded";
+
+const scoreCell = (score: number, minimum?: number) =>
+  `<td class="num ${rateScore(score, minimum)}">${score}</td>`;
+
+function budgetStatus(run: StrategyRun): string {
+  if (!run.budget_results) return "";
+  const failures = Object.values(run.budget_results.routes).filter(
+    (route) => !route.passed
+  ).length;
+  return failures === 0
+    ? '<span class="status pass">Within budget</span>'
+    : `<span class="status fail">${failures} route(s) over budget</span>`;
+}
+
+function failureStatus(run: StrategyRun): string {
+  const count = failedRoutes(run.results).length;
+  return count === 0
+    ? ""
+    : `<span class="status fail">${count} route(s) failed</span>`;
+}
+
+function regressionStatus(run: StrategyRun): string {
+  if (!run.regression_results) return "";
+  const count = countRegressions(run.regression_results);
+  return count === 0
+    ? '<span class="status pass">No regressions</span>'
+    : `<span class="status regressed">${count} regression(s) vs baseline</span>`;
+}
+
+function renderOpportunities(audits: AuditFinding[] | undefined): string {
+  const top = (audits ?? [])
+    .filter((audit) => audit.kind === "opportunity")
+    .sort(
+      (a, b) => b.savingsMs - a.savingsMs || b.savingsBytes - a.savingsBytes
+    )
+    .slice(0, TOP_OPPORTUNITIES);
+  if (top.length === 0) return "";
+  const rows = top.map(
+    (audit) =>
+      `<tr><td>${escapeHtml(audit.title)}</td><td class="num">${
+        audit.savingsMs > 0 ? formatMs(audit.savingsMs) : ""
+      }</td><td class="num">${
+        audit.savingsBytes > 0 ? formatBytes(audit.savingsBytes) : ""
+      }</td></tr>`
+  );
+  return `<h4>Top opportunities</h4>
+<table><thead><tr><th>Opportunity</th><th class="num">Time</th><th class="num">Size</th></tr></thead>
+<tbody>${rows.join("")}</tbody></table>`;
+}
+
+function renderRoute(result: ReportRun, run: StrategyRun, path: string) {
+  const metrics = run.results[path];
+  const name = result.routes.find((route) => route.path === path)?.name;
+  const limits = resolveLimits(run.budget_results?.budgets ?? [], path);
+  const failures =
+    run.budget_results?.routes[path]?.checks.filter((check) => !check.passed) ??
+    [];
+  const regressions = run.regression_results?.routes[path] ?? [];
+  const heading = `<h3>${escapeHtml(name || path)} <span class="meta">(${escapeHtml(
+    path
+  )})</span></h3>`;
+
+  if (!isMeasured(metrics)) {
+    return `${heading}
+<p><span class="status fail">${escapeHtml(describeFailure(metrics))}</span></p>
+<p class="meta">Not counted in the averages, budgets or baseline comparison.</p>`;
+  }
+
+  const scores = SCORE_METRICS.map((metric) =>
+    scoreCell(metrics[metric.key], limits[metric.key])
+  ).join("");
+  const vitals = VITALS.map(
+    (vital) =>
+      `<td class="num">${formatVital(vital.key, metrics[vital.key])}</td>`
+  ).join("");
+  const issues = [
+    ...failures.map(
+      (check) => `<li class="fail">${escapeHtml(describeCheck(check))}</li>`
+    ),
+    ...regressions.map(
+      (regression) =>
+        `<li class="regressed">${escapeHtml(
+          describeRegression(regression)
+        )} since the baseline</li>`
+    ),
+  ];
+
+  return `${heading}
+<table><thead><tr>${SCORE_METRICS.map(
+    (metric) => `<th class="num">${metric.label}</th>`
+  ).join("")}</tr></thead><tbody><tr>${scores}</tr></tbody></table>
+<table><thead><tr>${VITALS.map(
+    (vital) => `<th class="num">${vital.shortLabel}</th>`
+  ).join("")}</tr></thead><tbody><tr>${vitals}</tr></tbody></table>
+${issues.length > 0 ? `<ul>${issues.join("")}</ul>` : ""}
+${renderOpportunities(metrics.audits)}`;
+}
+
+function renderRun(result: ReportRun, heading: string): string {
+  return strategyRuns(result)
+    .map((run) => {
+      const limits = resolveLimits(run.budget_results?.budgets ?? []);
+      const summary = SCORE_METRICS.map(
+        (metric) =>
+          `<th class="num">${metric.label}</th>${scoreCell(
+            run.avg_scores[metric.key],
+            limits[metric.key]
+          )}`
+      ).join("");
+      const routes = Object.keys(run.results)
+        .map((path) => renderRoute(result, run, path))
+        .join("\n");
+      return `<section>
+<h2>${escapeHtml(heading)} · ${strategyLabel(run)}</h2>
+<p class="meta">${escapeHtml(result.url)} · ${formatTime(result.timestamp)}${
+        result.provider ? ` · ${PROVIDER_LABELS[result.provider]}` : ""
+      }${
+        run.strategy
+          ? ` · ${escapeHtml(profileFor(result.profiles, run.strategy).name)}`
+          : ""
+      } ${failureStatus(run)} ${budgetStatus(run)} ${regressionStatus(run)}</p>
+<table><tbody><tr>${summary}</tr></tbody></table>
+${routes}
+</section>`;
+    })
+    .join("\n");
+}
+
+// One row per run and strategy, for reports covering several runs
+function renderSummary(results: ReportRun[]): string {
+  const rows = results.flatMap((result, index) =>
+    strategyRuns(result).map((run) => {
+      const limits = resolveLimits(run.budget_results?.budgets ?? []);
+      return `<tr><td>${index + 1}</td><td>${escapeHtml(
+        result.url
+      )}<br><span class="meta">${formatTime(
+        result.timestamp
+      )}</span></td><td>${strategyLabel(run)}</td>${SCORE_METRICS.map(
+        (metric) => scoreCell(run.avg_scores[metric.key], limits[metric.key])
+      ).join("")}<td>${budgetStatus(run)} ${regressionStatus(run)}</td></tr>`;
+    })
+  );
+  return `<section>
+<h2>Summary</h2>
+<table><thead><tr><th>#</th><th>Run</th><th>Strategy</th>${SCORE_METRICS.map(
+    (metric) => `<th class="num">${metric.label}</th>`
+  ).join("")}<th>Status</th></tr></thead>
+<tbody>${rows.join("")}</tbody></table>
+</section>`;
+}
+
+// A self-contained HTML document for one run, or several side by side with
+// a summary table first
+export function buildHtmlReport(results: ReportRun[]): string {
+  const title =
+    results.length === 1
+      ? `Lighthouse report: ${results[0].url}`
+      : `Lighthouse report: ${results.length} runs`;
+  const body =
+    results.length === 1
+      ? renderRun(results[0], "Results")
+      : [
+          renderSummary(results),
+          ...results.map((result, index) =>
+            renderRun(result, `Run ${index + 1}`)
+          ),
+        ].join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<main>
+<h1>${escapeHtml(title)}</h1>
+<p class="meta">Generated ${new Date().toLocaleString()}</p>
+${body}
+<footer>Scores are colored by the budgets each run was evaluated against, or Lighthouse's bands without one.</footer>
+</main>
+</body>
+</html>
+`;
+}
+
+export function reportFileName(results: ReportRun[], extension: string) {
+  const date = new Date().toISOString().split("T")[0];
+  const host =
+    results.length === 1 ? new URL(results[0].url).hostname : "comparison";
+  return `lighthouse-report-${host}-${date}.${extension}`;
+}
+
+export function downloadFile(contents: string, type: string, name: string) {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = name;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Firefox and Safari cancel a download whose URL is revoked before it has
+  // been read, which takes a while for large reports
+  setTimeout(() => URL.revokeObjectURL(url), 40 * 1000);
+}
+
+// Opens the browser's print dialog for the report in a hidden frame, where
+// "Save as PDF" writes the PDF locally; nothing is sent anywhere
+export function printHtmlReport(html: string): void {
+  const frame = document.createElement("iframe");
+  frame.style.position = "fixed";
+  frame.style.width = "0";
+  frame.style.height = "0";
+  frame.style.border = "0";
+  frame.srcdoc = html;
+  frame.onload = () => {
+    const view = frame.contentWindow!;
+    view.addEventListener("afterprint", () => frame.remove());
+    view.focus();
+    view.print();
+  };
+  document.body.appendChild(frame);
+}
@@ -0,0 +1,158 @@
+import type {
+  FieldMetricKey,
+  LighthouseMetrics,
+} from "../services/lighthouseService";
+
+export type VitalKey =
+  | "fcp"
+  | "lcp"
+  | "cls"
+  | "inp"
+  | "tbt"
+  | "speedIndex"
+  | "ttfb"
+  | "serverResponseTime";
+
+export interface VitalDefinition {
+  key: VitalKey;
+  label: string;
+  shortLabel: string;
+  unit: "ms" | "unitless";
+  color: string;
+}
+
+export const VITALS: VitalDefinition[] = [
+  {
+    key: "fcp",
+    label: "First Contentful Paint",
+    shortLabel: "FCP",
+    unit: "ms",
+    color: "text-blue-600",
+  },
+  {
+    key: "lcp",
+    label: "Largest Contentful Paint",
+    shortLabel: "LCP",
+    unit: "ms",
+    color: "text-purple-600",
+  },
+  {
+    key: "cls",
+    label: "Cumulative Layout Shift",
+    shortLabel: "CLS",
+    unit: "unitless",
+    color: "text-orange-600",
+  },
+  {
+    key: "inp",
+    label: "Interaction to Next Paint",
+    shortLabel: "INP",
+    unit: "ms",
+    color: "text-teal-600",
+  },
+  {
+    key: "tbt",
+    label: "Total Blocking Time",
+    shortLabel: "TBT",
+    unit: "ms",
+    color: "text-rose-600",
+  },
+  {
+    key: "speedIndex",
+    label: "Speed Index",
+    shortLabel: "SI",
+    unit: "ms",
+    color: "text-indigo-600",
+  },
+  {
+    key: "ttfb",
+    label: "Time to First Byte",
+    shortLabel: "TTFB",
+    unit: "ms",
+    color: "text-cyan-600",
+  },
+  {
+    key: "serverResponseTime",
+    label: "Server Response Time",
+    shortLabel: "SRT",
+    unit: "ms",
+    color: "text-amber-600",
+  },
+];
+
+export const UNAVAILABLE_LABEL = "N/A";
+
+export function formatVital(
+  key: VitalKey,
+  value: number | null | undefined
+): string {
+  if (value === null || value === undefined) return UNAVAILABLE_LABEL;
+  if (key === "cls") return value.toFixed(3);
+  return formatMs(value);
+}
+
+export function formatMs(ms: number | null | undefined): string {
+  if (ms === null || ms === undefined) return UNAVAILABLE_LABEL;
+  if (ms >= 1000) return `${(ms / 1000).toFixed(1)}s`;
+  return `${Math.round(ms)}ms`;
+}
+
+// Rows saved before the metrics were read from `numericValue` stored FCP and
+// LCP in seconds, a meaningless FID and none of the newer metrics.
+interface LegacyMetrics {
+  performance: number;
+  accessibility: number;
+  bestPractices: number;
+  seo: number;
+  fcp: number;
+  lcp: number;
+  cls: number;
+  fid?: number;
+}
+
+function isLegacyMetrics<T extends LighthouseMetrics>(
+  metrics: T | LegacyMetrics
+): metrics is LegacyMetrics {
+  return !("tbt" in metrics);
+}
+
+export function normalizeMetrics<T extends LighthouseMetrics>(
+  metrics: T | LegacyMetrics
+): T | LighthouseMetrics {
+  if (!isLegacyMetrics(metrics)) return metrics;
+
+  return {
+    performance: metrics.performance,
+    accessibility: metrics.accessibility,
+    bestPractices: metrics.bestPractices,
+    seo: metrics.seo,
+    fcp: metrics.fcp * 1000,
+    lcp: metrics.lcp * 1000,
+    cls: metrics.cls,
+    inp: null,
+    tbt: null,
+    speedIndex: null,
+    ttfb: null,
+    serverResponseTime: null,
+  };
+}
+
+// Metrics CrUX reports, in display order; each has a lab counterpart
+export const FIELD_METRICS: FieldMetricKey[] = [
+  "lcp",
+  "inp",
+  "cls",
+  "fcp",
+  "ttfb",
+];
+
+export function getVital(key: VitalKey): VitalDefinition {
+  return VITALS.find((vital) => vital.key === key)!;
+}
+
+export function formatBytes(bytes: number | null | undefined): string {
+  if (bytes === null || bytes === undefined) return UNAVAILABLE_LABEL;
+  if (bytes >= 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MiB`;
+  if (bytes >= 1024) return `${Math.round(bytes / 1024)} KiB`;
+  return `${Math.round(bytes)} B`;
+}
@@ -0,0 +1,80 @@
+import type { LoginStep, PageAuth } from "../services/analysisProvider";
+
+// What the login settings form edits: rows that may be half filled in while
+// typing. Incomplete rows are dropped by toPageAuth.
+export interface AuthDraft {
+  headers: { name: string; value: string }[];
+  cookies: { name: string; value: string; domain: string }[];
+  loginUrl: string;
+  // `target` is the URL of goto steps and the selector of the others
+  steps: { action: LoginStep["action"]; target: string; value: string }[];
+}
+
+export const EMPTY_AUTH_DRAFT: AuthDraft = {
+  headers: [],
+  cookies: [],
+  loginUrl: "",
+  steps: [],
+};
+
+export function fromPageAuth(auth: PageAuth | null | undefined): AuthDraft {
+  if (!auth) return EMPTY_AUTH_DRAFT;
+  return {
+    headers: Object.entries(auth.headers ?? {}).map(([name, value]) => ({
+      name,
+      value,
+    })),
+    cookies: (auth.cookies ?? []).map(({ name, value, domain }) => ({
+      name,
+      value,
+      domain: domain ?? "",
+    })),
+    loginUrl: auth.login?.url ?? "",
+    steps: (auth.login?.steps ?? []).map((step) =>
+      step.action === "goto"
+        ? { action: step.action, target: step.url, value: "" }
+        : {
+            action: step.action,
+            target: step.selector,
+            value: step.action === "fill" ? step.value : "",
+          }
+    ),
+  };
+}
+
+// Undefined when nothing usable is set
+export function toPageAuth(draft: AuthDraft): PageAuth | undefined {
+  const auth: PageAuth = {};
+
+  const headers = draft.headers.filter((header) => header.name.trim());
+  if (headers.length > 0) {
+    auth.headers = Object.fromEntries(
+      headers.map(({ name, value }) => [name.trim(), value])
+    );
+  }
+
+  const cookies = draft.cookies.filter((cookie) => cookie.name.trim());
+  if (cookies.length > 0) {
+    auth.cookies = cookies.map(({ name, value, domain }) => ({
+      name: name.trim(),
+      value: value.trim(),
+      ...(domain.trim() && { domain: domain.trim() }),
+    }));
+  }
+
+  const steps = draft.steps
+    .filter((step) => step.target.trim())
+    .map((step): LoginStep => {
+      const target = step.target.trim();
+      if (step.action === "goto") return { action: "goto", url: target };
+      if (step.action === "fill") {
+        return { action: "fill", selector: target, value: step.value };
+      }
+      return { action: step.action, selector: target };
+    });
+  if (draft.loginUrl.trim() && steps.length > 0) {
+    auth.login = { url: draft.loginUrl.trim(), steps };
+  }
+
+  return Object.keys(auth).length > 0 ? auth : undefined;
+}
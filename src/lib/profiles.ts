@@ -0,0 +1,136 @@
+import type { Strategy } from "../services/lighthouseService";
+import { StrategyMode, strategiesOf } from "./strategies";
+
+// A device and network to emulate: the viewport and user agent the page sees
+// and the simulated connection and CPU the metrics are computed for. The
+// profile's `formFactor` is the strategy it runs as, so a "both" run takes a
+// mobile and a desktop profile.
+export interface DeviceProfile {
+  id: string;
+  name: string;
+  formFactor: Strategy;
+  screen: { width: number; height: number; deviceScaleFactor: number };
+  userAgent: string;
+  network: { rttMs: number; throughputKbps: number };
+  // How many times slower than the machine running Lighthouse
+  cpuSlowdownMultiplier: number;
+}
+
+// Profiles chosen for a run, by strategy; a strategy without one used
+// Lighthouse's default for it
+export type RunProfiles = Partial<Record<Strategy, DeviceProfile>>;
+
+const CHROME_VERSION = "136.0.0.0";
+
+const androidAgent = (device: string) =>
+  `Mozilla/5.0 (Linux; Android 14; ${device}) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/${CHROME_VERSION} Mobile Safari/537.36`;
+
+const DESKTOP_AGENT = `Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/${CHROME_VERSION} Safari/537.36`;
+
+// What Lighthouse and PageSpeed Insights emulate when nothing else is chosen
+export const DEFAULT_PROFILES: Record<Strategy, DeviceProfile> = {
+  mobile: {
+    id: "lighthouse-mobile",
+    name: "Moto G Power, slow 4G",
+    formFactor: "mobile",
+    screen: { width: 412, height: 823, deviceScaleFactor: 1.75 },
+    userAgent: `Mozilla/5.0 (Linux; Android 11; moto g power (2022)) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/${CHROME_VERSION} Mobile Safari/537.36`,
+    network: { rttMs: 150, throughputKbps: 1638.4 },
+    cpuSlowdownMultiplier: 4,
+  },
+  desktop: {
+    id: "lighthouse-desktop",
+    name: "Desktop, dense 4G",
+    formFactor: "desktop",
+    screen: { width: 1350, height: 940, deviceScaleFactor: 1 },
+    userAgent: DESKTOP_AGENT,
+    network: { rttMs: 40, throughputKbps: 10240 },
+    cpuSlowdownMultiplier: 1,
+  },
+};
+
+export const BUILT_IN_PROFILES: DeviceProfile[] = [
+  DEFAULT_PROFILES.mobile,
+  {
+    id: "slow-3g-low-end-android",
+    name: "Slow 3G low-end Android",
+    formFactor: "mobile",
+    screen: { width: 360, height: 640, deviceScaleFactor: 2 },
+    userAgent: androidAgent("Nokia 2.4"),
+    network: { rttMs: 400, throughputKbps: 400 },
+    cpuSlowdownMultiplier: 6,
+  },
+  {
+    id: "fast-4g-flagship",
+    name: "Fast 4G flagship Android",
+    formFactor: "mobile",
+    screen: { width: 412, height: 915, deviceScaleFactor: 2.625 },
+    userAgent: androidAgent("Pixel 8"),
+    network: { rttMs: 60, throughputKbps: 9000 },
+    cpuSlowdownMultiplier: 2,
+  },
+  DEFAULT_PROFILES.desktop,
+  {
+    id: "cable-desktop-1440p",
+    name: "Cable desktop 1440p",
+    formFactor: "desktop",
+    screen: { width: 2560, height: 1440, deviceScaleFactor: 1 },
+    userAgent: DESKTOP_AGENT,
+    network: { rttMs: 28, throughputKbps: 5000 },
+    cpuSlowdownMultiplier: 1,
+  },
+  {
+    id: "low-end-laptop-dsl",
+    name: "Low-end laptop on DSL",
+    formFactor: "desktop",
+    screen: { width: 1366, height: 768, deviceScaleFactor: 1 },
+    userAgent: DESKTOP_AGENT,
+    network: { rttMs: 50, throughputKbps: 1500 },
+    cpuSlowdownMultiplier: 2,
+  },
+];
+
+export function profileFor(
+  profiles: RunProfiles | null | undefined,
+  strategy: Strategy
+): DeviceProfile {
+  return profiles?.[strategy] ?? DEFAULT_PROFILES[strategy];
+}
+
+// "360×640 · 400 Kbps, 400 ms RTT · 6× CPU"
+export function describeProfile(profile: DeviceProfile): string {
+  const { screen, network } = profile;
+  const throughput =
+    network.throughputKbps >= 1000
+      ? `${+(network.throughputKbps / 1024).toFixed(1)} Mbps`
+      : `${Math.round(network.throughputKbps)} Kbps`;
+  return [
+    `${screen.width}×${screen.height}`,
+    `${throughput}, ${network.rttMs} ms RTT`,
+    `${profile.cpuSlowdownMultiplier}× CPU`,
+  ].join(" · ");
+}
+
+// The name shown on result cards: one profile, or the mobile and desktop
+// profiles of a "both" run
+export function profileSummary(
+  profiles: RunProfiles | null | undefined,
+  strategy: StrategyMode | null | undefined
+): string {
+  return strategiesOf(strategy ?? "mobile")
+    .map((side) => profileFor(profiles, side).name)
+    .join(" + ");
+}
+
+// The settings behind profileSummary, for tooltips
+export function profileDetails(
+  profiles: RunProfiles | null | undefined,
+  strategy: StrategyMode | null | undefined
+): string {
+  return strategiesOf(strategy ?? "mobile")
+    .map((side) => {
+      const profile = profileFor(profiles, side);
+      return `${profile.name}: ${describeProfile(profile)}`;
+    })
+    .join("\n");
+}
@@ -0,0 +1,122 @@
+import type { LighthouseMetrics } from "../services/lighthouseService";
+import {
+  BudgetMetric,
+  formatBudgetValue,
+  getMetricLabel,
+  isScoreMetric,
+} from "./budgets";
+import { RouteOutcome, isMeasured, measuredResults } from "./routeStatus";
+
+// Largest change treated as noise, per metric, in the metric's own unit:
+// points for scores, milliseconds for timings, unitless for CLS
+export type Tolerances = Partial<Record<BudgetMetric, number>>;
+
+export const DEFAULT_TOLERANCES: Tolerances = {
+  performance: 5,
+  accessibility: 3,
+  bestPractices: 3,
+  seo: 3,
+  fcp: 300,
+  lcp: 500,
+  cls: 0.05,
+  inp: 100,
+  tbt: 200,
+  speedIndex: 500,
+  ttfb: 200,
+  serverResponseTime: 200,
+};
+
+export interface MetricRegression {
+  metric: BudgetMetric;
+  baseline: number;
+  current: number;
+}
+
+// Stored with each run that had a baseline to compare with
+export interface RegressionResult {
+  baseline_id: string;
+  // When the baseline run was made, so the diff stays readable after the
+  // baseline moves on
+  baseline_timestamp: string;
+  tolerances: Tolerances;
+  regressed: boolean;
+  // Per route present in both runs; an empty list means no regression
+  routes: Record<string, MetricRegression[]>;
+}
+
+// Scores regress when they drop, everything else when it grows
+export function regressionDelta(
+  metric: BudgetMetric,
+  baseline: number,
+  current: number
+): number {
+  return isScoreMetric(metric) ? baseline - current : current - baseline;
+}
+
+export function diffRoute(
+  baseline: LighthouseMetrics,
+  current: LighthouseMetrics,
+  tolerances: Tolerances
+): MetricRegression[] {
+  const regressions: MetricRegression[] = [];
+  for (const [metric, tolerance] of Object.entries(tolerances) as [
+    BudgetMetric,
+    number | undefined,
+  ][]) {
+    const before = baseline[metric];
+    const after = current[metric];
+    if (
+      tolerance === undefined ||
+      before === null ||
+      before === undefined ||
+      after === null ||
+      after === undefined
+    ) {
+      continue;
+    }
+    if (regressionDelta(metric, before, after) > tolerance) {
+      regressions.push({ metric, baseline: before, current: after });
+    }
+  }
+  return regressions;
+}
+
+// Routes that only exist in one of the runs, or failed in either, are not
+// compared
+export function diffRuns(
+  baseline: { id: string; timestamp: string },
+  baselineResults: Record<string, LighthouseMetrics & RouteOutcome>,
+  results: Record<string, LighthouseMetrics & RouteOutcome>,
+  tolerances: Tolerances
+): RegressionResult {
+  const routes: RegressionResult["routes"] = {};
+  for (const [path, metrics] of Object.entries(measuredResults(results))) {
+    if (baselineResults[path] && isMeasured(baselineResults[path])) {
+      routes[path] = diffRoute(baselineResults[path], metrics, tolerances);
+    }
+  }
+
+  return {
+    baseline_id: baseline.id,
+    baseline_timestamp: baseline.timestamp,
+    tolerances,
+    regressed: Object.values(routes).some((list) => list.length > 0),
+    routes,
+  };
+}
+
+export function countRegressions(result: RegressionResult): number {
+  return Object.values(result.routes).reduce(
+    (count, list) => count + list.length,
+    0
+  );
+}
+
+// e.g. "LCP 2.1s → 3.0s"
+export function describeRegression(regression: MetricRegression): string {
+  const { metric, baseline, current } = regression;
+  return `${getMetricLabel(metric)} ${formatBudgetValue(
+    metric,
+    baseline
+  )} → ${formatBudgetValue(metric, current)}`;
+}
@@ -0,0 +1,80 @@
+import type { LighthouseMetrics } from "../services/lighthouseService";
+
+// How the measurement of a route went. Anything but "ok" means every run of
+// the route failed and its metrics are placeholders.
+export type RouteStatus =
+  | "ok"
+  | "failed"
+  | "timeout"
+  | "quota-exceeded"
+  | "unreachable"
+  | "invalid-url";
+
+export type FailedRouteStatus = Exclude<RouteStatus, "ok">;
+
+export const ROUTE_STATUSES: RouteStatus[] = [
+  "ok",
+  "failed",
+  "timeout",
+  "quota-exceeded",
+  "unreachable",
+  "invalid-url",
+];
+
+export const ROUTE_STATUS_LABELS: Record<RouteStatus, string> = {
+  ok: "OK",
+  failed: "Failed",
+  timeout: "Timed out",
+  "quota-exceeded": "Quota exceeded",
+  unreachable: "Unreachable",
+  "invalid-url": "Invalid URL",
+};
+
+// Stored with each route result. Both are missing on rows saved before
+// statuses were recorded; normalizeResult infers the failed ones.
+export interface RouteOutcome {
+  status?: RouteStatus;
+  // The last error of a failed route
+  error?: string | null;
+}
+
+export function isMeasured(result: RouteOutcome): boolean {
+  return !result.status || result.status === "ok";
+}
+
+// The routes averages, budgets, baselines and trends are computed from
+export function measuredResults<T extends RouteOutcome>(
+  results: Record<string, T>
+): Record<string, T> {
+  return Object.fromEntries(
+    Object.entries(results).filter(([, result]) => isMeasured(result))
+  );
+}
+
+export function failedRoutes(results: Record<string, RouteOutcome>): string[] {
+  return Object.entries(results)
+    .filter(([, result]) => !isMeasured(result))
+    .map(([path]) => path);
+}
+
+// e.g. "Timed out: PageSpeed API request timed out after 120s"
+export function describeFailure(result: RouteOutcome): string {
+  const label = ROUTE_STATUS_LABELS[result.status ?? "failed"];
+  return result.error ? `${label}: ${result.error}` : label;
+}
+
+// Rows saved before statuses were recorded kept failures as all-zero
+// metrics, which no page that painted anything can score
+export function inferStatus<T extends LighthouseMetrics & RouteOutcome>(
+  result: T
+): T {
+  if (
+    result.status ||
+    result.performance > 0 ||
+    result.fcp > 0 ||
+    result.lcp > 0
+  ) {
+    return result;
+  }
+  return { ...result, status: "failed", error: null };
+}
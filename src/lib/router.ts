@@ -0,0 +1,160 @@
+import { useMemo, useSyncExternalStore } from "react";
+
+// The views the app answers to, each with its own URL so it can be
+// bookmarked, shared and restored on reload. Unknown paths open the new test
+// flow; the host must serve index.html for every path (see the README).
+export type Route =
+  // The new test flow. Steps after the first need the site's URL, and step 3
+  // the kind of route selection chosen in step 2.
+  | {
+      name: "new";
+      step: 1 | 2 | 3;
+      url?: string;
+      routeType?: "discover" | "custom";
+    }
+  | { name: "run"; id: string }
+  | { name: "history"; domain?: string; monitorId?: string }
+  | { name: "compare"; ids: string[] }
+  | { name: "trends"; domain?: string }
+  | { name: "monitors" }
+  | { name: "share"; token: string };
+
+const HOME: Route = { name: "new", step: 1 };
+
+// Dispatched on pushState and replaceState, which fire no event of their own
+const NAVIGATE_EVENT = "lighthouse:navigate";
+
+// `path` is a pathname with an optional query string
+export function parseRoute(path: string): Route {
+  const { pathname, searchParams } = new URL(path, "http://localhost");
+  const param = (name: string) => searchParams.get(name) || undefined;
+  let segments: string[];
+  try {
+    segments = pathname
+      .split("/")
+      .filter(Boolean)
+      .map((segment) => decodeURIComponent(segment));
+  } catch {
+    // A hand-edited URL with a broken escape such as %E0%A4%A
+    return HOME;
+  }
+
+  if (segments.length === 0) {
+    const url = param("url");
+    const step = Number(param("step"));
+    const routeType = param("routes");
+    if (!url || (step !== 2 && step !== 3)) return HOME;
+    if (step === 3 && (routeType === "discover" || routeType === "custom")) {
+      return { name: "new", step, url, routeType };
+    }
+    return { name: "new", step: 2, url };
+  }
+
+  const [view, id] = segments;
+  if (segments.length === 2 && view === "runs") return { name: "run", id };
+  if (segments.length === 2 && view === "share" && /^[\w-]+$/.test(id)) {
+    return { name: "share", token: id };
+  }
+  if (segments.length > 1) return HOME;
+
+  switch (view) {
+    case "history":
+      return {
+        name: "history",
+        domain: param("domain"),
+        monitorId: param("monitor"),
+      };
+    case "compare":
+      return {
+        name: "compare",
+        ids: (param("ids") ?? "").split(",").filter(Boolean),
+      };
+    case "trends":
+      return { name: "trends", domain: param("domain") };
+    case "monitors":
+      return { name: "monitors" };
+    default:
+      return HOME;
+  }
+}
+
+export function routePath(route: Route): string {
+  const withQuery = (pathname: string, params: Record<string, unknown>) => {
+    const query = new URLSearchParams();
+    for (const [name, value] of Object.entries(params)) {
+      if (value) query.set(name, String(value));
+    }
+    const search = query.toString();
+    return search ? `${pathname}?${search}` : pathname;
+  };
+
+  switch (route.name) {
+    case "new":
+      return route.step === 1
+        ? "/"
+        : withQuery("/", {
+            step: route.step,
+            url: route.url,
+            routes: route.routeType,
+          });
+    case "run":
+      return `/runs/${encodeURIComponent(route.id)}`;
+    case "history":
+      return withQuery("/history", {
+        domain: route.domain,
+        monitor: route.monitorId,
+      });
+    case "compare":
+      // Commas are kept readable; ids never contain them
+      return withQuery("/compare", { ids: route.ids.join(",") }).replace(
+        /%2C/g,
+        ","
+      );
+    case "trends":
+      return withQuery("/trends", { domain: route.domain });
+    case "monitors":
+      return "/monitors";
+    case "share":
+      return `/share/${route.token}`;
+  }
+}
+
+const currentPath = () => window.location.pathname + window.location.search;
+
+// Pushes a history entry unless `replace` is set, e.g. for filter changes
+// that should not each need a press of the back button
+export function navigate(
+  route: Route,
+  options: { replace?: boolean } = {}
+): void {
+  const path = routePath(route);
+  if (path === currentPath()) return;
+  if (options.replace) {
+    window.history.replaceState(null, "", path);
+  } else {
+    window.history.pushState(null, "", path);
+    window.scrollTo(0, 0);
+  }
+  window.dispatchEvent(new Event(NAVIGATE_EVENT));
+}
+
+function subscribe(callback: () => void): () => void {
+  window.addEventListener("popstate", callback);
+  window.addEventListener(NAVIGATE_EVENT, callback);
+  return () => {
+    window.removeEventListener("popstate", callback);
+    window.removeEventListener(NAVIGATE_EVENT, callback);
+  };
+}
+
+// The current route, updated on navigate() and the browser's back and
+// forward buttons
+export function useRoute(): Route {
+  const path = useSyncExternalStore(subscribe, currentPath);
+  return useMemo(() => parseRoute(path), [path]);
+}
+
+// Absolute, for copying into emails and chats
+export function shareUrl(token: string): string {
+  return `${window.location.origin}${routePath({ name: "share", token })}`;
+}
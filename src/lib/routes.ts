@@ -0,0 +1,82 @@
+// Path helpers shared by route discovery and the route picker
+
+// `*` matches within one path segment, `**` across segments, `?` one
+// character. Patterns without a leading slash match anywhere in the path.
+export function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "*" && pattern[i + 1] === "*") {
+      source += ".*";
+      i++;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(pattern.startsWith("/") ? `^${source}$` : source);
+}
+
+export function matchesAny(path: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => globToRegExp(pattern).test(path));
+}
+
+// Segments that are almost certainly identifiers rather than page names:
+// numbers, UUIDs, hashes and dates
+const ID_SEGMENT =
+  /^(\d+|[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|[0-9a-f]{12,}|\d{4}-\d{2}(-\d{2})?)$/i;
+
+// A parent with at least this many children is treated as a listing whose
+// children share one template, e.g. /blog/first-post, /blog/second-post
+const MIN_TEMPLATE_SIBLINGS = 3;
+
+export interface RouteTemplate {
+  // Path with variable segments replaced by `*`, e.g. `/blog/*`
+  template: string;
+  paths: string[];
+  // The path to test when testing one page per template
+  sample: string;
+}
+
+function splitPath(path: string): string[] {
+  return path.split("?")[0].split("/").filter(Boolean);
+}
+
+// Groups paths that most likely render with the same page template, keeping
+// first-seen order for both the groups and the paths inside them
+export function groupByTemplate(paths: string[]): RouteTemplate[] {
+  const normalized = paths.map((path) =>
+    splitPath(path).map((segment) => (ID_SEGMENT.test(segment) ? "*" : segment))
+  );
+
+  const children = new Map<string, Set<string>>();
+  for (const segments of normalized) {
+    if (segments.length === 0) continue;
+    const parent = segments.slice(0, -1).join("/");
+    if (!children.has(parent)) children.set(parent, new Set());
+    children.get(parent)!.add(segments[segments.length - 1]);
+  }
+
+  const groups = new Map<string, RouteTemplate>();
+  paths.forEach((path, index) => {
+    const segments = [...normalized[index]];
+    const parent = segments.slice(0, -1).join("/");
+    // The root's children are top-level sections, not instances of a template
+    if (parent && (children.get(parent)?.size ?? 0) >= MIN_TEMPLATE_SIBLINGS) {
+      segments[segments.length - 1] = "*";
+    }
+
+    const template = `/${segments.join("/")}`;
+    const group = groups.get(template);
+    if (group) {
+      group.paths.push(path);
+    } else {
+      groups.set(template, { template, paths: [path], sample: path });
+    }
+  });
+
+  return [...groups.values()];
+}
@@ -0,0 +1,97 @@
+import type {
+  AnalysisResult,
+  LighthouseMetrics,
+  MetricStats,
+  MetricSummary,
+} from "../services/lighthouseService";
+
+const SCORE_KEYS = new Set<keyof LighthouseMetrics>([
+  "performance",
+  "accessibility",
+  "bestPractices",
+  "seo",
+]);
+
+export function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Population standard deviation: the runs are all we measured, not a sample
+// of some larger set
+export function standardDeviation(values: number[]): number {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance =
+    values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+  return Math.sqrt(variance);
+}
+
+export function summarize(values: number[]): MetricSummary | null {
+  if (values.length === 0) return null;
+  return {
+    median: median(values),
+    min: Math.min(...values),
+    max: Math.max(...values),
+    stdDev: standardDeviation(values),
+  };
+}
+
+export interface AggregatedRuns extends AnalysisResult {
+  stats: MetricStats;
+}
+
+// Collapses repeated runs of one URL into the median of every metric. Field
+// data, audits and the raw report come from the run whose performance score
+// is closest to that median, so they describe a real, typical page load.
+export function aggregateRuns(runs: AnalysisResult[]): AggregatedRuns {
+  const keys = Object.keys(runs[0].metrics) as (keyof LighthouseMetrics)[];
+  const metrics = { ...runs[0].metrics };
+  const stats: MetricStats = {};
+
+  for (const key of keys) {
+    const values = runs
+      .map((run) => run.metrics[key])
+      .filter((value): value is number => value !== null);
+    const summary = summarize(values);
+    if (!summary) continue;
+
+    // Scores are whole numbers everywhere else in the app
+    const value = SCORE_KEYS.has(key)
+      ? Math.round(summary.median)
+      : summary.median;
+    (metrics as Record<keyof LighthouseMetrics, number | null>)[key] = value;
+    stats[key] = summary;
+  }
+
+  const representative = runs.reduce((best, run) =>
+    Math.abs(run.metrics.performance - metrics.performance) <
+    Math.abs(best.metrics.performance - metrics.performance)
+      ? run
+      : best
+  );
+
+  return { ...representative, metrics, stats };
+}
+
+// Average of the per-route min and max, used to draw a run-to-run variance
+// band around an average score. Null when no route was run more than once.
+export function averageRange(
+  routes: { stats?: MetricStats; runs?: number }[],
+  key: keyof LighthouseMetrics
+): { min: number; max: number } | null {
+  const summaries = routes
+    .filter((route) => (route.runs ?? 1) > 1)
+    .map((route) => route.stats?.[key])
+    .filter((summary): summary is MetricSummary => !!summary);
+  if (summaries.length === 0) return null;
+
+  const average = (values: number[]) =>
+    values.reduce((sum, value) => sum + value, 0) / values.length;
+  return {
+    min: average(summaries.map((summary) => summary.min)),
+    max: average(summaries.map((summary) => summary.max)),
+  };
+}
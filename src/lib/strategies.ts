@@ -0,0 +1,85 @@
+import type { Strategy } from "../services/lighthouseService";
+import type { LighthouseResult, RawReports, StrategyResults } from "./supabase";
+
+// What a run tests: one strategy, or both as a single run
+export type StrategyMode = Strategy | "both";
+
+export const STRATEGIES: Strategy[] = ["mobile", "desktop"];
+
+export const STRATEGY_LABELS: Record<StrategyMode, string> = {
+  mobile: "Mobile",
+  desktop: "Desktop",
+  both: "Mobile + Desktop",
+};
+
+export function strategiesOf(mode: StrategyMode): Strategy[] {
+  return mode === "both" ? STRATEGIES : [mode];
+}
+
+export interface StrategyRun extends StrategyResults {
+  // Null for rows saved before the strategy was recorded
+  strategy: Strategy | null;
+}
+
+// The per-strategy parts of a run: the top-level fields of a single-strategy
+// run, or each side of a "both" run
+export function strategyRuns(
+  result: Pick<
+    LighthouseResult,
+    | "strategy"
+    | "results"
+    | "avg_scores"
+    | "budget_results"
+    | "regression_results"
+    | "strategy_results"
+  >
+): StrategyRun[] {
+  if (result.strategy === "both") {
+    return STRATEGIES.filter(
+      (strategy) => result.strategy_results?.[strategy]
+    ).map((strategy) => ({
+      strategy,
+      ...result.strategy_results![strategy]!,
+    }));
+  }
+  return [
+    {
+      strategy: result.strategy ?? null,
+      results: result.results,
+      avg_scores: result.avg_scores,
+      budget_results: result.budget_results,
+      regression_results: result.regression_results,
+    },
+  ];
+}
+
+export function findStrategyRun(
+  result: Parameters<typeof strategyRuns>[0],
+  strategy: Strategy
+): StrategyRun | undefined {
+  return strategyRuns(result).find((run) => run.strategy === strategy);
+}
+
+// Raw reports of "both" runs are keyed by strategy and route, since the
+// same route is analyzed twice
+export function rawReportKey(
+  mode: StrategyMode | null | undefined,
+  strategy: Strategy | null,
+  path: string
+): string {
+  return mode === "both" ? `${strategy}:${path}` : path;
+}
+
+export function rawReportsFor(
+  rawReports: RawReports,
+  mode: StrategyMode | null | undefined,
+  strategy: Strategy | null
+): RawReports {
+  if (mode !== "both") return rawReports;
+  const prefix = `${strategy}:`;
+  const reports: RawReports = {};
+  for (const [key, report] of Object.entries(rawReports)) {
+    if (key.startsWith(prefix)) reports[key.slice(prefix.length)] = report;
+  }
+  return reports;
+}
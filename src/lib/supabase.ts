@@ -1,34 +1,132 @@
-import { createClient } from "@supabase/supabase-js";
+import { SupabaseClient, createClient } from "@supabase/supabase-js";
+import type {
+  AuditFinding,
+  FieldData,
+  LighthouseMetrics,
+  MetricStats,
+  PageSpeedResponse,
+  Strategy,
+} from "../services/lighthouseService";
+import { Budget, BudgetResult, evaluateBudgets } from "./budgets";
+import {
+  RAW_REPORT_ENCODING,
+  compressJson,
+  decompressJson,
+} from "./compression";
+import { normalizeMetrics } from "./metrics";
+import type { RunProfiles } from "./profiles";
+import {
+  RouteOutcome,
+  failedRoutes,
+  inferStatus,
+  measuredResults,
+} from "./routeStatus";
+import type { StrategyMode } from "./strategies";
+import type { PageAuth, ProviderName } from "../services/analysisProvider";
+import {
+  DEFAULT_TOLERANCES,
+  RegressionResult,
+  Tolerances,
+  diffRuns,
+} from "./regressions";
 
-const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+// `import.meta.env` only exists in the Vite build; Node processes such as the
+// job server pass their own client to LighthouseStorage.configure
+const supabaseUrl = import.meta.env?.VITE_SUPABASE_URL;
+const supabaseAnonKey = import.meta.env?.VITE_SUPABASE_ANON_KEY;
 
-if (!supabaseUrl || !supabaseAnonKey) {
+if (import.meta.env && (!supabaseUrl || !supabaseAnonKey)) {
   console.warn("Supabase credentials not found. Using local storage fallback.");
 }
 
-export const supabase =
+export let supabase: SupabaseClient | null =
   supabaseUrl && supabaseAnonKey
     ? createClient(supabaseUrl, supabaseAnonKey)
     : null;
 
-export interface LighthouseResult {
+// The subset of the Web Storage API used for the local fallback
+export interface LocalStore {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+function createMemoryStore(): LocalStore {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+    removeItem: (key) => void items.delete(key),
+  };
+}
+
+let localStore: LocalStore =
+  typeof localStorage !== "undefined" ? localStorage : createMemoryStore();
+
+// Runs the browser keeps in local history; saving another drops the oldest.
+// The job server configures its own limit.
+export const LOCAL_HISTORY_LIMIT = 10;
+
+// Null keeps every run
+let localHistoryLimit: number | null = LOCAL_HISTORY_LIMIT;
+
+// Who created a row and the team it belongs to. Null in local-only mode and
+// on rows saved before sign-in was required.
+export interface Ownership {
+  owner_id?: string | null;
+  team_id?: string | null;
+}
+
+// The signed-in user and the team the browser is working in: reads are
+// limited to that team and new rows are owned by the user. The job server
+// serves every team, so it passes the owner and team with each call instead.
+export interface StorageScope {
+  ownerId: string;
+  teamId: string;
+}
+
+let scope: StorageScope | null = null;
+
+// Values set on the row win over the scope's
+function ownership(row: Ownership): Required<Ownership> {
+  return {
+    owner_id: row.owner_id ?? scope?.ownerId ?? null,
+    team_id: row.team_id ?? scope?.teamId ?? null,
+  };
+}
+
+// Keeps the local fallback from showing another team's backups
+function inScope(row: Ownership): boolean {
+  return !scope || row.team_id === scope.teamId;
+}
+
+export interface LighthouseResult extends Ownership {
   id: string;
   domain: string;
   url: string;
   timestamp: number | string;
+  // Older rows were saved before the strategy was recorded. "both" runs keep
+  // their results in `strategy_results`; their top-level `results` are empty
+  // and `avg_scores` averages the two strategies.
+  strategy?: StrategyMode | null;
+  strategy_results?: Partial<Record<Strategy, StrategyResults>> | null;
+  // Backend that ran Lighthouse; null for rows saved before it was recorded
+  provider?: ProviderName | null;
+  // Devices emulated per strategy; strategies without one, and rows saved
+  // before profiles existed, used Lighthouse's defaults (see lib/profiles)
+  profiles?: RunProfiles | null;
+  // Set when a scheduled monitor started the run
+  monitor_id?: string | null;
+  // Pass/fail against the budgets in effect for the run; null without any
+  budget_results?: BudgetResult | null;
+  // Diff against the domain's baseline for the strategy; null without one
+  regression_results?: RegressionResult | null;
+  // Routes measured again after the run, oldest first; null or missing when
+  // none were
+  reruns?: RouteRerun[] | null;
   routes: RouteConfig[];
   results: {
-    [route: string]: {
-      performance: number;
-      accessibility: number;
-      bestPractices: number;
-      seo: number;
-      fcp: number;
-      lcp: number;
-      cls: number;
-      fid: number;
-    };
+    [route: string]: RouteResult;
   };
   avg_scores: {
     performance: number;
@@ -39,13 +137,115 @@ export interface LighthouseResult {
   created_at?: string;
 }
 
+// One strategy's share of a "both" run
+export interface StrategyResults {
+  results: {
+    [route: string]: RouteResult;
+  };
+  avg_scores: LighthouseResult["avg_scores"];
+  budget_results?: BudgetResult | null;
+  regression_results?: RegressionResult | null;
+}
+
+// What callers pass to LighthouseStorage.saveResult; averages and baseline
+// comparisons are filled in on save
+export type NewLighthouseResult = Omit<
+  LighthouseResult,
+  "id" | "domain" | "avg_scores" | "strategy_results"
+> & {
+  strategy_results?: Partial<
+    Record<Strategy, Omit<StrategyResults, "avg_scores">>
+  > | null;
+};
+
+// Everything stored for a single route of a run. The metrics of a failed
+// route are zeroed placeholders; check its status before using them.
+export interface RouteResult extends LighthouseMetrics, RouteOutcome {
+  // Chrome UX Report field data; missing on rows saved before it was kept
+  fieldData?: FieldData | null;
+  // Failing performance audits, most useful first
+  audits?: AuditFinding[];
+  // Successful runs behind the metrics, which are medians when above 1;
+  // missing on rows saved before repeated runs were supported
+  runs?: number;
+  stats?: MetricStats;
+}
+
+// One re-measurement of some routes of a saved run, per strategy
+export interface RouteRerun {
+  // ISO time the new results were merged in
+  at: string;
+  strategy: Strategy;
+  routes: string[];
+  // Those of `routes` that failed again
+  failed: string[];
+}
+
 export interface RouteConfig {
   id: string;
   path: string;
   name: string;
 }
 
+// Full PageSpeed responses keyed by route, stored apart from the result row
+export type RawReports = Record<string, PageSpeedResponse>;
+
+const RAW_REPORTS_KEY = "lighthouse-raw-reports";
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Values per `in` filter of a lookup, which travel in the request URL
+const LOOKUP_CHUNK = 100;
+
+// Most runs plotted on the trend charts at once
+export const TREND_RESULT_LIMIT = 500;
+
+// A read-only link to a single run. Anyone with the token can open the run
+// until the link expires or is revoked, without seeing the rest of history.
+export interface ShareLink extends Ownership {
+  id: string;
+  result_id: string;
+  token: string;
+  // Null for links that never expire
+  expires_at: string | null;
+  revoked_at: string | null;
+  created_at?: string;
+}
+
+const SHARES_KEY = "lighthouse-shares";
+
+// 24 random bytes, base64url encoded
+function createShareToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+export function isShareActive(share: ShareLink, now = Date.now()): boolean {
+  return (
+    !share.revoked_at &&
+    (!share.expires_at || Date.parse(share.expires_at) > now)
+  );
+}
+
 export class LighthouseStorage {
+  static configure(options: {
+    client?: SupabaseClient | null;
+    localStore?: LocalStore;
+    scope?: StorageScope | null;
+    localHistoryLimit?: number | null;
+  }): void {
+    if (options.client !== undefined) supabase = options.client;
+    if (options.localStore) localStore = options.localStore;
+    if (options.localHistoryLimit !== undefined) {
+      localHistoryLimit = options.localHistoryLimit;
+    }
+    if (options.scope !== undefined) scope = options.scope;
+  }
+
   static extractDomain(url: string): string {
     try {
       const urlObj = new URL(url);
@@ -62,9 +262,38 @@ export class LighthouseStorage {
     return timestamp;
   }
 
+  // Upgrades rows written with older metric schemas to the current shape
+  static normalizeResult(result: LighthouseResult): LighthouseResult {
+    const normalizeResults = (source: LighthouseResult["results"]) => {
+      const results: LighthouseResult["results"] = {};
+      for (const [route, metrics] of Object.entries(source || {})) {
+        results[route] = inferStatus(normalizeMetrics(metrics));
+      }
+      return results;
+    };
+
+    let strategy_results = result.strategy_results;
+    if (strategy_results) {
+      strategy_results = Object.fromEntries(
+        Object.entries(strategy_results).map(([strategy, part]) => [
+          strategy,
+          { ...part, results: normalizeResults(part.results) },
+        ])
+      );
+    }
+    return {
+      ...result,
+      results: normalizeResults(result.results),
+      strategy_results,
+    };
+  }
+
+  // Route metrics already hold the per-route median of repeated runs. Failed
+  // routes are left out; a run where every route failed averages to zero.
   static calculateAverageScores(
-    results: LighthouseResult["results"]
+    allResults: LighthouseResult["results"]
   ): LighthouseResult["avg_scores"] {
+    const results = measuredResults(allResults);
     const routeCount = Object.keys(results).length;
     if (routeCount === 0) {
       return { performance: 0, accessibility: 0, bestPractices: 0, seo: 0 };
@@ -88,17 +317,80 @@ export class LighthouseStorage {
     };
   }
 
+  // Averages the per-strategy averages of a "both" run, leaving out a side
+  // where every route failed
+  static combineAverageScores(
+    parts: StrategyResults[]
+  ): LighthouseResult["avg_scores"] {
+    const scores = parts
+      .filter((part) => Object.keys(measuredResults(part.results)).length > 0)
+      .map((part) => part.avg_scores);
+    if (scores.length === 0) {
+      return { performance: 0, accessibility: 0, bestPractices: 0, seo: 0 };
+    }
+    const combine = (key: keyof LighthouseResult["avg_scores"]) =>
+      Math.round(
+        scores.reduce((sum, score) => sum + score[key], 0) / scores.length
+      );
+    return {
+      performance: combine("performance"),
+      accessibility: combine("accessibility"),
+      bestPractices: combine("bestPractices"),
+      seo: combine("seo"),
+    };
+  }
+
   static async saveResult(
-    result: Omit<LighthouseResult, "id" | "domain" | "avg_scores">
+    result: NewLighthouseResult,
+    rawReports?: RawReports
   ): Promise<LighthouseResult | null> {
     const domain = this.extractDomain(result.url);
-    const avg_scores = this.calculateAverageScores(result.results);
+    const owner = ownership(result);
+
+    let strategy_results: LighthouseResult["strategy_results"];
+    if (result.strategy_results) {
+      strategy_results = {};
+      for (const [strategy, part] of Object.entries(
+        result.strategy_results
+      ) as [Strategy, Omit<StrategyResults, "avg_scores">][]) {
+        strategy_results[strategy] = {
+          ...part,
+          avg_scores: this.calculateAverageScores(part.results),
+          regression_results:
+            part.regression_results === undefined
+              ? await this.compareWithBaseline(
+                  domain,
+                  strategy,
+                  part.results,
+                  owner.team_id
+                )
+              : part.regression_results,
+        };
+      }
+    }
+
+    const avg_scores = strategy_results
+      ? this.combineAverageScores(Object.values(strategy_results))
+      : this.calculateAverageScores(result.results);
 
     // Convert timestamp to proper ISO string if it's a number
     const timestamp = this.normalizeTimestamp(result.timestamp);
 
     const resultToSave = {
       ...result,
+      ...owner,
+      strategy_results,
+      regression_results:
+        result.regression_results === undefined &&
+        result.strategy &&
+        result.strategy !== "both"
+          ? await this.compareWithBaseline(
+              domain,
+              result.strategy,
+              result.results,
+              owner.team_id
+            )
+          : (result.regression_results ?? null),
       timestamp,
       domain,
       avg_scores,
@@ -121,6 +413,10 @@ export class LighthouseStorage {
 
         console.log("Successfully saved to Supabase:", data);
 
+        if (rawReports) {
+          await this.saveRawReports(data.id, rawReports);
+        }
+
         // Also save to local storage as backup
         this.saveToLocalStorage({ ...resultToSave, id: data.id });
 
@@ -128,35 +424,360 @@ export class LighthouseStorage {
       } catch (error) {
         console.error("Supabase save failed:", error);
         // Fallback to localStorage
-        return this.saveToLocalStorage(resultToSave);
+        return this.saveWithRawReportsLocally(resultToSave, rawReports);
       }
     } else {
       console.log("Supabase not configured, saving to localStorage only");
-      return this.saveToLocalStorage(resultToSave);
+      return this.saveWithRawReportsLocally(resultToSave, rawReports);
     }
   }
 
+  // Merges re-measured routes into a saved run, per strategy. The averages,
+  // budget results and baseline diff of the run are brought up to date, the
+  // re-measurement is added to `reruns` and the new raw reports, keyed as the
+  // run keys them, replace the old ones. A route that fails again keeps its
+  // previous raw report, if it had one.
+  static async replaceRoutes(
+    result: LighthouseResult,
+    updates: Partial<Record<Strategy, LighthouseResult["results"]>>,
+    rawReports: RawReports = {}
+  ): Promise<LighthouseResult> {
+    const refresh = async <T extends Omit<StrategyResults, "avg_scores">>(
+      part: T,
+      strategy: Strategy | null
+    ) => {
+      const changes = (strategy && updates[strategy]) || {};
+      const results = { ...part.results, ...changes };
+      return {
+        ...part,
+        results,
+        budget_results: part.budget_results
+          ? evaluateBudgets(part.budget_results.budgets, results)
+          : (part.budget_results ?? null),
+        regression_results:
+          part.regression_results && strategy
+            ? await this.rediffRoutes(
+                result,
+                strategy,
+                part.regression_results,
+                results,
+                Object.keys(changes)
+              )
+            : (part.regression_results ?? null),
+      };
+    };
+
+    const at = new Date().toISOString();
+    const reruns: RouteRerun[] = [
+      ...(result.reruns ?? []),
+      ...(Object.entries(updates) as [Strategy, LighthouseResult["results"]][])
+        .filter(([, routes]) => Object.keys(routes).length > 0)
+        .map(([strategy, routes]) => ({
+          at,
+          strategy,
+          routes: Object.keys(routes),
+          failed: failedRoutes(routes),
+        })),
+    ];
+
+    let changes: Pick<
+      LighthouseResult,
+      | "results"
+      | "avg_scores"
+      | "budget_results"
+      | "regression_results"
+      | "strategy_results"
+      | "reruns"
+    >;
+    if (result.strategy === "both") {
+      const strategy_results: NonNullable<
+        LighthouseResult["strategy_results"]
+      > = {};
+      for (const [strategy, part] of Object.entries(
+        result.strategy_results ?? {}
+      ) as [Strategy, StrategyResults][]) {
+        const refreshed = await refresh(part, strategy);
+        strategy_results[strategy] = {
+          ...refreshed,
+          avg_scores: this.calculateAverageScores(refreshed.results),
+        };
+      }
+      changes = {
+        results: result.results,
+        avg_scores: this.combineAverageScores(Object.values(strategy_results)),
+        budget_results: result.budget_results ?? null,
+        regression_results: result.regression_results ?? null,
+        strategy_results,
+        reruns,
+      };
+    } else {
+      const refreshed = await refresh(result, result.strategy ?? null);
+      changes = {
+        results: refreshed.results,
+        avg_scores: this.calculateAverageScores(refreshed.results),
+        budget_results: refreshed.budget_results,
+        regression_results: refreshed.regression_results,
+        strategy_results: result.strategy_results ?? null,
+        reruns,
+      };
+    }
+
+    if (supabase) {
+      const { data, error } = await supabase
+        .from("lighthouse_results")
+        .update(changes)
+        .eq("id", result.id)
+        .select()
+        .maybeSingle();
+      if (error) throw new Error(`Database error: ${error.message}`);
+      // Runs that only made it to the local copy when Supabase failed are
+      // updated there
+      if (data) {
+        await this.saveRawReports(result.id, rawReports);
+        this.updateLocalCopy(result.id, changes);
+        return this.normalizeResult(data);
+      }
+    }
+
+    const updated = this.updateLocalCopy(result.id, changes);
+    if (!updated) throw new Error("The run to update no longer exists");
+    await this.saveRawReportsToLocalStorage(result.id, rawReports);
+    return this.normalizeResult(updated);
+  }
+
+  // Re-diffs the given routes when the run's baseline is still the one it
+  // was compared with. Once the baseline has moved on they are left out of
+  // the diff instead, as they were measured after the comparison was made.
+  private static async rediffRoutes(
+    result: LighthouseResult,
+    strategy: Strategy,
+    regressions: RegressionResult,
+    results: LighthouseResult["results"],
+    paths: string[]
+  ): Promise<RegressionResult> {
+    const baseline = await BaselineStorage.getBaseline(
+      result.domain,
+      strategy,
+      result.team_id ?? null
+    ).catch((error) => {
+      console.error("Baseline lookup failed:", error);
+      return null;
+    });
+    const fresh =
+      baseline &&
+      baseline.id === regressions.baseline_id &&
+      baseline.timestamp === regressions.baseline_timestamp
+        ? BaselineStorage.compare(baseline, results)
+        : null;
+
+    const routes = { ...regressions.routes };
+    for (const path of paths) {
+      if (fresh?.routes[path]) routes[path] = fresh.routes[path];
+      else delete routes[path];
+    }
+    return {
+      ...regressions,
+      regressed: Object.values(routes).some((list) => list.length > 0),
+      routes,
+    };
+  }
+
+  // Updates the run in local history; null when it is not there
+  private static updateLocalCopy(
+    id: string,
+    changes: Partial<LighthouseResult>
+  ): LighthouseResult | null {
+    const history = this.getFromLocalStorage();
+    const index = history.findIndex((result) => result.id === id);
+    if (index === -1) return null;
+    history[index] = { ...history[index], ...changes };
+    localStore.setItem("lighthouse-history", JSON.stringify(history));
+    return history[index];
+  }
+
+  // A missing or unreachable baseline never prevents the run from being saved
+  private static async compareWithBaseline(
+    domain: string,
+    strategy: Strategy,
+    results: LighthouseResult["results"],
+    teamId: string | null
+  ): Promise<RegressionResult | null> {
+    try {
+      const baseline = await BaselineStorage.getBaseline(
+        domain,
+        strategy,
+        teamId
+      );
+      return baseline ? BaselineStorage.compare(baseline, results) : null;
+    } catch (error) {
+      console.error("Baseline lookup failed:", error);
+      return null;
+    }
+  }
+
+  private static async saveWithRawReportsLocally(
+    result: Omit<LighthouseResult, "id">,
+    rawReports?: RawReports
+  ): Promise<LighthouseResult> {
+    const saved = this.saveToLocalStorage(result);
+    if (rawReports) {
+      await this.saveRawReportsToLocalStorage(saved.id, rawReports);
+    }
+    return saved;
+  }
+
+  private static async saveRawReports(
+    resultId: string,
+    rawReports: RawReports
+  ): Promise<void> {
+    if (!supabase) return;
+
+    try {
+      const rows = await Promise.all(
+        Object.entries(rawReports).map(async ([route, report]) => ({
+          result_id: resultId,
+          route,
+          encoding: RAW_REPORT_ENCODING,
+          payload: await compressJson(report),
+        }))
+      );
+      if (rows.length === 0) return;
+
+      // Re-measured routes replace their report
+      const { error } = await supabase
+        .from("lighthouse_raw_reports")
+        .upsert(rows, { onConflict: "result_id,route" });
+
+      if (error) {
+        console.error("Error saving raw reports to Supabase:", error);
+      }
+    } catch (error) {
+      // The summary row is already saved, so a missing raw report only
+      // disables the full export for this run
+      console.error("Failed to save raw reports:", error);
+    }
+  }
+
+  private static async saveRawReportsToLocalStorage(
+    resultId: string,
+    rawReports: RawReports
+  ): Promise<void> {
+    try {
+      const compressed: Record<string, string> = {};
+      for (const [route, report] of Object.entries(rawReports)) {
+        compressed[route] = await compressJson(report);
+      }
+
+      const store = this.getRawReportsFromLocalStorage();
+      store[resultId] = { ...store[resultId], ...compressed };
+
+      // Only keep raw reports for runs still present in local history
+      const keptIds = new Set(this.getFromLocalStorage().map((r) => r.id));
+      for (const id of Object.keys(store)) {
+        if (!keptIds.has(id)) delete store[id];
+      }
+
+      localStore.setItem(RAW_REPORTS_KEY, JSON.stringify(store));
+    } catch (error) {
+      // Usually the localStorage quota; the summary is still saved
+      console.error("Failed to save raw reports locally:", error);
+    }
+  }
+
+  private static getRawReportsFromLocalStorage(): Record<
+    string,
+    Record<string, string>
+  > {
+    const saved = localStore.getItem(RAW_REPORTS_KEY);
+    return saved ? JSON.parse(saved) : {};
+  }
+
+  static async getRawReports(resultId: string): Promise<RawReports> {
+    const payloads: Record<string, string> = {};
+
+    if (supabase) {
+      try {
+        const { data, error } = await supabase
+          .from("lighthouse_raw_reports")
+          .select("route, payload")
+          .eq("result_id", resultId);
+
+        if (error) {
+          console.error("Error fetching raw reports from Supabase:", error);
+        } else {
+          for (const row of data || []) {
+            payloads[row.route] = row.payload;
+          }
+        }
+      } catch (error) {
+        console.error("Supabase raw report fetch failed:", error);
+      }
+    }
+
+    if (Object.keys(payloads).length === 0) {
+      Object.assign(
+        payloads,
+        this.getRawReportsFromLocalStorage()[resultId] || {}
+      );
+    }
+
+    const reports: RawReports = {};
+    for (const [route, payload] of Object.entries(payloads)) {
+      try {
+        reports[route] = await decompressJson<PageSpeedResponse>(payload);
+      } catch (error) {
+        console.error(`Failed to decode raw report for ${route}:`, error);
+      }
+    }
+    return reports;
+  }
+
   private static saveToLocalStorage(
     result: Omit<LighthouseResult, "id"> & { id?: string }
   ): LighthouseResult {
     const resultWithId = {
       ...result,
-      id: result.id || Date.now().toString(),
+      id: result.id || crypto.randomUUID(),
     };
 
-    const savedHistory = localStorage.getItem("lighthouse-history");
+    const savedHistory = localStore.getItem("lighthouse-history");
     const history: LighthouseResult[] = savedHistory
       ? JSON.parse(savedHistory)
       : [];
-    const updatedHistory = [resultWithId, ...history.slice(0, 9)];
-    localStorage.setItem("lighthouse-history", JSON.stringify(updatedHistory));
+    const updatedHistory = [
+      resultWithId,
+      ...(localHistoryLimit === null
+        ? history
+        : history.slice(0, localHistoryLimit - 1)),
+    ];
+    localStore.setItem("lighthouse-history", JSON.stringify(updatedHistory));
 
     return resultWithId;
   }
 
+  static localHistoryLimit(): number | null {
+    return localHistoryLimit;
+  }
+
+  // Runs that can still be saved before local history drops one; null when
+  // runs go to Supabase or local history keeps every run
+  static localHistoryRoom(): number | null {
+    if (supabase || localHistoryLimit === null) return null;
+    return Math.max(0, localHistoryLimit - this.getFromLocalStorage().length);
+  }
+
   static async getResultsByDomain(
-    domain?: string
+    domain?: string,
+    monitorId?: string
   ): Promise<LighthouseResult[]> {
+    const fromLocalStorage = () =>
+      this.getFromLocalStorage().filter(
+        (result) =>
+          inScope(result) &&
+          (!domain || result.domain === domain) &&
+          (!monitorId || result.monitor_id === monitorId)
+      );
+
     if (supabase) {
       try {
         let query = supabase
@@ -164,15 +785,21 @@ export class LighthouseStorage {
           .select("*")
           .order("timestamp", { ascending: false });
 
+        if (scope) {
+          query = query.eq("team_id", scope.teamId);
+        }
         if (domain) {
           query = query.eq("domain", domain);
         }
+        if (monitorId) {
+          query = query.eq("monitor_id", monitorId);
+        }
 
         const { data, error } = await query.limit(50);
 
         if (error) {
           console.error("Error fetching from Supabase:", error);
-          return this.getFromLocalStorage();
+          return fromLocalStorage();
         }
 
         console.log(
@@ -180,14 +807,134 @@ export class LighthouseStorage {
           data?.length || 0,
           "results"
         );
-        return data || [];
+        return (data || []).map((row) => this.normalizeResult(row));
       } catch (error) {
         console.error("Supabase fetch failed:", error);
-        return this.getFromLocalStorage();
+        return fromLocalStorage();
       }
     } else {
       console.log("Supabase not configured, loading from localStorage");
-      return this.getFromLocalStorage();
+      return fromLocalStorage();
+    }
+  }
+
+  // Oldest first, for plotting trends; `from` and `to` are ISO timestamps.
+  // Ranges with more than TREND_RESULT_LIMIT runs keep the newest ones and
+  // come back `truncated`.
+  static async getResultsInRange(
+    domain: string,
+    from?: string,
+    to?: string
+  ): Promise<{ results: LighthouseResult[]; truncated: boolean }> {
+    const fromLocalStorage = () => ({
+      results: this.getFromLocalStorage()
+        .filter(
+          (result) =>
+            inScope(result) &&
+            result.domain === domain &&
+            (!from || this.normalizeTimestamp(result.timestamp) >= from) &&
+            (!to || this.normalizeTimestamp(result.timestamp) <= to)
+        )
+        .reverse(),
+      truncated: false,
+    });
+
+    if (!supabase) return fromLocalStorage();
+
+    try {
+      let query = supabase
+        .from("lighthouse_results")
+        .select("*")
+        .eq("domain", domain)
+        .order("timestamp", { ascending: false });
+
+      if (scope) {
+        query = query.eq("team_id", scope.teamId);
+      }
+      if (from) {
+        query = query.gte("timestamp", from);
+      }
+      if (to) {
+        query = query.lte("timestamp", to);
+      }
+
+      // One more than shown, to tell whether the range held more
+      const { data, error } = await query.limit(TREND_RESULT_LIMIT + 1);
+
+      if (error) {
+        console.error("Error fetching trend data from Supabase:", error);
+        return fromLocalStorage();
+      }
+      const rows = data || [];
+      return {
+        results: rows
+          .slice(0, TREND_RESULT_LIMIT)
+          .reverse()
+          .map((row) => this.normalizeResult(row)),
+        truncated: rows.length > TREND_RESULT_LIMIT,
+      };
+    } catch (error) {
+      console.error("Supabase trend fetch failed:", error);
+      return fromLocalStorage();
+    }
+  }
+
+  // Runs of the domain started at any of `timestamps`, or with any of `ids`,
+  // for telling imported runs that are already stored. Unlike the history
+  // queries this is not capped, so older runs are found too.
+  static async findResults(
+    domain: string,
+    timestamps: (number | string)[],
+    ids: string[] = []
+  ): Promise<
+    Pick<LighthouseResult, "id" | "url" | "timestamp" | "strategy">[]
+  > {
+    // Compared as instants, since the same time can be written differently
+    const instant = (timestamp: number | string) =>
+      new Date(timestamp).toISOString();
+    const times = [...new Set(timestamps.map(instant))];
+    const fromLocalStorage = () =>
+      this.getFromLocalStorage().filter(
+        (result) =>
+          inScope(result) &&
+          (ids.includes(result.id) ||
+            (result.domain === domain &&
+              times.includes(instant(result.timestamp))))
+      );
+
+    if (!supabase) return fromLocalStorage();
+
+    // Ids of runs exported from a browser-only history are not UUIDs, which
+    // the id column would reject
+    const uuids = ids.filter((id) => UUID_PATTERN.test(id));
+    const chunks = <T>(items: T[]) =>
+      Array.from({ length: Math.ceil(items.length / LOOKUP_CHUNK) }, (_, i) =>
+        items.slice(i * LOOKUP_CHUNK, (i + 1) * LOOKUP_CHUNK)
+      );
+    const lookup = (column: "timestamp" | "id", values: string[]) => {
+      let query = supabase!
+        .from("lighthouse_results")
+        .select("id, url, timestamp, strategy")
+        .in(column, values);
+      if (column === "timestamp") query = query.eq("domain", domain);
+      if (scope) query = query.eq("team_id", scope.teamId);
+      return query;
+    };
+
+    try {
+      const responses = await Promise.all([
+        ...chunks(times).map((chunk) => lookup("timestamp", chunk)),
+        ...chunks(uuids).map((chunk) => lookup("id", chunk)),
+      ]);
+      const failed = responses.find((response) => response.error);
+      if (failed?.error) {
+        console.error("Error looking up runs in Supabase:", failed.error);
+        return fromLocalStorage();
+      }
+      return responses.flatMap((response) => response.data ?? []);
+    } catch (error) {
+      console.error("Supabase run lookup failed:", error);
+      return fromLocalStorage();
     }
   }
 
@@ -240,10 +987,15 @@ export class LighthouseStorage {
   static async getAllDomains(): Promise<string[]> {
     if (supabase) {
       try {
-        const { data, error } = await supabase
+        let query = supabase
           .from("lighthouse_results")
           .select("domain")
           .order("created_at", { ascending: false });
+        if (scope) {
+          query = query.eq("team_id", scope.teamId);
+        }
+
+        const { data, error } = await query;
 
         if (error) {
           console.error("Error fetching domains from Supabase:", error);
@@ -264,12 +1016,15 @@ export class LighthouseStorage {
   }
 
   private static getFromLocalStorage(): LighthouseResult[] {
-    const savedHistory = localStorage.getItem("lighthouse-history");
-    return savedHistory ? JSON.parse(savedHistory) : [];
+    const savedHistory = localStore.getItem("lighthouse-history");
+    const history: LighthouseResult[] = savedHistory
+      ? JSON.parse(savedHistory)
+      : [];
+    return history.map((result) => this.normalizeResult(result));
   }
 
   private static getDomainsFromLocalStorage(): string[] {
-    const history = this.getFromLocalStorage();
+    const history = this.getFromLocalStorage().filter(inScope);
     const domains = history.map((result) => this.extractDomain(result.url));
     return [...new Set(domains)];
   }
@@ -288,7 +1043,7 @@ export class LighthouseStorage {
           return this.getResultByIdFromLocalStorage(id);
         }
 
-        return data;
+        return this.normalizeResult(data);
       } catch (error) {
         console.error("Supabase fetch by ID failed:", error);
         return this.getResultByIdFromLocalStorage(id);
@@ -301,7 +1056,754 @@ export class LighthouseStorage {
   private static getResultByIdFromLocalStorage(
     id: string
   ): LighthouseResult | null {
-    const history = this.getFromLocalStorage();
+    const history = this.getFromLocalStorage().filter(inScope);
     return history.find((result) => result.id === id) || null;
   }
+
+  // Like monitors, share links are never kept in a local copy when Supabase
+  // fails: a link that only exists in this browser would not open elsewhere.
+  // Without Supabase they only open in the browser holding the run.
+  private static getLocalShares(): ShareLink[] {
+    const saved = localStore.getItem(SHARES_KEY);
+    return saved ? JSON.parse(saved) : [];
+  }
+
+  private static setLocalShares(shares: ShareLink[]): void {
+    localStore.setItem(SHARES_KEY, JSON.stringify(shares));
+  }
+
+  // `expiresAt` is an ISO timestamp, or null for a link that never expires
+  static async createShareLink(
+    resultId: string,
+    expiresAt: string | null
+  ): Promise<ShareLink> {
+    const share = {
+      ...ownership({}),
+      result_id: resultId,
+      token: createShareToken(),
+      expires_at: expiresAt,
+      revoked_at: null,
+    };
+
+    if (!supabase) {
+      const saved: ShareLink = {
+        ...share,
+        id: crypto.randomUUID(),
+        created_at: new Date().toISOString(),
+      };
+      this.setLocalShares([...this.getLocalShares(), saved]);
+      return saved;
+    }
+
+    const { data, error } = await supabase
+      .from("result_shares")
+      .insert([share])
+      .select()
+      .single();
+    if (error) throw new Error(`Database error: ${error.message}`);
+    return data;
+  }
+
+  // Newest first, revoked and expired links included
+  static async getShareLinks(resultId: string): Promise<ShareLink[]> {
+    if (!supabase) {
+      return this.getLocalShares()
+        .filter((share) => share.result_id === resultId)
+        .reverse();
+    }
+
+    const { data, error } = await supabase
+      .from("result_shares")
+      .select("*")
+      .eq("result_id", resultId)
+      .order("created_at", { ascending: false });
+    if (error) throw new Error(`Database error: ${error.message}`);
+    return data || [];
+  }
+
+  static async revokeShareLink(id: string): Promise<ShareLink | null> {
+    const revoked_at = new Date().toISOString();
+
+    if (!supabase) {
+      let updated: ShareLink | null = null;
+      this.setLocalShares(
+        this.getLocalShares().map((share) =>
+          share.id === id ? (updated = { ...share, revoked_at }) : share
+        )
+      );
+      return updated;
+    }
+
+    const { data, error } = await supabase
+      .from("result_shares")
+      .update({ revoked_at })
+      .eq("id", id)
+      .select()
+      .maybeSingle();
+    if (error) throw new Error(`Database error: ${error.message}`);
+    return data;
+  }
+
+  // The run behind an active link, or null. Signed-out visitors read it
+  // through a database function that only returns that one run.
+  static async getSharedResult(
+    token: string
+  ): Promise<LighthouseResult | null> {
+    if (!supabase) {
+      const share = this.getLocalShares().find(
+        (candidate) => candidate.token === token
+      );
+      if (!share || !isShareActive(share)) return null;
+      const result = this.getFromLocalStorage().find(
+        (candidate) => candidate.id === share.result_id
+      );
+      return result ?? null;
+    }
+
+    const { data, error } = await supabase.rpc("get_shared_result", {
+      share_token: token,
+    });
+    if (error) throw new Error(`Database error: ${error.message}`);
+    return data ? this.normalizeResult(data) : null;
+  }
+}
+
+// A saved recurring audit, run by the job server's scheduler
+export interface Monitor extends Ownership {
+  id: string;
+  name: string;
+  url: string;
+  domain: string;
+  routes: RouteConfig[];
+  strategy: StrategyMode;
+  // PageSpeed Insights when missing, as on older monitors
+  provider?: ProviderName;
+  // Five-field cron expression, see src/lib/cron.ts
+  schedule: string;
+  // Runs per route, aggregated to their median
+  runs: number;
+  // Budgets every run is evaluated against; missing on older monitors
+  budgets?: Budget[];
+  // Headers, cookies and login steps for pages behind a login, sealed by the
+  // job server (see server/credentials.ts). The API leaves it out of its
+  // responses and sets `has_auth` instead.
+  auth_encrypted?: string | null;
+  has_auth?: boolean;
+  enabled: boolean;
+  last_run_at: string | null;
+  // Null while the monitor is disabled
+  next_run_at: string | null;
+  // Why the last due run could not be queued, e.g. saved credentials that no
+  // longer decrypt; null once a run is queued. Missing on older monitors.
+  last_error?: string | null;
+  created_at?: string;
+}
+
+export type MonitorInput = Omit<
+  Monitor,
+  | "id"
+  | "domain"
+  | "last_run_at"
+  | "next_run_at"
+  | "last_error"
+  | "auth_encrypted"
+  | "has_auth"
+  | "created_at"
+  | keyof Ownership
+> & {
+  // In the clear on the way in; null removes saved credentials
+  auth?: PageAuth | null;
+};
+
+const MONITORS_KEY = "lighthouse-monitors";
+
+// Unlike results, monitors are not copied to local storage when Supabase
+// fails: the scheduler would otherwise run from a stale copy, so errors are
+// thrown to the caller instead
+export class MonitorStorage {
+  private static getLocal(): Monitor[] {
+    const saved = localStore.getItem(MONITORS_KEY);
+    return saved ? JSON.parse(saved) : [];
+  }
+
+  private static setLocal(monitors: Monitor[]): void {
+    localStore.setItem(MONITORS_KEY, JSON.stringify(monitors));
+  }
+
+  // Every team's monitors unless a team is given, for the scheduler
+  static async getMonitors(teamId?: string): Promise<Monitor[]> {
+    if (!supabase) return this.getLocal();
+
+    let query = supabase
+      .from("monitors")
+      .select("*")
+      .order("created_at", { ascending: true });
+    if (teamId) {
+      query = query.eq("team_id", teamId);
+    }
+    const { data, error } = await query;
+    if (error) throw new Error(`Database error: ${error.message}`);
+    return data || [];
+  }
+
+  static async getMonitor(id: string): Promise<Monitor | null> {
+    if (!supabase) {
+      return this.getLocal().find((monitor) => monitor.id === id) || null;
+    }
+
+    const { data, error } = await supabase
+      .from("monitors")
+      .select("*")
+      .eq("id", id)
+      .maybeSingle();
+    if (error) throw new Error(`Database error: ${error.message}`);
+    return data;
+  }
+
+  static async createMonitor(
+    input: Omit<MonitorInput, "auth"> &
+      Pick<Monitor, "next_run_at" | "auth_encrypted"> &
+      Ownership
+  ): Promise<Monitor> {
+    const monitor = {
+      ...input,
+      ...ownership(input),
+      domain: LighthouseStorage.extractDomain(input.url),
+      last_run_at: null,
+      last_error: null,
+    };
+
+    if (!supabase) {
+      const saved: Monitor = {
+        ...monitor,
+        id: crypto.randomUUID(),
+        created_at: new Date().toISOString(),
+      };
+      this.setLocal([...this.getLocal(), saved]);
+      return saved;
+    }
+
+    const { data, error } = await supabase
+      .from("monitors")
+      .insert([monitor])
+      .select()
+      .single();
+    if (error) throw new Error(`Database error: ${error.message}`);
+    return data;
+  }
+
+  static async updateMonitor(
+    id: string,
+    changes: Partial<Omit<Monitor, "id" | "created_at">>
+  ): Promise<Monitor | null> {
+    const update = changes.url
+      ? { ...changes, domain: LighthouseStorage.extractDomain(changes.url) }
+      : changes;
+
+    if (!supabase) {
+      let updated: Monitor | null = null;
+      this.setLocal(
+        this.getLocal().map((monitor) =>
+          monitor.id === id ? (updated = { ...monitor, ...update }) : monitor
+        )
+      );
+      return updated;
+    }
+
+    const { data, error } = await supabase
+      .from("monitors")
+      .update(update)
+      .eq("id", id)
+      .select()
+      .maybeSingle();
+    if (error) throw new Error(`Database error: ${error.message}`);
+    return data;
+  }
+
+  static async deleteMonitor(id: string): Promise<void> {
+    if (!supabase) {
+      this.setLocal(this.getLocal().filter((monitor) => monitor.id !== id));
+      return;
+    }
+
+    const { error } = await supabase.from("monitors").delete().eq("id", id);
+    if (error) throw new Error(`Database error: ${error.message}`);
+  }
+}
+
+export type AlertChannelType = "webhook" | "slack" | "email";
+
+// Where the job server sends alerts when a run of the domain fails its
+// budgets or regresses against the baseline
+export interface AlertChannel extends Ownership {
+  id: string;
+  domain: string;
+  type: AlertChannelType;
+  // The URL to post to, or comma separated addresses for email
+  target: string;
+  enabled: boolean;
+  // ISO time each failure was last sent, keyed by strategy, route, metric
+  // and kind (see server/alerts.ts)
+  last_alerted: Record<string, string>;
+  created_at?: string;
+}
+
+export type AlertChannelInput = Pick<
+  AlertChannel,
+  "domain" | "type" | "target" | "enabled"
+>;
+
+const ALERT_CHANNELS_KEY = "lighthouse-alert-channels";
+
+// Like monitors, alert channels fail loudly rather than falling back to a
+// local copy the server would not see
+export class AlertChannelStorage {
+  private static getLocal(): AlertChannel[] {
+    const saved = localStore.getItem(ALERT_CHANNELS_KEY);
+    return saved ? JSON.parse(saved) : [];
+  }
+
+  private static setLocal(channels: AlertChannel[]): void {
+    localStore.setItem(ALERT_CHANNELS_KEY, JSON.stringify(channels));
+  }
+
+  // Every team's channels unless a team is given
+  static async getChannels(
+    teamId?: string,
+    domain?: string
+  ): Promise<AlertChannel[]> {
+    if (!supabase) {
+      return this.getLocal().filter(
+        (channel) => !domain || channel.domain === domain
+      );
+    }
+
+    let query = supabase
+      .from("alert_channels")
+      .select("*")
+      .order("created_at", { ascending: true });
+    if (teamId) {
+      query = query.eq("team_id", teamId);
+    }
+    if (domain) {
+      query = query.eq("domain", domain);
+    }
+    const { data, error } = await query;
+    if (error) throw new Error(`Database error: ${error.message}`);
+    return data || [];
+  }
+
+  static async getChannel(id: string): Promise<AlertChannel | null> {
+    if (!supabase) {
+      return this.getLocal().find((channel) => channel.id === id) || null;
+    }
+
+    const { data, error } = await supabase
+      .from("alert_channels")
+      .select("*")
+      .eq("id", id)
+      .maybeSingle();
+    if (error) throw new Error(`Database error: ${error.message}`);
+    return data;
+  }
+
+  static async createChannel(
+    input: AlertChannelInput & Ownership
+  ): Promise<AlertChannel> {
+    const channel = { ...input, ...ownership(input), last_alerted: {} };
+
+    if (!supabase) {
+      const saved: AlertChannel = {
+        ...channel,
+        id: crypto.randomUUID(),
+        created_at: new Date().toISOString(),
+      };
+      this.setLocal([...this.getLocal(), saved]);
+      return saved;
+    }
+
+    const { data, error } = await supabase
+      .from("alert_channels")
+      .insert([channel])
+      .select()
+      .single();
+    if (error) throw new Error(`Database error: ${error.message}`);
+    return data;
+  }
+
+  static async updateChannel(
+    id: string,
+    changes: Partial<Omit<AlertChannel, "id" | "created_at">>
+  ): Promise<AlertChannel | null> {
+    if (!supabase) {
+      let updated: AlertChannel | null = null;
+      this.setLocal(
+        this.getLocal().map((channel) =>
+          channel.id === id ? (updated = { ...channel, ...changes }) : channel
+        )
+      );
+      return updated;
+    }
+
+    const { data, error } = await supabase
+      .from("alert_channels")
+      .update(changes)
+      .eq("id", id)
+      .select()
+      .maybeSingle();
+    if (error) throw new Error(`Database error: ${error.message}`);
+    return data;
+  }
+
+  static async deleteChannel(id: string): Promise<void> {
+    if (!supabase) {
+      this.setLocal(this.getLocal().filter((channel) => channel.id !== id));
+      return;
+    }
+
+    const { error } = await supabase
+      .from("alert_channels")
+      .delete()
+      .eq("id", id);
+    if (error) throw new Error(`Database error: ${error.message}`);
+  }
+}
+
+// The run a domain's later runs are compared with, one per strategy. The
+// route metrics are copied so the baseline outlives the ten runs kept in
+// local history.
+export interface Baseline extends Ownership {
+  id: string;
+  domain: string;
+  strategy: Strategy;
+  result_id: string;
+  url: string;
+  // When the baseline run was made
+  timestamp: string;
+  results: Record<string, LighthouseMetrics>;
+  avg_scores: LighthouseResult["avg_scores"];
+  tolerances: Tolerances;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// The strategy's share of a run that becomes a baseline
+export type BaselineSource = Pick<
+  LighthouseResult,
+  "id" | "domain" | "url" | "timestamp" | "results" | "avg_scores" | "team_id"
+> & { strategy: Strategy };
+
+const BASELINES_KEY = "lighthouse-baselines";
+
+// Like monitors, baselines fail loudly instead of falling back to a local
+// copy that could disagree with the database
+export class BaselineStorage {
+  private static getLocal(): Baseline[] {
+    const saved = localStore.getItem(BASELINES_KEY);
+    return saved ? JSON.parse(saved) : [];
+  }
+
+  private static setLocal(baselines: Baseline[]): void {
+    localStore.setItem(BASELINES_KEY, JSON.stringify(baselines));
+  }
+
+  static compare(
+    baseline: Baseline,
+    results: LighthouseResult["results"]
+  ): RegressionResult {
+    return diffRuns(baseline, baseline.results, results, baseline.tolerances);
+  }
+
+  static async getBaselines(domain?: string): Promise<Baseline[]> {
+    if (!supabase) {
+      return this.getLocal().filter(
+        (baseline) => !domain || baseline.domain === domain
+      );
+    }
+
+    let query = supabase
+      .from("baselines")
+      .select("*")
+      .order("domain", { ascending: true });
+    if (scope) {
+      query = query.eq("team_id", scope.teamId);
+    }
+    if (domain) {
+      query = query.eq("domain", domain);
+    }
+    const { data, error } = await query;
+    if (error) throw new Error(`Database error: ${error.message}`);
+    return data || [];
+  }
+
+  // The team's baseline; the scope's team when none is given
+  static async getBaseline(
+    domain: string,
+    strategy: Strategy,
+    teamId: string | null = scope?.teamId ?? null
+  ): Promise<Baseline | null> {
+    if (!supabase) {
+      return (
+        this.getLocal().find(
+          (baseline) =>
+            baseline.domain === domain && baseline.strategy === strategy
+        ) || null
+      );
+    }
+
+    let query = supabase
+      .from("baselines")
+      .select("*")
+      .eq("domain", domain)
+      .eq("strategy", strategy);
+    query = teamId ? query.eq("team_id", teamId) : query.is("team_id", null);
+    const { data, error } = await query.maybeSingle();
+    if (error) throw new Error(`Database error: ${error.message}`);
+    return data;
+  }
+
+  // Replaces the domain's baseline for the run's strategy, keeping its
+  // tolerances unless new ones are given
+  static async setBaseline(
+    result: BaselineSource,
+    tolerances?: Tolerances
+  ): Promise<Baseline> {
+    const owner = ownership({ team_id: result.team_id });
+    const existing = await this.getBaseline(
+      result.domain,
+      result.strategy,
+      owner.team_id
+    );
+    const results: Baseline["results"] = {};
+    for (const [path, metrics] of Object.entries(result.results)) {
+      const { audits, fieldData, runs, stats, ...summary } = metrics;
+      results[path] = summary;
+    }
+    const baseline = {
+      ...owner,
+      domain: result.domain,
+      strategy: result.strategy,
+      result_id: result.id,
+      url: result.url,
+      timestamp: LighthouseStorage.normalizeTimestamp(result.timestamp),
+      results,
+      avg_scores: result.avg_scores,
+      tolerances: tolerances ?? existing?.tolerances ?? DEFAULT_TOLERANCES,
+    };
+
+    if (!supabase) {
+      const saved: Baseline = {
+        ...baseline,
+        id: existing?.id ?? crypto.randomUUID(),
+        created_at: existing?.created_at ?? new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      };
+      this.setLocal([
+        ...this.getLocal().filter((other) => other.id !== saved.id),
+        saved,
+      ]);
+      return saved;
+    }
+
+    const { data, error } = await supabase
+      .from("baselines")
+      .upsert([baseline], { onConflict: "team_id,domain,strategy" })
+      .select()
+      .single();
+    if (error) throw new Error(`Database error: ${error.message}`);
+    return data;
+  }
+
+  static async updateTolerances(
+    id: string,
+    tolerances: Tolerances
+  ): Promise<Baseline | null> {
+    if (!supabase) {
+      let updated: Baseline | null = null;
+      this.setLocal(
+        this.getLocal().map((baseline) =>
+          baseline.id === id
+            ? (updated = {
+                ...baseline,
+                tolerances,
+                updated_at: new Date().toISOString(),
+              })
+            : baseline
+        )
+      );
+      return updated;
+    }
+
+    const { data, error } = await supabase
+      .from("baselines")
+      .update({ tolerances })
+      .eq("id", id)
+      .select()
+      .maybeSingle();
+    if (error) throw new Error(`Database error: ${error.message}`);
+    return data;
+  }
+
+  static async clearBaseline(id: string): Promise<void> {
+    if (!supabase) {
+      this.setLocal(this.getLocal().filter((baseline) => baseline.id !== id));
+      return;
+    }
+
+    const { error } = await supabase.from("baselines").delete().eq("id", id);
+    if (error) throw new Error(`Database error: ${error.message}`);
+  }
+}
+
+// A dated note on a domain's trend charts, such as a deploy
+export interface Annotation extends Ownership {
+  id: string;
+  domain: string;
+  timestamp: string;
+  label: string;
+  created_at?: string;
+}
+
+const ANNOTATIONS_KEY = "lighthouse-annotations";
+
+export class AnnotationStorage {
+  private static getLocal(): Annotation[] {
+    const saved = localStore.getItem(ANNOTATIONS_KEY);
+    return saved ? JSON.parse(saved) : [];
+  }
+
+  private static setLocal(annotations: Annotation[]): void {
+    localStore.setItem(ANNOTATIONS_KEY, JSON.stringify(annotations));
+  }
+
+  // Oldest first
+  static async getAnnotations(domain: string): Promise<Annotation[]> {
+    if (!supabase) {
+      return this.getLocal()
+        .filter((annotation) => annotation.domain === domain)
+        .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    }
+
+    let query = supabase
+      .from("annotations")
+      .select("*")
+      .eq("domain", domain)
+      .order("timestamp", { ascending: true });
+    if (scope) {
+      query = query.eq("team_id", scope.teamId);
+    }
+    const { data, error } = await query;
+    if (error) throw new Error(`Database error: ${error.message}`);
+    return data || [];
+  }
+
+  static async createAnnotation(
+    input: Omit<Annotation, "id" | "created_at">
+  ): Promise<Annotation> {
+    const annotation = { ...input, ...ownership(input) };
+
+    if (!supabase) {
+      const saved: Annotation = {
+        ...annotation,
+        id: crypto.randomUUID(),
+        created_at: new Date().toISOString(),
+      };
+      this.setLocal([...this.getLocal(), saved]);
+      return saved;
+    }
+
+    const { data, error } = await supabase
+      .from("annotations")
+      .insert([annotation])
+      .select()
+      .single();
+    if (error) throw new Error(`Database error: ${error.message}`);
+    return data;
+  }
+
+  static async deleteAnnotation(id: string): Promise<void> {
+    if (!supabase) {
+      this.setLocal(
+        this.getLocal().filter((annotation) => annotation.id !== id)
+      );
+      return;
+    }
+
+    const { error } = await supabase.from("annotations").delete().eq("id", id);
+    if (error) throw new Error(`Database error: ${error.message}`);
+  }
+}
+
+export type TeamRole = "owner" | "member";
+
+export interface Team {
+  id: string;
+  name: string;
+  created_by: string;
+  created_at?: string;
+}
+
+export interface TeamMembership {
+  team: Team;
+  role: TeamRole;
+}
+
+// Teams only exist with Supabase; membership changes go through the
+// database functions in the sign-in migration, which check the caller's role
+export class TeamStorage {
+  private static client(): SupabaseClient {
+    if (!supabase) throw new Error("Teams require Supabase to be configured");
+    return supabase;
+  }
+
+  static async getTeams(userId: string): Promise<TeamMembership[]> {
+    const { data, error } = await this.client()
+      .from("team_members")
+      .select("role, team:teams(*)")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: true });
+    if (error) throw new Error(`Database error: ${error.message}`);
+    return (data || []) as unknown as TeamMembership[];
+  }
+
+  static async getTeam(id: string): Promise<Team | null> {
+    const { data, error } = await this.client()
+      .from("teams")
+      .select("*")
+      .eq("id", id)
+      .maybeSingle();
+    if (error) throw new Error(`Database error: ${error.message}`);
+    return data;
+  }
+
+  static async getRole(
+    teamId: string,
+    userId: string
+  ): Promise<TeamRole | null> {
+    const { data, error } = await this.client()
+      .from("team_members")
+      .select("role")
+      .eq("team_id", teamId)
+      .eq("user_id", userId)
+      .maybeSingle();
+    if (error) throw new Error(`Database error: ${error.message}`);
+    return data?.role ?? null;
+  }
+
+  static async createTeam(name: string): Promise<Team> {
+    const { data, error } = await this.client().rpc("create_team", {
+      team_name: name,
+    });
+    if (error) throw new Error(`Database error: ${error.message}`);
+    return data;
+  }
+
+  // The user must have signed up already
+  static async addMember(teamId: string, email: string): Promise<void> {
+    const { error } = await this.client().rpc("add_team_member", {
+      team: teamId,
+      member_email: email,
+    });
+    if (error) throw new Error(`Database error: ${error.message}`);
+  }
 }
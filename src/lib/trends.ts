@@ -0,0 +1,74 @@
+import type { LighthouseResult } from "./supabase";
+import { BudgetMetric, isScoreMetric } from "./budgets";
+import { isMeasured, measuredResults } from "./routeStatus";
+
+export interface TrendPoint {
+  resultId: string;
+  // Milliseconds since the epoch
+  time: number;
+  value: number;
+}
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const TREND_RANGES: { value: string; label: string; days?: number }[] = [
+  { value: "7", label: "Last 7 days", days: 7 },
+  { value: "30", label: "Last 30 days", days: 30 },
+  { value: "90", label: "Last 90 days", days: 90 },
+  { value: "365", label: "Last year", days: 365 },
+  { value: "all", label: "All time" },
+  { value: "custom", label: "Custom range" },
+];
+
+export function toTime(timestamp: number | string): number {
+  return typeof timestamp === "number"
+    ? timestamp
+    : new Date(timestamp).getTime();
+}
+
+// One route's value, or across all routes when no route is given: the
+// stored average for scores and the mean of the measured routes otherwise.
+// Failed routes have no value.
+export function metricValue(
+  result: LighthouseResult,
+  metric: BudgetMetric,
+  route?: string
+): number | null {
+  if (route) {
+    const metrics = result.results[route];
+    return metrics && isMeasured(metrics) ? (metrics[metric] ?? null) : null;
+  }
+  const measured = Object.values(measuredResults(result.results));
+  if (measured.length === 0) return null;
+  if (isScoreMetric(metric)) return result.avg_scores[metric];
+
+  const values = measured
+    .map((metrics) => metrics[metric])
+    .filter((value): value is number => value !== null && value !== undefined);
+  if (values.length === 0) return null;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+// Oldest first; runs that did not measure the metric are left out
+export function buildSeries(
+  results: LighthouseResult[],
+  metric: BudgetMetric,
+  route?: string
+): TrendPoint[] {
+  return results
+    .map((result) => ({
+      resultId: result.id,
+      time: toTime(result.timestamp),
+      value: metricValue(result, metric, route),
+    }))
+    .filter((point): point is TrendPoint => point.value !== null)
+    .sort((a, b) => a.time - b.time);
+}
+
+// Rounds an axis maximum up to 1, 2 or 5 times a power of ten
+export function niceMax(value: number): number {
+  if (value <= 0) return 1;
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  const step = [1, 2, 5, 10].find((factor) => value <= factor * magnitude)!;
+  return step * magnitude;
+}
@@ -1,10 +1,20 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
+import { AuthGate } from './components/AuthGate';
+import { SharedReportView } from './components/SharedReportView';
+import { parseRoute } from './lib/router';
 import './index.css';
 
+const route = parseRoute(window.location.pathname);
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    {/* Shared reports are public, so they skip sign-in */}
+    {route.name === 'share' ? (
+      <SharedReportView token={route.token} />
+    ) : (
+      <AuthGate>{(account) => <App account={account} />}</AuthGate>
+    )}
   </StrictMode>
 );
@@ -0,0 +1,74 @@
+import type { PageSpeedResponse, Strategy } from "./lighthouseService";
+import type { DeviceProfile } from "../lib/profiles";
+
+// Backends that can produce a Lighthouse report for a URL
+export type ProviderName = "pagespeed" | "local";
+
+export const PROVIDER_NAMES: ProviderName[] = ["pagespeed", "local"];
+
+export const PROVIDER_LABELS: Record<ProviderName, string> = {
+  pagespeed: "PageSpeed Insights",
+  local: "Local Lighthouse",
+};
+
+// Credentials for pages behind a login. Only the local backend can use them;
+// Google's servers cannot be handed a session. Never saved with results.
+export interface PageAuth {
+  // Sent with every request of the page, third-party ones included
+  headers?: Record<string, string>;
+  // Set for the site before the page loads; `domain` defaults to the host
+  // of the page
+  cookies?: { name: string; value: string; domain?: string; path?: string }[];
+  // Run in the same browser before each analysis, so the session cookies it
+  // leaves behind are sent with the audited page
+  login?: LoginScript;
+}
+
+export interface LoginScript {
+  // Page with the login form, a path on the site or an absolute URL
+  url: string;
+  steps: LoginStep[];
+}
+
+// `submit` clicks and waits for the page it navigates to; `click` does not
+// wait. Selectors are CSS selectors.
+export type LoginStep =
+  | { action: "goto"; url: string }
+  | { action: "fill"; selector: string; value: string }
+  | { action: "click"; selector: string }
+  | { action: "submit"; selector: string }
+  | { action: "waitFor"; selector: string };
+
+export const LOGIN_ACTIONS: LoginStep["action"][] = [
+  "goto",
+  "fill",
+  "click",
+  "submit",
+  "waitFor",
+];
+
+export interface FetchReportOptions {
+  signal?: AbortSignal;
+  auth?: PageAuth;
+  // Replaces the default emulation of the strategy; its form factor matches
+  // the strategy
+  profile?: DeviceProfile;
+}
+
+export interface AnalysisProvider {
+  readonly name: ProviderName;
+  // Caps the parallel analyses of a job, e.g. one Chrome at a time
+  readonly maxConcurrency?: number;
+  // Whether fetchReport can use PageAuth and device profiles
+  readonly supportsAuth?: boolean;
+  readonly supportsProfiles?: boolean;
+  isConfigured(): boolean;
+  // Reports come in the PageSpeed API's shape, so every backend is parsed
+  // and stored the same way. Transient failures are thrown as
+  // PageSpeedApiError to be retried.
+  fetchReport(
+    url: string,
+    strategy: Strategy,
+    options?: FetchReportOptions
+  ): Promise<PageSpeedResponse>;
+}
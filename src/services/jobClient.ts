@@ -0,0 +1,262 @@
+import type { Budget } from "../lib/budgets";
+import type { RunProfiles } from "../lib/profiles";
+import type { StrategyMode } from "../lib/strategies";
+import type { PageAuth, ProviderName } from "./analysisProvider";
+import type {
+  AlertChannel,
+  AlertChannelInput,
+  LighthouseResult,
+  Monitor,
+  MonitorInput,
+  RawReports,
+  RouteConfig,
+  RouteResult,
+} from "../lib/supabase";
+import type { RouteProgress, Strategy } from "./lighthouseService";
+import type { DiscoveryOptions, DiscoveryResult } from "./routeDiscovery";
+
+export type JobStatus =
+  "queued" | "running" | "completed" | "failed" | "cancelled";
+
+export interface JobRequest {
+  url: string;
+  routes: RouteConfig[];
+  // "both" analyzes every route once per strategy and saves a single result
+  strategy: StrategyMode;
+  // Backend that runs Lighthouse; PageSpeed Insights when omitted
+  provider?: ProviderName;
+  // Parallel PageSpeed requests for this job; the server default when omitted
+  concurrency?: number;
+  // Analyses per route, aggregated to their median; 1 when omitted
+  runs?: number;
+  // Evaluated once the run completes and saved with the result
+  budgets?: Budget[];
+  // Headers, cookies and login steps for pages behind a login; local
+  // Lighthouse only. Held by the server for the run and never returned with
+  // the job or saved with the result.
+  auth?: PageAuth;
+  // Device and network to emulate per strategy instead of Lighthouse's
+  // defaults; local Lighthouse only. Saved with the result.
+  profiles?: RunProfiles;
+  // Id of a saved run whose routes are measured again. Nothing is saved: the
+  // job's `routeResults` hold the outcome for the caller to merge into the
+  // run (see LighthouseStorage.replaceRoutes).
+  rerunOf?: string;
+  // Set by the scheduler; not accepted from API clients
+  monitorId?: string;
+  // Who the saved run belongs to, set by the server from the caller's
+  // session or the monitor; not accepted from API clients
+  ownerId?: string;
+  teamId?: string;
+}
+
+export interface DiscoveryRequest extends Omit<DiscoveryOptions, "maxRoutes"> {
+  url: string;
+}
+
+export interface JobProgress {
+  current: number;
+  total: number;
+  currentUrl: string;
+  routes?: RouteProgress[];
+}
+
+export interface Job {
+  id: string;
+  status: JobStatus;
+  request: JobRequest;
+  progress: JobProgress;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  error?: string;
+  // Set once the run has been saved by the server
+  result?: LighthouseResult;
+  // Set instead of `result` when a rerun completes, per strategy
+  routeResults?: Partial<Record<Strategy, Record<string, RouteResult>>>;
+}
+
+export interface ServerHealth {
+  hasApiKey: boolean;
+  hasSupabase: boolean;
+  // Providers jobs can be run with; missing on older servers
+  providers?: ProviderName[];
+}
+
+const JOB_SERVER_URL = (import.meta.env?.VITE_JOB_SERVER_URL || "").replace(
+  /\/$/,
+  ""
+);
+const POLL_INTERVAL = 2000;
+
+export const FINISHED_JOB_STATUSES: JobStatus[] = [
+  "completed",
+  "failed",
+  "cancelled",
+];
+
+export class JobClient {
+  // Sent with every request once signed in; see server/auth.ts
+  private static auth: { accessToken: string; teamId: string } | null = null;
+
+  static setAuth(auth: { accessToken: string; teamId: string } | null): void {
+    this.auth = auth;
+  }
+
+  private static async request<T>(
+    path: string,
+    init?: RequestInit
+  ): Promise<T> {
+    const response = await fetch(`${JOB_SERVER_URL}/api${path}`, {
+      ...init,
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.auth && {
+          Authorization: `Bearer ${this.auth.accessToken}`,
+          "X-Team-Id": this.auth.teamId,
+        }),
+        ...init?.headers,
+      },
+    });
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new Error(
+        body?.error ||
+          `Job server error: ${response.status} ${response.statusText}`
+      );
+    }
+
+    if (response.status === 204) return undefined as T;
+    return response.json();
+  }
+
+  static async getHealth(): Promise<ServerHealth | null> {
+    try {
+      return await this.request<ServerHealth>("/health");
+    } catch (error) {
+      console.warn("Job server not reachable:", error);
+      return null;
+    }
+  }
+
+  static async createJob(request: JobRequest): Promise<Job> {
+    return this.request<Job>("/jobs", {
+      method: "POST",
+      body: JSON.stringify(request),
+    });
+  }
+
+  static async getJob(id: string): Promise<Job> {
+    return this.request<Job>(`/jobs/${encodeURIComponent(id)}`);
+  }
+
+  static async cancelJob(id: string): Promise<Job> {
+    return this.request<Job>(`/jobs/${encodeURIComponent(id)}/cancel`, {
+      method: "POST",
+    });
+  }
+
+  static async discoverRoutes(
+    request: DiscoveryRequest
+  ): Promise<DiscoveryResult> {
+    return this.request<DiscoveryResult>("/discover", {
+      method: "POST",
+      body: JSON.stringify(request),
+    });
+  }
+
+  static async getRawReports(id: string): Promise<RawReports> {
+    return this.request<RawReports>(`/jobs/${encodeURIComponent(id)}/reports`);
+  }
+
+  static async getMonitors(): Promise<Monitor[]> {
+    return this.request<Monitor[]>("/monitors");
+  }
+
+  static async createMonitor(input: MonitorInput): Promise<Monitor> {
+    return this.request<Monitor>("/monitors", {
+      method: "POST",
+      body: JSON.stringify(input),
+    });
+  }
+
+  static async updateMonitor(
+    id: string,
+    changes: Partial<MonitorInput>
+  ): Promise<Monitor> {
+    return this.request<Monitor>(`/monitors/${encodeURIComponent(id)}`, {
+      method: "PATCH",
+      body: JSON.stringify(changes),
+    });
+  }
+
+  static async deleteMonitor(id: string): Promise<void> {
+    return this.request<void>(`/monitors/${encodeURIComponent(id)}`, {
+      method: "DELETE",
+    });
+  }
+
+  // Queues a run right away, outside the monitor's schedule
+  static async runMonitor(id: string): Promise<Job> {
+    return this.request<Job>(`/monitors/${encodeURIComponent(id)}/run`, {
+      method: "POST",
+    });
+  }
+
+  // Read through the server, which sees runs saved to its own fallback store
+  static async getMonitorResults(id: string): Promise<LighthouseResult[]> {
+    return this.request<LighthouseResult[]>(
+      `/monitors/${encodeURIComponent(id)}/results`
+    );
+  }
+
+  static async getAlertChannels(): Promise<AlertChannel[]> {
+    return this.request<AlertChannel[]>("/alerts");
+  }
+
+  static async createAlertChannel(
+    input: AlertChannelInput
+  ): Promise<AlertChannel> {
+    return this.request<AlertChannel>("/alerts", {
+      method: "POST",
+      body: JSON.stringify(input),
+    });
+  }
+
+  static async updateAlertChannel(
+    id: string,
+    changes: Partial<AlertChannelInput>
+  ): Promise<AlertChannel> {
+    return this.request<AlertChannel>(`/alerts/${encodeURIComponent(id)}`, {
+      method: "PATCH",
+      body: JSON.stringify(changes),
+    });
+  }
+
+  static async deleteAlertChannel(id: string): Promise<void> {
+    return this.request<void>(`/alerts/${encodeURIComponent(id)}`, {
+      method: "DELETE",
+    });
+  }
+
+  // Sends a sample alert right away; rejects with the delivery error
+  static async testAlertChannel(id: string): Promise<void> {
+    return this.request<void>(`/alerts/${encodeURIComponent(id)}/test`, {
+      method: "POST",
+    });
+  }
+
+  // Polls until the job finishes, reporting each status along the way
+  static async waitForJob(
+    id: string,
+    onUpdate: (job: Job) => void
+  ): Promise<Job> {
+    for (;;) {
+      const job = await this.getJob(id);
+      onUpdate(job);
+      if (FINISHED_JOB_STATUSES.includes(job.status)) return job;
+      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL));
+    }
+  }
+}
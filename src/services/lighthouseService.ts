@@ -1,4 +1,20 @@
-interface LighthouseMetrics {
+import { retryWithBackoff, runPool } from "../lib/concurrency";
+import { aggregateRuns } from "../lib/statistics";
+import type { DeviceProfile } from "../lib/profiles";
+import type { FailedRouteStatus, RouteOutcome } from "../lib/routeStatus";
+import {
+  AnalysisProvider,
+  FetchReportOptions,
+  PROVIDER_LABELS,
+  PageAuth,
+  ProviderName,
+} from "./analysisProvider";
+
+export type Strategy = "mobile" | "desktop";
+
+// All timings are in milliseconds. Metrics Lighthouse did not report for a
+// run (INP is only measured with user interaction, for example) are null.
+export interface LighthouseMetrics {
   performance: number;
   accessibility: number;
   bestPractices: number;
@@ -6,75 +22,252 @@ interface LighthouseMetrics {
   fcp: number;
   lcp: number;
   cls: number;
-  fid: number;
+  inp: number | null;
+  tbt: number | null;
+  speedIndex: number | null;
+  ttfb: number | null;
+  serverResponseTime: number | null;
 }
 
-interface PageSpeedResponse {
+// Spread of one metric across repeated runs of the same URL
+export interface MetricSummary {
+  median: number;
+  min: number;
+  max: number;
+  stdDev: number;
+}
+
+// Metrics that were null in every run have no entry
+export type MetricStats = Partial<
+  Record<keyof LighthouseMetrics, MetricSummary>
+>;
+
+export interface PageSpeedAudit {
+  id?: string;
+  title?: string;
+  description?: string;
+  score?: number | null;
+  scoreDisplayMode?: string;
+  numericValue?: number;
+  numericUnit?: string;
+  displayValue?: string;
+  metricSavings?: Record<string, number | undefined>;
+  details?: {
+    type?: string;
+    overallSavingsMs?: number;
+    overallSavingsBytes?: number;
+    items?: Record<string, unknown>[];
+  };
+}
+
+// A failing performance audit kept with each run, trimmed for storage
+export interface AuditFinding {
+  id: string;
+  title: string;
+  description: string;
+  docsUrl: string | null;
+  kind: "opportunity" | "diagnostic";
+  score: number | null;
+  displayValue: string | null;
+  savingsMs: number;
+  savingsBytes: number;
+  items: AuditItem[];
+}
+
+export interface AuditItem {
+  url: string | null;
+  wastedBytes: number | null;
+  wastedMs: number | null;
+  totalBytes: number | null;
+}
+
+// Chrome UX Report data as returned in `loadingExperience`
+export interface CruxMetric {
+  percentile: number;
+  distributions: { min: number; max?: number; proportion: number }[];
+  category?: "FAST" | "AVERAGE" | "SLOW" | "NONE";
+}
+
+export interface LoadingExperience {
+  id?: string;
+  metrics?: Record<string, CruxMetric | undefined>;
+  overall_category?: "FAST" | "AVERAGE" | "SLOW" | "NONE";
+  origin_fallback?: boolean;
+}
+
+export type FieldMetricKey = "lcp" | "inp" | "cls" | "fcp" | "ttfb";
+
+export type FieldCategory = "good" | "needs-improvement" | "poor";
+
+export interface FieldMetric {
+  // Same units as the lab metrics: milliseconds, unitless for CLS
+  p75: number;
+  good: number;
+  needsImprovement: number;
+  poor: number;
+  category: FieldCategory | null;
+}
+
+export interface FieldDataSet {
+  id: string;
+  category: FieldCategory | null;
+  metrics: Partial<Record<FieldMetricKey, FieldMetric>>;
+}
+
+export interface FieldData {
+  // Null when CrUX has too little traffic for the page or origin
+  page: FieldDataSet | null;
+  origin: FieldDataSet | null;
+}
+
+export interface PageSpeedResponse {
+  loadingExperience?: LoadingExperience;
+  originLoadingExperience?: LoadingExperience;
   lighthouseResult: {
     categories: {
-      performance: { score: number };
-      accessibility: { score: number };
-      "best-practices": { score: number };
-      seo: { score: number };
-    };
-    audits: {
-      "first-contentful-paint": { displayValue: string };
-      "largest-contentful-paint": { displayValue: string };
-      "cumulative-layout-shift": { displayValue: string };
-      "first-input-delay": { displayValue: string };
+      performance: {
+        score: number | null;
+        auditRefs?: { id: string; weight: number; group?: string }[];
+      };
+      accessibility: { score: number | null };
+      "best-practices": { score: number | null };
+      seo: { score: number | null };
     };
+    audits: Record<string, PageSpeedAudit | undefined>;
   };
 }
 
-export class LighthouseService {
-  private static readonly API_KEY = import.meta.env.VITE_PAGESPEED_API_KEY;
-  private static readonly BASE_URL =
-    "https://www.googleapis.com/pagespeedonline/v5/runPagespeed";
+const CRUX_METRICS: Record<FieldMetricKey, string> = {
+  lcp: "LARGEST_CONTENTFUL_PAINT_MS",
+  inp: "INTERACTION_TO_NEXT_PAINT",
+  cls: "CUMULATIVE_LAYOUT_SHIFT_SCORE",
+  fcp: "FIRST_CONTENTFUL_PAINT_MS",
+  ttfb: "EXPERIMENTAL_TIME_TO_FIRST_BYTE",
+};
+
+// Audits that only restate metric values or are not actionable
+const SKIPPED_AUDIT_GROUPS = new Set(["metrics", "hidden", "budgets"]);
+const SKIPPED_SCORE_MODES = new Set(["manual", "notApplicable", "error"]);
+const MAX_AUDIT_ITEMS = 15;
+
+// Lighthouse runtime error codes and Chrome network errors, as they appear in
+// the messages of both backends
+const TIMEOUT_ERRORS = /timed out|PROTOCOL_TIMEOUT|CRI_TIMEOUT|PAGE_HUNG/i;
+const UNREACHABLE_ERRORS =
+  /DNS_FAILURE|FAILED_DOCUMENT_REQUEST|ERR_NAME_NOT_RESOLVED|ERR_CONNECTION_\w+|ERR_ADDRESS_UNREACHABLE|ERR_INTERNET_DISCONNECTED|ERR_CERT_\w+/;
+const INVALID_URL_ERRORS = /INVALID_URL|invalid (value at '?)?url/i;
+
+export class PageSpeedApiError extends Error {
+  constructor(
+    message: string,
+    // HTTP status, or null when the API could not be reached at all
+    public status: number | null,
+    public retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = "PageSpeedApiError";
+  }
 
-  static async analyzeUrl(
-    url: string,
-    strategy: "mobile" | "desktop" = "mobile"
-  ): Promise<LighthouseMetrics> {
-    if (!this.API_KEY) {
-      console.error(
-        "PageSpeed Insights API key is required. Please add VITE_PAGESPEED_API_KEY to your environment variables."
-      );
-      throw new Error(
-        "PageSpeed Insights API key is required. Please add VITE_PAGESPEED_API_KEY to your environment variables."
-      );
-    }
+  // Quota (429), server-side failures and network errors are usually transient
+  get isRetryable(): boolean {
+    return this.status === null || this.status === 429 || this.status >= 500;
+  }
+}
 
-    const params = new URLSearchParams({
-      url: url,
-      key: this.API_KEY,
-      strategy: strategy,
-    });
+export interface AnalysisResult {
+  metrics: LighthouseMetrics;
+  fieldData: FieldData;
+  audits: AuditFinding[];
+  fullData: PageSpeedResponse;
+}
 
-    // Add each category as a separate parameter
-    params.append("category", "performance");
-    params.append("category", "accessibility");
-    params.append("category", "best-practices");
-    params.append("category", "seo");
+// With several runs, `metrics` holds the median of each metric and the other
+// fields come from the run closest to it
+export type RouteAnalysis =
+  | ({
+      ok: true;
+      retries: number;
+      runs: number;
+      stats: MetricStats;
+    } & AnalysisResult)
+  | { ok: false; retries: number; status: FailedRouteStatus; error: string };
+
+export interface RouteProgress {
+  path: string;
+  url: string;
+  state: "queued" | "running" | "retrying" | "done" | "failed";
+  retries: number;
+  // 1-based run currently in flight, out of `runs`
+  run: number;
+  runs: number;
+}
 
-    try {
-      console.log(`Fetching PageSpeed data for: ${url}?${params}`);
-      const response = await fetch(`${this.BASE_URL}?${params}`);
+export interface AnalyzeRoutesOptions {
+  strategy?: Strategy;
+  // Backend that runs Lighthouse; PageSpeed Insights when omitted
+  provider?: ProviderName;
+  // Overrides the configured concurrency for this call
+  concurrency?: number;
+  // Analyses per route; the results are aggregated to their median
+  runs?: number;
+  // Only for providers that support them, see AnalysisProvider
+  auth?: PageAuth;
+  profile?: DeviceProfile;
+  signal?: AbortSignal;
+  onProgress?: (routes: RouteProgress[]) => void;
+}
 
-      if (!response.ok) {
-        throw new Error(
-          `PageSpeed API error: ${response.status} ${response.statusText}`
-        );
-      }
+const CRUX_CATEGORIES: Record<string, FieldCategory> = {
+  FAST: "good",
+  AVERAGE: "needs-improvement",
+  SLOW: "poor",
+};
 
-      const data: PageSpeedResponse = await response.json();
+export class LighthouseService {
+  // Registered by the server (see server/setup.ts); the browser never
+  // analyzes pages itself
+  private static providers = new Map<ProviderName, AnalysisProvider>();
+  private static concurrency = 3;
+  private static maxRetries = 4;
+
+  static configure(options: {
+    providers?: AnalysisProvider[];
+    concurrency?: number;
+    maxRetries?: number;
+  }): void {
+    for (const provider of options.providers ?? []) {
+      this.providers.set(provider.name, provider);
+    }
+    this.concurrency = options.concurrency ?? this.concurrency;
+    this.maxRetries = options.maxRetries ?? this.maxRetries;
+  }
 
-      return this.parsePageSpeedResults(data);
-    } catch (error) {
-      console.error("Error fetching PageSpeed data:", error);
-      throw new Error(
-        "Failed to analyze page performance. Please check the URL and try again."
-      );
+  static isConfigured(provider: ProviderName = "pagespeed"): boolean {
+    return !!this.providers.get(provider)?.isConfigured();
+  }
+
+  // Providers that can run analyses right now
+  static getAvailableProviders(): ProviderName[] {
+    return [...this.providers.values()]
+      .filter((provider) => provider.isConfigured())
+      .map((provider) => provider.name);
+  }
+
+  private static getProvider(name: ProviderName): AnalysisProvider {
+    const provider = this.providers.get(name);
+    if (!provider) {
+      throw new Error(`Analysis provider "${name}" is not available`);
     }
+    return provider;
+  }
+
+  static async analyzeUrl(
+    url: string,
+    strategy: Strategy = "mobile",
+    provider: ProviderName = "pagespeed"
+  ): Promise<LighthouseMetrics> {
+    const data = await this.getProvider(provider).fetchReport(url, strategy);
+    return this.parsePageSpeedResults(data);
   }
 
   private static parsePageSpeedResults(
@@ -92,88 +285,340 @@ export class LighthouseService {
     );
     const seo = Math.round((categories.seo?.score || 0) * 100);
 
-    // Parse Core Web Vitals
-    const fcp = this.parseTimeValue(
-      audits["first-contentful-paint"]?.displayValue
-    );
-    const lcp = this.parseTimeValue(
-      audits["largest-contentful-paint"]?.displayValue
-    );
-    const cls = this.parseNumericValue(
-      audits["cumulative-layout-shift"]?.displayValue
-    );
-    const fid = this.parseTimeValue(
-      audits["first-input-delay"]?.displayValue,
-      true
-    );
+    // TTFB is only exposed on the summary "metrics" audit
+    const summary = audits["metrics"]?.details?.items?.[0];
+    const ttfb =
+      typeof summary?.timeToFirstByte === "number"
+        ? summary.timeToFirstByte
+        : null;
 
     return {
       performance,
       accessibility,
       bestPractices,
       seo,
-      fcp,
-      lcp,
-      cls,
-      fid,
+      fcp: this.numericValue(audits, "first-contentful-paint") ?? 0,
+      lcp: this.numericValue(audits, "largest-contentful-paint") ?? 0,
+      cls: this.numericValue(audits, "cumulative-layout-shift") ?? 0,
+      inp: this.numericValue(audits, "interaction-to-next-paint"),
+      tbt: this.numericValue(audits, "total-blocking-time"),
+      speedIndex: this.numericValue(audits, "speed-index"),
+      ttfb,
+      serverResponseTime: this.numericValue(audits, "server-response-time"),
     };
   }
 
-  private static parseTimeValue(
-    value: string | undefined,
-    isMilliseconds = false
-  ): number {
-    if (!value) return 0;
+  static parseFieldData(data: PageSpeedResponse): FieldData {
+    // PageSpeed repeats the origin data as `loadingExperience` when the page
+    // itself has too little traffic
+    const page = data.loadingExperience?.origin_fallback
+      ? null
+      : this.parseLoadingExperience(data.loadingExperience);
+
+    return {
+      page,
+      origin: this.parseLoadingExperience(data.originLoadingExperience),
+    };
+  }
 
-    // Extract numeric value from strings like "1.2 s" or "150 ms"
-    const match = value.match(/[\d.]+/);
-    if (!match) return 0;
+  private static parseLoadingExperience(
+    experience: LoadingExperience | undefined
+  ): FieldDataSet | null {
+    if (!experience?.metrics) return null;
 
-    const numValue = parseFloat(match[0]);
+    const metrics: FieldDataSet["metrics"] = {};
+    for (const [key, cruxKey] of Object.entries(CRUX_METRICS)) {
+      const metric = experience.metrics[cruxKey];
+      if (!metric) continue;
 
-    // Convert milliseconds to seconds if needed
-    if (isMilliseconds && value.includes("ms")) {
-      return numValue;
-    } else if (!isMilliseconds && value.includes("s")) {
-      return numValue;
+      const [good, needsImprovement, poor] = metric.distributions.map(
+        (bucket) => bucket.proportion
+      );
+      metrics[key as FieldMetricKey] = {
+        // CrUX reports CLS multiplied by 100
+        p75: key === "cls" ? metric.percentile / 100 : metric.percentile,
+        good: good ?? 0,
+        needsImprovement: needsImprovement ?? 0,
+        poor: poor ?? 0,
+        category: CRUX_CATEGORIES[metric.category ?? ""] ?? null,
+      };
     }
 
-    return numValue;
+    if (Object.keys(metrics).length === 0) return null;
+
+    return {
+      id: experience.id ?? "",
+      category: CRUX_CATEGORIES[experience.overall_category ?? ""] ?? null,
+      metrics,
+    };
+  }
+
+  static parseAudits(data: PageSpeedResponse): AuditFinding[] {
+    const { categories, audits } = data.lighthouseResult;
+    const refs =
+      categories.performance?.auditRefs ??
+      Object.keys(audits).map((id) => ({ id, weight: 0, group: undefined }));
+
+    const findings: AuditFinding[] = [];
+    for (const ref of refs) {
+      const audit = audits[ref.id];
+      if (!audit || (ref.group && SKIPPED_AUDIT_GROUPS.has(ref.group))) {
+        continue;
+      }
+      if (SKIPPED_SCORE_MODES.has(audit.scoreDisplayMode ?? "")) continue;
+
+      const savingsMs =
+        audit.details?.overallSavingsMs ??
+        Math.max(
+          0,
+          ...Object.values(audit.metricSavings ?? {}).map((v) => v ?? 0)
+        );
+      const savingsBytes = audit.details?.overallSavingsBytes ?? 0;
+      const isOpportunity =
+        audit.details?.type === "opportunity" ||
+        savingsMs > 0 ||
+        savingsBytes > 0;
+      const passed =
+        audit.score !== null && audit.score !== undefined && audit.score >= 0.9;
+
+      // Informative diagnostics have no score but are still worth listing
+      if (passed || (!isOpportunity && !audit.details?.items?.length)) continue;
+
+      findings.push({
+        id: ref.id,
+        title: audit.title ?? ref.id,
+        description: audit.description ?? "",
+        docsUrl: this.extractDocsUrl(audit.description),
+        kind: isOpportunity ? "opportunity" : "diagnostic",
+        score: audit.score ?? null,
+        displayValue: audit.displayValue ?? null,
+        savingsMs,
+        savingsBytes,
+        items: (audit.details?.items ?? [])
+          .slice(0, MAX_AUDIT_ITEMS)
+          .map((item) => this.parseAuditItem(item)),
+      });
+    }
+
+    return findings;
+  }
+
+  private static parseAuditItem(item: Record<string, unknown>): AuditItem {
+    const num = (value: unknown) => (typeof value === "number" ? value : null);
+    const node = item.node as { snippet?: string } | undefined;
+    const url =
+      typeof item.url === "string"
+        ? item.url
+        : typeof item.source === "string"
+          ? item.source
+          : (node?.snippet ?? null);
+
+    return {
+      url,
+      wastedBytes: num(item.wastedBytes),
+      wastedMs: num(item.wastedMs),
+      totalBytes: num(item.totalBytes) ?? num(item.transferSize),
+    };
   }
 
-  private static parseNumericValue(value: string | undefined): number {
-    if (!value) return 0;
-    const match = value.match(/[\d.]+/);
-    return match ? parseFloat(match[0]) : 0;
+  private static extractDocsUrl(
+    description: string | undefined
+  ): string | null {
+    const match = description?.match(/\[[^\]]+\]\((https?:\/\/[^)\s]+)\)/);
+    return match ? match[1] : null;
+  }
+
+  private static numericValue(
+    audits: PageSpeedResponse["lighthouseResult"]["audits"],
+    id: string
+  ): number | null {
+    const value = audits[id]?.numericValue;
+    return typeof value === "number" && Number.isFinite(value) ? value : null;
   }
 
   static async analyzeMultipleUrls(
     baseUrl: string,
-    routes: string[]
-  ): Promise<Record<string, LighthouseMetrics>> {
-    const results: Record<string, LighthouseMetrics> = {};
-
-    // Analyze each route sequentially to avoid rate limiting
-    for (const route of routes) {
-      const fullUrl = this.buildFullUrl(baseUrl, route);
-
-      try {
-        console.log(`Analyzing: ${fullUrl}`);
-        results[route] = await this.analyzeUrl(fullUrl);
-
-        // Add delay between requests to respect rate limits
-        await this.delay(1000);
-      } catch (error) {
-        console.error(`Failed to analyze ${fullUrl}:`, error);
-        // Continue with other routes even if one fails
-        results[route] = this.getErrorMetrics();
-      }
+    routes: string[],
+    options: AnalyzeRoutesOptions = {}
+  ): Promise<Record<string, LighthouseMetrics & RouteOutcome>> {
+    const analyses = await this.analyzeRoutes(baseUrl, routes, options);
+    const results: Record<string, LighthouseMetrics & RouteOutcome> = {};
+
+    for (const [route, analysis] of Object.entries(analyses)) {
+      results[route] = analysis.ok
+        ? { ...analysis.metrics, status: "ok" }
+        : this.getErrorMetrics(analysis.status, analysis.error);
     }
 
     return results;
   }
 
-  private static buildFullUrl(baseUrl: string, route: string): string {
+  // Sorts a route's last error into the statuses shown to users. Quota
+  // errors only end up here once the retries ran out.
+  static classifyFailure(error: unknown): FailedRouteStatus {
+    if (error instanceof PageSpeedApiError && error.status === 429) {
+      return "quota-exceeded";
+    }
+    const code =
+      typeof (error as { code?: unknown })?.code === "string"
+        ? (error as { code: string }).code
+        : "";
+    const text = `${code} ${error instanceof Error ? `${error.name} ${error.message}` : String(error)}`;
+    if (INVALID_URL_ERRORS.test(text)) return "invalid-url";
+    if (
+      (error instanceof PageSpeedApiError &&
+        (error.status === 408 || error.status === 504)) ||
+      (error instanceof Error && error.name === "TimeoutError") ||
+      TIMEOUT_ERRORS.test(text)
+    ) {
+      return "timeout";
+    }
+    if (UNREACHABLE_ERRORS.test(text)) return "unreachable";
+    return "failed";
+  }
+
+  private static isHttpUrl(url: string): boolean {
+    try {
+      return ["http:", "https:"].includes(new URL(url).protocol);
+    } catch {
+      return false;
+    }
+  }
+
+  // Analyzes routes through a small worker pool. Providers pace their own
+  // requests and transient failures are retried with backoff.
+  static async analyzeRoutes(
+    baseUrl: string,
+    routes: string[],
+    options: AnalyzeRoutesOptions = {}
+  ): Promise<Record<string, RouteAnalysis>> {
+    const {
+      strategy = "mobile",
+      provider = "pagespeed",
+      runs = 1,
+      auth,
+      profile,
+      signal,
+      onProgress,
+    } = options;
+    const backend = this.getProvider(provider);
+    if (auth && !backend.supportsAuth) {
+      throw new Error(
+        `${PROVIDER_LABELS[provider]} cannot test pages behind a login`
+      );
+    }
+    if (profile && !backend.supportsProfiles) {
+      throw new Error(
+        `${PROVIDER_LABELS[provider]} cannot emulate custom device profiles`
+      );
+    }
+    const progress: RouteProgress[] = routes.map((route) => ({
+      path: route,
+      url: this.buildFullUrl(baseUrl, route),
+      state: "queued",
+      retries: 0,
+      run: 0,
+      runs,
+    }));
+    const report = (index: number, update: Partial<RouteProgress>) => {
+      progress[index] = { ...progress[index], ...update };
+      onProgress?.(progress.map((route) => ({ ...route })));
+    };
+
+    const analyses = await runPool(
+      routes,
+      Math.min(
+        options.concurrency ?? this.concurrency,
+        backend.maxConcurrency ?? Infinity
+      ),
+      async (_route, index): Promise<RouteAnalysis> => {
+        const fullUrl = progress[index].url;
+        // Not worth a request, let alone retries
+        if (!this.isHttpUrl(fullUrl)) {
+          report(index, { state: "failed" });
+          return {
+            ok: false,
+            retries: 0,
+            status: "invalid-url",
+            error: `${fullUrl} is not a valid http(s) URL`,
+          };
+        }
+        const completed: AnalysisResult[] = [];
+        let retries = 0;
+        let lastError: unknown;
+
+        // Runs of one route stay sequential so they do not compete with each
+        // other for the same server and skew the spread
+        for (let run = 1; run <= runs; run++) {
+          report(index, { state: "running", run });
+          try {
+            completed.push(
+              await retryWithBackoff(
+                () =>
+                  this.analyzeUrlWithFullData(fullUrl, strategy, provider, {
+                    signal,
+                    auth,
+                    profile,
+                  }),
+                {
+                  retries: this.maxRetries,
+                  baseDelayMs: 2000,
+                  maxDelayMs: 60000,
+                  signal,
+                  shouldRetry: (error) =>
+                    error instanceof PageSpeedApiError && error.isRetryable,
+                  delayFor: (error) =>
+                    error instanceof PageSpeedApiError
+                      ? error.retryAfterMs
+                      : undefined,
+                  onRetry: (attempt, delayMs, error) => {
+                    retries++;
+                    console.warn(
+                      `Retrying ${fullUrl} run ${run} in ${delayMs}ms (attempt ${attempt}):`,
+                      error
+                    );
+                    report(index, { state: "retrying", retries });
+                  },
+                }
+              )
+            );
+          } catch (error) {
+            if (signal?.aborted) throw error;
+            // The remaining runs can still produce a usable median
+            console.error(`Failed to analyze ${fullUrl} (run ${run}):`, error);
+            lastError = error;
+          }
+        }
+
+        if (completed.length === 0) {
+          report(index, { state: "failed" });
+          return {
+            ok: false,
+            retries,
+            status: this.classifyFailure(lastError),
+            error:
+              lastError instanceof Error
+                ? lastError.message
+                : String(lastError),
+          };
+        }
+
+        report(index, { state: "done" });
+        return {
+          ok: true,
+          retries,
+          runs: completed.length,
+          ...aggregateRuns(completed),
+        };
+      }
+    );
+
+    return Object.fromEntries(
+      routes.map((route, index) => [route, analyses[index]])
+    );
+  }
+
+  static buildFullUrl(baseUrl: string, route: string): string {
     // Remove trailing slash from baseUrl and leading slash from route
     const cleanBaseUrl = baseUrl.replace(/\/$/, "");
     const cleanRoute = route.startsWith("/") ? route : `/${route}`;
@@ -181,8 +626,15 @@ export class LighthouseService {
     return `${cleanBaseUrl}${cleanRoute}`;
   }
 
-  private static getErrorMetrics(): LighthouseMetrics {
+  // Placeholder metrics of a failed route; its status keeps them out of
+  // averages, budgets and comparisons
+  static getErrorMetrics(
+    status: FailedRouteStatus = "failed",
+    error: string | null = null
+  ): LighthouseMetrics & RouteOutcome {
     return {
+      status,
+      error,
       performance: 0,
       accessibility: 0,
       bestPractices: 0,
@@ -190,60 +642,31 @@ export class LighthouseService {
       fcp: 0,
       lcp: 0,
       cls: 0,
-      fid: 0,
+      inp: null,
+      tbt: null,
+      speedIndex: null,
+      ttfb: null,
+      serverResponseTime: null,
     };
   }
 
-  private static delay(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
-  }
-
   static async analyzeUrlWithFullData(
     url: string,
-    strategy: "mobile" | "desktop" = "mobile"
-  ): Promise<{ metrics: LighthouseMetrics; fullData: PageSpeedResponse }> {
-    if (!this.API_KEY) {
-      console.error(
-        "PageSpeed Insights API key is required. Please add VITE_PAGESPEED_API_KEY to your environment variables."
-      );
-      throw new Error(
-        "PageSpeed Insights API key is required. Please add VITE_PAGESPEED_API_KEY to your environment variables."
-      );
-    }
-
-    const params = new URLSearchParams({
-      url: url,
-      key: this.API_KEY,
-      strategy: strategy,
-    });
-
-    // Add each category as a separate parameter
-    params.append("category", "performance");
-    params.append("category", "accessibility");
-    params.append("category", "best-practices");
-    params.append("category", "seo");
-
-    try {
-      console.log(`Fetching PageSpeed data for: ${url}?${params}`);
-      const response = await fetch(`${this.BASE_URL}?${params}`);
-
-      if (!response.ok) {
-        throw new Error(
-          `PageSpeed API error: ${response.status} ${response.statusText}`
-        );
-      }
-
-      const data: PageSpeedResponse = await response.json();
+    strategy: Strategy = "mobile",
+    provider: ProviderName = "pagespeed",
+    options: FetchReportOptions = {}
+  ): Promise<AnalysisResult> {
+    const data = await this.getProvider(provider).fetchReport(
+      url,
+      strategy,
+      options
+    );
 
-      return {
-        metrics: this.parsePageSpeedResults(data),
-        fullData: data,
-      };
-    } catch (error) {
-      console.error("Error fetching PageSpeed data:", error);
-      throw new Error(
-        "Failed to analyze page performance. Please check the URL and try again."
-      );
-    }
+    return {
+      metrics: this.parsePageSpeedResults(data),
+      fieldData: this.parseFieldData(data),
+      audits: this.parseAudits(data),
+      fullData: data,
+    };
   }
 }
@@ -0,0 +1,115 @@
+import { TokenBucket } from "../lib/concurrency";
+import type { AnalysisProvider, FetchReportOptions } from "./analysisProvider";
+import {
+  PageSpeedApiError,
+  PageSpeedResponse,
+  Strategy,
+} from "./lighthouseService";
+
+const DEFAULT_BASE_URL =
+  "https://www.googleapis.com/pagespeedonline/v5/runPagespeed";
+
+// PageSpeed usually answers within a minute; a request still open after this
+// is abandoned and retried
+const REQUEST_TIMEOUT_MS = 2 * 60 * 1000;
+
+// Runs Lighthouse on Google's infrastructure through the PageSpeed Insights
+// API, which can only reach public URLs but also returns CrUX field data
+export class PageSpeedProvider implements AnalysisProvider {
+  readonly name = "pagespeed";
+
+  private apiKey: string | undefined;
+  private baseUrl: string;
+  // Shared by every job so parallel jobs stay within the PageSpeed quota
+  private rateLimiter: TokenBucket;
+
+  constructor(
+    options: {
+      // Only configured on the server (see server/config.ts)
+      apiKey?: string;
+      baseUrl?: string;
+      requestsPerMinute?: number;
+    } = {}
+  ) {
+    this.apiKey = options.apiKey;
+    this.baseUrl = options.baseUrl || DEFAULT_BASE_URL;
+    const requestsPerMinute = options.requestsPerMinute || 60;
+    this.rateLimiter = new TokenBucket(
+      Math.max(1, Math.ceil(requestsPerMinute / 6)),
+      requestsPerMinute
+    );
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  async fetchReport(
+    url: string,
+    strategy: Strategy,
+    { signal }: FetchReportOptions = {}
+  ): Promise<PageSpeedResponse> {
+    if (!this.apiKey) {
+      console.error(
+        "PageSpeed Insights API key is required. Please set PAGESPEED_API_KEY for the job server."
+      );
+      throw new Error(
+        "PageSpeed Insights API key is required. Please set PAGESPEED_API_KEY for the job server."
+      );
+    }
+
+    const params = new URLSearchParams({
+      url: url,
+      key: this.apiKey,
+      strategy: strategy,
+    });
+
+    // Add each category as a separate parameter
+    params.append("category", "performance");
+    params.append("category", "accessibility");
+    params.append("category", "best-practices");
+    params.append("category", "seo");
+
+    await this.rateLimiter.take(signal);
+
+    try {
+      console.log(`Fetching PageSpeed data for: ${url} (${strategy})`);
+      const timeout = AbortSignal.timeout(REQUEST_TIMEOUT_MS);
+      const response = await fetch(`${this.baseUrl}?${params}`, {
+        signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+      });
+
+      if (!response.ok) {
+        const retryAfter = Number(response.headers.get("Retry-After"));
+        // The body says why, e.g. "Lighthouse returned error:
+        // FAILED_DOCUMENT_REQUEST ..." for a page that could not be loaded
+        const body = await response.json().catch(() => null);
+        const detail = body?.error?.message ? `: ${body.error.message}` : "";
+        throw new PageSpeedApiError(
+          `PageSpeed API error: ${response.status} ${response.statusText}${detail}`,
+          response.status,
+          retryAfter > 0 ? retryAfter * 1000 : undefined
+        );
+      }
+
+      return await response.json();
+    } catch (error) {
+      if (error instanceof PageSpeedApiError || signal?.aborted) throw error;
+      if (error instanceof Error && error.name === "TimeoutError") {
+        throw new PageSpeedApiError(
+          `PageSpeed API request timed out after ${REQUEST_TIMEOUT_MS / 1000}s`,
+          null
+        );
+      }
+      console.error("Error fetching PageSpeed data:", error);
+      // Saved as the route's error, so keep the cause, e.g. "ENOTFOUND"
+      const cause = (error as { cause?: { code?: unknown } })?.cause?.code;
+      throw new PageSpeedApiError(
+        `Could not reach the PageSpeed API: ${
+          error instanceof Error ? error.message : error
+        }${typeof cause === "string" ? ` (${cause})` : ""}`,
+        null
+      );
+    }
+  }
+}
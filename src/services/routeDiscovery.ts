@@ -0,0 +1,269 @@
+import { RouteTemplate, groupByTemplate, matchesAny } from "../lib/routes";
+
+export interface CrawlOptions {
+  // Link hops from the start page; 1 only follows links on the start page
+  maxDepth: number;
+  // Pages fetched while crawling, the start page included
+  maxPages: number;
+}
+
+export interface DiscoveryOptions {
+  // Read sitemap.xml and the sitemaps listed in robots.txt (default true)
+  sitemap?: boolean;
+  // Follow same-origin links from the start page; off when omitted
+  crawl?: CrawlOptions;
+  // Glob patterns such as `/blog/**`; only matching paths are kept
+  include?: string[];
+  // Glob patterns for paths to drop; excluded pages are not crawled either
+  exclude?: string[];
+  // Upper bound on the routes returned
+  maxRoutes?: number;
+}
+
+export interface DiscoveredRoute {
+  path: string;
+  source: "sitemap" | "crawl";
+}
+
+export interface DiscoveryResult {
+  routes: DiscoveredRoute[];
+  templates: RouteTemplate[];
+  // Sitemap documents that were read, sitemap indexes included
+  sitemaps: string[];
+  // Fetches that failed; discovery carries on without them
+  errors: string[];
+}
+
+export const DISCOVERY_LIMITS = {
+  maxDepth: 5,
+  maxPages: 200,
+  maxRoutes: 1000,
+  maxSitemaps: 50,
+};
+
+const FETCH_TIMEOUT = 15000;
+
+// Links to these are downloads or assets, not pages worth a Lighthouse run
+const NON_PAGE_EXTENSION =
+  /\.(pdf|zip|gz|xml|json|txt|csv|jpe?g|png|gif|svg|webp|avif|ico|mp[34]|webm|css|js|woff2?)$/i;
+
+const XML_ENTITIES: Record<string, string> = {
+  "&amp;": "&",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&quot;": '"',
+  "&apos;": "'",
+};
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/^<!\[CDATA\[|\]\]>$/g, "")
+    .replace(/&(amp|lt|gt|quot|apos);/g, (entity) => XML_ENTITIES[entity])
+    .trim();
+}
+
+export class RouteDiscovery {
+  static async discover(
+    baseUrl: string,
+    options: DiscoveryOptions = {}
+  ): Promise<DiscoveryResult> {
+    const origin = new URL(baseUrl).origin;
+    const { include = [], exclude = [] } = options;
+    const maxRoutes = Math.min(
+      options.maxRoutes ?? DISCOVERY_LIMITS.maxRoutes,
+      DISCOVERY_LIMITS.maxRoutes
+    );
+    const found = new Map<string, DiscoveredRoute>();
+    const sitemaps: string[] = [];
+    const errors: string[] = [];
+
+    const add = (url: string, source: DiscoveredRoute["source"]) => {
+      const path = this.toPath(url, origin);
+      if (!path || found.has(path) || found.size >= maxRoutes) return;
+      if (include.length > 0 && !matchesAny(path, include)) return;
+      if (matchesAny(path, exclude)) return;
+      found.set(path, { path, source });
+    };
+
+    if (options.sitemap ?? true) {
+      const urls = await this.readSitemaps(origin, sitemaps, errors);
+      urls.forEach((url) => add(url, "sitemap"));
+    }
+
+    if (options.crawl) {
+      const urls = await this.crawl(baseUrl, options.crawl, exclude, errors);
+      urls.forEach((url) => add(url, "crawl"));
+    }
+
+    const routes = [...found.values()];
+    return {
+      routes,
+      templates: groupByTemplate(routes.map((route) => route.path)),
+      sitemaps,
+      errors,
+    };
+  }
+
+  // Same-origin page path with query string, or null for anything else
+  static toPath(url: string, origin: string): string | null {
+    try {
+      const parsed = new URL(url, origin);
+      if (parsed.origin !== origin) return null;
+      if (NON_PAGE_EXTENSION.test(parsed.pathname)) return null;
+      return `${parsed.pathname}${parsed.search}`;
+    } catch {
+      return null;
+    }
+  }
+
+  // Both <urlset> page entries and <sitemapindex> child sitemaps
+  static parseSitemap(xml: string): { urls: string[]; sitemaps: string[] } {
+    const locs = (block: string) =>
+      [
+        ...xml.matchAll(
+          new RegExp(`<${block}\\b[^>]*>([\\s\\S]*?)</${block}>`, "gi")
+        ),
+      ]
+        .map((match) => /<loc>([\s\S]*?)<\/loc>/i.exec(match[1])?.[1])
+        .filter((loc): loc is string => !!loc)
+        .map(decodeXml);
+
+    return { urls: locs("url"), sitemaps: locs("sitemap") };
+  }
+
+  static parseRobotsSitemaps(robots: string): string[] {
+    return [...robots.matchAll(/^\s*sitemap:\s*(\S+)/gim)].map(
+      (match) => match[1]
+    );
+  }
+
+  static extractLinks(html: string, pageUrl: string): string[] {
+    const links: string[] = [];
+    for (const match of html.matchAll(
+      /<a\b[^>]*?\shref\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/gi
+    )) {
+      const href = decodeXml(match[1] ?? match[2] ?? match[3] ?? "");
+      if (!href || /^(mailto|tel|javascript|data):/i.test(href)) continue;
+      try {
+        const url = new URL(href, pageUrl);
+        url.hash = "";
+        links.push(url.href);
+      } catch {
+        // Not a URL; skip it
+      }
+    }
+    return links;
+  }
+
+  private static async fetchText(url: string): Promise<Response> {
+    const response = await fetch(url, {
+      redirect: "follow",
+      signal: AbortSignal.timeout(FETCH_TIMEOUT),
+    });
+    if (!response.ok) {
+      throw new Error(`${url}: HTTP ${response.status}`);
+    }
+    return response;
+  }
+
+  private static async readSitemap(url: string): Promise<string> {
+    const response = await this.fetchText(url);
+    // Servers that send .xml.gz as a plain file leave decompression to us
+    if (url.endsWith(".gz") && response.body) {
+      const stream = response.body.pipeThrough(new DecompressionStream("gzip"));
+      return new Response(stream).text();
+    }
+    return response.text();
+  }
+
+  private static async readSitemaps(
+    origin: string,
+    visited: string[],
+    errors: string[]
+  ): Promise<string[]> {
+    const queue = [`${origin}/sitemap.xml`];
+    try {
+      const robots = await (
+        await this.fetchText(`${origin}/robots.txt`)
+      ).text();
+      queue.push(...this.parseRobotsSitemaps(robots));
+    } catch {
+      // robots.txt is optional
+    }
+
+    const urls: string[] = [];
+    const seen = new Set<string>();
+    while (queue.length > 0 && visited.length < DISCOVERY_LIMITS.maxSitemaps) {
+      const sitemapUrl = queue.shift()!;
+      if (seen.has(sitemapUrl)) continue;
+      seen.add(sitemapUrl);
+
+      try {
+        const parsed = this.parseSitemap(await this.readSitemap(sitemapUrl));
+        visited.push(sitemapUrl);
+        urls.push(...parsed.urls);
+        queue.push(...parsed.sitemaps);
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    return urls;
+  }
+
+  // Breadth-first, so shallow pages are found before the page budget runs out
+  private static async crawl(
+    startUrl: string,
+    options: CrawlOptions,
+    exclude: string[],
+    errors: string[]
+  ): Promise<string[]> {
+    const origin = new URL(startUrl).origin;
+    const maxDepth = Math.min(options.maxDepth, DISCOVERY_LIMITS.maxDepth);
+    const maxPages = Math.min(options.maxPages, DISCOVERY_LIMITS.maxPages);
+    const found: string[] = [startUrl];
+    const seen = new Set([this.toPath(startUrl, origin)]);
+    // Pages that failed to load are dropped; links from the last level are
+    // never fetched, so they are kept unverified
+    const broken = new Set<string>();
+    let frontier = [startUrl];
+    let fetched = 0;
+
+    for (let depth = 0; depth < maxDepth && frontier.length > 0; depth++) {
+      const next: string[] = [];
+
+      for (const pageUrl of frontier) {
+        if (fetched >= maxPages) break;
+        fetched++;
+
+        let html: string;
+        // Relative links resolve against the page after any redirect
+        let finalUrl = pageUrl;
+        try {
+          const response = await this.fetchText(pageUrl);
+          if (!response.headers.get("content-type")?.includes("text/html")) {
+            continue;
+          }
+          finalUrl = response.url || pageUrl;
+          html = await response.text();
+        } catch (error) {
+          errors.push(error instanceof Error ? error.message : String(error));
+          broken.add(pageUrl);
+          continue;
+        }
+
+        for (const link of this.extractLinks(html, finalUrl)) {
+          const path = this.toPath(link, origin);
+          if (!path || seen.has(path) || matchesAny(path, exclude)) continue;
+          seen.add(path);
+          found.push(link);
+          next.push(link);
+        }
+      }
+
+      frontier = fetched >= maxPages ? [] : next;
+    }
+
+    return found.filter((url) => !broken.has(url));
+  }
+}
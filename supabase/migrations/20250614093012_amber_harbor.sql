@@ -0,0 +1,57 @@
+/*
+  # Store test strategy and raw PageSpeed reports
+
+  1. Changes
+    - `lighthouse_results`
+      - `strategy` (text, 'mobile' or 'desktop', null for older rows)
+
+  2. New Tables
+    - `lighthouse_raw_reports`
+      - `id` (uuid, primary key)
+      - `result_id` (uuid, references lighthouse_results)
+      - `route` (text, route path the report belongs to)
+      - `encoding` (text, how `payload` is encoded, currently 'gzip+base64')
+      - `payload` (text, compressed PageSpeed Insights response)
+      - `created_at` (timestamptz)
+
+  3. Security
+    - Enable RLS on `lighthouse_raw_reports` table
+    - Add policy for public read access
+    - Add policy for public insert access
+
+  4. Indexes
+    - Unique index on (result_id, route) for loading a run's reports
+*/
+
+ALTER TABLE lighthouse_results
+  ADD COLUMN IF NOT EXISTS strategy text
+  CHECK (strategy IN ('mobile', 'desktop'));
+
+CREATE TABLE IF NOT EXISTS lighthouse_raw_reports (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  result_id uuid NOT NULL REFERENCES lighthouse_results(id) ON DELETE CASCADE,
+  route text NOT NULL,
+  encoding text NOT NULL DEFAULT 'gzip+base64',
+  payload text NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE lighthouse_raw_reports ENABLE ROW LEVEL SECURITY;
+
+-- Allow public read access
+CREATE POLICY "Allow public read access"
+  ON lighthouse_raw_reports
+  FOR SELECT
+  TO anon
+  USING (true);
+
+-- Allow public insert access
+CREATE POLICY "Allow public insert access"
+  ON lighthouse_raw_reports
+  FOR INSERT
+  TO anon
+  WITH CHECK (true);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_lighthouse_raw_reports_result_route
+  ON lighthouse_raw_reports(result_id, route);
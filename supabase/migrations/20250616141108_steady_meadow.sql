@@ -0,0 +1,18 @@
+/*
+  # Document the per-route metrics schema
+
+  1. Changes
+    - `lighthouse_results.results` entries now hold every timing in
+      milliseconds, read from each audit's `numericValue`
+      - `fcp`, `lcp` (ms), `cls` (unitless)
+      - `inp`, `tbt`, `speedIndex`, `ttfb`, `serverResponseTime`
+        (ms, null when Lighthouse did not report them)
+    - `fid` is no longer written; Lighthouse stopped reporting it
+
+  2. Compatibility
+    - Older entries (no `tbt` key) stored `fcp`/`lcp` in seconds; the app
+      converts them when reading and shows the missing metrics as unavailable
+*/
+
+COMMENT ON COLUMN lighthouse_results.results IS
+  'Per-route metrics keyed by route path: performance, accessibility, bestPractices, seo (0-100), fcp, lcp, inp, tbt, speedIndex, ttfb, serverResponseTime (ms, nullable except fcp/lcp), cls (unitless). Entries without tbt are legacy rows with fcp/lcp in seconds.';
@@ -0,0 +1,17 @@
+/*
+  # Document repeated runs in the per-route metrics
+
+  1. Changes
+    - `lighthouse_results.results` entries may now come from several runs of
+      the same route
+      - the metric fields hold the median of those runs
+      - `runs` is the number of successful runs behind them
+      - `stats` maps each metric to its `median`, `min`, `max` and `stdDev`
+    - `avg_scores` is the average of the per-route medians
+
+  2. Compatibility
+    - Entries without `runs` were saved from a single run
+*/
+
+COMMENT ON COLUMN lighthouse_results.results IS
+  'Per-route metrics keyed by route path: performance, accessibility, bestPractices, seo (0-100), fcp, lcp, inp, tbt, speedIndex, ttfb, serverResponseTime (ms, nullable except fcp/lcp), cls (unitless). With runs > 1 the metrics are medians and stats holds {median, min, max, stdDev} per metric. Entries without tbt are legacy rows with fcp/lcp in seconds.';
@@ -0,0 +1,99 @@
+/*
+  # Scheduled monitors
+
+  1. New Tables
+    - `monitors`
+      - `id` (uuid, primary key)
+      - `name` (text)
+      - `url` (text, base URL to analyze)
+      - `domain` (text, extracted from URL)
+      - `routes` (jsonb, array of route configurations)
+      - `strategy` (text, 'mobile' or 'desktop')
+      - `schedule` (text, five-field cron expression)
+      - `runs` (integer, analyses per route, 1-5)
+      - `enabled` (boolean)
+      - `last_run_at` (timestamptz, when the scheduler last queued a run)
+      - `next_run_at` (timestamptz, null while disabled)
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz)
+
+  2. Changes
+    - `lighthouse_results`
+      - `monitor_id` (uuid, references monitors, null for manual runs)
+
+  3. Security
+    - Enable RLS on `monitors` table
+    - Add policies for public read, insert, update and delete access, since
+      monitors are managed from the same public tool
+    - The job server should use the service role key
+
+  4. Indexes
+    - Index on `next_run_at` for finding due monitors
+    - Index on `lighthouse_results.monitor_id` for filtering history
+*/
+
+CREATE TABLE IF NOT EXISTS monitors (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  url text NOT NULL,
+  domain text NOT NULL,
+  routes jsonb NOT NULL DEFAULT '[]'::jsonb,
+  strategy text NOT NULL DEFAULT 'mobile'
+    CHECK (strategy IN ('mobile', 'desktop')),
+  schedule text NOT NULL,
+  runs integer NOT NULL DEFAULT 1 CHECK (runs BETWEEN 1 AND 5),
+  enabled boolean NOT NULL DEFAULT true,
+  last_run_at timestamptz,
+  next_run_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE lighthouse_results
+  ADD COLUMN IF NOT EXISTS monitor_id uuid
+  REFERENCES monitors(id) ON DELETE SET NULL;
+
+-- Enable RLS
+ALTER TABLE monitors ENABLE ROW LEVEL SECURITY;
+
+-- Allow public read access
+CREATE POLICY "Allow public read access"
+  ON monitors
+  FOR SELECT
+  TO anon
+  USING (true);
+
+-- Allow public insert access
+CREATE POLICY "Allow public insert access"
+  ON monitors
+  FOR INSERT
+  TO anon
+  WITH CHECK (true);
+
+-- Allow public update access
+CREATE POLICY "Allow public update access"
+  ON monitors
+  FOR UPDATE
+  TO anon
+  USING (true)
+  WITH CHECK (true);
+
+-- Allow public delete access
+CREATE POLICY "Allow public delete access"
+  ON monitors
+  FOR DELETE
+  TO anon
+  USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_monitors_next_run_at
+  ON monitors(next_run_at)
+  WHERE enabled;
+
+CREATE INDEX IF NOT EXISTS idx_lighthouse_results_monitor_id
+  ON lighthouse_results(monitor_id);
+
+-- Reuses the function from the initial migration
+CREATE TRIGGER update_monitors_updated_at
+  BEFORE UPDATE ON monitors
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
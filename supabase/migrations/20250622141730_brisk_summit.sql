@@ -0,0 +1,24 @@
+/*
+  # Performance budgets
+
+  1. Changes
+    - `lighthouse_results.budget_results` (jsonb, nullable)
+      - `passed`: whether every route met its budgets
+      - `budgets`: the budgets the run was evaluated against
+      - `routes`: per route path, `passed` and the individual `checks`
+        (`metric`, `limit`, `value`, `passed`)
+    - `monitors.budgets` (jsonb): budgets applied to every scheduled run
+
+  2. Compatibility
+    - Results saved before budgets existed keep `budget_results` null and are
+      colored by the default Lighthouse score bands
+*/
+
+ALTER TABLE lighthouse_results
+  ADD COLUMN IF NOT EXISTS budget_results jsonb;
+
+ALTER TABLE monitors
+  ADD COLUMN IF NOT EXISTS budgets jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN lighthouse_results.budget_results IS
+  'Budget evaluation: {passed, budgets: [{path?, limits}], routes: {path: {passed, checks: [{metric, limit, value, passed}]}}}. Score limits are minimums, timing (ms) and cls limits are maximums.';
@@ -0,0 +1,92 @@
+/*
+  # Baselines and regression detection
+
+  1. New Tables
+    - `baselines`
+      - `id` (uuid, primary key)
+      - `domain` (text)
+      - `strategy` (text, 'mobile' or 'desktop')
+      - `result_id` (text, the run marked as baseline; not a foreign key so
+        the baseline survives the run being deleted)
+      - `url` (text)
+      - `timestamp` (timestamptz, when the baseline run was made)
+      - `results` (jsonb, per-route metrics copied from the run)
+      - `avg_scores` (jsonb)
+      - `tolerances` (jsonb, largest change per metric not flagged)
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz)
+
+  2. Changes
+    - `lighthouse_results.regression_results` (jsonb, nullable)
+      - `baseline_id`, `baseline_timestamp`: the baseline compared with
+      - `tolerances`: the tolerances in effect
+      - `regressed`: whether any route got worse beyond its tolerance
+      - `routes`: per route path present in both runs, the regressed metrics
+        (`metric`, `baseline`, `current`)
+
+  3. Security
+    - Enable RLS on `baselines` table
+    - Add policies for public read, insert, update and delete access
+
+  4. Indexes
+    - Unique index on (`domain`, `strategy`): one baseline per strategy
+*/
+
+CREATE TABLE IF NOT EXISTS baselines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  domain text NOT NULL,
+  strategy text NOT NULL CHECK (strategy IN ('mobile', 'desktop')),
+  result_id text NOT NULL,
+  url text NOT NULL,
+  timestamp timestamptz NOT NULL,
+  results jsonb NOT NULL,
+  avg_scores jsonb NOT NULL,
+  tolerances jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (domain, strategy)
+);
+
+ALTER TABLE lighthouse_results
+  ADD COLUMN IF NOT EXISTS regression_results jsonb;
+
+-- Enable RLS
+ALTER TABLE baselines ENABLE ROW LEVEL SECURITY;
+
+-- Allow public read access
+CREATE POLICY "Allow public read access"
+  ON baselines
+  FOR SELECT
+  TO anon
+  USING (true);
+
+-- Allow public insert access
+CREATE POLICY "Allow public insert access"
+  ON baselines
+  FOR INSERT
+  TO anon
+  WITH CHECK (true);
+
+-- Allow public update access
+CREATE POLICY "Allow public update access"
+  ON baselines
+  FOR UPDATE
+  TO anon
+  USING (true)
+  WITH CHECK (true);
+
+-- Allow public delete access
+CREATE POLICY "Allow public delete access"
+  ON baselines
+  FOR DELETE
+  TO anon
+  USING (true);
+
+-- Reuses the function from the initial migration
+CREATE TRIGGER update_baselines_updated_at
+  BEFORE UPDATE ON baselines
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON COLUMN lighthouse_results.regression_results IS
+  'Diff against the baseline: {baseline_id, baseline_timestamp, tolerances, regressed, routes: {path: [{metric, baseline, current}]}}. Scores regress when they drop, timings (ms) and cls when they grow.';
@@ -0,0 +1,57 @@
+/*
+  # Trend annotations
+
+  1. New Tables
+    - `annotations`
+      - `id` (uuid, primary key)
+      - `domain` (text, the domain whose trend charts show the marker)
+      - `timestamp` (timestamptz, when the event happened)
+      - `label` (text, e.g. "Deploy v2.4" or "Enabled image CDN")
+      - `created_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on `annotations` table
+    - Add policies for public read, insert and delete access
+
+  3. Indexes
+    - Index on (`domain`, `timestamp`) for loading a domain's markers
+    - Index on `lighthouse_results` (`domain`, `timestamp`) for trend ranges
+*/
+
+CREATE TABLE IF NOT EXISTS annotations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  domain text NOT NULL,
+  timestamp timestamptz NOT NULL,
+  label text NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE annotations ENABLE ROW LEVEL SECURITY;
+
+-- Allow public read access
+CREATE POLICY "Allow public read access"
+  ON annotations
+  FOR SELECT
+  TO anon
+  USING (true);
+
+-- Allow public insert access
+CREATE POLICY "Allow public insert access"
+  ON annotations
+  FOR INSERT
+  TO anon
+  WITH CHECK (true);
+
+-- Allow public delete access
+CREATE POLICY "Allow public delete access"
+  ON annotations
+  FOR DELETE
+  TO anon
+  USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_annotations_domain_timestamp
+  ON annotations(domain, timestamp);
+
+CREATE INDEX IF NOT EXISTS idx_lighthouse_results_domain_timestamp
+  ON lighthouse_results(domain, timestamp);
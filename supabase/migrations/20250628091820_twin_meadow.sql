@@ -0,0 +1,29 @@
+/*
+  # Mobile and desktop in one run
+
+  1. Changes
+    - `lighthouse_results.strategy` and `monitors.strategy` also accept 'both'
+    - `lighthouse_results.strategy_results` (jsonb, nullable)
+      - Set for 'both' runs, keyed by 'mobile' and 'desktop'; each holds the
+        strategy's `results`, `avg_scores`, `budget_results` and
+        `regression_results`
+      - `results` of a 'both' run is empty and `avg_scores` averages the two
+        strategies
+*/
+
+ALTER TABLE lighthouse_results
+  DROP CONSTRAINT IF EXISTS lighthouse_results_strategy_check;
+
+ALTER TABLE lighthouse_results
+  ADD CONSTRAINT lighthouse_results_strategy_check
+  CHECK (strategy IN ('mobile', 'desktop', 'both'));
+
+ALTER TABLE lighthouse_results
+  ADD COLUMN IF NOT EXISTS strategy_results jsonb;
+
+ALTER TABLE monitors
+  DROP CONSTRAINT IF EXISTS monitors_strategy_check;
+
+ALTER TABLE monitors
+  ADD CONSTRAINT monitors_strategy_check
+  CHECK (strategy IN ('mobile', 'desktop', 'both'));
@@ -0,0 +1,17 @@
+/*
+  # Analysis providers
+
+  1. Changes
+    - `lighthouse_results.provider` (text, nullable)
+      - 'pagespeed' for the PageSpeed Insights API, 'local' for Lighthouse
+        run against Chrome on the job server; null for older rows
+    - `monitors.provider` (text, defaults to 'pagespeed')
+*/
+
+ALTER TABLE lighthouse_results
+  ADD COLUMN IF NOT EXISTS provider text
+  CHECK (provider IN ('pagespeed', 'local'));
+
+ALTER TABLE monitors
+  ADD COLUMN IF NOT EXISTS provider text NOT NULL DEFAULT 'pagespeed'
+  CHECK (provider IN ('pagespeed', 'local'));
@@ -0,0 +1,324 @@
+/*
+  # Sign-in and team ownership
+
+  1. New Tables
+    - `teams`
+      - `id` (uuid, primary key)
+      - `name` (text)
+      - `created_by` (uuid, the auth user who created the team)
+      - `created_at` (timestamptz)
+    - `team_members`
+      - `team_id` (uuid, references teams)
+      - `user_id` (uuid, references auth.users)
+      - `role` (text, 'owner' or 'member'; owners can add members)
+      - `created_at` (timestamptz)
+      - Primary key (`team_id`, `user_id`)
+
+  2. Changes
+    - `owner_id` (uuid, the auth user who created the row) and `team_id`
+      (uuid, the team the row belongs to) on `lighthouse_results`,
+      `monitors`, `baselines` and `annotations`
+      - Rows saved before this migration have neither and are only visible
+        to the service role until assigned to a team
+    - Baselines are unique per (`team_id`, `domain`, `strategy`), so every
+      team keeps its own
+
+  3. Functions
+    - `is_team_member(team)`, `is_team_owner(team)`: membership checks for
+      the policies below; SECURITY DEFINER so policies on `team_members`
+      do not recurse into themselves
+    - `create_team(team_name)`: creates a team owned by the caller
+    - `add_team_member(team, member_email)`: lets owners add a registered
+      user by email
+
+  4. Security
+    - Drop every public (`anon`) policy; signed-out visitors see nothing
+    - Signed-in members read and write their teams' rows; new rows must be
+      owned by the caller and belong to one of their teams
+    - Raw reports follow the run they belong to
+    - The job server and CLI use the service role key, which bypasses RLS,
+      and check membership themselves
+*/
+
+CREATE TABLE IF NOT EXISTS teams (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  created_by uuid NOT NULL REFERENCES auth.users (id),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS team_members (
+  team_id uuid NOT NULL REFERENCES teams (id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+  role text NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'member')),
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (team_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_team_members_user_id
+  ON team_members (user_id);
+
+-- Ownership columns
+ALTER TABLE lighthouse_results
+  ADD COLUMN IF NOT EXISTS owner_id uuid REFERENCES auth.users (id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS team_id uuid REFERENCES teams (id) ON DELETE CASCADE;
+
+ALTER TABLE monitors
+  ADD COLUMN IF NOT EXISTS owner_id uuid REFERENCES auth.users (id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS team_id uuid REFERENCES teams (id) ON DELETE CASCADE;
+
+ALTER TABLE baselines
+  ADD COLUMN IF NOT EXISTS owner_id uuid REFERENCES auth.users (id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS team_id uuid REFERENCES teams (id) ON DELETE CASCADE;
+
+ALTER TABLE annotations
+  ADD COLUMN IF NOT EXISTS owner_id uuid REFERENCES auth.users (id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS team_id uuid REFERENCES teams (id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_lighthouse_results_team_id
+  ON lighthouse_results (team_id, timestamp DESC);
+CREATE INDEX IF NOT EXISTS idx_monitors_team_id ON monitors (team_id);
+CREATE INDEX IF NOT EXISTS idx_annotations_team_id ON annotations (team_id);
+
+ALTER TABLE baselines DROP CONSTRAINT IF EXISTS baselines_domain_strategy_key;
+ALTER TABLE baselines
+  ADD CONSTRAINT baselines_team_domain_strategy_key
+  UNIQUE NULLS NOT DISTINCT (team_id, domain, strategy);
+
+-- Membership checks
+CREATE OR REPLACE FUNCTION is_team_member(team uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM team_members
+    WHERE team_members.team_id = team AND team_members.user_id = auth.uid()
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION is_team_owner(team uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM team_members
+    WHERE team_members.team_id = team
+      AND team_members.user_id = auth.uid()
+      AND team_members.role = 'owner'
+  );
+$$;
+
+-- Inserts the team and its owner together; a plain insert could not
+-- return the new team, which the caller is not a member of yet
+CREATE OR REPLACE FUNCTION create_team(team_name text)
+RETURNS teams
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  created teams;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to create a team';
+  END IF;
+  IF coalesce(trim(team_name), '') = '' THEN
+    RAISE EXCEPTION 'Team name is required';
+  END IF;
+
+  INSERT INTO teams (name, created_by)
+  VALUES (trim(team_name), auth.uid())
+  RETURNING * INTO created;
+
+  INSERT INTO team_members (team_id, user_id, role)
+  VALUES (created.id, auth.uid(), 'owner');
+
+  RETURN created;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION add_team_member(team uuid, member_email text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  member uuid;
+BEGIN
+  IF NOT is_team_owner(team) THEN
+    RAISE EXCEPTION 'Only team owners can add members';
+  END IF;
+
+  SELECT id INTO member FROM auth.users
+  WHERE lower(email) = lower(trim(member_email));
+  IF member IS NULL THEN
+    RAISE EXCEPTION 'No user has signed up with %', member_email;
+  END IF;
+
+  INSERT INTO team_members (team_id, user_id, role)
+  VALUES (team, member, 'member')
+  ON CONFLICT (team_id, user_id) DO NOTHING;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_team(text) FROM anon;
+REVOKE EXECUTE ON FUNCTION add_team_member(uuid, text) FROM anon;
+
+-- Enable RLS
+ALTER TABLE teams ENABLE ROW LEVEL SECURITY;
+ALTER TABLE team_members ENABLE ROW LEVEL SECURITY;
+
+-- Members see their teams and who else is in them
+CREATE POLICY "Members can read their teams"
+  ON teams
+  FOR SELECT
+  TO authenticated
+  USING (is_team_member(id));
+
+CREATE POLICY "Owners can rename their teams"
+  ON teams
+  FOR UPDATE
+  TO authenticated
+  USING (is_team_owner(id))
+  WITH CHECK (is_team_owner(id));
+
+CREATE POLICY "Members can read their team members"
+  ON team_members
+  FOR SELECT
+  TO authenticated
+  USING (is_team_member(team_id));
+
+-- Owners remove members; anyone can leave
+CREATE POLICY "Owners and members themselves can remove members"
+  ON team_members
+  FOR DELETE
+  TO authenticated
+  USING (is_team_owner(team_id) OR user_id = auth.uid());
+
+-- Replace the public policies
+DROP POLICY IF EXISTS "Allow public read access" ON lighthouse_results;
+DROP POLICY IF EXISTS "Allow public insert access" ON lighthouse_results;
+DROP POLICY IF EXISTS "Allow public read access" ON lighthouse_raw_reports;
+DROP POLICY IF EXISTS "Allow public insert access" ON lighthouse_raw_reports;
+DROP POLICY IF EXISTS "Allow public read access" ON monitors;
+DROP POLICY IF EXISTS "Allow public insert access" ON monitors;
+DROP POLICY IF EXISTS "Allow public update access" ON monitors;
+DROP POLICY IF EXISTS "Allow public delete access" ON monitors;
+DROP POLICY IF EXISTS "Allow public read access" ON baselines;
+DROP POLICY IF EXISTS "Allow public insert access" ON baselines;
+DROP POLICY IF EXISTS "Allow public update access" ON baselines;
+DROP POLICY IF EXISTS "Allow public delete access" ON baselines;
+DROP POLICY IF EXISTS "Allow public read access" ON annotations;
+DROP POLICY IF EXISTS "Allow public insert access" ON annotations;
+DROP POLICY IF EXISTS "Allow public delete access" ON annotations;
+
+CREATE POLICY "Members can read team results"
+  ON lighthouse_results
+  FOR SELECT
+  TO authenticated
+  USING (is_team_member(team_id));
+
+CREATE POLICY "Members can insert team results"
+  ON lighthouse_results
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (owner_id = auth.uid() AND is_team_member(team_id));
+
+CREATE POLICY "Members can read team raw reports"
+  ON lighthouse_raw_reports
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM lighthouse_results
+      WHERE lighthouse_results.id = lighthouse_raw_reports.result_id
+        AND is_team_member(lighthouse_results.team_id)
+    )
+  );
+
+CREATE POLICY "Members can insert team raw reports"
+  ON lighthouse_raw_reports
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM lighthouse_results
+      WHERE lighthouse_results.id = lighthouse_raw_reports.result_id
+        AND is_team_member(lighthouse_results.team_id)
+    )
+  );
+
+CREATE POLICY "Members can read team monitors"
+  ON monitors
+  FOR SELECT
+  TO authenticated
+  USING (is_team_member(team_id));
+
+CREATE POLICY "Members can insert team monitors"
+  ON monitors
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (owner_id = auth.uid() AND is_team_member(team_id));
+
+CREATE POLICY "Members can update team monitors"
+  ON monitors
+  FOR UPDATE
+  TO authenticated
+  USING (is_team_member(team_id))
+  WITH CHECK (is_team_member(team_id));
+
+CREATE POLICY "Members can delete team monitors"
+  ON monitors
+  FOR DELETE
+  TO authenticated
+  USING (is_team_member(team_id));
+
+CREATE POLICY "Members can read team baselines"
+  ON baselines
+  FOR SELECT
+  TO authenticated
+  USING (is_team_member(team_id));
+
+CREATE POLICY "Members can insert team baselines"
+  ON baselines
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (owner_id = auth.uid() AND is_team_member(team_id));
+
+CREATE POLICY "Members can update team baselines"
+  ON baselines
+  FOR UPDATE
+  TO authenticated
+  USING (is_team_member(team_id))
+  WITH CHECK (is_team_member(team_id));
+
+CREATE POLICY "Members can delete team baselines"
+  ON baselines
+  FOR DELETE
+  TO authenticated
+  USING (is_team_member(team_id));
+
+CREATE POLICY "Members can read team annotations"
+  ON annotations
+  FOR SELECT
+  TO authenticated
+  USING (is_team_member(team_id));
+
+CREATE POLICY "Members can insert team annotations"
+  ON annotations
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (owner_id = auth.uid() AND is_team_member(team_id));
+
+CREATE POLICY "Members can delete team annotations"
+  ON annotations
+  FOR DELETE
+  TO authenticated
+  USING (is_team_member(team_id));
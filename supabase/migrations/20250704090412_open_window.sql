@@ -0,0 +1,86 @@
+/*
+  # Shareable report links
+
+  1. New Tables
+    - `result_shares`
+      - `id` (uuid, primary key)
+      - `result_id` (uuid, references lighthouse_results)
+      - `token` (text, unique; random, URL-safe)
+      - `expires_at` (timestamptz, null for links that never expire)
+      - `revoked_at` (timestamptz, set when the link is revoked)
+      - `owner_id` (uuid, the user who created the link)
+      - `team_id` (uuid, the team of the shared run)
+      - `created_at` (timestamptz)
+
+  2. Functions
+    - `get_shared_result(share_token)`: the run behind an active link, for
+      anyone holding the token. Ownership columns are left out.
+
+  3. Security
+    - Enable RLS on `result_shares`
+    - Team members can list, create and revoke links to their team's runs
+    - Signed-out visitors can only call `get_shared_result`; they cannot list
+      links or read any other run
+*/
+
+CREATE TABLE IF NOT EXISTS result_shares (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  result_id uuid NOT NULL REFERENCES lighthouse_results (id) ON DELETE CASCADE,
+  token text NOT NULL UNIQUE,
+  expires_at timestamptz,
+  revoked_at timestamptz,
+  owner_id uuid REFERENCES auth.users (id) ON DELETE SET NULL,
+  team_id uuid REFERENCES teams (id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_result_shares_result_id
+  ON result_shares (result_id, created_at DESC);
+
+CREATE OR REPLACE FUNCTION get_shared_result(share_token text)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT to_jsonb(lighthouse_results) - 'owner_id' - 'team_id' - 'monitor_id'
+  FROM result_shares
+  JOIN lighthouse_results ON lighthouse_results.id = result_shares.result_id
+  WHERE result_shares.token = share_token
+    AND result_shares.revoked_at IS NULL
+    AND (result_shares.expires_at IS NULL OR result_shares.expires_at > now());
+$$;
+
+GRANT EXECUTE ON FUNCTION get_shared_result(text) TO anon, authenticated;
+
+-- Enable RLS
+ALTER TABLE result_shares ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can read team share links"
+  ON result_shares
+  FOR SELECT
+  TO authenticated
+  USING (is_team_member(team_id));
+
+-- Links can only point at runs of the same team
+CREATE POLICY "Members can create team share links"
+  ON result_shares
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    owner_id = auth.uid()
+    AND is_team_member(team_id)
+    AND EXISTS (
+      SELECT 1 FROM lighthouse_results
+      WHERE lighthouse_results.id = result_shares.result_id
+        AND lighthouse_results.team_id = result_shares.team_id
+    )
+  );
+
+CREATE POLICY "Members can revoke team share links"
+  ON result_shares
+  FOR UPDATE
+  TO authenticated
+  USING (is_team_member(team_id))
+  WITH CHECK (is_team_member(team_id));
@@ -0,0 +1,64 @@
+/*
+  # Alert channels
+
+  1. New Tables
+    - `alert_channels`
+      - `id` (uuid, primary key)
+      - `domain` (text, the site whose runs are alerted on)
+      - `type` (text, `webhook`, `slack` or `email`)
+      - `target` (text, the webhook URL, or comma separated email addresses)
+      - `enabled` (boolean)
+      - `last_alerted` (jsonb, when each failing route and metric was last
+        sent, so a flapping metric is not alerted on every run)
+      - `owner_id` (uuid, the user who added the channel)
+      - `team_id` (uuid)
+      - `created_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on `alert_channels`
+    - Team members can manage their team's channels; the job server sends
+      the alerts and records `last_alerted` with the service role
+*/
+
+CREATE TABLE IF NOT EXISTS alert_channels (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  domain text NOT NULL,
+  type text NOT NULL CHECK (type IN ('webhook', 'slack', 'email')),
+  target text NOT NULL,
+  enabled boolean NOT NULL DEFAULT true,
+  last_alerted jsonb NOT NULL DEFAULT '{}'::jsonb,
+  owner_id uuid REFERENCES auth.users (id) ON DELETE SET NULL,
+  team_id uuid REFERENCES teams (id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_channels_team_domain
+  ON alert_channels (team_id, domain);
+
+-- Enable RLS
+ALTER TABLE alert_channels ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can read team alert channels"
+  ON alert_channels
+  FOR SELECT
+  TO authenticated
+  USING (is_team_member(team_id));
+
+CREATE POLICY "Members can insert team alert channels"
+  ON alert_channels
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (owner_id = auth.uid() AND is_team_member(team_id));
+
+CREATE POLICY "Members can update team alert channels"
+  ON alert_channels
+  FOR UPDATE
+  TO authenticated
+  USING (is_team_member(team_id))
+  WITH CHECK (is_team_member(team_id));
+
+CREATE POLICY "Members can delete team alert channels"
+  ON alert_channels
+  FOR DELETE
+  TO authenticated
+  USING (is_team_member(team_id));
@@ -0,0 +1,16 @@
+/*
+  # Login credentials for monitors
+
+  1. Changes
+    - `monitors`
+      - `auth_encrypted` (text, headers, cookies and login steps for pages
+        behind a login, encrypted by the job server with CREDENTIALS_KEY;
+        null for public pages)
+
+  2. Security
+    - No policy changes. Team members can read the column, but only the job
+      server holds the key, and its API never returns the column.
+*/
+
+ALTER TABLE monitors
+  ADD COLUMN IF NOT EXISTS auth_encrypted text;
@@ -0,0 +1,12 @@
+/*
+  # Device profiles
+
+  1. Changes
+    - `lighthouse_results.profiles` (jsonb, nullable, the device and network
+      emulated per strategy, e.g. `{ "mobile": { "name": "Slow 3G low-end
+      Android", "screen": {...}, "network": {...}, ... } }`; null, or a
+      strategy missing from it, means Lighthouse's default for the strategy)
+*/
+
+ALTER TABLE lighthouse_results
+  ADD COLUMN IF NOT EXISTS profiles jsonb;
@@ -0,0 +1,42 @@
+/*
+  # Re-measuring routes of a saved run
+
+  1. Changes
+    - No new columns. Each route in `lighthouse_results.results` (and in
+      `strategy_results`) now has a `status` (`ok`, `failed`, `timeout`,
+      `quota-exceeded`, `unreachable` or `invalid-url`) and the `error` of a
+      failed route; rows saved before are read as measured, except all-zero
+      routes, which were failures.
+
+  2. Security
+    - Team members can update their team's runs, so a failed route can be
+      measured again and merged into the run it belongs to
+    - Team members can update their team's raw reports, which re-measured
+      routes replace
+*/
+
+CREATE POLICY "Members can update team results"
+  ON lighthouse_results
+  FOR UPDATE
+  TO authenticated
+  USING (is_team_member(team_id))
+  WITH CHECK (is_team_member(team_id));
+
+CREATE POLICY "Members can update team raw reports"
+  ON lighthouse_raw_reports
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM lighthouse_results
+      WHERE lighthouse_results.id = lighthouse_raw_reports.result_id
+        AND is_team_member(lighthouse_results.team_id)
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM lighthouse_results
+      WHERE lighthouse_results.id = lighthouse_raw_reports.result_id
+        AND is_team_member(lighthouse_results.team_id)
+    )
+  );
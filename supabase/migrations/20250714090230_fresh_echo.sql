@@ -0,0 +1,16 @@
+/*
+  # Re-run history
+
+  1. Changes
+    - `lighthouse_results.reruns` (jsonb, nullable, the routes measured again
+      after the run, oldest first, e.g. `[{ "at": "2025-07-14T09:02:30Z",
+      "strategy": "mobile", "routes": ["/", "/pricing"], "failed": [] }]`;
+      null when no route was re-run)
+
+  2. Security
+    - No changes; re-runs are written with the update policy added in
+      20250712094005_second_wind.sql
+*/
+
+ALTER TABLE lighthouse_results
+  ADD COLUMN IF NOT EXISTS reruns jsonb;
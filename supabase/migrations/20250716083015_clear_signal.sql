@@ -0,0 +1,11 @@
+/*
+  # Monitor errors
+
+  1. Changes
+    - `monitors.last_error` (text, nullable, why the last due run could not
+      be queued, e.g. saved credentials that no longer decrypt after
+      CREDENTIALS_KEY changed; null once a run is queued)
+*/
+
+ALTER TABLE monitors
+  ADD COLUMN IF NOT EXISTS last_error text;
@@ -0,0 +1,66 @@
+import assert from "node:assert/strict";
+import { beforeEach, describe, it } from "node:test";
+import { importRuns, parseImport } from "../src/lib/historyTransfer";
+import {
+  LOCAL_HISTORY_LIMIT,
+  LighthouseStorage,
+  LocalStore,
+} from "../src/lib/supabase";
+
+// A CSV with one mobile route per run, a minute apart
+function csvOf(runs: number): string {
+  const header =
+    "timestamp,url,strategy,route_path,performance,accessibility,bestPractices,seo,fcp,lcp,cls";
+  const rows = Array.from({ length: runs }, (_, index) => {
+    const timestamp = new Date(Date.UTC(2025, 0, 1, 12, index)).toISOString();
+    return `${timestamp},https://example.com,mobile,/,90,95,100,98,1200,2400,0.05`;
+  });
+  return [header, ...rows].join("\n");
+}
+
+function memoryStore(): LocalStore {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+    removeItem: (key) => void items.delete(key),
+  };
+}
+
+describe("importRuns without Supabase", () => {
+  beforeEach(() => {
+    LighthouseStorage.configure({ client: null, localStore: memoryStore() });
+  });
+
+  it("saves every run of a multi-run CSV under its own id", async () => {
+    const summary = await importRuns(parseImport("runs.csv", csvOf(8)));
+    assert.deepEqual(summary, {
+      imported: 8,
+      duplicates: 0,
+      failed: 0,
+      errors: [],
+    });
+
+    const saved = await LighthouseStorage.getResultsByDomain("example.com");
+    assert.equal(saved.length, 8);
+    assert.equal(new Set(saved.map((result) => result.id)).size, 8);
+  });
+
+  it("skips the runs of a repeated import as duplicates", async () => {
+    await importRuns(parseImport("runs.csv", csvOf(8)));
+    const summary = await importRuns(parseImport("runs.csv", csvOf(8)));
+    assert.equal(summary.imported, 0);
+    assert.equal(summary.duplicates, 8);
+  });
+
+  it("stops at the local history limit and reports the runs left out", async () => {
+    const runs = LOCAL_HISTORY_LIMIT + 5;
+    const summary = await importRuns(parseImport("runs.csv", csvOf(runs)));
+    assert.equal(summary.imported, LOCAL_HISTORY_LIMIT);
+    assert.equal(summary.failed, 5);
+    assert.match(summary.errors[0], /5 run\(s\) were not imported/);
+
+    const saved = await LighthouseStorage.getResultsByDomain("example.com");
+    assert.equal(saved.length, LOCAL_HISTORY_LIMIT);
+  });
+});
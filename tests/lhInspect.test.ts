@@ -0,0 +1,214 @@
+import assert from "node:assert/strict";
+import { ChildProcess, execFile, spawn } from "node:child_process";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { createServer } from "node:net";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import type { CliReport } from "../cli/report";
+
+// Runs the CLI against the mock PageSpeed API (npm run mock:pagespeed) with
+// its own data directory, the way a CI pipeline would
+
+let mock: ChildProcess;
+let apiUrl: string;
+let dir: string;
+
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = createServer();
+    server.once("error", reject);
+    server.listen(0, () => {
+      const address = server.address();
+      server.close(() =>
+        resolve(typeof address === "object" && address ? address.port : 0)
+      );
+    });
+  });
+}
+
+function runCli(args: string[]): Promise<{ code: number; output: string }> {
+  return new Promise((resolve) => {
+    execFile(
+      process.execPath,
+      ["--import", "tsx", "cli/lh-inspect.ts", ...args],
+      {
+        env: {
+          PATH: process.env.PATH,
+          PAGESPEED_API_KEY: "test-key",
+          PAGESPEED_API_URL: apiUrl,
+          PAGESPEED_MAX_RETRIES: "0",
+          LIGHTHOUSE_DATA_DIR: path.join(dir, "data"),
+          LOCAL_LIGHTHOUSE: "false",
+        },
+      },
+      (error, stdout, stderr) =>
+        resolve({
+          code: error ? Number(error.code) : 0,
+          output: stdout + stderr,
+        })
+    );
+  });
+}
+
+const readReport = (file: string): CliReport =>
+  JSON.parse(readFileSync(file, "utf8"));
+
+describe("lh-inspect", () => {
+  before(async () => {
+    dir = mkdtempSync(path.join(tmpdir(), "lh-inspect-"));
+    const port = await freePort();
+    apiUrl = `http://localhost:${port}/pagespeedonline/v5/runPagespeed`;
+
+    mock = spawn(
+      process.execPath,
+      ["--import", "tsx", "server/mockPageSpeed.ts"],
+      {
+        env: {
+          PATH: process.env.PATH,
+          MOCK_PORT: String(port),
+          MOCK_LATENCY_MS: "0",
+        },
+      }
+    );
+    await new Promise<void>((resolve, reject) => {
+      mock.once("exit", (code) =>
+        reject(new Error(`Mock exited with ${code}`))
+      );
+      mock.stdout?.on("data", (chunk: Buffer) => {
+        if (chunk.toString().includes("Mock PageSpeed API on")) resolve();
+      });
+    });
+  });
+
+  after(() => {
+    mock.removeAllListeners("exit");
+    mock.kill();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("exits with 0 and writes passing reports when nothing failed", async () => {
+    const json = path.join(dir, "pass.json");
+    const junit = path.join(dir, "pass.xml");
+    const { code, output } = await runCli([
+      "run",
+      "--url",
+      "https://example.com",
+      "--routes",
+      "/,/about",
+      "--no-save",
+      "--no-alert",
+      "--json",
+      json,
+      "--junit",
+      junit,
+    ]);
+
+    assert.equal(code, 0, output);
+    assert.match(output, /PASSED \(exit code 0\)/);
+
+    const report = readReport(json);
+    assert.equal(report.passed, true);
+    assert.equal(report.exitCode, 0);
+    assert.deepEqual(
+      report.reports.map((strategyReport) => strategyReport.strategy),
+      ["mobile"]
+    );
+    assert.deepEqual(Object.keys(report.reports[0].routes).sort(), [
+      "/",
+      "/about",
+    ]);
+
+    const xml = readFileSync(junit, "utf8");
+    assert.match(xml, /<testsuites name="lh-inspect" tests="2" failures="0"/);
+    assert.doesNotMatch(xml, /<failure|<error/);
+  });
+
+  it("exits with 1 and reports the failures when a budget is missed", async () => {
+    const budget = path.join(dir, "budget.json");
+    writeFileSync(
+      budget,
+      JSON.stringify([{ limits: { performance: 100, lcp: 1 } }])
+    );
+    const json = path.join(dir, "fail.json");
+    const junit = path.join(dir, "fail.xml");
+    const { code, output } = await runCli([
+      "run",
+      "--url",
+      "https://example.com",
+      "--strategy",
+      "both",
+      "--budget",
+      budget,
+      "--no-save",
+      "--no-alert",
+      "--json",
+      json,
+      "--junit",
+      junit,
+    ]);
+
+    assert.equal(code, 1, output);
+    assert.match(output, /FAILED \(exit code 1\)/);
+
+    const report = readReport(json);
+    assert.equal(report.passed, false);
+    assert.equal(report.exitCode, 1);
+    assert.deepEqual(
+      report.reports.map((strategyReport) => strategyReport.strategy),
+      ["mobile", "desktop"]
+    );
+    for (const strategyReport of report.reports) {
+      assert.equal(strategyReport.budgets?.passed, false);
+    }
+
+    const xml = readFileSync(junit, "utf8");
+    assert.equal(xml.match(/<testsuite /g)?.length, 2);
+    assert.match(xml, /<failure message=/);
+  });
+
+  it("exits with 1 when a route regressed beyond the baseline", async () => {
+    const setBaseline = await runCli([
+      "run",
+      "--url",
+      "https://example.com",
+      "--set-baseline",
+      "--no-alert",
+    ]);
+    assert.equal(setBaseline.code, 0, setBaseline.output);
+
+    // Makes the saved baseline far faster than the deterministic mock
+    const storeFile = path.join(dir, "data", "local-storage.json");
+    const store = JSON.parse(readFileSync(storeFile, "utf8"));
+    const baselines = JSON.parse(store["lighthouse-baselines"]);
+    for (const baseline of baselines) {
+      for (const metrics of Object.values(baseline.results)) {
+        Object.assign(metrics as object, { performance: 100, lcp: 100 });
+      }
+    }
+    store["lighthouse-baselines"] = JSON.stringify(baselines);
+    writeFileSync(storeFile, JSON.stringify(store));
+
+    const json = path.join(dir, "regressed.json");
+    const { code, output } = await runCli([
+      "run",
+      "--url",
+      "https://example.com",
+      "--no-save",
+      "--no-alert",
+      "--json",
+      json,
+    ]);
+
+    assert.equal(code, 1, output);
+    const report = readReport(json);
+    assert.equal(report.passed, false);
+    assert.equal(report.reports[0].regressions?.regressed, true);
+  });
+
+  it("exits with 2 on invalid arguments", async () => {
+    const { code, output } = await runCli(["run", "--strategy", "tablet"]);
+    assert.equal(code, 2);
+    assert.match(output, /Usage: lh-inspect run/);
+  });
+});
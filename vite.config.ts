@@ -7,4 +7,10 @@ export default defineConfig({
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
+  server: {
+    // The job server (npm run server) owns the PageSpeed API key
+    proxy: {
+      '/api': 'http://localhost:8787',
+    },
+  },
 });